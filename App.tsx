@@ -1,6 +1,6 @@
 
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { HashRouter, Routes, Route, Navigate, useParams } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import LoginPage from './pages/LoginPage';
@@ -13,9 +13,16 @@ import { UserRole } from './types';
 import Header from './components/Header';
 import Footer from './components/Footer';
 import CollaboratorPage from './pages/CollaboratorPage';
+import TelaoDisplayPage from './pages/TelaoDisplayPage';
 import OrganizerEventsPage from './pages/organizer/OrganizerEventsPage';
+import { startOutboxWorker } from './services/notifications';
+import { apiGetBoothSession, apiEndBoothSession, storeStaffCheckinInfo, storeCollaboratorCheckinInfo } from './services/api';
+import { onForbidden } from './services/supabase';
 
 const App: React.FC = () => {
+  // Any open client retries pending notification deliveries in the background.
+  useEffect(() => startOutboxWorker(), []);
+
   return (
     <HashRouter>
       <AuthProvider>
@@ -27,17 +34,20 @@ const App: React.FC = () => {
               <Route path="/" element={<CheckinPage />} />
               
               <Route path="/informes/:boothCode" element={
-                <StaffRoute>
+                <BoothRoute kind="staff">
                   <InformesPage />
-                </StaffRoute>
+                </BoothRoute>
               } />
 
               <Route path="/collaborator/:boothCode" element={
-                <CollaboratorRoute>
+                <BoothRoute kind="collaborator">
                   <CollaboratorPage />
-                </CollaboratorRoute>
+                </BoothRoute>
               } />
               
+              {/* Opened on the big screen with the event's display token */}
+              <Route path="/telao/:eventId" element={<TelaoDisplayPage />} />
+
               <Route path="/organizer/events" element={
                 <ProtectedRoute roles={[UserRole.ORGANIZER]}>
                   <OrganizerEventsPage />
@@ -71,6 +81,8 @@ interface ProtectedRouteProps {
   roles: UserRole[];
 }
 
+// `isAuthenticated` and `user` come from a session the server has validated
+// (see AuthContext); expired or revoked sessions are treated as logged out.
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
   const { isAuthenticated, user, loading } = useAuth();
   
@@ -100,47 +112,91 @@ const MasterAdminRoute: React.FC<{ children: JSX.Element }> = ({ children }) =>
     return <Navigate to="/login" replace />;
   }
 
-  if (!user?.isMaster) {
+  if (!user || user.role !== UserRole.ADMIN || !user.isMaster) {
     return <Navigate to="/" replace />;
   }
 
   return children;
 };
 
-const StaffRoute: React.FC<{children: JSX.Element}> = ({ children }) => {
-    const { boothCode } = useParams<{ boothCode: string }>();
-    const checkinInfoRaw = sessionStorage.getItem('checkinInfo');
+// Booth sessions are re-checked periodically so a revoked one is noticed even
+// while the page only reads data, which row-level security just filters.
+const BOOTH_SESSION_CHECK_MS = 5 * 60 * 1000;
 
-    if (!checkinInfoRaw) {
-        return <Navigate to="/" replace />;
-    }
+// setTimeout fires at once for longer delays
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
 
-    try {
-        const checkinInfo = JSON.parse(checkinInfoRaw);
-        if (checkinInfo.boothCode !== boothCode) {
-            return <Navigate to="/" replace />;
-        }
-    } catch (e) {
-        return <Navigate to="/" replace />;
-    }
-
-    return children;
+const CHECKIN_INFO_KEYS = {
+    staff: 'checkinInfo',
+    collaborator: 'collaboratorCheckinInfo',
 };
 
-const CollaboratorRoute: React.FC<{children: JSX.Element}> = ({ children }) => {
+// The booth pages are only shown for a session the server confirms belongs to
+// this booth. The check-in info they read is rewritten from the server's answer.
+// When the server cannot be reached (booths may work offline), the stored
+// check-in info is trusted until the next successful check.
+const BoothRoute: React.FC<{ kind: 'staff' | 'collaborator'; children: JSX.Element }> = ({ kind, children }) => {
     const { boothCode } = useParams<{ boothCode: string }>();
-    const checkinInfoRaw = sessionStorage.getItem('collaboratorCheckinInfo');
-
-    if (!checkinInfoRaw) {
-        return <Navigate to="/" replace />;
+    const [status, setStatus] = useState<'checking' | 'valid' | 'invalid'>('checking');
+
+    useEffect(() => {
+        let cancelled = false;
+        let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const hasStoredCheckin = () => {
+            try {
+                const info = JSON.parse(sessionStorage.getItem(CHECKIN_INFO_KEYS[kind]) || 'null');
+                return !!info && info.boothCode === boothCode;
+            } catch (e) {
+                return false;
+            }
+        };
+
+        const verify = async () => {
+            try {
+                const session = await apiGetBoothSession();
+                if (cancelled) return;
+
+                if (!session || session.company.boothCode !== boothCode) {
+                    apiEndBoothSession();
+                    setStatus('invalid');
+                    return;
+                }
+                if (kind === 'staff' && session.staff) {
+                    storeStaffCheckinInfo({ staff: session.staff, event: session.event, company: session.company });
+                } else if (kind === 'collaborator' && session.collaborator) {
+                    storeCollaboratorCheckinInfo({ collaborator: session.collaborator, event: session.event, company: session.company });
+                } else {
+                    setStatus('invalid');
+                    return;
+                }
+                setStatus('valid');
+
+                if (expiryTimer) clearTimeout(expiryTimer);
+                const untilExpiry = Math.max(0, new Date(session.expiresAt).getTime() - Date.now()) + 1000;
+                expiryTimer = setTimeout(verify, Math.min(untilExpiry, MAX_TIMEOUT_MS));
+            } catch (error) {
+                if (!cancelled) setStatus(prev => prev === 'checking' ? (hasStoredCheckin() ? 'valid' : 'invalid') : prev);
+            }
+        };
+
+        verify();
+        const intervalId = setInterval(verify, BOOTH_SESSION_CHECK_MS);
+        const unsubscribe = onForbidden(() => { verify(); });
+
+        return () => {
+            cancelled = true;
+            clearInterval(intervalId);
+            if (expiryTimer) clearTimeout(expiryTimer);
+            unsubscribe();
+        };
+    }, [kind, boothCode]);
+
+    if (status === 'checking') {
+        return <div className="flex justify-center items-center h-screen">Loading...</div>;
     }
 
-    try {
-        const checkinInfo = JSON.parse(checkinInfoRaw);
-        if (checkinInfo.boothCode !== boothCode) {
-            return <Navigate to="/" replace />;
-        }
-    } catch (e) {
+    if (status === 'invalid') {
         return <Navigate to="/" replace />;
     }
 
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { NavLink, Outlet, useParams, Link } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
+import { onForbidden } from '../../services/supabase';
 import { UserRole } from '../../types';
 
 const BackArrowIcon = () => (
@@ -25,6 +26,10 @@ const AdminLayout: React.FC = () => {
   const { eventId } = useParams<{ eventId: string }>();
   const { user } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [forbiddenMessage, setForbiddenMessage] = useState<string | null>(null);
+
+  // Most views only log failed requests, so permission denials are announced here.
+  useEffect(() => onForbidden(error => setForbiddenMessage(error.message)), []);
 
   const handleLinkClick = () => {
     setIsMobileMenuOpen(false);
@@ -63,6 +68,9 @@ const AdminLayout: React.FC = () => {
       </NavLink>
       <NavLink to={`/admin/event/${eventId}/ranking`} className={navLinkClasses} onClick={handleLinkClick}>
         Ranking
+      </NavLink>
+      <NavLink to={`/admin/event/${eventId}/sales-targets`} className={navLinkClasses} onClick={handleLinkClick}>
+        Metas de Vendas
       </NavLink>
        <NavLink to={`/admin/event/${eventId}/company-calls-dashboard`} className={navLinkClasses} onClick={handleLinkClick}>
         Painel de Chamados
@@ -70,6 +78,9 @@ const AdminLayout: React.FC = () => {
       <NavLink to={`/admin/event/${eventId}/telao-requests`} className={navLinkClasses} onClick={handleLinkClick}>
         Solicitações de Telão
       </NavLink>
+      <NavLink to={`/admin/event/${eventId}/notification-outbox`} className={navLinkClasses} onClick={handleLinkClick}>
+        Entregas de Notificações
+      </NavLink>
       <NavLink to={`/admin/event/${eventId}/companies`} className={navLinkClasses} onClick={handleLinkClick}>
         Empresas
       </NavLink>
@@ -79,14 +90,14 @@ const AdminLayout: React.FC = () => {
       <NavLink to={`/admin/event/${eventId}/staff`} className={navLinkClasses} onClick={handleLinkClick}>
         Equipe
       </NavLink>
+      <NavLink to={`/admin/event/${eventId}/visit-plans`} className={navLinkClasses} onClick={handleLinkClick}>
+        Roteiros de Visita
+      </NavLink>
       <NavLink to={`/admin/event/${eventId}/buttons`} className={navLinkClasses} onClick={handleLinkClick}>
         Botões de Ação
       </NavLink>
-      <NavLink to={`/admin/event/${eventId}/sales-checkin`} className={navLinkClasses} onClick={handleLinkClick}>
-        Check-in de Vendas
-      </NavLink>
-      <NavLink to={`/admin/event/${eventId}/notify-call`} className={navLinkClasses} onClick={handleLinkClick}>
-        Chamados (Equipe)
+      <NavLink to={`/admin/event/${eventId}/modules`} className={navLinkClasses} onClick={handleLinkClick}>
+        Módulos do Evento
       </NavLink>
       <NavLink to={`/admin/event/${eventId}/company-calls`} className={navLinkClasses} onClick={handleLinkClick}>
         Chamados (Empresas)
@@ -94,15 +105,21 @@ const AdminLayout: React.FC = () => {
       <NavLink to={`/admin/event/${eventId}/issue-alert`} className={navLinkClasses} onClick={handleLinkClick}>
         Emitir Alerta 🚨
       </NavLink>
-      <NavLink to={`/admin/event/${eventId}/stock-control`} className={navLinkClasses} onClick={handleLinkClick}>
-        Log de controle de estoque
-      </NavLink>
       <NavLink to={`/admin/event/${eventId}/stock-report`} className={navLinkClasses} onClick={handleLinkClick}>
         Movimentação de Estoque
       </NavLink>
       <NavLink to={`/admin/event/${eventId}/notifications`} className={navLinkClasses} onClick={handleLinkClick}>
         Configurar Notificações
       </NavLink>
+      <NavLink to={`/admin/event/${eventId}/notification-channels`} className={navLinkClasses} onClick={handleLinkClick}>
+        Canais de Notificação
+      </NavLink>
+      <NavLink to={`/admin/event/${eventId}/trash`} className={navLinkClasses} onClick={handleLinkClick}>
+        Lixeira
+      </NavLink>
+      <NavLink to={`/admin/event/${eventId}/audit`} className={navLinkClasses} onClick={handleLinkClick}>
+        Auditoria
+      </NavLink>
     </>
   );
 
@@ -143,6 +160,17 @@ const AdminLayout: React.FC = () => {
             </nav>
         </aside>
         <div className="flex-grow">
+          {forbiddenMessage && (
+            <div className="mb-4 p-4 rounded-lg bg-red-900/40 border border-red-700 text-red-200 flex justify-between items-start gap-4" role="alert">
+              <div>
+                <p className="font-bold">Acesso negado</p>
+                <p className="text-sm">{forbiddenMessage}</p>
+              </div>
+              <button onClick={() => setForbiddenMessage(null)} className="p-1 rounded-md hover:bg-red-800/50" aria-label="Fechar aviso">
+                <CloseIcon />
+              </button>
+            </div>
+          )}
           <Outlet />
         </div>
       </div>
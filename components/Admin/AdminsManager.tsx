@@ -23,6 +23,7 @@ const AdminsManager: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [photoFileName, setPhotoFileName] = useState('');
   const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
 
   const fetchData = useCallback(async () => {
     setLoading(true);
@@ -52,6 +53,7 @@ const AdminsManager: React.FC = () => {
   const handleOpenModal = (admin?: User) => {
     setPhotoFile(null);
     setPhotoFileName('');
+    setPassword('');
     if (admin) {
       setCurrentAdmin({ ...admin });
       setIsEditing(true);
@@ -95,9 +97,9 @@ const AdminsManager: React.FC = () => {
         }
 
         if (isEditing) {
-          await updateAdmin(adminData as User);
+          await updateAdmin(adminData as User, password || undefined);
         } else {
-          await addAdmin(adminData as Omit<User, 'id' | 'role'>);
+          await addAdmin(adminData as Omit<User, 'id' | 'role'>, password);
         }
         fetchData();
         handleCloseModal();
@@ -155,7 +157,7 @@ const AdminsManager: React.FC = () => {
           <Input id="name" name="name" label="Nome Completo" value={currentAdmin.name} onChange={handleChange} required />
           <Input id="email" name="email" label="Email" type="email" value={currentAdmin.email} onChange={handleChange} required />
           <Input id="phone" name="phone" label="Telefone" type="tel" value={(currentAdmin as User).phone || ''} onChange={handleChange} />
-          <Input id="password" name="password" label="Senha" type="password" placeholder={isEditing ? 'Deixe em branco para não alterar' : ''} />
+          <Input id="password" name="password" label="Senha" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder={isEditing ? 'Deixe em branco para não alterar' : ''} required={!isEditing} minLength={6} autoComplete="new-password" />
           
           <div>
             <label className="block text-sm font-medium mb-1">
@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { ReportButtonConfig, ReportSubmission } from '../../types';
+import { getAnswerStats, QuestionStats } from '../../services/reportForms';
+
+interface Props {
+  buttons: ReportButtonConfig[];
+  reports: ReportSubmission[];
+}
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+// Share of promoters (9-10) minus share of detractors (0-6)
+const getNps = (distribution: { score: number; count: number }[], total: number) => {
+  const promoters = distribution.filter(d => d.score >= 9).reduce((sum, d) => sum + d.count, 0);
+  const detractors = distribution.filter(d => d.score <= 6).reduce((sum, d) => sum + d.count, 0);
+  return Math.round(((promoters - detractors) / total) * 100);
+};
+
+const StatValue: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <p className="text-xs text-text-secondary">{label}</p>
+    <p className="text-xl font-bold text-primary">{value}</p>
+  </div>
+);
+
+const renderStats = (stats: QuestionStats) => {
+  switch (stats.kind) {
+    case 'options': {
+      const maxReports = Math.max(...stats.options.map(o => o.reports), 0);
+      return (
+        <div className="space-y-2">
+          {stats.options.map(option => (
+            <div key={option.optionId}>
+              <div className="flex justify-between items-center text-sm mb-1">
+                <span className="truncate pr-2" title={option.label}>{option.label}</span>
+                <span className="flex-shrink-0 text-text-secondary">
+                  <span className="font-bold text-primary">{option.reports}</span> de {stats.count} · {option.booths} estande(s)
+                </span>
+              </div>
+              <div className="w-full bg-secondary rounded-full h-3 overflow-hidden">
+                <div className="bg-primary h-3 rounded-full" style={{ width: `${maxReports > 0 ? (option.reports / maxReports) * 100 : 0}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    case 'number':
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <StatValue label="Média" value={formatNumber(stats.average)} />
+          <StatValue label="Mínimo" value={formatNumber(stats.min)} />
+          <StatValue label="Máximo" value={formatNumber(stats.max)} />
+          <StatValue label="Respostas" value={String(stats.count)} />
+        </div>
+      );
+    case 'rating': {
+      const maxCount = Math.max(...stats.distribution.map(d => d.count), 0);
+      return (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <StatValue label="Média" value={formatNumber(stats.average)} />
+            {stats.scale === 'nps' && <StatValue label="NPS" value={String(getNps(stats.distribution, stats.count))} />}
+            <StatValue label="Respostas" value={String(stats.count)} />
+          </div>
+          <div className="space-y-1">
+            {[...stats.distribution].reverse().map(({ score, count }) => (
+              <div key={score} className="flex items-center gap-2 text-sm">
+                <span className="w-12 text-right text-text-secondary">{stats.scale === 'stars' ? `${score} ★` : score}</span>
+                <div className="flex-1 bg-secondary rounded-full h-3 overflow-hidden">
+                  <div className="bg-primary h-3 rounded-full" style={{ width: `${maxCount > 0 ? (count / maxCount) * 100 : 0}%` }}></div>
+                </div>
+                <span className="w-8 font-semibold">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    }
+    case 'images':
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3 max-h-96 overflow-y-auto">
+          {stats.images.map((image, index) => (
+            <a key={`${image.url}-${index}`} href={image.url} target="_blank" rel="noopener noreferrer" className="block group">
+              <img src={image.url} alt={`Estande ${image.boothCode}`} className="w-full h-24 object-cover rounded-md bg-white group-hover:opacity-80 transition-opacity" />
+              <p className="text-xs font-semibold mt-1 truncate">{image.boothCode}</p>
+              <p className="text-xs text-text-secondary truncate">{image.staffName} · {new Date(image.timestamp).toLocaleDateString('pt-BR')}</p>
+            </a>
+          ))}
+        </div>
+      );
+  }
+};
+
+// Option counts, averages, rating distributions and photo/signature galleries
+// for the questions of the given buttons.
+const AnswerStatsPanel: React.FC<Props> = ({ buttons, reports }) => {
+  const stats = useMemo(() => getAnswerStats(buttons, reports), [buttons, reports]);
+
+  if (stats.length === 0) {
+    return <p className="text-center text-text-secondary py-4">Nenhuma resposta para exibir com os filtros atuais.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {stats.map(({ button, question, stats: questionStats }) => (
+        <div key={`${button.id}-${question.id}`} className="p-4 border border-border rounded-lg">
+          <p className="text-xs font-semibold text-text-secondary uppercase">{button.label}</p>
+          <h4 className="font-semibold mb-3">{question.question}</h4>
+          {renderStats(questionStats)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnswerStatsPanel;
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  getAuditLog,
+  getAuditEntityLabel,
+  formatAuditValue,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTOR_LABELS,
+  AUDIT_PAGE_SIZE,
+} from '../../services/audit';
+import { AuditAction, AuditEntry, AuditFilters } from '../../types';
+import LoadingSpinner from '../LoadingSpinner';
+import Button from '../Button';
+import Modal from '../Modal';
+
+interface Props {
+  // Without an event the view covers the whole platform (master admins)
+  eventId?: string;
+}
+
+const DownloadIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+    </svg>
+);
+
+const ActionBadge: React.FC<{ action: AuditAction }> = ({ action }) => {
+  const baseClasses = 'px-2 py-1 text-xs font-bold rounded-full whitespace-nowrap';
+  const actionClasses: Record<AuditAction, string> = {
+    [AuditAction.CREATE]: 'bg-green-800 text-green-300',
+    [AuditAction.UPDATE]: 'bg-blue-800 text-blue-300',
+    [AuditAction.DELETE]: 'bg-red-800 text-red-300',
+    [AuditAction.TRASH]: 'bg-yellow-800 text-yellow-200',
+    [AuditAction.RESTORE]: 'bg-gray-700 text-gray-200',
+  };
+  return <span className={`${baseClasses} ${actionClasses[action]}`}>{AUDIT_ACTION_LABELS[action]}</span>;
+};
+
+// Field-by-field view of an entry. Updates list only what changed.
+const getDiffRows = (entry: AuditEntry) => {
+  const fields = entry.action === AuditAction.UPDATE || entry.action === AuditAction.TRASH || entry.action === AuditAction.RESTORE
+    ? entry.changedFields
+    : Object.keys(entry.after || entry.before || {});
+  return fields.map(field => ({
+    field,
+    before: entry.before?.[field],
+    after: entry.after?.[field],
+  }));
+};
+
+const filterInputClass = "px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary";
+
+const AuditView: React.FC<Props> = ({ eventId }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draftFilters, setDraftFilters] = useState<AuditFilters>({});
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setError(null);
+    try {
+      setEntries(await getAuditLog(eventId, filters));
+    } catch (err) {
+      console.error("Failed to fetch audit log:", err);
+      setError(err instanceof Error ? err.message : 'Falha ao carregar o registro de auditoria.');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, filters]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData();
+  }, [fetchData]);
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDraftFilters(prev => ({ ...prev, [name]: value || undefined }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draftFilters);
+  };
+
+  const handleClearFilters = () => {
+    setDraftFilters({});
+    setFilters({});
+  };
+
+  const handleDownloadCsv = () => {
+    try {
+      const headers = ["Data/Hora", "Entidade", "Registro", "Ação", "Autor", "Tipo de Autor", "Campos Alterados", "Antes", "Depois"];
+      const rows = entries.map(entry => [
+        new Date(entry.createdAt).toLocaleString('pt-BR'),
+        getAuditEntityLabel(entry.entity),
+        entry.entityLabel || entry.entityId || '',
+        AUDIT_ACTION_LABELS[entry.action],
+        entry.actorName || AUDIT_ACTOR_LABELS[entry.actorType],
+        AUDIT_ACTOR_LABELS[entry.actorType],
+        entry.changedFields.join(', '),
+        entry.before ? JSON.stringify(entry.before) : '',
+        entry.after ? JSON.stringify(entry.after) : '',
+      ]);
+
+      const csv = (window as any).Papa.unparse({
+        fields: headers,
+        data: rows
+      });
+
+      const blob = new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", "auditoria.csv");
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      console.error("Failed to download CSV:", err);
+      alert('Ocorreu um erro ao gerar o arquivo CSV.');
+    }
+  };
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Auditoria</h2>
+          <p className="text-text-secondary mt-1">Quem criou, alterou ou excluiu cada registro, e quando.</p>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={handleDownloadCsv}
+          disabled={entries.length === 0}
+          className="text-sm py-2 px-3 flex items-center"
+        >
+          <DownloadIcon /> Download CSV
+        </Button>
+      </div>
+
+      <form onSubmit={handleApplyFilters} className="flex flex-wrap items-end gap-4 mb-6 p-4 bg-background rounded-lg">
+        <label className="flex flex-col gap-1 text-sm font-semibold">
+          Entidade
+          <select name="entity" value={draftFilters.entity || ''} onChange={handleDraftChange} className={filterInputClass}>
+            <option value="">Todas</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([entity, label]) => (
+              <option key={entity} value={entity}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-semibold">
+          Autor
+          <input name="actor" type="text" placeholder="Nome" value={draftFilters.actor || ''} onChange={handleDraftChange} className={filterInputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-semibold">
+          De
+          <input name="from" type="date" value={draftFilters.from || ''} onChange={handleDraftChange} className={filterInputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-semibold">
+          Até
+          <input name="to" type="date" value={draftFilters.to || ''} onChange={handleDraftChange} className={filterInputClass} />
+        </label>
+        <div className="flex gap-2">
+          <Button type="submit">Filtrar</Button>
+          <Button type="button" variant="secondary" onClick={handleClearFilters}>Limpar</Button>
+        </div>
+      </form>
+
+      {error && <p className="text-red-500 text-sm text-center mb-4">{error}</p>}
+
+      {loading ? <LoadingSpinner /> : (
+        <div className="overflow-x-auto">
+          {entries.length === AUDIT_PAGE_SIZE && (
+            <p className="text-sm text-text-secondary mb-2">
+              Exibindo os {AUDIT_PAGE_SIZE} registros mais recentes. Use os filtros para refinar a busca.
+            </p>
+          )}
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="p-3">Data/Hora</th>
+                <th className="p-3">Entidade</th>
+                <th className="p-3">Ação</th>
+                <th className="p-3">Autor</th>
+                <th className="p-3">Alterações</th>
+                <th className="p-3 text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="border-b border-border last:border-0 hover:bg-secondary/30 transition-colors">
+                  <td className="p-3 text-sm text-text-secondary whitespace-nowrap">{new Date(entry.createdAt).toLocaleString('pt-BR')}</td>
+                  <td className="p-3">
+                    <p className="font-semibold">{entry.entityLabel || 'N/D'}</p>
+                    <p className="text-xs text-text-secondary">{getAuditEntityLabel(entry.entity)}</p>
+                  </td>
+                  <td className="p-3"><ActionBadge action={entry.action} /></td>
+                  <td className="p-3">
+                    <p className="font-semibold">{entry.actorName || AUDIT_ACTOR_LABELS[entry.actorType]}</p>
+                    {entry.actorName && <p className="text-xs text-text-secondary">{AUDIT_ACTOR_LABELS[entry.actorType]}</p>}
+                  </td>
+                  <td className="p-3 text-sm text-text-secondary max-w-xs">
+                    {entry.action === AuditAction.UPDATE
+                      ? entry.changedFields.slice(0, 3).map(field => (
+                          <p key={field} className="truncate">
+                            <span className="font-semibold text-text">{field}</span>: {formatAuditValue(entry.before?.[field])} → {formatAuditValue(entry.after?.[field])}
+                          </p>
+                        ))
+                      : '—'}
+                    {entry.action === AuditAction.UPDATE && entry.changedFields.length > 3 && (
+                      <p className="text-xs">+{entry.changedFields.length - 3} campo(s)</p>
+                    )}
+                  </td>
+                  <td className="p-3 text-right">
+                    <Button variant="secondary" onClick={() => setSelectedEntry(entry)} className="py-1 px-2 text-sm">Detalhes</Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length === 0 && !error && (
+            <div className="text-center py-12">
+              <p className="text-text-secondary">Nenhum registro encontrado com os filtros selecionados.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Modal isOpen={!!selectedEntry} onClose={() => setSelectedEntry(null)} title="Detalhes da Alteração">
+        {selectedEntry && (
+          <div className="space-y-4">
+            <div className="text-sm space-y-1">
+              <p><span className="font-semibold">Registro:</span> {selectedEntry.entityLabel || selectedEntry.entityId || 'N/D'} ({getAuditEntityLabel(selectedEntry.entity)})</p>
+              <p><span className="font-semibold">Ação:</span> {AUDIT_ACTION_LABELS[selectedEntry.action]}</p>
+              <p><span className="font-semibold">Autor:</span> {selectedEntry.actorName || 'N/D'} ({AUDIT_ACTOR_LABELS[selectedEntry.actorType]})</p>
+              <p><span className="font-semibold">Data/Hora:</span> {new Date(selectedEntry.createdAt).toLocaleString('pt-BR')}</p>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="p-2">Campo</th>
+                  <th className="p-2">Antes</th>
+                  <th className="p-2">Depois</th>
+                </tr>
+              </thead>
+              <tbody>
+                {getDiffRows(selectedEntry).map(row => (
+                  <tr key={row.field} className="border-b border-border last:border-0">
+                    <td className="p-2 font-semibold">{row.field}</td>
+                    <td className="p-2 text-text-secondary break-all">{formatAuditValue(row.before)}</td>
+                    <td className="p-2 break-all">{formatAuditValue(row.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default AuditView;
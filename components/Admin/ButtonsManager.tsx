@@ -1,30 +1,42 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { getButtonConfigs, addButtonConfig, updateButtonConfig, deleteButtonConfig, getDepartmentsByEvent, getStaffByEvent } from '../../services/api';
-import { ReportButtonConfig, ReportType, ReportOption, Department, Staff } from '../../types';
+import {
+  getButtonConfigsByEvent,
+  addButtonConfig,
+  updateButtonConfig,
+  deleteButtonConfig,
+  getDepartmentsByEvent,
+  getStaffByEvent,
+  getEvents,
+  getEventsByOrganizerCompany,
+  copyButtonConfigsFromEvent,
+} from '../../services/api';
+import { getButtonForm, validateReportForm, FORM_QUESTION_TYPE_LABELS } from '../../services/reportForms';
+import { ReportButtonConfig, ReportType, ReportForm, Department, Staff, Event } from '../../types';
 import Modal from '../Modal';
 import Input from '../Input';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import ConfirmationModal from '../ConfirmationModal';
-import { useParams } from 'react-router-dom';
+import ReportFormEditor from './ReportFormEditor';
 
-const emptyButton: Omit<ReportButtonConfig, 'id'> = {
+interface Props {
+  eventId: string;
+}
+
+const emptyButton: Omit<ReportButtonConfig, 'id' | 'eventId'> = {
   label: '', 
   question: '', 
   type: ReportType.OPEN_TEXT, 
   options: [], 
   departmentId: '',
   staffId: '',
-  followUp: { 
-    triggerValue: 'Sim', 
-    question: '', 
-    type: ReportType.OPEN_TEXT, 
-    options: [] 
-  }
 };
 
-const ButtonsManager: React.FC = () => {
-  const { eventId } = useParams<{ eventId: string }>();
+const emptyForm = (): ReportForm => ({
+  questions: [{ id: `q-${Date.now()}`, question: '', type: ReportType.OPEN_TEXT, options: [], required: true }],
+});
+
+const ButtonsManager: React.FC<Props> = ({ eventId }) => {
   const [buttons, setButtons] = useState<ReportButtonConfig[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [staffList, setStaffList] = useState<Staff[]>([]);
@@ -32,23 +44,28 @@ const ButtonsManager: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
-  const [currentButton, setCurrentButton] = useState<Omit<ReportButtonConfig, 'id'> | ReportButtonConfig>(emptyButton);
+  const [currentButton, setCurrentButton] = useState<Omit<ReportButtonConfig, 'id'> | ReportButtonConfig>({ ...emptyButton, eventId });
+  const [currentForm, setCurrentForm] = useState<ReportForm>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
 
+  // Copy from another event of the same organizer
+  const [isCopyModalOpen, setIsCopyModalOpen] = useState(false);
+  const [copySourceEvents, setCopySourceEvents] = useState<Event[]>([]);
+  const [copySourceEventId, setCopySourceEventId] = useState('');
+  const [copying, setCopying] = useState(false);
+  const [copyResult, setCopyResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
   const fetchData = useCallback(async () => {
     setLoading(true);
-    if(eventId) {
-        const [buttonsData, departmentsData, staffData] = await Promise.all([
-            getButtonConfigs(),
-            getDepartmentsByEvent(eventId),
-            getStaffByEvent(eventId)
-        ]);
-        // Filter out internal config buttons so they don't show up in the manager UI
-        const userVisibleButtons = buttonsData.filter(b => !b.label.includes('_CONFIG'));
-        setButtons(userVisibleButtons);
-        setDepartments(departmentsData);
-        setStaffList(staffData);
-    }
+    const [buttonsData, departmentsData, staffData] = await Promise.all([
+        getButtonConfigsByEvent(eventId),
+        getDepartmentsByEvent(eventId),
+        getStaffByEvent(eventId)
+    ]);
+    setButtons(buttonsData);
+    setDepartments(departmentsData);
+    setStaffList(staffData);
     setLoading(false);
   }, [eventId]);
 
@@ -58,19 +75,16 @@ const ButtonsManager: React.FC = () => {
 
   const handleOpenModal = (button?: ReportButtonConfig) => {
     if (button) {
-      const buttonCopy = JSON.parse(JSON.stringify(button)); // Deep copy
-      if (!buttonCopy.followUp) {
-        buttonCopy.followUp = { ...emptyButton.followUp };
-      }
-      if (!buttonCopy.followUp.options) {
-        buttonCopy.followUp.options = [];
-      }
-      setCurrentButton(buttonCopy);
+      setCurrentButton({ ...button });
+      // Buttons from before forms open as their equivalent form (services/reportForms.ts)
+      setCurrentForm(JSON.parse(JSON.stringify(getButtonForm(button)))); // Deep copy
       setIsEditing(true);
     } else {
-      setCurrentButton(JSON.parse(JSON.stringify(emptyButton)));
+      setCurrentButton({ ...emptyButton, eventId });
+      setCurrentForm(emptyForm());
       setIsEditing(false);
     }
+    setFormError(null);
     setIsModalOpen(true);
   };
   
@@ -81,52 +95,26 @@ const ButtonsManager: React.FC = () => {
     setCurrentButton(prev => ({ ...prev, [name]: value }));
   };
 
-  const handleFollowUpChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setCurrentButton(prev => ({
-        ...prev,
-        followUp: {
-            ...prev.followUp!,
-            [name]: value
-        }
-    }));
-  };
-  
-  // Primary Options
-  const handleOptionChange = (index: number, value: string) => {
-    const newOptions = [...(currentButton.options || [])];
-    newOptions[index].label = value;
-    setCurrentButton(prev => ({ ...prev, options: newOptions }));
-  };
-  const addOption = () => {
-    const newOptions = [...(currentButton.options || []), { id: `new-${Date.now()}`, label: '' }];
-    setCurrentButton(prev => ({ ...prev, options: newOptions }));
-  };
-  const removeOption = (index: number) => {
-    const newOptions = [...(currentButton.options || [])];
-    newOptions.splice(index, 1);
-    setCurrentButton(prev => ({ ...prev, options: newOptions }));
-  };
-  
-  // Follow-up Options
-  const handleFollowUpOptionChange = (index: number, value: string) => {
-    const newOptions = [...(currentButton.followUp?.options || [])];
-    newOptions[index].label = value;
-    setCurrentButton(prev => ({ ...prev, followUp: { ...prev.followUp!, options: newOptions }}));
-  };
-  const addFollowUpOption = () => {
-    const newOptions = [...(currentButton.followUp?.options || []), { id: `new-fu-${Date.now()}`, label: '' }];
-    setCurrentButton(prev => ({ ...prev, followUp: { ...prev.followUp!, options: newOptions }}));
-  };
-  const removeFollowUpOption = (index: number) => {
-    const newOptions = [...(currentButton.followUp?.options || [])];
-    newOptions.splice(index, 1);
-    setCurrentButton(prev => ({ ...prev, followUp: { ...prev.followUp!, options: newOptions }}));
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const dataToSubmit = { ...currentButton };
+    const validationError = validateReportForm(currentForm);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+    // Blank options are left out; the first question stays mirrored on the button
+    const form: ReportForm = {
+      questions: currentForm.questions.map(q => ({ ...q, options: (q.options || []).filter(o => o.label.trim()) })),
+    };
+    const [first] = form.questions;
+    const dataToSubmit = {
+      ...currentButton,
+      question: first.question,
+      type: first.type,
+      options: first.options,
+      followUp: null,
+      form,
+    };
     
     if (dataToSubmit.departmentId === '') delete dataToSubmit.departmentId;
     if (dataToSubmit.staffId === '') delete dataToSubmit.staffId;
@@ -156,15 +144,44 @@ const ButtonsManager: React.FC = () => {
   };
 
 
-  const getButtonTypeDescription = (type: ReportType) => {
-    switch(type) {
-        case ReportType.OPEN_TEXT: return "Resposta Aberta";
-        case ReportType.MULTIPLE_CHOICE: return "Múltipla Escolha";
-        case ReportType.YES_NO: return "Sim/Não com Acompanhamento";
-        case ReportType.CHECKLIST: return "Checklist";
-        case ReportType.NOTIFY_CALL: return "Notificar Chamados";
-        default: return "Desconhecido";
+  const handleOpenCopyModal = async () => {
+    setCopySourceEventId('');
+    setCopyResult(null);
+    setIsCopyModalOpen(true);
+    try {
+      const currentEvent = (await getEvents()).find(e => e.id === eventId);
+      if (!currentEvent) return;
+      const organizerEvents = await getEventsByOrganizerCompany(currentEvent.organizerCompanyId);
+      setCopySourceEvents(organizerEvents.filter(e => e.id !== eventId));
+    } catch (error) {
+      console.error("Failed to fetch events to copy buttons from:", error);
+    }
+  };
+
+  const handleCopyButtons = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!copySourceEventId) return;
+    setCopying(true);
+    setCopyResult(null);
+    try {
+      const copied = await copyButtonConfigsFromEvent(copySourceEventId, eventId);
+      setCopyResult({
+        type: 'success',
+        message: copied > 0 ? `${copied} botão(ões) copiado(s) com sucesso.` : 'O evento selecionado não possui botões para copiar.',
+      });
+      fetchData();
+    } catch (error) {
+      setCopyResult({ type: 'error', message: error instanceof Error ? error.message : 'Falha ao copiar os botões.' });
+    } finally {
+      setCopying(false);
     }
+  };
+
+  const getButtonTypeDescription = (button: ReportButtonConfig) => {
+    if (button.type === ReportType.NOTIFY_CALL) return "Notificar Chamados";
+    const { questions } = getButtonForm(button);
+    if (questions.length > 1) return `Formulário com ${questions.length} perguntas`;
+    return FORM_QUESTION_TYPE_LABELS[questions[0].type] || "Desconhecido";
   }
 
   const getDepartmentName = (id?: string) => {
@@ -180,8 +197,14 @@ const ButtonsManager: React.FC = () => {
     <div className="bg-card p-6 rounded-lg shadow-md">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-2xl font-bold">Configurar Botões de Ação</h2>
-        <Button onClick={() => handleOpenModal()}>Adicionar Botão</Button>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={handleOpenCopyModal}>Copiar de Outro Evento</Button>
+          <Button onClick={() => handleOpenModal()}>Adicionar Botão</Button>
+        </div>
       </div>
+      {buttons.length === 0 && (
+        <p className="text-center py-8 text-text-secondary">Nenhum botão configurado para este evento. Adicione um novo ou copie os botões de um evento anterior.</p>
+      )}
       <div className="space-y-4">
         {buttons.map(button => {
            const assignedStaffName = getStaffName(button.staffId);
@@ -189,7 +212,7 @@ const ButtonsManager: React.FC = () => {
               <div key={button.id} className="p-4 border border-border rounded-lg flex justify-between items-center">
                 <div>
                   <p className="font-bold text-lg">{button.label}</p>
-                  <p className="text-sm text-text-secondary">{getButtonTypeDescription(button.type)}</p>
+                  <p className="text-sm text-text-secondary">{getButtonTypeDescription(button)}</p>
                   <div className="flex items-center gap-2 mt-1 flex-wrap">
                       <span className="text-xs text-primary-dark font-semibold bg-secondary py-0.5 px-2 rounded-full inline-block">{getDepartmentName(button.departmentId)}</span>
                       {assignedStaffName && (
@@ -214,7 +237,6 @@ const ButtonsManager: React.FC = () => {
       <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={isEditing ? 'Editar Botão' : 'Adicionar Botão'}>
         <form onSubmit={handleSubmit} className="space-y-4">
           <Input id="label" name="label" label="Texto do Botão" value={currentButton.label} onChange={handleChange} required />
-          <Input id="question" name="question" label="Pergunta para o formulário" value={currentButton.question} onChange={handleChange} required />
           <div>
             <label htmlFor="departmentId" className="block text-sm font-medium mb-1">Departamento</label>
             <select id="departmentId" name="departmentId" value={currentButton.departmentId || ''} onChange={handleChange} className="w-full p-2 border border-border rounded-md bg-background">
@@ -233,78 +255,39 @@ const ButtonsManager: React.FC = () => {
               ))}
             </select>
           </div>
+          <ReportFormEditor form={currentForm} onChange={(form) => { setCurrentForm(form); setFormError(null); }} />
+          {formError && <p className="text-red-500 text-sm text-center">{formError}</p>}
+          <div className="flex justify-end gap-4 pt-4">
+            <Button type="button" variant="secondary" onClick={handleCloseModal}>Cancelar</Button>
+            <Button type="submit">Salvar</Button>
+          </div>
+        </form>
+      </Modal>
+      
+      <Modal isOpen={isCopyModalOpen} onClose={() => setIsCopyModalOpen(false)} title="Copiar Botões de Outro Evento">
+        <form onSubmit={handleCopyButtons} className="space-y-4">
+          <p className="text-sm text-text-secondary">
+            Os botões do evento selecionado serão adicionados a este evento. Departamentos com o mesmo nome são mantidos; atribuições a membros da equipe não são copiadas.
+          </p>
           <div>
-            <label htmlFor="type" className="block text-sm font-medium mb-1">Tipo de Resposta</label>
-            <select id="type" name="type" value={currentButton.type} onChange={handleChange} className="w-full p-2 border border-border rounded-md bg-background">
-              <option value={ReportType.OPEN_TEXT}>Resposta Aberta</option>
-              <option value={ReportType.MULTIPLE_CHOICE}>Múltipla Escolha</option>
-              <option value={ReportType.YES_NO}>Sim/Não com Acompanhamento</option>
-              <option value={ReportType.CHECKLIST}>Checklist</option>
+            <label htmlFor="copySourceEventId" className="block text-sm font-medium mb-1">Evento de Origem</label>
+            <select id="copySourceEventId" value={copySourceEventId} onChange={(e) => setCopySourceEventId(e.target.value)} className="w-full p-2 border border-border rounded-md bg-background" required>
+              <option value="" disabled>Selecione um evento</option>
+              {copySourceEvents.map(ev => (
+                <option key={ev.id} value={ev.id}>{ev.name} ({new Date(ev.date).toLocaleDateString('pt-BR')})</option>
+              ))}
             </select>
           </div>
-          {currentButton.type === ReportType.MULTIPLE_CHOICE && (
-            <div className="space-y-2 border-t border-border pt-4 mt-4">
-              <h4 className="font-semibold">Opções de Resposta</h4>
-              {currentButton.options?.map((opt, index) => (
-                <div key={opt.id || index} className="flex items-center gap-2">
-                  <Input id={`option-${index}`} label="" value={opt.label} onChange={(e) => handleOptionChange(index, e.target.value)} className="flex-grow mb-0"/>
-                  <Button type="button" variant="danger" onClick={() => removeOption(index)} className="py-1 px-2 text-sm">X</Button>
-                </div>
-              ))}
-              <Button type="button" variant="secondary" onClick={addOption} className="text-sm">Adicionar Opção</Button>
-            </div>
-          )}
-           {currentButton.type === ReportType.CHECKLIST && (
-            <div className="space-y-2 border-t border-border pt-4 mt-4">
-              <h4 className="font-semibold">Itens do Checklist</h4>
-              {currentButton.options?.map((opt, index) => (
-                <div key={opt.id || index} className="flex items-center gap-2">
-                  <Input id={`option-${index}`} label="" value={opt.label} onChange={(e) => handleOptionChange(index, e.target.value)} className="flex-grow mb-0"/>
-                  <Button type="button" variant="danger" onClick={() => removeOption(index)} className="py-1 px-2 text-sm">X</Button>
-                </div>
-              ))}
-              <Button type="button" variant="secondary" onClick={addOption} className="text-sm">Adicionar Item</Button>
-            </div>
-          )}
-          {currentButton.type === ReportType.YES_NO && (
-            <div className="space-y-4 border-t border-border pt-4 mt-4">
-                <h4 className="font-semibold">Configuração da Pergunta de Acompanhamento</h4>
-                <div>
-                    <label htmlFor="triggerValue" className="block text-sm font-medium mb-1">Acionar quando a resposta for:</label>
-                    <select id="triggerValue" name="triggerValue" value={currentButton.followUp?.triggerValue} onChange={handleFollowUpChange} className="w-full p-2 border border-border rounded-md bg-background">
-                        <option value="Sim">Sim</option>
-                        <option value="Não">Não</option>
-                    </select>
-                </div>
-                 <Input id="followUpQuestion" name="question" label="Pergunta de Acompanhamento" value={currentButton.followUp?.question || ''} onChange={handleFollowUpChange} required />
-                 <div>
-                    <label htmlFor="followUpType" className="block text-sm font-medium mb-1">Tipo de Resposta de Acompanhamento</label>
-                    <select id="followUpType" name="type" value={currentButton.followUp?.type} onChange={handleFollowUpChange} className="w-full p-2 border border-border rounded-md bg-background">
-                        <option value={ReportType.OPEN_TEXT}>Resposta Aberta</option>
-                        <option value={ReportType.MULTIPLE_CHOICE}>Múltipla Escolha</option>
-                    </select>
-                 </div>
-                 {currentButton.followUp?.type === ReportType.MULTIPLE_CHOICE && (
-                    <div className="space-y-2 border-t border-border pt-4">
-                        <h5 className="font-semibold">Opções da Pergunta de Acompanhamento</h5>
-                        {currentButton.followUp.options?.map((opt, index) => (
-                            <div key={opt.id || index} className="flex items-center gap-2">
-                                <Input id={`fu-option-${index}`} label="" value={opt.label} onChange={(e) => handleFollowUpOptionChange(index, e.target.value)} className="flex-grow mb-0"/>
-                                <Button type="button" variant="danger" onClick={() => removeFollowUpOption(index)} className="py-1 px-2 text-sm">X</Button>
-                            </div>
-                        ))}
-                        <Button type="button" variant="secondary" onClick={addFollowUpOption} className="text-sm">Adicionar Opção</Button>
-                    </div>
-                )}
-            </div>
+          {copyResult && (
+            <p className={`text-sm text-center ${copyResult.type === 'success' ? 'text-green-500' : 'text-red-500'}`}>{copyResult.message}</p>
           )}
           <div className="flex justify-end gap-4 pt-4">
-            <Button type="button" variant="secondary" onClick={handleCloseModal}>Cancelar</Button>
-            <Button type="submit">Salvar</Button>
+            <Button type="button" variant="secondary" onClick={() => setIsCopyModalOpen(false)}>Fechar</Button>
+            <Button type="submit" disabled={copying || !copySourceEventId}>{copying ? 'Copiando...' : 'Copiar Botões'}</Button>
           </div>
         </form>
       </Modal>
-      
+
       <ConfirmationModal
         isOpen={isConfirmModalOpen}
         onClose={() => setIsConfirmModalOpen(false)}
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import { getCompanyCallsByEvent } from '../../services/api';
 import { CompanyCall, CallStatus } from '../../types';
+import { useRealtimeRefetch } from '../../hooks/useRealtimeRefetch';
 import LoadingSpinner from '../LoadingSpinner';
 import Button from '../Button';
 
@@ -43,9 +44,9 @@ const CompanyCallsDashboard: React.FC = () => {
   useEffect(() => {
     setLoading(true);
     fetchData();
-    const intervalId = setInterval(fetchData, 20000); // Refresh every 20 seconds
-    return () => clearInterval(intervalId);
   }, [fetchData]);
+
+  useRealtimeRefetch(eventId ? [{ table: 'company_calls', filter: `event_id=eq.${eventId}` }] : null, fetchData);
   
   const filteredCalls = useMemo(() => {
     if (filter === 'all') return calls;
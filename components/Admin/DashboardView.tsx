@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { getStaffByEvent, getStaffActivity, getParticipantCompaniesByEvent, getReportsByEvent, getEvents, getOrganizerCompanyById, apiAddTaskActivity } from '../../services/api';
-import { Staff, StaffActivity, ParticipantCompany, ReportSubmission, Event, OrganizerCompany } from '../../types';
+import { getStaffByEvent, getStaffActivity, getParticipantCompaniesByEvent, getReportsByEvent, getEvents, getOrganizerCompanyById, assignTask, getButtonConfigsByEvent } from '../../services/api';
+import { getVisitPlansByEvent, findVisitPlanForStaff, getPlannedVisits, toEventDay } from '../../services/visitPlans';
+import { Staff, StaffActivity, ParticipantCompany, ReportSubmission, Event, OrganizerCompany, ReportButtonConfig, TaskPriority, VisitPlan, PlannedVisitStatus, ReportType } from '../../types';
+import { useRealtimeRefetch } from '../../hooks/useRealtimeRefetch';
 import LoadingSpinner from '../LoadingSpinner';
 import Input from '../Input';
 import Modal from '../Modal';
 import Button from '../Button';
+import AnswerStatsPanel from './AnswerStatsPanel';
 
 // Tell TypeScript that jspdf is loaded globally from the CDN
 declare const jspdf: any;
@@ -19,6 +22,13 @@ const DownloadIcon = () => (
     </svg>
 );
 
+const visitStatusClasses: Record<PlannedVisitStatus, string> = {
+    [PlannedVisitStatus.PENDENTE]: 'bg-secondary text-text',
+    [PlannedVisitStatus.CONCLUIDA]: 'bg-green-800 text-green-300',
+    [PlannedVisitStatus.PULADA]: 'bg-yellow-800 text-yellow-200',
+    [PlannedVisitStatus.ATRASADA]: 'bg-red-800 text-red-300',
+};
+
 // Accordion component for the modal
 const AccordionItem: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) => {
     const [isOpen, setIsOpen] = useState(false);
@@ -54,7 +64,9 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
   const [activities, setActivities] = useState<Record<string, StaffActivity[]>>({});
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [viewMode, setViewMode] = useState<'staff' | 'company'>('staff');
+  const [viewMode, setViewMode] = useState<'staff' | 'company' | 'visits'>('staff');
+  const [visitPlans, setVisitPlans] = useState<VisitPlan[]>([]);
+  const [visitDay, setVisitDay] = useState(() => toEventDay());
   
   const [selectedCompany, setSelectedCompany] = useState<ParticipantCompany | null>(null);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
@@ -67,12 +79,15 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
   const [selectedTaskStaffId, setSelectedTaskStaffId] = useState('');
   const [taskActionName, setTaskActionName] = useState('');
   const [taskInfo, setTaskInfo] = useState('');
+  const [taskButtonId, setTaskButtonId] = useState('');
+  const [taskPriority, setTaskPriority] = useState<TaskPriority>(TaskPriority.NORMAL);
+  const [taskDueAt, setTaskDueAt] = useState('');
+  const [buttonConfigs, setButtonConfigs] = useState<ReportButtonConfig[]>([]);
   const [taskSubmitting, setTaskSubmitting] = useState(false);
   const [taskSubmitStatus, setTaskSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
 
 
   const fetchData = useCallback(async () => {
-    setLoading(true);
     try {
       const allEvents = await getEvents();
       const currentEvent = allEvents.find(e => e.id === eventId);
@@ -82,14 +97,22 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
         const organizerData = await getOrganizerCompanyById(currentEvent.organizerCompanyId);
         setOrganizer(organizerData);
 
-        const [staffData, companiesData, reportsData] = await Promise.all([
+        const [staffData, companiesData, reportsData, buttonsData, plansData] = await Promise.all([
           getStaffByEvent(eventId),
           getParticipantCompaniesByEvent(eventId),
           getReportsByEvent(eventId),
+          getButtonConfigsByEvent(eventId),
+          // The rest of the dashboard still loads if plans can't be read
+          getVisitPlansByEvent(eventId).catch(error => {
+            console.error("Failed to fetch visit plans:", error);
+            return [] as VisitPlan[];
+          }),
         ]);
 
         setStaff(staffData);
         setCompanies(companiesData);
+        setButtonConfigs(buttonsData);
+        setVisitPlans(plansData);
         setReports(reportsData.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
 
         if (staffData.length > 0) {
@@ -110,9 +133,13 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
   }, [eventId]);
 
   useEffect(() => {
+    setLoading(true);
     fetchData();
   }, [fetchData]);
 
+  // Keep activity timelines current as staff work the booths
+  useRealtimeRefetch([{ table: 'staff_activities', filter: `event_id=eq.${eventId}` }], fetchData);
+
   const handleCompanyClick = (company: ParticipantCompany) => {
     setSelectedCompany(company);
     setIsReportModalOpen(true);
@@ -216,8 +243,31 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
     setSelectedTaskStaffId('');
     setTaskActionName('');
     setTaskInfo('');
+    setTaskButtonId('');
+    setTaskPriority(TaskPriority.NORMAL);
+    setTaskDueAt('');
     setTaskSubmitStatus('idle');
     setIsTaskModalOpen(true);
+    if (buttonConfigs.length === 0) {
+      getButtonConfigsByEvent(eventId)
+        .then(setButtonConfigs)
+        .catch(error => console.error("Failed to fetch buttons for task assignment:", error));
+    }
+  };
+
+  // Buttons enabled for the selected company; picking one names the task after it
+  const taskCompanyButtons = useMemo(() => {
+    const company = companies.find(c => c.id === selectedTaskCompanyId);
+    if (!company) return [];
+    return buttonConfigs.filter(b => (company.buttonIds || []).includes(b.id));
+  }, [companies, selectedTaskCompanyId, buttonConfigs]);
+
+  const handleTaskButtonChange = (buttonId: string) => {
+    setTaskButtonId(buttonId);
+    const button = buttonConfigs.find(b => b.id === buttonId);
+    if (button) {
+      setTaskActionName(button.label);
+    }
   };
 
   const handleAssignTask = async (e: React.FormEvent) => {
@@ -235,8 +285,16 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
             throw new Error("Seleção de empresa ou equipe inválida.");
         }
 
-        const description = `Tarefa atribuída: Realizar '${taskActionName}' na empresa '${company.name}' [${company.boothCode}]. Descrição: ${taskInfo}`;
-        await apiAddTaskActivity(staffMember.id, description, eventId);
+        await assignTask({
+            eventId,
+            staffId: staffMember.id,
+            companyId: company.id,
+            buttonId: taskButtonId || null,
+            actionLabel: taskActionName,
+            details: taskInfo,
+            priority: taskPriority,
+            dueAt: taskDueAt ? new Date(taskDueAt).toISOString() : null,
+        });
         
         setTaskSubmitStatus('success');
         await fetchData(); // Refresh data
@@ -255,7 +313,7 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
   const filteredStaff = useMemo(() =>
     staff.filter(s =>
       s.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      s.personalCode.toLowerCase().includes(searchTerm.toLowerCase())
+      (s.personalCode || '').toLowerCase().includes(searchTerm.toLowerCase())
     ),
     [staff, searchTerm]
   );
@@ -268,10 +326,29 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
     [companies, searchTerm]
   );
 
+  // Planned visits of the chosen day for every staff member who has a plan
+  const plannedVisitsByStaff = useMemo(() =>
+    filteredStaff
+      .map(member => {
+        const plan = findVisitPlanForStaff(visitPlans, visitDay, member.id, member.departmentId);
+        return plan && { member, visits: getPlannedVisits({ plan, companies, eventButtons: buttonConfigs, reports, staff: member }) };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => !!entry),
+    [filteredStaff, visitPlans, visitDay, companies, buttonConfigs, reports]
+  );
+
+  const visitStatusTotals = useMemo(() => {
+    const totals = Object.values(PlannedVisitStatus).reduce((acc, status) => ({ ...acc, [status]: 0 }), {} as Record<PlannedVisitStatus, number>);
+    plannedVisitsByStaff.forEach(({ visits }) => visits.forEach(visit => { totals[visit.status]++; }));
+    return totals;
+  }, [plannedVisitsByStaff]);
+
+  const companyReports = useMemo(
+    () => (selectedCompany ? reports.filter(r => r.boothCode === selectedCompany.boothCode) : []),
+    [selectedCompany, reports]
+  );
+
   const reportsByCompanyCategory = useMemo(() => {
-    if (!selectedCompany) return {};
-    const companyReports = reports.filter(r => r.boothCode === selectedCompany.boothCode);
-    
     return companyReports.reduce((acc, report) => {
         const { reportLabel } = report;
         if (!acc[reportLabel]) {
@@ -280,7 +357,7 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
         acc[reportLabel].push(report);
         return acc;
     }, {} as Record<string, ReportSubmission[]>);
-  }, [selectedCompany, reports]);
+  }, [companyReports]);
   
   const activitiesByStaffCategory = useMemo(() => {
     if (!selectedStaff) return {};
@@ -300,8 +377,8 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
     }, {} as Record<string, StaffActivity[]>);
   }, [selectedStaff, activities]);
 
-  const getButtonClass = (mode: 'staff' | 'company') => {
-    const base = 'px-4 py-2 rounded-lg font-semibold transition-colors duration-300 w-1/2 sm:w-auto';
+  const getButtonClass = (mode: 'staff' | 'company' | 'visits') => {
+    const base = 'px-4 py-2 rounded-lg font-semibold transition-colors duration-300 w-1/3 sm:w-auto';
     if (viewMode === mode) {
       return `${base} bg-primary text-black`;
     }
@@ -326,11 +403,14 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
                 <button onClick={() => setViewMode('company')} className={getButtonClass('company')}>
                     Por Empresa
                 </button>
+                <button onClick={() => setViewMode('visits')} className={getButtonClass('visits')}>
+                    Roteiros
+                </button>
             </div>
           <Input
             id="search-dashboard"
             label=""
-            placeholder={viewMode === 'staff' ? 'Buscar membro...' : 'Buscar empresa...'}
+            placeholder={viewMode === 'company' ? 'Buscar empresa...' : 'Buscar membro...'}
             value={searchTerm}
             onChange={e => setSearchTerm(e.target.value)}
             className="w-full sm:w-64 mb-0 flex-grow"
@@ -371,6 +451,58 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
             </button>
           ))}
         </div>
+      ) : viewMode === 'visits' ? (
+        <div className="space-y-6">
+          <div className="bg-card p-4 rounded-lg shadow-md flex flex-col sm:flex-row sm:items-center gap-4">
+            <label className="flex items-center gap-2 text-sm font-semibold">
+              Dia
+              <input
+                type="date"
+                value={visitDay}
+                onChange={e => setVisitDay(e.target.value)}
+                className="px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(PlannedVisitStatus).map(status => (
+                <span key={status} className={`px-2 py-1 text-xs font-bold rounded-full ${visitStatusClasses[status]}`}>
+                  {status}: {visitStatusTotals[status]}
+                </span>
+              ))}
+            </div>
+          </div>
+          {plannedVisitsByStaff.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {plannedVisitsByStaff.map(({ member, visits }) => (
+                <div key={member.id} className="bg-card p-5 rounded-lg shadow-md">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold truncate">{member.name}</h3>
+                    <span className="text-sm text-text-secondary flex-shrink-0 ml-2">
+                      {visits.filter(v => v.status === PlannedVisitStatus.CONCLUIDA).length}/{visits.length} concluídas
+                    </span>
+                  </div>
+                  <ol className="space-y-2">
+                    {visits.map((visit, index) => (
+                      <li key={visit.company.id} className="flex justify-between items-center gap-2 text-sm">
+                        <span className="truncate">
+                          {index + 1}. {visit.company.name}
+                          {visit.buttons.length > 0 && (
+                            <span className="text-xs text-text-secondary ml-2">
+                              {visit.buttons.length - visit.pendingButtons.length}/{visit.buttons.length} ações
+                            </span>
+                          )}
+                        </span>
+                        <span className={`px-2 py-1 text-xs font-bold rounded-full flex-shrink-0 ${visitStatusClasses[visit.status]}`}>{visit.status}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-text-secondary text-center py-8">Nenhum roteiro de visitas para este dia.</p>
+          )}
+        </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredCompanies.map(company => {
@@ -420,6 +552,19 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
                     {reportList.map(report => (
                       <li key={report.id} className="border-l-2 border-border pl-3">
                         <p className="text-text">"{report.response}"</p>
+                        {report.answers?.some(a => a.type === ReportType.PHOTO || a.type === ReportType.SIGNATURE) && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {report.answers
+                              .filter(a => a.type === ReportType.PHOTO || a.type === ReportType.SIGNATURE)
+                              .flatMap(a => ([] as unknown[]).concat(a.value))
+                              .filter((url): url is string => typeof url === 'string' && !!url)
+                              .map(url => (
+                                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                  <img src={url} alt="Imagem do registro" className="w-16 h-16 object-cover rounded-md bg-white" />
+                                </a>
+                              ))}
+                          </div>
+                        )}
                         <div className="flex justify-between items-center mt-1">
                           <span className="text-xs font-medium text-text-secondary">por: {report.staffName}</span>
                           <span className="text-xs text-text-secondary flex-shrink-0">
@@ -434,6 +579,11 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
             ) : (
               <p className="text-text-secondary text-center py-8">Nenhum registro encontrado para esta empresa.</p>
             )}
+            {companyReports.length > 0 && (
+              <AccordionItem title="Indicadores das Respostas" count={companyReports.length}>
+                <AnswerStatsPanel buttons={buttonConfigs} reports={companyReports} />
+              </AccordionItem>
+            )}
           </div>
         </Modal>
       )}
@@ -484,7 +634,10 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
               <select
                 id="task-company"
                 value={selectedTaskCompanyId}
-                onChange={(e) => setSelectedTaskCompanyId(e.target.value)}
+                onChange={(e) => {
+                  setSelectedTaskCompanyId(e.target.value);
+                  setTaskButtonId('');
+                }}
                 className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                 required
               >
@@ -505,6 +658,20 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
                 {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
               </select>
             </div>
+            {taskCompanyButtons.length > 0 && (
+              <div>
+                <label htmlFor="task-button" className="block text-sm font-medium mb-1">Vincular a um Botão (opcional)</label>
+                <select
+                  id="task-button"
+                  value={taskButtonId}
+                  onChange={(e) => handleTaskButtonChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Nenhum (ação livre)</option>
+                  {taskCompanyButtons.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+                </select>
+              </div>
+            )}
             <Input
                 id="task-action-name"
                 label="Nome da Ação"
@@ -527,6 +694,28 @@ const DashboardView: React.FC<Props> = ({ eventId }) => {
                     required
                 />
             </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="task-priority" className="block text-sm font-medium mb-1">Prioridade</label>
+                <select
+                  id="task-priority"
+                  value={taskPriority}
+                  onChange={(e) => setTaskPriority(e.target.value as TaskPriority)}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value={TaskPriority.BAIXA}>Baixa</option>
+                  <option value={TaskPriority.NORMAL}>Normal</option>
+                  <option value={TaskPriority.ALTA}>Alta</option>
+                </select>
+              </div>
+              <Input
+                  id="task-due-at"
+                  label="Prazo (opcional)"
+                  type="datetime-local"
+                  value={taskDueAt}
+                  onChange={(e) => setTaskDueAt(e.target.value)}
+              />
+            </div>
 
             {taskSubmitStatus === 'error' && (
               <p className="text-red-500 text-sm text-center">Ocorreu um erro ao atribuir a tarefa. Tente novamente.</p>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { getDepartmentsByEvent, getStaffByEvent, addAlertLog, getAlertLogsByEvent } from '../../services/api';
-import { Department, Staff, AlertLog } from '../../types';
+import { notify } from '../../services/notifications';
+import { Department, Staff, AlertLog, NotificationChannel } from '../../types';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import Modal from '../Modal';
@@ -38,13 +39,13 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
   // State for STAFF confirmation and submission
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'queued' | 'error'>('idle');
 
   // State for GROUP form flow
   const [groupAlertMessage, setGroupAlertMessage] = useState('');
   const [isGroupConfirmModalOpen, setIsGroupConfirmModalOpen] = useState(false);
   const [isSubmittingGroup, setIsSubmittingGroup] = useState(false);
-  const [groupSubmitStatus, setGroupSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [groupSubmitStatus, setGroupSubmitStatus] = useState<'idle' | 'success' | 'queued' | 'error'>('idle');
 
   // State for logs view
   const [view, setView] = useState<'form' | 'logs'>('form');
@@ -154,7 +155,6 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
     setIsSubmitting(true);
     setSubmitStatus('idle');
 
-    const webhookUrl = 'https://webhook.triad3.io/webhook/emitiralerta-staffs';
     const targets = selectedStaffDetails.filter(s => s.phone); // Ensure staff has a phone number
 
     if(targets.length === 0) {
@@ -163,23 +163,16 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
         return;
     }
 
-    const requests = targets.map(staff => {
-      const payload = {
-        staffName: staff.name,
-        staffPhone: staff.phone,
-        alertMessage: alertMessage,
-      };
-      return fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-    });
+    const requests = targets.map(staff => notify(eventId, NotificationChannel.STAFF_ALERT, {
+      staffName: staff.name,
+      staffPhone: staff.phone || '',
+      alertMessage: alertMessage,
+    }));
 
     try {
-      const responses = await Promise.all(requests);
+      const results = await Promise.all(requests);
       // Check if any request failed
-      if (responses.some(res => !res.ok)) {
+      if (results.includes('failed')) {
         throw new Error('Uma ou mais notificações falharam ao enviar.');
       }
 
@@ -197,7 +190,7 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
           });
       }
 
-      setSubmitStatus('success');
+      setSubmitStatus(results.includes('queued') ? 'queued' : 'success');
       setTimeout(() => {
         resetStaffForm();
         handleBackToChoice();
@@ -215,17 +208,11 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
     setIsSubmittingGroup(true);
     setGroupSubmitStatus('idle');
 
-    const webhookUrl = 'https://webhook.triad3.io/webhook/aca7d18d-8c37-49ae-92a4-03285bc6729a';
-    
     try {
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: groupAlertMessage }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Webhook para grupo falhou.');
+      const result = await notify(eventId, NotificationChannel.GROUP_ALERT, { message: groupAlertMessage });
+
+      if (result === 'failed') {
+        throw new Error('Notificação para grupo falhou.');
       }
 
       if (user) {
@@ -237,7 +224,7 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
         });
       }
 
-      setGroupSubmitStatus('success');
+      setGroupSubmitStatus(result === 'queued' ? 'queued' : 'success');
       setTimeout(() => {
         resetGroupForm();
         handleBackToChoice();
@@ -517,12 +504,13 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
         
         {/* Staff Alert Modal */}
         <Modal isOpen={isConfirmModalOpen} onClose={() => setIsConfirmModalOpen(false)} title="Confirmar Envio do Alerta">
-            {submitStatus === 'success' ? (
+            {submitStatus === 'success' || submitStatus === 'queued' ? (
                  <div className="text-center p-4">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    <p className="mt-4 text-lg font-semibold">Alerta(s) enviado(s) com sucesso!</p>
+                    <p className="mt-4 text-lg font-semibold">{submitStatus === 'queued' ? 'Alerta(s) registrado(s)!' : 'Alerta(s) enviado(s) com sucesso!'}</p>
+                    {submitStatus === 'queued' && <p className="mt-2 text-sm text-text-secondary">Nem todos foram entregues ainda. O envio será repetido automaticamente.</p>}
                 </div>
             ) : (
                 <div className="space-y-4">
@@ -555,12 +543,13 @@ const EmitirAlertaView: React.FC<Props> = ({ eventId }) => {
 
         {/* Group Alert Modal */}
         <Modal isOpen={isGroupConfirmModalOpen} onClose={() => setIsGroupConfirmModalOpen(false)} title="Confirmar Envio para Grupo">
-            {groupSubmitStatus === 'success' ? (
+            {groupSubmitStatus === 'success' || groupSubmitStatus === 'queued' ? (
                  <div className="text-center p-4">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    <p className="mt-4 text-lg font-semibold">Alerta para o grupo enviado com sucesso!</p>
+                    <p className="mt-4 text-lg font-semibold">{groupSubmitStatus === 'queued' ? 'Alerta para o grupo registrado!' : 'Alerta para o grupo enviado com sucesso!'}</p>
+                    {groupSubmitStatus === 'queued' && <p className="mt-2 text-sm text-text-secondary">Ainda não foi entregue. O envio será repetido automaticamente.</p>}
                 </div>
             ) : (
                 <div className="space-y-4">
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getStaffByEvent, getDepartmentsByEvent } from '../../services/api';
+import { EVENT_MODULES, EventModulesMap, getEventModules, saveEventModule } from '../../services/eventModules';
+import { BADGE_FIELD_LABELS, BADGE_FORMAT_LABELS } from '../../services/badges';
+import { Staff, Department, EventModule, EventModuleSettings, BadgeField, BadgeFormat } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface Props {
+  eventId: string;
+}
+
+const CheckIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+    </svg>
+);
+
+const toggleId = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+const EventModulesManager: React.FC<Props> = ({ eventId }) => {
+  const [modules, setModules] = useState<EventModulesMap | null>(null);
+  const [staffList, setStaffList] = useState<Staff[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<EventModule | null>(null);
+  const [saveStatus, setSaveStatus] = useState<Partial<Record<EventModule, 'success' | 'error'>>>({});
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [modulesData, staffData, departmentsData] = await Promise.all([
+        getEventModules(eventId),
+        getStaffByEvent(eventId),
+        getDepartmentsByEvent(eventId),
+      ]);
+      setModules(modulesData);
+      setStaffList(staffData);
+      setDepartments(departmentsData);
+    } catch (error) {
+      console.error("Failed to fetch event modules:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const updateModule = <M extends EventModule>(module: M, changes: Partial<EventModuleSettings<M>>) => {
+    setModules(prev => prev && { ...prev, [module]: { ...prev[module], ...changes } });
+    setSaveStatus(prev => ({ ...prev, [module]: undefined }));
+  };
+
+  const handleSave = async (module: EventModule) => {
+    if (!modules) return;
+    setSaving(module);
+    try {
+      const saved = await saveEventModule(modules[module]);
+      setModules(prev => prev && { ...prev, [module]: saved });
+      setSaveStatus(prev => ({ ...prev, [module]: 'success' }));
+      setTimeout(() => setSaveStatus(prev => ({ ...prev, [module]: undefined })), 2000);
+    } catch (error) {
+      console.error("Failed to save event module:", error);
+      setSaveStatus(prev => ({ ...prev, [module]: 'error' }));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const getDepartmentName = (departmentId?: string) => {
+      return departments.find(d => d.id === departmentId)?.name || 'N/A';
+  };
+
+  const renderOptions = (module: EventModule) => {
+    if (!modules) return null;
+    switch (module) {
+      case EventModule.SALES_CHECKIN: {
+        const { options } = modules[EventModule.SALES_CHECKIN];
+        return (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={options.notifyTelao}
+              onChange={(e) => updateModule(EventModule.SALES_CHECKIN, { options: { ...options, notifyTelao: e.target.checked } })}
+              className="h-4 w-4"
+            />
+            Enviar vendas para o telão
+          </label>
+        );
+      }
+      case EventModule.STOCK_CONTROL: {
+        const { options } = modules[EventModule.STOCK_CONTROL];
+        return (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={options.allowTestDrive}
+              onChange={(e) => updateModule(EventModule.STOCK_CONTROL, { options: { ...options, allowTestDrive: e.target.checked } })}
+              className="h-4 w-4"
+            />
+            Permitir registro de test drive
+          </label>
+        );
+      }
+      case EventModule.LEAD_CAPTURE: {
+        const { options } = modules[EventModule.LEAD_CAPTURE];
+        const setOptions = (changes: Partial<typeof options>) => updateModule(EventModule.LEAD_CAPTURE, { options: { ...options, ...changes } });
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="text-sm flex items-center gap-2">
+                Formato do QR Code do crachá
+                <select
+                  value={options.badgeFormat}
+                  onChange={(e) => setOptions({ badgeFormat: e.target.value as BadgeFormat })}
+                  className="px-3 py-1 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {(Object.keys(BADGE_FORMAT_LABELS) as BadgeFormat[]).map(format => (
+                    <option key={format} value={format}>{BADGE_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </label>
+              {options.badgeFormat === 'delimited' && (
+                <label className="text-sm flex items-center gap-2">
+                  Separador
+                  <input
+                    type="text"
+                    value={options.badgeDelimiter}
+                    onChange={(e) => setOptions({ badgeDelimiter: e.target.value })}
+                    className="w-16 px-2 py-1 border border-border rounded-md bg-background text-center"
+                  />
+                </label>
+              )}
+            </div>
+            {options.badgeFormat === 'vcard' && (
+              <p className="text-xs text-text-secondary">Lê nome (FN), telefone (TEL), e-mail (EMAIL) e código do visitante (UID).</p>
+            )}
+            {options.badgeFormat !== 'vcard' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {(Object.keys(BADGE_FIELD_LABELS) as BadgeField[]).map(field => (
+                  <label key={field} className="text-sm flex items-center justify-between gap-2">
+                    {BADGE_FIELD_LABELS[field]}
+                    {options.badgeFormat === 'json' ? (
+                      <input
+                        type="text"
+                        placeholder="chave"
+                        value={options.badgeJsonKeys[field]}
+                        onChange={(e) => setOptions({ badgeJsonKeys: { ...options.badgeJsonKeys, [field]: e.target.value.trim() } })}
+                        className="w-40 px-2 py-1 border border-border rounded-md bg-background"
+                      />
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        title="Posição do campo (0 quando o crachá não traz)"
+                        value={options.badgePositions[field]}
+                        onChange={(e) => setOptions({ badgePositions: { ...options.badgePositions, [field]: Math.max(0, Number(e.target.value) || 0) } })}
+                        className="w-20 px-2 py-1 border border-border rounded-md bg-background text-center"
+                      />
+                    )}
+                  </label>
+                ))}
+              </div>
+            )}
+            {options.badgeFormat === 'json' && (
+              <p className="text-xs text-text-secondary">Use ponto para campos aninhados, por exemplo <code>visitante.nome</code>. Deixe em branco o que o crachá não traz.</p>
+            )}
+            {options.badgeFormat === 'delimited' && (
+              <p className="text-xs text-text-secondary">Posição de cada campo no texto, começando em 1. Use 0 para o que o crachá não traz.</p>
+            )}
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  if (loading || !modules) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Módulos do Evento</h2>
+        <p className="text-text-secondary mt-1">
+          Ative as funcionalidades extras dos painéis da equipe e dos colaboradores. Nos módulos da equipe, escolha quem pode usá-los, por membro ou por departamento inteiro.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {(Object.keys(EVENT_MODULES) as EventModule[]).map(module => {
+          const definition = EVENT_MODULES[module];
+          const settings = modules[module];
+          const options = renderOptions(module);
+
+          return (
+            <div key={module} className={`p-4 border rounded-lg ${settings.isEnabled ? 'border-primary' : 'border-border'}`}>
+              <div className="flex justify-between items-start gap-4 mb-4">
+                <div>
+                  <p className="font-bold text-lg">{definition.label}</p>
+                  <p className="text-sm text-text-secondary">{definition.description}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm font-semibold flex-shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={settings.isEnabled}
+                    onChange={(e) => updateModule(module, { isEnabled: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  Ativo
+                </label>
+              </div>
+
+              {settings.isEnabled && definition.forCollaborators && (
+                <p className="text-sm text-text-secondary mb-4">Disponível para todos os colaboradores das empresas participantes.</p>
+              )}
+
+              {settings.isEnabled && !definition.forCollaborators && (
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="font-semibold text-sm mb-2">Departamentos com acesso</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {departments.map(dep => {
+                        const isSelected = settings.departmentIds.includes(dep.id);
+                        return (
+                          <button
+                            key={dep.id}
+                            type="button"
+                            onClick={() => updateModule(module, { departmentIds: toggleId(settings.departmentIds, dep.id) })}
+                            className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${isSelected ? 'bg-primary text-black' : 'bg-secondary hover:bg-secondary-hover'}`}
+                          >
+                            {dep.name}
+                          </button>
+                        );
+                      })}
+                      {departments.length === 0 && <p className="text-sm text-text-secondary">Nenhum departamento cadastrado.</p>}
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold text-sm mb-2">Membros da equipe com acesso</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                      {staffList.map(staff => {
+                        const isSelected = settings.staffIds.includes(staff.id);
+                        const viaDepartment = !isSelected && !!staff.departmentId && settings.departmentIds.includes(staff.departmentId);
+                        return (
+                          <button
+                            key={staff.id}
+                            type="button"
+                            onClick={() => updateModule(module, { staffIds: toggleId(settings.staffIds, staff.id) })}
+                            className={`relative p-2 rounded-lg text-left transition-colors flex items-center gap-3 ${
+                              isSelected ? 'bg-primary/10 border-2 border-primary' : 'bg-secondary hover:bg-secondary-hover border-2 border-transparent'
+                            }`}
+                          >
+                            <img src={staff.photoUrl || 'https://via.placeholder.com/150'} alt={staff.name} className="w-10 h-10 rounded-full object-cover flex-shrink-0" />
+                            <div className="overflow-hidden">
+                              <p className="font-semibold text-sm truncate">{staff.name}</p>
+                              <p className="text-xs text-text-secondary truncate">
+                                {getDepartmentName(staff.departmentId)}{viaDepartment && ' · acesso pelo departamento'}
+                              </p>
+                            </div>
+                            {isSelected && (
+                              <div className="absolute top-2 right-2 w-6 h-6 bg-primary rounded-full flex items-center justify-center shadow-lg">
+                                <CheckIcon />
+                              </div>
+                            )}
+                          </button>
+                        );
+                      })}
+                      {staffList.length === 0 && <p className="col-span-full text-sm text-text-secondary">Nenhum membro da equipe cadastrado neste evento.</p>}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {settings.isEnabled && options && (
+                <div className={definition.forCollaborators ? '' : 'mt-4'}>
+                  <h4 className="font-semibold text-sm mb-2">Opções</h4>
+                  {options}
+                </div>
+              )}
+
+              <div className="flex justify-end items-center gap-4 pt-4 mt-4 border-t border-border">
+                {saveStatus[module] === 'success' && <p className="text-green-500 text-sm font-semibold animate-pulse">Configuração salva com sucesso!</p>}
+                {saveStatus[module] === 'error' && <p className="text-red-500 text-sm font-semibold">Falha ao salvar. Tente novamente.</p>}
+                <Button onClick={() => handleSave(module)} disabled={saving !== null}>
+                  {saving === module ? 'Salvando...' : 'Salvar'}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EventModulesManager;
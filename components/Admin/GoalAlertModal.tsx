@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { addAlertLog } from '../../services/api';
+import { notify } from '../../services/notifications';
+import { GoalProgress, formatGoalPercent } from '../../services/salesTargets';
+import { NotificationChannel, Staff } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import Modal from '../Modal';
+import Button from '../Button';
+
+interface Props {
+  eventId: string;
+  company: { id: string; name: string } | null; // Closed when null
+  progress: GoalProgress | null;
+  staffList: Staff[];
+  onClose: () => void;
+}
+
+const buildMessage = (companyName: string, progress: GoalProgress) =>
+  `Atenção: ${companyName} está muito abaixo da meta de vendas. ` +
+  `Vendidos ${progress.sold} de ${progress.target} (${formatGoalPercent(progress.percent)}); ` +
+  `o esperado até agora era ${Math.round(progress.targetToDate)}. Passe no estande para apoiar a equipe.`;
+
+// Sends a company that fell far behind its goal to the staff through the
+// same staff alert channel and log as the alerts view.
+const GoalAlertModal: React.FC<Props> = ({ eventId, company, progress, staffList, onClose }) => {
+  const { user } = useAuth();
+  const [selectedStaffIds, setSelectedStaffIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'queued' | 'error'>('idle');
+
+  const reachableStaff = staffList.filter(s => s.phone);
+
+  useEffect(() => {
+    if (!company || !progress) return;
+    setSelectedStaffIds(new Set());
+    setMessage(buildMessage(company.name, progress));
+    setSubmitStatus('idle');
+  }, [company?.id]);
+
+  const handleStaffToggle = (staffId: string) => {
+    setSelectedStaffIds(prev => {
+      const next = new Set(prev);
+      if (next.has(staffId)) next.delete(staffId);
+      else next.add(staffId);
+      return next;
+    });
+  };
+
+  const handleSend = async () => {
+    const targets = reachableStaff.filter(s => selectedStaffIds.has(s.id));
+    if (targets.length === 0 || !message.trim()) return;
+
+    setIsSubmitting(true);
+    setSubmitStatus('idle');
+    try {
+      const results = await Promise.all(targets.map(staff => notify(eventId, NotificationChannel.STAFF_ALERT, {
+        staffName: staff.name,
+        staffPhone: staff.phone || '',
+        alertMessage: message,
+      })));
+      if (results.includes('failed')) {
+        throw new Error('Uma ou mais notificações falharam ao enviar.');
+      }
+
+      if (user) {
+        await addAlertLog({
+          eventId,
+          senderUserId: user.id,
+          message,
+          recipients: targets.map(s => ({ staffId: s.id, staffName: s.name, staffPhone: s.phone })),
+        });
+      }
+      setSubmitStatus(results.includes('queued') ? 'queued' : 'success');
+    } catch (error) {
+      console.error("Failed to send goal alert:", error);
+      setSubmitStatus('error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!company} onClose={onClose} title={`Alertar Equipe: ${company?.name || ''}`}>
+      {submitStatus === 'success' || submitStatus === 'queued' ? (
+        <div className="text-center p-4">
+          <p className="text-lg font-semibold text-green-500">{submitStatus === 'queued' ? 'Alerta registrado!' : 'Alerta enviado com sucesso!'}</p>
+          {submitStatus === 'queued' && <p className="mt-2 text-sm text-text-secondary">Nem todos foram entregues ainda. O envio será repetido automaticamente.</p>}
+          <Button className="mt-4" onClick={onClose}>Fechar</Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <p className="text-sm font-medium mb-2">Destinatários</p>
+            {reachableStaff.length > 0 ? (
+              <div className="space-y-1 max-h-48 overflow-y-auto pr-2">
+                {reachableStaff.map(staff => (
+                  <label key={staff.id} className="flex items-center gap-2 p-2 bg-secondary rounded-md cursor-pointer">
+                    <input type="checkbox" checked={selectedStaffIds.has(staff.id)} onChange={() => handleStaffToggle(staff.id)} className="h-4 w-4" />
+                    <span className="text-sm">{staff.name}</span>
+                    <span className="text-xs text-text-secondary">{staff.role || 'Sem cargo'}</span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-text-secondary">Nenhum membro da equipe com telefone cadastrado.</p>
+            )}
+          </div>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={5}
+            className="w-full p-3 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            required
+          />
+          {submitStatus === 'error' && <p className="text-red-500 text-sm text-center">Falha ao enviar o alerta. Tente novamente.</p>}
+          <div className="flex justify-end gap-4">
+            <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>Cancelar</Button>
+            <Button onClick={handleSend} disabled={isSubmitting || selectedStaffIds.size === 0 || !message.trim()}>
+              {isSubmitting ? 'Enviando...' : `Enviar para ${selectedStaffIds.size}`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default GoalAlertModal;
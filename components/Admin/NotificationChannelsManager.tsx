@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  NOTIFICATION_CHANNELS,
+  getNotificationTargetsByEvent,
+  addNotificationTarget,
+  updateNotificationTarget,
+  deleteNotificationTarget,
+  renderPayload,
+  sendTestNotification,
+} from '../../services/notifications';
+import { NotificationChannel, NotificationTarget } from '../../types';
+import Modal from '../Modal';
+import Input from '../Input';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmationModal from '../ConfirmationModal';
+
+interface Props {
+  eventId: string;
+}
+
+type TargetForm = Omit<NotificationTarget, 'id' | 'createdAt' | 'headers'> & { id?: string; headersText: string };
+
+const emptyTarget = (eventId: string, channel: NotificationChannel): TargetForm => ({
+  eventId,
+  channel,
+  name: '',
+  url: '',
+  headersText: '',
+  payloadTemplate: '',
+  isActive: true,
+});
+
+// Headers are edited as one "Nome: valor" pair per line.
+const parseHeaders = (text: string): Record<string, string> =>
+  text.split('\n').reduce((acc, line) => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      acc[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+    return acc;
+  }, {} as Record<string, string>);
+
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const NotificationChannelsManager: React.FC<Props> = ({ eventId }) => {
+  const [targets, setTargets] = useState<NotificationTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [currentTarget, setCurrentTarget] = useState<TargetForm>(emptyTarget(eventId, NotificationChannel.COMPANY_CALL));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [testStatus, setTestStatus] = useState<Record<string, 'sending' | 'success' | 'error'>>({});
+  const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTargets(await getNotificationTargetsByEvent(eventId));
+    } catch (error) {
+      console.error("Failed to fetch notification targets:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleOpenModal = (channel: NotificationChannel, target?: NotificationTarget) => {
+    setFormError(null);
+    if (target) {
+      setCurrentTarget({ ...target, headersText: formatHeaders(target.headers), payloadTemplate: target.payloadTemplate || '' });
+    } else {
+      setCurrentTarget(emptyTarget(eventId, channel));
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => setIsModalOpen(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setCurrentTarget(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+  };
+
+  const buildTarget = (): Omit<NotificationTarget, 'id' | 'createdAt'> | null => {
+    if (currentTarget.payloadTemplate) {
+      try {
+        renderPayload(currentTarget.payloadTemplate, NOTIFICATION_CHANNELS[currentTarget.channel].sample);
+      } catch {
+        setFormError('O modelo de payload não é um JSON válido.');
+        return null;
+      }
+    }
+    const { id, headersText, ...rest } = currentTarget;
+    return { ...rest, headers: parseHeaders(headersText) };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = buildTarget();
+    if (!target) return;
+
+    setSaving(true);
+    try {
+      if (currentTarget.id) {
+        await updateNotificationTarget({ ...target, id: currentTarget.id });
+      } else {
+        await addNotificationTarget(target);
+      }
+      fetchData();
+      handleCloseModal();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Falha ao salvar o destino.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async (key: string, target: Parameters<typeof sendTestNotification>[0]) => {
+    setTestStatus(prev => ({ ...prev, [key]: 'sending' }));
+    const delivered = await sendTestNotification(target);
+    setTestStatus(prev => ({ ...prev, [key]: delivered ? 'success' : 'error' }));
+  };
+
+  const handleTestFromModal = () => {
+    const target = buildTarget();
+    if (target) {
+      handleTest('modal', target);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (itemToDelete) {
+      try {
+        await deleteNotificationTarget(itemToDelete);
+        fetchData();
+      } catch (error) {
+        console.error("Failed to delete notification target:", error);
+      } finally {
+        setItemToDelete(null);
+      }
+    }
+  };
+
+  const renderTestStatus = (key: string) => {
+    const status = testStatus[key];
+    if (status === 'sending') return <span className="text-xs text-text-secondary">Enviando...</span>;
+    if (status === 'success') return <span className="text-xs text-green-500 font-semibold">Teste enviado!</span>;
+    if (status === 'error') return <span className="text-xs text-red-500 font-semibold">Falha no envio</span>;
+    return null;
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Canais de Notificação</h2>
+        <p className="text-text-secondary mt-1">
+          Configure para onde cada notificação deste evento é enviada. Enquanto um canal não tiver destinos próprios, o destino padrão é utilizado.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {(Object.keys(NOTIFICATION_CHANNELS) as NotificationChannel[]).map(channel => {
+          const definition = NOTIFICATION_CHANNELS[channel];
+          const channelTargets = targets.filter(t => t.channel === channel);
+
+          return (
+            <div key={channel} className="p-4 border border-border rounded-lg">
+              <div className="flex justify-between items-start gap-4 mb-3">
+                <div>
+                  <p className="font-bold text-lg">{definition.label}</p>
+                  <p className="text-sm text-text-secondary">{definition.description}</p>
+                </div>
+                <Button onClick={() => handleOpenModal(channel)} className="py-1 px-2 text-sm flex-shrink-0">Adicionar Destino</Button>
+              </div>
+
+              {channelTargets.length === 0 ? (
+                <div className="space-y-2">
+                  {definition.defaultTargets.map(target => (
+                    <div key={target.url} className="p-3 bg-secondary rounded-md flex justify-between items-center gap-4">
+                      <div className="overflow-hidden">
+                        <p className="font-semibold text-sm">{target.name} <span className="text-xs text-text-secondary font-normal">(padrão)</span></p>
+                        <p className="text-xs text-text-secondary truncate">{target.url}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {channelTargets.map(target => (
+                    <div key={target.id} className="p-3 bg-secondary rounded-md flex justify-between items-center gap-4">
+                      <div className="overflow-hidden">
+                        <p className="font-semibold text-sm">
+                          {target.name}
+                          {!target.isActive && <span className="ml-2 text-xs font-semibold bg-yellow-800 text-yellow-200 py-0.5 px-2 rounded-full">Inativo</span>}
+                        </p>
+                        <p className="text-xs text-text-secondary truncate">{target.url}</p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {renderTestStatus(target.id)}
+                        <Button variant="secondary" onClick={() => handleTest(target.id, target)} className="py-1 px-2 text-sm">Testar</Button>
+                        <Button variant="secondary" onClick={() => handleOpenModal(channel, target)} className="py-1 px-2 text-sm">Editar</Button>
+                        <Button variant="danger" onClick={() => setItemToDelete(target.id)} className="py-1 px-2 text-sm">Excluir</Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={currentTarget.id ? 'Editar Destino' : `Adicionar Destino - ${NOTIFICATION_CHANNELS[currentTarget.channel].label}`}>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input id="name" name="name" label="Nome" value={currentTarget.name} onChange={handleChange} required />
+          <Input id="url" name="url" label="URL do Webhook" type="url" value={currentTarget.url} onChange={handleChange} required />
+          <div>
+            <label htmlFor="headersText" className="block text-sm font-medium mb-1">Cabeçalhos (um por linha, "Nome: valor")</label>
+            <textarea
+              id="headersText"
+              name="headersText"
+              value={currentTarget.headersText}
+              onChange={handleChange}
+              rows={3}
+              className="w-full p-2 border border-border rounded-md bg-background font-mono text-sm"
+              placeholder="Authorization: Bearer ..."
+            />
+          </div>
+          <div>
+            <label htmlFor="payloadTemplate" className="block text-sm font-medium mb-1">Modelo de Payload (JSON, opcional)</label>
+            <textarea
+              id="payloadTemplate"
+              name="payloadTemplate"
+              value={currentTarget.payloadTemplate || ''}
+              onChange={handleChange}
+              rows={6}
+              className="w-full p-2 border border-border rounded-md bg-background font-mono text-sm"
+              placeholder='{"mensagem": "{{companyName}} - {{collaboratorName}}"}'
+            />
+            <p className="text-xs text-text-secondary mt-1">
+              Deixe em branco para enviar o payload padrão. Campos disponíveis: {Object.keys(NOTIFICATION_CHANNELS[currentTarget.channel].sample).map(field => `{{${field}}}`).join(', ')}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" name="isActive" checked={currentTarget.isActive} onChange={handleChange} className="h-4 w-4" />
+            Ativo
+          </label>
+          {formError && <p className="text-red-500 text-sm">{formError}</p>}
+          <div className="flex justify-between items-center gap-4 pt-4">
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="secondary" onClick={handleTestFromModal} disabled={!currentTarget.url}>Enviar Teste</Button>
+              {renderTestStatus('modal')}
+            </div>
+            <div className="flex gap-4">
+              <Button type="button" variant="secondary" onClick={handleCloseModal}>Cancelar</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Salvando...' : 'Salvar'}</Button>
+            </div>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!itemToDelete}
+        onClose={() => setItemToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Confirmar Exclusão"
+        message="Tem certeza que deseja excluir este destino? Se for o último do canal, o destino padrão voltará a ser usado."
+        confirmText="Excluir"
+      />
+    </div>
+  );
+};
+
+export default NotificationChannelsManager;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { getOutboxEntriesByEvent, resendOutboxEntry, NOTIFICATION_CHANNELS } from '../../services/notifications';
+import { OutboxEntry, OutboxStatus } from '../../types';
+import LoadingSpinner from '../LoadingSpinner';
+import Button from '../Button';
+
+type OutboxFilter = 'failed' | 'pending' | 'delivered' | 'all';
+
+const statusLabels: Record<OutboxStatus, string> = {
+  [OutboxStatus.PENDING]: 'Aguardando',
+  [OutboxStatus.SENDING]: 'Enviando',
+  [OutboxStatus.DELIVERED]: 'Entregue',
+  [OutboxStatus.FAILED]: 'Falhou',
+};
+
+const StatusBadge: React.FC<{ status: OutboxStatus }> = ({ status }) => {
+  const baseClasses = 'px-2 py-1 text-xs font-bold rounded-full';
+  const statusClasses = {
+    [OutboxStatus.PENDING]: 'bg-yellow-800 text-yellow-200',
+    [OutboxStatus.SENDING]: 'bg-yellow-800 text-yellow-200',
+    [OutboxStatus.DELIVERED]: 'bg-green-800 text-green-300',
+    [OutboxStatus.FAILED]: 'bg-red-800 text-red-200',
+  };
+  return <span className={`${baseClasses} ${statusClasses[status]}`}>{statusLabels[status]}</span>;
+};
+
+const NotificationOutboxDashboard: React.FC = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<OutboxFilter>('failed');
+  const [resendingIds, setResendingIds] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const data = await getOutboxEntriesByEvent(eventId);
+      setEntries(data);
+    } catch (error) {
+      console.error("Failed to fetch notification outbox:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData();
+    const intervalId = setInterval(fetchData, 20000); // Refresh every 20 seconds
+    return () => clearInterval(intervalId);
+  }, [fetchData]);
+
+  const filteredEntries = useMemo(() => {
+    switch (filter) {
+      case 'failed':
+        return entries.filter(e => e.status === OutboxStatus.FAILED);
+      case 'pending':
+        return entries.filter(e => e.status === OutboxStatus.PENDING || e.status === OutboxStatus.SENDING);
+      case 'delivered':
+        return entries.filter(e => e.status === OutboxStatus.DELIVERED);
+      default:
+        return entries;
+    }
+  }, [entries, filter]);
+
+  const failedCount = useMemo(() => entries.filter(e => e.status === OutboxStatus.FAILED).length, [entries]);
+
+  const getFilterButtonClass = (buttonFilter: OutboxFilter) => {
+      return `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${
+          filter === buttonFilter
+          ? 'bg-primary text-black'
+          : 'bg-secondary hover:bg-secondary-hover'
+      }`;
+  };
+
+  const handleResend = async (entry: OutboxEntry) => {
+    setResendingIds(prev => new Set(prev).add(entry.id));
+    try {
+      await resendOutboxEntry(entry.id);
+    } catch (error) {
+      console.error("Failed to resend notification:", error);
+    } finally {
+      setResendingIds(prev => {
+        const next = new Set(prev);
+        next.delete(entry.id);
+        return next;
+      });
+      fetchData();
+    }
+  };
+
+  if (loading && entries.length === 0) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4">
+        <h2 className="text-3xl font-bold">Entregas de Notificações</h2>
+        <div className="flex items-center gap-2 p-1 bg-background rounded-lg flex-wrap">
+            <button onClick={() => setFilter('failed')} className={getFilterButtonClass('failed')}>Falhas {failedCount > 0 && `(${failedCount})`}</button>
+            <button onClick={() => setFilter('pending')} className={getFilterButtonClass('pending')}>Pendentes</button>
+            <button onClick={() => setFilter('delivered')} className={getFilterButtonClass('delivered')}>Entregues</button>
+            <button onClick={() => setFilter('all')} className={getFilterButtonClass('all')}>Todas</button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {filteredEntries.length > 0 ? filteredEntries.map(entry => (
+          <div key={entry.id} className={`p-4 bg-secondary rounded-lg border-l-4 ${entry.status === OutboxStatus.FAILED ? 'border-red-500' : 'border-primary'}`}>
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-2">
+              <div>
+                <p className="font-bold text-lg">{NOTIFICATION_CHANNELS[entry.channel]?.label || entry.channel}</p>
+                <p className="text-sm text-text-secondary">{entry.targetName}{entry.url ? ` · ${entry.url}` : ''}</p>
+              </div>
+              <div className="text-right">
+                  <StatusBadge status={entry.status} />
+                  <p className="text-xs text-text-secondary mt-1">{new Date(entry.createdAt).toLocaleString('pt-BR')}</p>
+              </div>
+            </div>
+            <div className="mt-4 pt-4 border-t border-border/50 text-sm space-y-1">
+                <p><span className="font-semibold">Tentativas:</span> {entry.attempts}</p>
+                {entry.status === OutboxStatus.PENDING && (
+                  <p><span className="font-semibold">Próxima tentativa:</span> {new Date(entry.nextAttemptAt).toLocaleString('pt-BR')}</p>
+                )}
+                {entry.deliveredAt && (
+                  <p><span className="font-semibold">Entregue em:</span> {new Date(entry.deliveredAt).toLocaleString('pt-BR')}</p>
+                )}
+                {entry.lastError && (
+                  <p className="text-red-400"><span className="font-semibold">Último erro:</span> {entry.lastError}</p>
+                )}
+            </div>
+            {expandedId === entry.id && (
+              <pre className="mt-4 p-3 bg-background/50 rounded-md text-xs overflow-x-auto">{JSON.stringify(entry.payload, null, 2)}</pre>
+            )}
+            <div className="mt-4 flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)} className="py-1 px-2 text-sm">
+                {expandedId === entry.id ? 'Ocultar Payload' : 'Ver Payload'}
+              </Button>
+              {entry.status !== OutboxStatus.DELIVERED && (
+                <Button onClick={() => handleResend(entry)} disabled={resendingIds.has(entry.id)} className="py-1 px-2 text-sm">
+                  {resendingIds.has(entry.id) ? 'Reenviando...' : 'Reenviar'}
+                </Button>
+              )}
+            </div>
+          </div>
+        )) : (
+          <p className="text-center py-12 text-text-secondary">Nenhuma entrega encontrada com o filtro selecionado.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationOutboxDashboard;
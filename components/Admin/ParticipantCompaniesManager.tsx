@@ -6,7 +6,7 @@ import {
     addParticipantCompany, 
     updateParticipantCompany, 
     deleteParticipantCompany, 
-    getButtonConfigs, 
+    getButtonConfigsByEvent, 
     uploadImage, 
     getCollaboratorsByCompany, 
     addCollaborator, 
@@ -16,14 +16,19 @@ import {
     addVehicle,
     updateVehicle,
     deleteVehicle,
-    apiBulkAddVehicles
+    apiBulkAddVehicles,
+    getReportsByEvent
 } from '../../services/api';
-import { ParticipantCompany, ReportButtonConfig, Collaborator, Vehicle } from '../../types';
+import { ParticipantCompany, ReportButtonConfig, Collaborator, Vehicle, VehicleStatus } from '../../types';
 import Modal from '../Modal';
 import Input from '../Input';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import ConfirmationModal from '../ConfirmationModal';
+import RevokeAccessModal from './RevokeAccessModal';
+import { drawBadgeSheet, drawBoothPoster, BadgeInfo } from '../../services/qrCodes';
+import { getBoothScores, drawScorecard } from '../../services/boothScores';
+import { getVehicleStatus, VEHICLE_STATUS_CLASSES } from '../../services/vehicleLifecycle';
 
 declare const jspdf: any;
 
@@ -53,7 +58,7 @@ const emptyVehicle: Omit<Vehicle, 'id' | 'createdAt'> = {
   placa: '',
   photoUrl: DEFAULT_VEHICLE_PHOTO,
   companyId: '',
-  status: 'Disponível'
+  status: VehicleStatus.DISPONIVEL
 };
 
 const DownloadIcon = () => (
@@ -77,6 +82,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
   
   const [companyStats, setCompanyStats] = useState<Record<string, { collaborators: number; stock: number }>>({});
   const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
+  const [qrPdfInProgress, setQrPdfInProgress] = useState<'posters' | 'badges' | null>(null);
 
 
   // State for card interactions
@@ -94,6 +100,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
   const [collaboratorsLoading, setCollaboratorsLoading] = useState(false);
   const [isSubmittingCollaborator, setIsSubmittingCollaborator] = useState(false);
   const [collaboratorToDelete, setCollaboratorToDelete] = useState<string | null>(null);
+  const [collaboratorToRevoke, setCollaboratorToRevoke] = useState<Collaborator | null>(null);
   const [isConfirmCollaboratorDeleteOpen, setIsConfirmCollaboratorDeleteOpen] = useState(false);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [collaboratorSearchTerm, setCollaboratorSearchTerm] = useState('');
@@ -122,6 +129,8 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
   const [importError, setImportError] = useState<string | null>(null);
   const [importSuccessMessage, setImportSuccessMessage] = useState<string | null>(null);
 
+  const [scorecardCompanyId, setScorecardCompanyId] = useState<string | null>(null);
+
   // Refs for camera functionality
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -131,7 +140,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
   const fetchData = useCallback(async () => {
     setLoading(true);
     try {
-      const [companiesData, buttonsData] = await Promise.all([getParticipantCompaniesByEvent(eventId), getButtonConfigs()]);
+      const [companiesData, buttonsData] = await Promise.all([getParticipantCompaniesByEvent(eventId), getButtonConfigsByEvent(eventId)]);
       setCompanies(companiesData);
       setAllButtons(buttonsData);
     } catch (error) {
@@ -591,7 +600,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
                     model,
                     placa,
                     photoUrl: DEFAULT_VEHICLE_PHOTO,
-                    status: 'Disponível',
+                    status: VehicleStatus.DISPONIVEL,
                     companyId: selectedCompany.id,
                 };
             })
@@ -710,7 +719,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
   const filteredCollaborators = useMemo(() => {
     return collaborators.filter(c =>
         c.name.toLowerCase().includes(collaboratorSearchTerm.toLowerCase()) ||
-        c.collaboratorCode.toLowerCase().includes(collaboratorSearchTerm.toLowerCase())
+        (c.collaboratorCode || '').toLowerCase().includes(collaboratorSearchTerm.toLowerCase())
     );
   }, [collaborators, collaboratorSearchTerm]);
 
@@ -784,6 +793,68 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
     }
   };
 
+  const handleDownloadPostersPdf = () => {
+    setQrPdfInProgress('posters');
+    try {
+        const doc = new jspdf.jsPDF();
+        filteredCompanies.forEach((company, index) => {
+            if (index > 0) doc.addPage();
+            drawBoothPoster(doc, company.name, company.boothCode);
+        });
+        doc.save(`cartazes_qr_estandes.pdf`);
+    } catch (error) {
+        console.error("Failed to generate posters PDF:", error);
+    } finally {
+        setQrPdfInProgress(null);
+    }
+  };
+
+  const handleDownloadBadgesPdf = async () => {
+    setQrPdfInProgress('badges');
+    try {
+        const badges: BadgeInfo[] = [];
+        for (const company of filteredCompanies) {
+            try {
+                const companyCollaborators = await getCollaboratorsByCompany(company.id);
+                companyCollaborators.forEach(collaborator => badges.push({
+                    name: collaborator.name,
+                    subtitle: company.name,
+                    code: collaborator.collaboratorCode,
+                }));
+            } catch (error) {
+                console.error(`Failed to fetch collaborators for company ${company.name}:`, error);
+            }
+        }
+        if (badges.length === 0) {
+            alert('Nenhum colaborador cadastrado para gerar crachás.');
+            return;
+        }
+
+        const doc = new jspdf.jsPDF();
+        drawBadgeSheet(doc, badges, 'Colaborador');
+        doc.save(`crachas_qr_colaboradores.pdf`);
+    } catch (error) {
+        console.error("Failed to generate badges PDF:", error);
+    } finally {
+        setQrPdfInProgress(null);
+    }
+  };
+
+  const handleDownloadScorecardPdf = async (company: ParticipantCompany) => {
+    setScorecardCompanyId(company.id);
+    try {
+        const reports = await getReportsByEvent(eventId);
+        const [score] = getBoothScores([company], allButtons, reports);
+        const doc = new jspdf.jsPDF();
+        drawScorecard(doc, score);
+        doc.save(`boletim_conformidade_${company.boothCode}.pdf`);
+    } catch (error) {
+        console.error("Failed to generate scorecard PDF:", error);
+        alert('Ocorreu um erro ao gerar o boletim de conformidade.');
+    } finally {
+        setScorecardCompanyId(null);
+    }
+  };
 
   if (loading) return <LoadingSpinner />;
 
@@ -808,6 +879,22 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
                 </>
             )}
           </Button>
+          <Button
+            variant="secondary"
+            onClick={handleDownloadPostersPdf}
+            disabled={qrPdfInProgress !== null || filteredCompanies.length === 0}
+            className="flex-shrink-0 flex items-center justify-center"
+          >
+            {qrPdfInProgress === 'posters' ? 'Gerando...' : <><DownloadIcon />Cartazes QR</>}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={handleDownloadBadgesPdf}
+            disabled={qrPdfInProgress !== null || filteredCompanies.length === 0}
+            className="flex-shrink-0 flex items-center justify-center"
+          >
+            {qrPdfInProgress === 'badges' ? 'Gerando...' : <><DownloadIcon />Crachás QR</>}
+          </Button>
           <Button onClick={() => handleOpenModal()} className="flex-shrink-0">Adicionar Empresa</Button>
         </div>
       </div>
@@ -865,6 +952,9 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
                         <Button variant="danger" onClick={() => handleDeleteClick(company.id)} className="text-sm w-full">Excluir</Button>
                         <Button variant="secondary" onClick={() => { setSelectedCompany(company); setIsCollaboratorChoiceModalOpen(true); }} className="text-sm w-full col-span-2">Colaboradores</Button>
                         <Button variant="secondary" onClick={() => { setSelectedCompany(company); setIsStockChoiceModalOpen(true); }} className="text-sm w-full col-span-2">Estoque</Button>
+                        <Button variant="secondary" onClick={() => handleDownloadScorecardPdf(company)} disabled={scorecardCompanyId !== null} className="text-sm w-full col-span-2">
+                            {scorecardCompanyId === company.id ? 'Gerando...' : 'Boletim de Conformidade'}
+                        </Button>
                     </div>
                  </div>
               )}
@@ -910,7 +1000,6 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
             <h4 className="font-semibold mb-2">Botões de Ação Associados</h4>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-40 overflow-y-auto pr-2">
                 {allButtons
-                  .filter(button => !button.label.startsWith('__'))
                   .map(button => (
                     <label key={button.id} className="flex items-center gap-2 p-2 rounded-md bg-secondary">
                         <input
@@ -1038,6 +1127,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
                       </div>
                       <div className="flex gap-2 flex-shrink-0">
                         <Button variant="secondary" className="py-1 px-2 text-xs" onClick={() => handleEditCollaborator(collab)}>Editar</Button>
+                        <Button variant="secondary" className="py-1 px-2 text-xs" onClick={() => setCollaboratorToRevoke(collab)}>Revogar</Button>
                         <Button variant="danger" className="py-1 px-2 text-xs" onClick={() => handleDeleteCollaboratorClick(collab.id)}>Excluir</Button>
                       </div>
                     </div>
@@ -1120,7 +1210,8 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
                                 <p className="text-sm text-text-secondary">Placa: {vehicle.placa || 'N/D'}</p>
                                 </div>
                             </div>
-                            <div className="flex gap-2">
+                            <div className="flex items-center gap-2">
+                                <span className={`px-2 py-1 text-xs font-bold rounded-full ${VEHICLE_STATUS_CLASSES[getVehicleStatus(vehicle)]}`}>{getVehicleStatus(vehicle)}</span>
                                 <Button variant="secondary" className="py-1 px-2 text-xs" onClick={() => handleEditVehicle(vehicle)}>Editar</Button>
                                 <Button variant="danger" className="py-1 px-2 text-xs" onClick={() => handleDeleteVehicleClick(vehicle.id)}>Excluir</Button>
                             </div>
@@ -1160,7 +1251,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
         onClose={() => setIsConfirmModalOpen(false)}
         onConfirm={handleConfirmDelete}
         title="Confirmar Exclusão"
-        message="Tem certeza que deseja excluir esta empresa?"
+        message="Tem certeza que deseja excluir esta empresa? Ela será movida para a Lixeira e poderá ser restaurada em até 30 dias."
         confirmText="Excluir"
       />
       <ConfirmationModal
@@ -1176,7 +1267,7 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
         onClose={() => setIsConfirmVehicleDeleteOpen(false)}
         onConfirm={handleConfirmVehicleDelete}
         title="Confirmar Exclusão"
-        message="Tem certeza que deseja excluir este veículo do estoque?"
+        message="Tem certeza que deseja excluir este veículo do estoque? Ele será movido para a Lixeira e poderá ser restaurado em até 30 dias."
         confirmText="Excluir"
       />
        <style>{`
@@ -1188,6 +1279,16 @@ const ParticipantCompaniesManager: React.FC<Props> = ({ eventId }) => {
           animation: fadeIn 0.3s ease-out forwards;
         }
     `}</style>
+
+      <RevokeAccessModal
+        target={collaboratorToRevoke && { collaboratorId: collaboratorToRevoke.id, name: collaboratorToRevoke.name }}
+        onClose={() => setCollaboratorToRevoke(null)}
+        onRevoked={(newCode) => {
+          if (newCode && collaboratorToRevoke) {
+            setCollaborators(prev => prev.map(c => c.id === collaboratorToRevoke.id ? { ...c, collaboratorCode: newCode } : c));
+          }
+        }}
+      />
     </div>
   );
 };
@@ -1,43 +1,47 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { getReportsByEvent, getParticipantCompaniesByEvent, getButtonConfigs, getStaffByEvent, getStaffActivity, getDetailedSalesByEvent } from '../../services/api';
-import { ReportSubmission, ParticipantCompany, ReportButtonConfig, Staff, StaffActivity } from '../../types';
+import { getReportsByEvent, getParticipantCompaniesByEvent, getButtonConfigsByEvent, getStaffByEvent, getStaffActivity } from '../../services/api';
+import { ReportSubmission, ParticipantCompany, ReportButtonConfig, Staff, StaffActivity, FullSale, FullLead, SalesTarget } from '../../types';
 import LoadingSpinner from '../LoadingSpinner';
 import Button from '../Button';
 import Input from '../Input';
+import AnswerStatsPanel from './AnswerStatsPanel';
+import GoalAlertModal from './GoalAlertModal';
+import GoalProgressBar from '../GoalProgressBar';
+import { getButtonForm, getReportAnswers, formatAnswerValue } from '../../services/reportForms';
+import { getBoothScores, formatScore } from '../../services/boothScores';
+import { getSalesByEvent, getSaleNetValue, formatCurrency, downloadSalesSpreadsheet } from '../../services/sales';
+import { getLeadsByEvent, countLeadConversions, formatLeadConversion } from '../../services/leads';
+import { getSalesTargetsByEvent, getGoalProgress, formatGoalPercent, GoalProgress } from '../../services/salesTargets';
 
 // Tell TypeScript that jspdf is loaded globally from the CDN
 declare const jspdf: any;
 
-// FIX: Define a specific type for detailed sales data to resolve multiple 'unknown' type errors.
-interface DetailedSale {
-  marca: string;
-  model: string;
-  placa?: string;
-  updatedAt: string;
-  company: {
-    id: string;
-    name: string;
-    logoUrl?: string;
-  } | null;
-  collaborator: {
-    id: string;
-    name: string;
-    photoUrl?: string;
-    collaboratorCode: string;
-  } | null;
-}
-
 // FIX: Define a specific type for ranked seller data to resolve multiple 'unknown' type errors.
 interface RankedSeller {
     id: string;
     name: string;
     photoUrl?: string;
-    collaboratorCode: string;
+    collaboratorCode?: string;
     companyName: string;
     companyId: string;
     salesCount: number;
+    revenue: number;
+}
+
+// A company or seller with a sales target, ranked by percent of goal
+interface GoalEntry {
+    id: string;
+    name: string;
+    imageUrl?: string;
+    detail: string;
+    progress: GoalProgress;
 }
 
+const byGoalPercent = (a: GoalEntry, b: GoalEntry) => (b.progress.percent ?? 0) - (a.progress.percent ?? 0);
+
+// What the sales rankings are ordered by
+type SalesMetric = 'units' | 'revenue';
+
 interface Props {
   eventId: string;
 }
@@ -78,9 +82,13 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
   const [staffList, setStaffList] = useState<Staff[]>([]);
   const [activities, setActivities] = useState<Record<string, StaffActivity[]>>({});
   // FIX: Use the specific DetailedSale type for state to ensure type safety.
-  const [detailedSales, setDetailedSales] = useState<DetailedSale[]>([]);
+  const [sales, setSales] = useState<FullSale[]>([]);
+  const [leads, setLeads] = useState<FullLead[]>([]);
+  const [targets, setTargets] = useState<SalesTarget[]>([]);
+  const [alertGoal, setAlertGoal] = useState<GoalEntry | null>(null);
+  const [salesMetric, setSalesMetric] = useState<SalesMetric>('units');
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'visits' | 'occurrences' | 'staff' | 'salesByCompany' | 'salesBySeller' | 'salesMap'>('salesByCompany');
+  const [view, setView] = useState<'visits' | 'occurrences' | 'staff' | 'salesByCompany' | 'salesBySeller' | 'salesMap' | 'goals' | 'answers' | 'compliance'>('salesByCompany');
   const [selectedOccurrence, setSelectedOccurrence] = useState<string | null>(null);
   const [sellerCompanyFilter, setSellerCompanyFilter] = useState('all');
   const [csvLoading, setCsvLoading] = useState(false);
@@ -89,18 +97,22 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
   const fetchData = useCallback(async () => {
     setLoading(true);
     try {
-      const [reportsData, companiesData, buttonsData, staffData, detailedSalesData] = await Promise.all([
+      const [reportsData, companiesData, buttonsData, staffData, salesData, leadsData, targetsData] = await Promise.all([
         getReportsByEvent(eventId),
         getParticipantCompaniesByEvent(eventId),
-        getButtonConfigs(),
+        getButtonConfigsByEvent(eventId),
         getStaffByEvent(eventId),
-        getDetailedSalesByEvent(eventId),
+        getSalesByEvent(eventId),
+        getLeadsByEvent(eventId),
+        getSalesTargetsByEvent(eventId),
       ]);
       setReports(reportsData.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
       setCompanies(companiesData);
       setButtonConfigs(buttonsData);
       setStaffList(staffData);
-      setDetailedSales(detailedSalesData);
+      setSales(salesData);
+      setLeads(leadsData);
+      setTargets(targetsData);
 
       if (staffData.length > 0) {
         const activityPromises = staffData.map(s => getStaffActivity(s.id, eventId));
@@ -157,10 +169,19 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
     return filtered;
   }, [activities, dateFilter]);
 
-  const filteredDetailedSales = useMemo(() => {
-    if (!dateFilter) return detailedSales;
-    return detailedSales.filter(s => isSameDay(s.updatedAt, dateFilter));
-  }, [detailedSales, dateFilter]);
+  const filteredSales = useMemo(() => {
+    if (!dateFilter) return sales;
+    return sales.filter(s => isSameDay(s.createdAt, dateFilter));
+  }, [sales, dateFilter]);
+
+  // Leads captured in the period and how many of them have bought
+  const filteredLeads = useMemo(() => {
+    if (!dateFilter) return leads;
+    return leads.filter(l => isSameDay(l.createdAt, dateFilter));
+  }, [leads, dateFilter]);
+
+  const leadConversionByCompany = useMemo(() => countLeadConversions(filteredLeads, l => l.companyId), [filteredLeads]);
+  const leadConversionBySeller = useMemo(() => countLeadConversions(filteredLeads, l => l.collaboratorId), [filteredLeads]);
 
   const companyInfoMap = useMemo(() => {
     return companies.reduce((acc, company) => {
@@ -208,6 +229,17 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
       .sort((a, b) => b.value - a.value);
   }, [filteredReports]);
   
+  // Only booths with scored answers in the period take part
+  const complianceData = useMemo(
+    () => getBoothScores(companies, buttonConfigs, filteredReports).filter(s => s.score !== null),
+    [companies, buttonConfigs, filteredReports]
+  );
+
+  const averageCompliance = useMemo(() => {
+    const total = complianceData.reduce((sum, s) => sum + (s.score ?? 0), 0);
+    return complianceData.length > 0 ? total / complianceData.length : null;
+  }, [complianceData]);
+
   const staffData: ChartData[] = useMemo(() => {
     return staffList
       .map(staff => ({
@@ -219,37 +251,43 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
       .sort((a, b) => b.value - a.value);
   }, [staffList, filteredActivities]);
 
-    const totalSalesCount = useMemo(() => filteredDetailedSales.length, [filteredDetailedSales]);
+    const totalSalesCount = useMemo(() => filteredSales.length, [filteredSales]);
+    const totalRevenue = useMemo(() => filteredSales.reduce((sum, sale) => sum + getSaleNetValue(sale), 0), [filteredSales]);
+    const unpricedSalesCount = useMemo(() => filteredSales.filter(sale => sale.salePrice === null).length, [filteredSales]);
+    const salesMetricValue = (item: { salesCount: number; revenue: number }) => salesMetric === 'revenue' ? item.revenue : item.salesCount;
+    const formatSalesMetric = (item: { salesCount: number; revenue: number }) => salesMetric === 'revenue' ? formatCurrency(item.revenue) : item.salesCount;
     const totalVisitsCount = useMemo(() => visitsData.reduce((sum, item) => sum + item.value, 0), [visitsData]);
     const totalOccurrencesCount = useMemo(() => occurrencesData.reduce((sum, item) => sum + item.value, 0), [occurrencesData]);
     const totalActivitiesCount = useMemo(() => staffData.reduce((sum, item) => sum + item.value, 0), [staffData]);
 
     const rankedCompaniesBySales = useMemo(() => {
-        const salesByCompany = filteredDetailedSales.reduce((acc, sale) => {
+        const salesByCompany = filteredSales.reduce((acc, sale) => {
             const companyId = sale.company?.id;
             if (companyId) {
-                acc[companyId] = (acc[companyId] || 0) + 1;
+                acc[companyId] = acc[companyId] || { salesCount: 0, revenue: 0 };
+                acc[companyId].salesCount++;
+                acc[companyId].revenue += getSaleNetValue(sale);
             }
             return acc;
-        }, {} as Record<string, number>);
+        }, {} as Record<string, { salesCount: number; revenue: number }>);
 
         const companyMap = new Map(companies.map(c => [c.id, c]));
 
-        return Object.entries(salesByCompany)
-            .map(([companyId, count]) => {
+        return (Object.entries(salesByCompany) as [string, { salesCount: number; revenue: number }][])
+            .map(([companyId, totals]) => {
                 const company = companyMap.get(companyId);
                 return {
                     id: companyId,
                     name: company?.name || 'Empresa Desconhecida',
-                    salesCount: count,
+                    ...totals,
                     logoUrl: company?.logoUrl
                 };
             })
-            .sort((a, b) => b.salesCount - a.salesCount);
-    }, [filteredDetailedSales, companies]);
+            .sort((a, b) => salesMetricValue(b) - salesMetricValue(a));
+    }, [filteredSales, companies, salesMetric]);
 
     const rankedSellers = useMemo(() => {
-        const salesByCollaborator = filteredDetailedSales.reduce((acc, sale) => {
+        const salesByCollaborator = filteredSales.reduce((acc, sale) => {
             if (sale.collaborator?.id) {
                 const collabId = sale.collaborator.id;
                 if (!acc[collabId]) {
@@ -258,30 +296,32 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                         companyName: sale.company?.name || 'N/A',
                         companyId: sale.company?.id || 'N/A',
                         salesCount: 0,
+                        revenue: 0,
                     };
                 }
                 acc[collabId].salesCount++;
+                acc[collabId].revenue += getSaleNetValue(sale);
             }
             return acc;
         // FIX: Provide a specific type for the reduce accumulator to avoid 'any'/'unknown' types.
         }, {} as Record<string, RankedSeller>);
 
-        const allSellers = Object.values(salesByCollaborator);
+        const allSellers = Object.values(salesByCollaborator) as RankedSeller[];
 
         const filtered = sellerCompanyFilter === 'all'
           ? allSellers
           : allSellers.filter(seller => seller.companyId === sellerCompanyFilter);
         
-        return filtered.sort((a, b) => b.salesCount - a.salesCount);
-    }, [filteredDetailedSales, sellerCompanyFilter]);
+        return filtered.sort((a, b) => salesMetricValue(b) - salesMetricValue(a));
+    }, [filteredSales, sellerCompanyFilter, salesMetric]);
 
   const maxSellerValue = useMemo(() => {
-    return Math.max(...rankedSellers.map(s => s.salesCount), 0);
+    return Math.max(...rankedSellers.map(salesMetricValue), 0);
   }, [rankedSellers]);
   
   const salesMapData = useMemo(() => {
-    const counts = filteredDetailedSales.reduce((acc, sale) => {
-        const modelName = sale.model || sale.marca || 'Desconhecido';
+    const counts = filteredSales.reduce((acc, sale) => {
+        const modelName = sale.vehicle?.model || sale.vehicle?.marca || 'Desconhecido';
         acc[modelName] = (acc[modelName] || 0) + 1;
         return acc;
     }, {} as Record<string, number>);
@@ -289,7 +329,49 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
     return Object.entries(counts)
         .map(([label, value]) => ({ label, value }))
         .sort((a, b) => b.value - a.value);
-  }, [filteredDetailedSales]);
+  }, [filteredSales]);
+
+  // Goals run over the whole event, so they ignore the date filter
+  const companyGoals = useMemo(() => {
+    const companyTargets = targets.filter(t => !t.collaboratorId);
+    return companies
+      .filter(company => companyTargets.some(t => t.companyId === company.id))
+      .map(company => ({
+        id: company.id,
+        name: company.name,
+        imageUrl: company.logoUrl,
+        detail: company.boothCode,
+        progress: getGoalProgress(
+          companyTargets.filter(t => t.companyId === company.id),
+          sales.filter(s => s.company?.id === company.id).map(s => s.createdAt)
+        ),
+      }))
+      .sort(byGoalPercent);
+  }, [targets, companies, sales]);
+
+  const sellerGoals = useMemo(() => {
+    const targetsBySeller = targets.reduce((acc, t) => {
+      if (t.collaboratorId) (acc[t.collaboratorId] = acc[t.collaboratorId] || []).push(t);
+      return acc;
+    }, {} as Record<string, SalesTarget[]>);
+
+    return (Object.entries(targetsBySeller) as [string, SalesTarget[]][])
+      .map(([collaboratorId, sellerTargets]) => {
+        const { collaborator, companyId } = sellerTargets[0];
+        return {
+          id: collaboratorId,
+          name: collaborator?.name || 'Vendedor Desconhecido',
+          imageUrl: collaborator?.photoUrl,
+          detail: companies.find(c => c.id === companyId)?.name || 'N/A',
+          progress: getGoalProgress(sellerTargets, sales.filter(s => s.collaborator?.id === collaboratorId).map(s => s.createdAt)),
+        };
+      })
+      .sort(byGoalPercent);
+  }, [targets, companies, sales]);
+
+  const goalsTotal = useMemo(() => getGoalProgress(targets.filter(t => !t.collaboratorId), sales
+    .filter(s => targets.some(t => !t.collaboratorId && t.companyId === s.company?.id))
+    .map(s => s.createdAt)), [targets, sales]);
 
   const handleDownloadOccurrencesPdf = (occurrenceLabels: string[]) => {
     if (occurrenceLabels.length === 0) return;
@@ -324,7 +406,10 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
 
       reportsForOccurrence.forEach(report => {
         const question = questionMap[report.reportLabel] || report.reportLabel;
-        const responseText = `${question}\n\n${report.response}`;
+        const answers = getReportAnswers(report, buttonConfigs.find(b => b.label === report.reportLabel));
+        const responseText = answers.length > 0
+          ? answers.map(a => `${a.question}\n${formatAnswerValue(a)}`).join('\n\n')
+          : `${question}\n\n${report.response}`;
         
         tableRows.push([
           companyInfoMap[report.boothCode]?.name || report.boothCode,
@@ -438,11 +523,40 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
     doc.setTextColor(100);
     doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 30);
 
-    const tableColumn = ["Posição", "Empresa", "Nº de Vendas"];
+    doc.text(`Faturamento total: ${formatCurrency(totalRevenue)} em ${totalSalesCount} venda(s)`, 14, 36);
+
+    const tableColumn = ["Posição", "Empresa", "Nº de Vendas", "Faturamento", "Conversão de Leads"];
     const tableRows: (string | number)[][] = [];
 
     rankedCompaniesBySales.forEach((item, index) => {
-        tableRows.push([index + 1, item.name, item.salesCount]);
+        tableRows.push([index + 1, item.name, item.salesCount, formatCurrency(item.revenue), formatLeadConversion(leadConversionByCompany[item.id])]);
+    });
+
+    doc.autoTable({
+        head: [tableColumn],
+        body: tableRows,
+        startY: 35,
+        theme: 'grid',
+        headStyles: { fillColor: [18, 181, 229] },
+    });
+
+    doc.save(salesMetric === 'revenue' ? 'ranking_faturamento_empresa.pdf' : 'ranking_vendas_empresa.pdf');
+  };
+
+  const handleDownloadCompliancePdf = () => {
+    const doc = new jspdf.jsPDF();
+    const dateText = dateFilter ? ` em ${new Date(dateFilter + 'T00:00:00').toLocaleDateString('pt-BR')}` : '';
+    doc.setFontSize(18);
+    doc.text(`Índice de Conformidade por Estande${dateText}`, 14, 22);
+    doc.setFontSize(11);
+    doc.setTextColor(100);
+    doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 30);
+
+    const tableColumn = ["Posição", "Estande", "Empresa", "Nota", "Respostas Avaliadas"];
+    const tableRows: (string | number)[][] = [];
+
+    complianceData.forEach((item, index) => {
+        tableRows.push([index + 1, item.company.boothCode, item.company.name, formatScore(item.score), item.answers]);
     });
 
     doc.autoTable({
@@ -453,7 +567,7 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
         headStyles: { fillColor: [18, 181, 229] },
     });
 
-    doc.save('ranking_vendas_empresa.pdf');
+    doc.save('ranking_conformidade.pdf');
   };
 
   const handleDownloadSalesBySellerPdf = () => {
@@ -470,7 +584,7 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
     doc.text(`Filtro de Empresa: ${companyFilterText}`, 14, 30);
     doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 38);
 
-    const tableColumn = ["Posição", "Vendedor", "Empresa", "Código", "Nº de Vendas"];
+    const tableColumn = ["Posição", "Vendedor", "Empresa", "Código", "Nº de Vendas", "Faturamento", "Conversão de Leads"];
     const tableRows: (string | number)[][] = [];
 
     rankedSellers.forEach((seller, index) => {
@@ -478,8 +592,10 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
             index + 1, 
             seller.name, 
             seller.companyName, 
-            seller.collaboratorCode, 
-            seller.salesCount
+            seller.collaboratorCode || '', 
+            seller.salesCount,
+            formatCurrency(seller.revenue),
+            formatLeadConversion(leadConversionBySeller[seller.id])
         ]);
     });
 
@@ -491,34 +607,106 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
         headStyles: { fillColor: [18, 181, 229] },
     });
 
-    doc.save('ranking_vendas_vendedor.pdf');
+    doc.save(salesMetric === 'revenue' ? 'ranking_faturamento_vendedor.pdf' : 'ranking_vendas_vendedor.pdf');
   };
 
-    const handleDownloadSalesCsv = () => {
+  const handleDownloadGoalsPdf = () => {
+    const doc = new jspdf.jsPDF();
+    doc.setFontSize(18);
+    doc.text('Metas de Vendas', 14, 22);
+    doc.setFontSize(11);
+    doc.setTextColor(100);
+    doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 30);
+
+    const tableColumn = ["Posição", "Nome", "Vendas", "Meta", "% da Meta", "Hoje", "Projeção"];
+    const toRow = (item: GoalEntry, index: number) => [
+        index + 1,
+        item.name,
+        item.progress.sold,
+        item.progress.target,
+        formatGoalPercent(item.progress.percent),
+        item.progress.todayTarget > 0 ? `${item.progress.todaySold} de ${item.progress.todayTarget}` : '-',
+        item.progress.projection ?? '-',
+    ];
+
+    doc.setFontSize(14);
+    doc.text('Por Empresa', 14, 42);
+    doc.autoTable({
+        head: [tableColumn],
+        body: companyGoals.map(toRow),
+        startY: 46,
+        theme: 'grid',
+        headStyles: { fillColor: [18, 181, 229] },
+    });
+
+    if (sellerGoals.length > 0) {
+        const startY = doc.autoTable.previous.finalY + 15;
+        doc.text('Por Vendedor', 14, startY);
+        doc.autoTable({
+            head: [tableColumn],
+            body: sellerGoals.map(toRow),
+            startY: startY + 4,
+            theme: 'grid',
+            headStyles: { fillColor: [18, 181, 229] },
+        });
+    }
+
+    doc.save('metas_de_vendas.pdf');
+  };
+
+    // Replaces the old per-sale spreadsheet webhook: the whole list, on demand
+    const handleDownloadSalesSpreadsheet = () => {
+        try {
+            const dateText = dateFilter ? `_${dateFilter}` : '';
+            downloadSalesSpreadsheet(filteredSales, `vendas${dateText}.xlsx`);
+        } catch (error) {
+            console.error("Failed to download sales spreadsheet:", error);
+            alert('Ocorreu um erro ao gerar a planilha de vendas.');
+        }
+    };
+
+    // One row per report and one column per question of the buttons used
+    const handleDownloadAnswersCsv = () => {
         setCsvLoading(true);
         try {
-            if (filteredDetailedSales.length === 0) {
-                alert('Não há dados de vendas para exportar.');
+            const answeredReports = filteredReports.filter(r => !(r.reportLabel.startsWith('__') && r.reportLabel.endsWith('__')));
+            if (answeredReports.length === 0) {
+                alert('Não há registros para exportar.');
                 return;
             }
 
+            const usedLabels = new Set(answeredReports.map(r => r.reportLabel));
+            const questionColumns = buttonConfigs
+                .filter(button => usedLabels.has(button.label))
+                .flatMap(button => getButtonForm(button).questions.map(question => ({ button, question })));
+
             const headers = [
-                "Veículo (Marca)",
-                "Veículo (Modelo)",
-                "Placa",
-                "Loja",
-                "Vendedor",
-                "Data da Venda"
+                "Estande",
+                "Empresa",
+                "Ação",
+                "Equipe",
+                "Data/Hora",
+                "Resumo",
+                ...questionColumns.map(({ button, question }) => `${button.label} - ${question.question}`),
             ];
 
-            const rows = filteredDetailedSales.map(sale => [
-                sale.marca,
-                sale.model,
-                sale.placa || 'N/D',
-                sale.company?.name || 'N/A',
-                sale.collaborator?.name || 'N/A',
-                new Date(sale.updatedAt).toLocaleString('pt-BR')
-            ]);
+            const rows = answeredReports.map(report => {
+                const button = buttonConfigs.find(b => b.label === report.reportLabel);
+                const answers = getReportAnswers(report, button);
+                return [
+                    report.boothCode,
+                    companyInfoMap[report.boothCode]?.name || 'N/A',
+                    report.reportLabel,
+                    report.staffName,
+                    new Date(report.timestamp).toLocaleString('pt-BR'),
+                    report.response,
+                    ...questionColumns.map(({ button: column, question }) => {
+                        if (column !== button) return '';
+                        const answer = answers.find(a => a.questionId === question.id);
+                        return answer ? formatAnswerValue(answer) : '';
+                    }),
+                ];
+            });
 
             const csv = (window as any).Papa.unparse({
                 fields: headers,
@@ -529,7 +717,7 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
             const link = document.createElement("a");
             const url = URL.createObjectURL(blob);
             link.setAttribute("href", url);
-            link.setAttribute("download", "relatorio_vendas_detalhado.csv");
+            link.setAttribute("download", "relatorio_respostas.csv");
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
@@ -561,6 +749,12 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
       case 'salesMap':
         handleDownloadSalesMapPdf();
         break;
+      case 'goals':
+        handleDownloadGoalsPdf();
+        break;
+      case 'compliance':
+        handleDownloadCompliancePdf();
+        break;
     }
   };
 
@@ -572,9 +766,13 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
         case 'salesByCompany': return rankedCompaniesBySales.length > 0;
         case 'salesBySeller': return rankedSellers.length > 0;
         case 'salesMap': return salesMapData.length > 0;
+        case 'goals': return companyGoals.length > 0 || sellerGoals.length > 0;
+        case 'compliance': return complianceData.length > 0;
         default: return false;
     }
-  }, [view, visitsData, occurrencesData, staffData, rankedCompaniesBySales, rankedSellers, salesMapData]);
+  }, [view, visitsData, occurrencesData, staffData, rankedCompaniesBySales, rankedSellers, salesMapData, companyGoals, sellerGoals, complianceData]);
+
+  const isAnswersView = view === 'occurrences' || view === 'answers';
 
   const isSalesView = useMemo(() => {
     return ['salesByCompany', 'salesBySeller', 'salesMap'].includes(view);
@@ -604,6 +802,12 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
         return 'Ranking de Vendas por Vendedor';
       case 'salesMap':
         return 'Ranking de Vendas por Modelo';
+      case 'goals':
+        return 'Metas de Vendas';
+      case 'answers':
+        return 'Indicadores das Respostas';
+      case 'compliance':
+        return 'Índice de Conformidade por Estande';
       case 'occurrences':
       default:
         return 'Ranking de Principais Ocorrências';
@@ -619,22 +823,30 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
               return { title: `Total de Ocorrências ${filterText}`, count: totalOccurrencesCount };
           case 'staff':
               return { title: `Total de Atividades ${filterText}`, count: totalActivitiesCount };
+          case 'answers':
+              return { title: `Total de Ocorrências ${filterText}`, count: totalOccurrencesCount };
+          case 'compliance':
+              return { title: `Nota Média ${filterText}`, count: formatScore(averageCompliance) };
+          case 'goals':
+              return { title: 'Meta do Evento Atingida', count: formatGoalPercent(goalsTotal.percent) };
           case 'salesByCompany':
           case 'salesBySeller':
           case 'salesMap':
           default:
-              return { title: `Total de Vendas ${filterText}`, count: totalSalesCount };
+              return salesMetric === 'revenue' && view !== 'salesMap'
+                  ? { title: `Faturamento Total ${filterText}`, count: formatCurrency(totalRevenue) }
+                  : { title: `Total de Vendas ${filterText}`, count: totalSalesCount };
       }
-  }, [view, dateFilter, totalSalesCount, totalVisitsCount, totalOccurrencesCount, totalActivitiesCount]);
+  }, [view, dateFilter, totalSalesCount, totalRevenue, salesMetric, totalVisitsCount, totalOccurrencesCount, totalActivitiesCount, averageCompliance, goalsTotal]);
 
   const maxValue = Math.max(...chartData.map(d => d.value), 0);
-  const maxSalesCompanyValue = Math.max(...rankedCompaniesBySales.map(c => c.salesCount), 0);
+  const maxSalesCompanyValue = Math.max(...rankedCompaniesBySales.map(salesMetricValue), 0);
   const pdfButtonText = view === 'occurrences' ? 'Download Detalhado' : 'Download PDF';
 
 
   if (loading) return <LoadingSpinner />;
   
-  const getButtonClass = (buttonView: 'visits' | 'occurrences' | 'staff' | 'salesByCompany' | 'salesBySeller' | 'salesMap') => {
+  const getButtonClass = (buttonView: 'visits' | 'occurrences' | 'staff' | 'salesByCompany' | 'salesBySeller' | 'salesMap' | 'goals' | 'answers' | 'compliance') => {
       return view === buttonView 
           ? 'bg-primary text-black' 
           : 'bg-secondary hover:bg-secondary-hover text-text';
@@ -663,15 +875,33 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
         <Button onClick={() => setView('salesMap')} className={getButtonClass('salesMap')}>
           Vendas por Modelo
         </Button>
+        <Button onClick={() => setView('goals')} className={getButtonClass('goals')}>
+          Metas
+        </Button>
+        <Button onClick={() => setView('answers')} className={getButtonClass('answers')}>
+          Indicadores das Respostas
+        </Button>
+        <Button onClick={() => setView('compliance')} className={getButtonClass('compliance')}>
+          Conformidade
+        </Button>
       </div>
 
       <div>
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-4">
             <h3 className="text-xl font-semibold text-primary">{chartTitle}</h3>
             <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-4 w-full md:w-auto">
+                {(view === 'salesByCompany' || view === 'salesBySeller') && (
+                    <div className="flex items-center gap-2 p-1 bg-background rounded-lg self-center">
+                        <button onClick={() => setSalesMetric('units')} className={`px-3 py-1.5 text-sm font-semibold rounded-lg transition-colors ${salesMetric === 'units' ? 'bg-primary text-black' : 'bg-secondary hover:bg-secondary-hover'}`}>Unidades</button>
+                        <button onClick={() => setSalesMetric('revenue')} className={`px-3 py-1.5 text-sm font-semibold rounded-lg transition-colors ${salesMetric === 'revenue' ? 'bg-primary text-black' : 'bg-secondary hover:bg-secondary-hover'}`}>Faturamento</button>
+                    </div>
+                )}
                 <div className="text-right">
                     <h4 className="text-sm font-semibold text-text-secondary">{displayData.title}</h4>
                     <p className="text-2xl font-bold text-primary">{displayData.count}</p>
+                    {(view === 'salesByCompany' || view === 'salesBySeller') && salesMetric === 'revenue' && unpricedSalesCount > 0 && (
+                        <p className="text-xs text-text-secondary">{unpricedSalesCount} venda(s) sem valor informado</p>
+                    )}
                 </div>
                 <div className="flex items-center gap-2">
                     <Input
@@ -695,10 +925,20 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                             {pdfButtonText}
                         </Button>
                     )}
-                    {isSalesView && filteredDetailedSales.length > 0 && (
+                    {isSalesView && filteredSales.length > 0 && (
                         <Button
                             variant="secondary"
-                            onClick={handleDownloadSalesCsv}
+                            onClick={handleDownloadSalesSpreadsheet}
+                            className="text-sm py-2 px-3 flex items-center justify-center"
+                        >
+                            <DownloadIcon />
+                            Planilha de Vendas
+                        </Button>
+                    )}
+                    {isAnswersView && totalOccurrencesCount > 0 && (
+                        <Button
+                            variant="secondary"
+                            onClick={handleDownloadAnswersCsv}
                             disabled={csvLoading}
                             className="text-sm py-2 px-3 flex items-center min-w-[150px] justify-center"
                         >
@@ -725,7 +965,10 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                     {chartData.map((item, index) => {
                         return (
                             <div key={index} className="w-full">
-                                <div className={`flex items-center gap-4 group w-full p-2`}>
+                                <div
+                                    className={`flex items-center gap-4 group w-full p-2 ${view === 'occurrences' ? 'cursor-pointer rounded-md hover:bg-secondary/30' : ''}`}
+                                    onClick={view === 'occurrences' ? () => setSelectedOccurrence(prev => (prev === item.label ? null : item.label)) : undefined}
+                                >
                                     <span className="text-right font-semibold text-text-secondary w-10">{index + 1}º</span>
                                     {view === 'visits' && (
                                         <img 
@@ -757,6 +1000,11 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                                         </div>
                                     </div>
                                 </div>
+                                {view === 'occurrences' && selectedOccurrence === item.label && (
+                                    <div className="pl-14 pr-2 pb-4 animate-fade-in">
+                                        <AnswerStatsPanel buttons={buttonConfigs.filter(b => b.label === item.label)} reports={filteredReports} />
+                                    </div>
+                                )}
                             </div>
                         );
                     })}
@@ -778,14 +1026,17 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                             <img src={item.logoUrl || 'https://via.placeholder.com/150?text=Logo'} alt={`${item.name} logo`} className="w-8 h-8 rounded-full object-contain bg-white flex-shrink-0"/>
                             <div className="flex-1 overflow-hidden">
                                 <div className="flex justify-between items-center mb-1">
-                                    <p className="text-sm font-medium text-text truncate pr-2" title={item.name}>{item.name}</p>
+                                    <div className="truncate pr-2">
+                                        <p className="text-sm font-medium text-text" title={item.name}>{item.name}</p>
+                                        <p className="text-xs text-text-secondary">Leads: {formatLeadConversion(leadConversionByCompany[item.id])}</p>
+                                    </div>
                                     <div className="flex items-center">
-                                        <p className="text-sm font-bold text-primary">{item.salesCount}</p>
+                                        <p className="text-sm font-bold text-primary">{formatSalesMetric(item)}</p>
                                         {index < 3 && <MedalIcon position={index + 1} />}
                                     </div>
                                 </div>
                                 <div className="w-full bg-secondary rounded-full h-4 overflow-hidden">
-                                    <div className="bg-primary h-4 rounded-full transition-all duration-500 ease-out" style={{ width: `${maxSalesCompanyValue > 0 ? (item.salesCount / maxSalesCompanyValue) * 100 : 0}%` }}></div>
+                                    <div className="bg-primary h-4 rounded-full transition-all duration-500 ease-out" style={{ width: `${maxSalesCompanyValue > 0 ? (salesMetricValue(item) / maxSalesCompanyValue) * 100 : 0}%` }}></div>
                                 </div>
                             </div>
                         </div>
@@ -821,17 +1072,17 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                                 <div className="flex justify-between items-center mb-1">
                                     <div className="truncate pr-2">
                                         <p className="text-sm font-medium text-text" title={seller.name}>{seller.name}</p>
-                                        <p className="text-xs text-text-secondary" title={seller.collaboratorCode}>{seller.collaboratorCode}</p>
+                                        <p className="text-xs text-text-secondary" title={seller.collaboratorCode}>{seller.collaboratorCode && `${seller.collaboratorCode} · `}Leads: {formatLeadConversion(leadConversionBySeller[seller.id])}</p>
                                     </div>
                                     <div className="flex items-center">
-                                        <p className="text-sm font-bold text-primary">{seller.salesCount}</p>
+                                        <p className="text-sm font-bold text-primary">{formatSalesMetric(seller)}</p>
                                         {index < 3 && <MedalIcon position={index + 1} />}
                                     </div>
                                 </div>
                                 <div className="w-full bg-secondary rounded-full h-4 overflow-hidden">
                                     <div
                                         className="bg-primary h-4 rounded-full transition-all duration-500 ease-out"
-                                        style={{ width: `${maxSellerValue > 0 ? (seller.salesCount / maxSellerValue) * 100 : 0}%` }}
+                                        style={{ width: `${maxSellerValue > 0 ? (salesMetricValue(seller) / maxSellerValue) * 100 : 0}%` }}
                                     ></div>
                                 </div>
                             </div>
@@ -870,8 +1121,97 @@ const RankingView: React.FC<Props> = ({ eventId }) => {
                 ) : <p className="text-center text-text-secondary py-4">Nenhum dado de vendas por modelo para exibir.</p>}
             </div>
         )}
+        {view === 'goals' && (
+            <div>
+                {companyGoals.length > 0 || sellerGoals.length > 0 ? (
+                    <div className="space-y-8">
+                    {[
+                        { title: 'Por Empresa', items: companyGoals, isCompany: true },
+                        { title: 'Por Vendedor', items: sellerGoals, isCompany: false },
+                    ].filter(group => group.items.length > 0).map(group => (
+                        <div key={group.title}>
+                            <h4 className="text-lg font-semibold mb-2">{group.title}</h4>
+                            <div className="space-y-2">
+                            {group.items.map((item, index) => (
+                                <div key={item.id} className="flex items-center gap-4 group w-full p-2">
+                                    <span className="text-right font-semibold text-text-secondary w-10">{index + 1}º</span>
+                                    <img
+                                        src={item.imageUrl || (group.isCompany ? 'https://via.placeholder.com/150?text=Logo' : 'https://via.placeholder.com/150')}
+                                        alt={item.name}
+                                        className={`w-8 h-8 rounded-full flex-shrink-0 ${group.isCompany ? 'object-contain bg-white' : 'object-cover'}`}
+                                    />
+                                    <div className="flex-1 overflow-hidden">
+                                        <div className="flex justify-between items-center mb-1">
+                                            <div className="truncate pr-2">
+                                                <p className="text-sm font-medium text-text" title={item.name}>{item.name}</p>
+                                                <p className="text-xs text-text-secondary">{item.detail}</p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                {item.progress.isFarBehind && (
+                                                    <span className="px-2 py-1 text-xs font-bold rounded-full bg-red-800 text-red-300">Muito atrás</span>
+                                                )}
+                                                {group.isCompany && item.progress.isFarBehind && (
+                                                    <Button variant="secondary" className="text-xs py-1 px-2" onClick={() => setAlertGoal(item)}>Alertar equipe</Button>
+                                                )}
+                                                <p className="text-sm font-bold text-primary">{formatGoalPercent(item.progress.percent)}</p>
+                                                {index < 3 && <MedalIcon position={index + 1} />}
+                                            </div>
+                                        </div>
+                                        <GoalProgressBar progress={item.progress} />
+                                    </div>
+                                </div>
+                            ))}
+                            </div>
+                        </div>
+                    ))}
+                    </div>
+                ) : <p className="text-center text-text-secondary py-4">Nenhuma meta definida. Cadastre as metas em Metas de Vendas.</p>}
+            </div>
+        )}
+
+        {view === 'compliance' && (
+             <div>
+                {complianceData.length > 0 ? (
+                    <div className="space-y-2">
+                    {complianceData.map((item, index) => (
+                        <div key={item.company.id} className="flex items-center gap-4 group w-full p-2">
+                            <span className="text-right font-semibold text-text-secondary w-10">{index + 1}º</span>
+                            <img src={item.company.logoUrl || 'https://via.placeholder.com/150?text=Logo'} alt={`${item.company.name} logo`} className="w-8 h-8 rounded-full object-contain bg-white flex-shrink-0"/>
+                            <div className="flex-1 overflow-hidden">
+                                <div className="flex justify-between items-center mb-1">
+                                    <div className="truncate pr-2">
+                                        <p className="text-sm font-medium text-text" title={item.company.name}>{item.company.name}</p>
+                                        <p className="text-xs text-text-secondary">{item.company.boothCode} · {item.answers} resposta(s) avaliada(s)</p>
+                                    </div>
+                                    <div className="flex items-center">
+                                        <p className="text-sm font-bold text-primary">{formatScore(item.score)}</p>
+                                        {index < 3 && <MedalIcon position={index + 1} />}
+                                    </div>
+                                </div>
+                                <div className="w-full bg-secondary rounded-full h-4 overflow-hidden">
+                                    <div className="bg-primary h-4 rounded-full transition-all duration-500 ease-out" style={{ width: `${(item.score ?? 0) * 10}%` }}></div>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                    </div>
+                ) : <p className="text-center text-text-secondary py-4">Nenhuma resposta pontuada com os filtros atuais. Defina pesos nas perguntas dos botões para calcular a nota.</p>}
+            </div>
+        )}
+
+        {view === 'answers' && (
+            <AnswerStatsPanel buttons={buttonConfigs} reports={filteredReports} />
+        )}
       </div>
 
+      <GoalAlertModal
+        eventId={eventId}
+        company={alertGoal}
+        progress={alertGoal?.progress || null}
+        staffList={staffList}
+        onClose={() => setAlertGoal(null)}
+      />
+
       <style>{`
         .custom-scrollbar::-webkit-scrollbar {
             width: 8px;
@@ -0,0 +1,276 @@
+import React from 'react';
+import { ReportForm, FormQuestion, FormQuestionType, ReportType, RatingScale, DateTimeMode } from '../../types';
+import { FORM_QUESTION_TYPE_LABELS, RATING_SCALES, YES_NO_OPTIONS, getQuestionOptions, isSingleChoice } from '../../services/reportForms';
+import Input from '../Input';
+import Button from '../Button';
+
+interface Props {
+  form: ReportForm;
+  onChange: (form: ReportForm) => void;
+}
+
+// Select values for routing; question ids are used as-is
+const ROUTE_DEFAULT = '';
+const ROUTE_END = '__end__';
+
+const selectClass = 'w-full p-2 border border-border rounded-md bg-background';
+
+const DATE_TIME_MODE_LABELS: Record<DateTimeMode, string> = {
+  date: 'Somente data',
+  time: 'Somente hora',
+  datetime: 'Data e hora',
+};
+
+// Edits the questions of a report button and where each answer leads.
+const ReportFormEditor: React.FC<Props> = ({ form, onChange }) => {
+  const { questions } = form;
+
+  const updateQuestion = (index: number, changes: Partial<FormQuestion>) => {
+    onChange({ questions: questions.map((q, i) => (i === index ? { ...q, ...changes } : q)) });
+  };
+
+  const addQuestion = () => {
+    const newQuestion: FormQuestion = { id: `q-${Date.now()}`, question: '', type: ReportType.OPEN_TEXT, options: [], required: true };
+    // Chain it after the current last question when that one ended the form
+    const updated = questions.map((q, i) =>
+      i === questions.length - 1 && !q.next ? { ...q, next: newQuestion.id } : q
+    );
+    onChange({ questions: [...updated, newQuestion] });
+  };
+
+  // Routes to the removed question are dropped, so those answers end the form.
+  const removeQuestion = (index: number) => {
+    const removedId = questions[index].id;
+    onChange({
+      questions: questions
+        .filter((_, i) => i !== index)
+        .map(q => ({
+          ...q,
+          next: q.next === removedId ? undefined : q.next,
+          branches: q.branches?.filter(b => b.next !== removedId),
+        })),
+    });
+  };
+
+  const moveQuestion = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange({ questions: reordered });
+  };
+
+  // Branches name options of the old type, and settings only apply to their own type
+  const handleTypeChange = (index: number, type: FormQuestionType) => {
+    updateQuestion(index, {
+      type,
+      branches: undefined,
+      min: undefined,
+      max: undefined,
+      scale: type === ReportType.RATING ? 'stars' : undefined,
+      dateTimeMode: type === ReportType.DATE_TIME ? 'datetime' : undefined,
+      optionWeights: undefined,
+      scored: undefined,
+    });
+  };
+
+  const parseLimit = (raw: string) => (raw === '' ? undefined : Number(raw));
+
+  const updateOptionLabel = (index: number, optionIndex: number, label: string) => {
+    const options = (questions[index].options || []).map((o, i) => (i === optionIndex ? { ...o, label } : o));
+    updateQuestion(index, { options });
+  };
+
+  const addOption = (index: number) => {
+    updateQuestion(index, { options: [...(questions[index].options || []), { id: `new-${Date.now()}`, label: '' }] });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    const removedId = (question.options || [])[optionIndex]?.id;
+    const { [removedId]: _removed, ...optionWeights } = question.optionWeights || {};
+    updateQuestion(index, {
+      options: (question.options || []).filter((_, i) => i !== optionIndex),
+      branches: question.branches?.filter(b => b.optionId !== removedId),
+      optionWeights,
+    });
+  };
+
+  // Points toward the booth score; a blank weight is worth nothing
+  const setOptionWeight = (index: number, optionId: string, raw: string) => {
+    const { [optionId]: _previous, ...others } = questions[index].optionWeights || {};
+    const weight = Number(raw);
+    updateQuestion(index, { optionWeights: raw === '' || isNaN(weight) ? others : { ...others, [optionId]: weight } });
+  };
+
+  const renderWeightInput = (question: FormQuestion, index: number, optionId: string) => (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      placeholder="Peso"
+      title="Peso na nota do estande"
+      value={question.optionWeights?.[optionId] ?? ''}
+      onChange={(e) => setOptionWeight(index, optionId, e.target.value)}
+      className="w-20 p-2 border border-border rounded-md bg-background"
+    />
+  );
+
+  const toRouteValue = (next: string | null | undefined) => (next === null ? ROUTE_END : next || ROUTE_DEFAULT);
+
+  const handleNextChange = (index: number, value: string) => {
+    updateQuestion(index, { next: value === ROUTE_END || value === ROUTE_DEFAULT ? undefined : value });
+  };
+
+  const handleBranchChange = (index: number, optionId: string, value: string) => {
+    const others = (questions[index].branches || []).filter(b => b.optionId !== optionId);
+    updateQuestion(index, {
+      branches: value === ROUTE_DEFAULT ? others : [...others, { optionId, next: value === ROUTE_END ? null : value }],
+    });
+  };
+
+  const questionName = (q: FormQuestion) => {
+    const position = questions.indexOf(q) + 1;
+    return `${position}. ${q.question || 'Sem texto'}`;
+  };
+
+  // Any other question can be a target; validateReportForm rejects loops on save
+  const renderTargets = (index: number) =>
+    questions.filter((_, i) => i !== index).map(q => <option key={q.id} value={q.id}>{questionName(q)}</option>);
+
+  return (
+    <div className="space-y-4 border-t border-border pt-4 mt-4">
+      <h4 className="font-semibold">Perguntas do Formulário</h4>
+      {questions.map((question, index) => {
+        const nextQuestion = questions.find(q => q.id === question.next);
+        return (
+          <div key={question.id} className="p-4 border border-border rounded-lg space-y-3">
+            <div className="flex justify-between items-center gap-2">
+              <span className="font-semibold text-sm text-text-secondary">
+                Pergunta {index + 1}{index === 0 && ' (início)'}
+              </span>
+              <div className="flex gap-2">
+                <Button type="button" variant="secondary" onClick={() => moveQuestion(index, -1)} disabled={index === 0} className="py-1 px-2 text-sm" aria-label="Subir">↑</Button>
+                <Button type="button" variant="secondary" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1} className="py-1 px-2 text-sm" aria-label="Descer">↓</Button>
+                <Button type="button" variant="danger" onClick={() => removeQuestion(index)} disabled={questions.length === 1} className="py-1 px-2 text-sm">Remover</Button>
+              </div>
+            </div>
+            <Input id={`question-${question.id}`} label="Pergunta" value={question.question} onChange={(e) => updateQuestion(index, { question: e.target.value })} required />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+              <div>
+                <label htmlFor={`type-${question.id}`} className="block text-sm font-medium mb-1">Tipo de Resposta</label>
+                <select id={`type-${question.id}`} value={question.type} onChange={(e) => handleTypeChange(index, e.target.value as FormQuestionType)} className={selectClass}>
+                  {(Object.keys(FORM_QUESTION_TYPE_LABELS) as FormQuestionType[]).map(type => (
+                    <option key={type} value={type}>{FORM_QUESTION_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm pb-2">
+                <input type="checkbox" checked={question.required} onChange={(e) => updateQuestion(index, { required: e.target.checked })} className="h-4 w-4" />
+                Resposta obrigatória
+              </label>
+            </div>
+
+            {(question.type === ReportType.MULTIPLE_CHOICE || question.type === ReportType.CHECKLIST) && (
+              <div className="space-y-2">
+                <h5 className="text-sm font-semibold">{question.type === ReportType.CHECKLIST ? 'Itens do Checklist' : 'Opções de Resposta'}</h5>
+                {(question.options || []).map((opt, optionIndex) => (
+                  <div key={opt.id || optionIndex} className="flex items-center gap-2">
+                    <Input id={`option-${question.id}-${optionIndex}`} label="" value={opt.label} onChange={(e) => updateOptionLabel(index, optionIndex, e.target.value)} className="flex-grow mb-0" />
+                    {renderWeightInput(question, index, opt.id)}
+                    <Button type="button" variant="danger" onClick={() => removeOption(index, optionIndex)} className="py-1 px-2 text-sm">X</Button>
+                  </div>
+                ))}
+                <Button type="button" variant="secondary" onClick={() => addOption(index)} className="text-sm">
+                  {question.type === ReportType.CHECKLIST ? 'Adicionar Item' : 'Adicionar Opção'}
+                </Button>
+              </div>
+            )}
+
+            {question.type === ReportType.YES_NO && (
+              <div className="space-y-2">
+                <h5 className="text-sm font-semibold">Pesos na nota do estande</h5>
+                <div className="flex gap-4">
+                  {YES_NO_OPTIONS.map(option => (
+                    <label key={option.id} className="flex items-center gap-2 text-sm">
+                      {option.label}
+                      {renderWeightInput(question, index, option.id)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {(question.type === ReportType.MULTIPLE_CHOICE || question.type === ReportType.CHECKLIST) && (
+              <p className="text-xs text-text-secondary">Preencha os pesos para que esta pergunta conte na nota do estande.</p>
+            )}
+
+            {question.type === ReportType.NUMBER && (
+              <div className="grid grid-cols-2 gap-4">
+                <Input id={`min-${question.id}`} label="Valor mínimo (opcional)" type="number" step="any" value={question.min ?? ''} onChange={(e) => updateQuestion(index, { min: parseLimit(e.target.value) })} />
+                <Input id={`max-${question.id}`} label="Valor máximo (opcional)" type="number" step="any" value={question.max ?? ''} onChange={(e) => updateQuestion(index, { max: parseLimit(e.target.value) })} />
+              </div>
+            )}
+
+            {question.type === ReportType.RATING && (
+              <div>
+                <label htmlFor={`scale-${question.id}`} className="block text-sm font-medium mb-1">Escala</label>
+                <select id={`scale-${question.id}`} value={question.scale || 'stars'} onChange={(e) => updateQuestion(index, { scale: e.target.value as RatingScale })} className={selectClass}>
+                  {(Object.keys(RATING_SCALES) as RatingScale[]).map(scale => (
+                    <option key={scale} value={scale}>{RATING_SCALES[scale].label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm mt-2">
+                  <input type="checkbox" checked={!!question.scored} onChange={(e) => updateQuestion(index, { scored: e.target.checked })} className="h-4 w-4" />
+                  Conta na nota do estande
+                </label>
+              </div>
+            )}
+
+            {question.type === ReportType.DATE_TIME && (
+              <div>
+                <label htmlFor={`mode-${question.id}`} className="block text-sm font-medium mb-1">Formato</label>
+                <select id={`mode-${question.id}`} value={question.dateTimeMode || 'datetime'} onChange={(e) => updateQuestion(index, { dateTimeMode: e.target.value as DateTimeMode })} className={selectClass}>
+                  {(Object.keys(DATE_TIME_MODE_LABELS) as DateTimeMode[]).map(mode => (
+                    <option key={mode} value={mode}>{DATE_TIME_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor={`next-${question.id}`} className="block text-sm font-medium mb-1">Depois desta pergunta</label>
+              <select id={`next-${question.id}`} value={question.next || ROUTE_END} onChange={(e) => handleNextChange(index, e.target.value)} className={selectClass}>
+                <option value={ROUTE_END}>Encerrar o formulário</option>
+                {renderTargets(index)}
+              </select>
+            </div>
+
+            {isSingleChoice(question) && getQuestionOptions(question).some(o => o.label.trim()) && (
+              <div className="space-y-2">
+                <h5 className="text-sm font-semibold">Desvios por resposta</h5>
+                {getQuestionOptions(question).filter(o => o.label.trim()).map(option => (
+                  <div key={option.id} className="grid grid-cols-2 gap-2 items-center text-sm">
+                    <span className="truncate">Se "{option.label}"</span>
+                    <select
+                      value={toRouteValue(question.branches?.find(b => b.optionId === option.id)?.next)}
+                      onChange={(e) => handleBranchChange(index, option.id, e.target.value)}
+                      className={selectClass}
+                    >
+                      <option value={ROUTE_DEFAULT}>Seguir ({nextQuestion ? `pergunta ${questions.indexOf(nextQuestion) + 1}` : 'encerrar'})</option>
+                      <option value={ROUTE_END}>Encerrar o formulário</option>
+                      {renderTargets(index)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <Button type="button" variant="secondary" onClick={addQuestion} className="text-sm">Adicionar Pergunta</Button>
+    </div>
+  );
+};
+
+export default ReportFormEditor;
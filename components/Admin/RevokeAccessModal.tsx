@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { apiRevokeBoothAccess } from '../../services/api';
+import Modal from '../Modal';
+import Button from '../Button';
+
+interface Props {
+  // The staff member or collaborator whose check-ins are revoked; null keeps the modal closed
+  target: { staffId: string; name: string } | { collaboratorId: string; name: string } | null;
+  onClose: () => void;
+  // Called after a successful revocation, with the new code when one was issued
+  onRevoked: (newCode?: string) => void;
+}
+
+const RevokeAccessModal: React.FC<Props> = ({ target, onClose, onRevoked }) => {
+  const [rotateCode, setRotateCode] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ revoked: number; code?: string } | null>(null);
+
+  // Parents pass a fresh object on every render; reset only when the person changes
+  const targetId = target && ('staffId' in target ? target.staffId : target.collaboratorId);
+
+  useEffect(() => {
+    setRotateCode(false);
+    setError(null);
+    setResult(null);
+  }, [targetId]);
+
+  if (!target) return null;
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    setError(null);
+    try {
+      const revokeTarget = 'staffId' in target ? { staffId: target.staffId } : { collaboratorId: target.collaboratorId };
+      const revokeResult = await apiRevokeBoothAccess(revokeTarget, rotateCode);
+      setResult(revokeResult);
+      onRevoked(revokeResult.code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao revogar o acesso.');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const codeLabel = 'staffId' in target ? 'código pessoal' : 'código de colaborador';
+
+  return (
+    <Modal isOpen={!!target} onClose={onClose} title="Revogar Acesso">
+      {result ? (
+        <div className="space-y-6">
+          <p className="text-text">
+            {result.revoked === 0
+              ? `${target.name} não tinha nenhum check-in ativo.`
+              : `${result.revoked} check-in(s) de ${target.name} encerrado(s).`}
+          </p>
+          {result.code && (
+            <div className="p-4 bg-background rounded-lg text-center">
+              <p className="text-sm text-text-secondary">Novo {codeLabel}</p>
+              <p className="text-2xl font-bold text-primary tracking-widest">{result.code}</p>
+              <p className="text-xs text-text-secondary mt-2">Imprima um novo crachá; o anterior não funciona mais.</p>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={onClose}>Fechar</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <p className="text-text">
+            Todos os check-ins ativos de <span className="font-semibold">{target.name}</span> serão encerrados imediatamente. Para voltar a usar o sistema, será necessário fazer um novo check-in.
+          </p>
+          <label className="flex items-start gap-2 text-sm">
+            <input type="checkbox" checked={rotateCode} onChange={(e) => setRotateCode(e.target.checked)} className="h-4 w-4 mt-0.5" />
+            <span>Crachá perdido: gerar um novo {codeLabel}. O código atual deixará de funcionar.</span>
+          </label>
+          {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+          <div className="flex justify-end gap-4">
+            <Button variant="secondary" onClick={onClose} disabled={isRevoking}>Cancelar</Button>
+            <Button variant="danger" onClick={handleRevoke} disabled={isRevoking}>
+              {isRevoking ? 'Revogando...' : 'Revogar Acesso'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RevokeAccessModal;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { getEventSalesData } from '../../services/api';
+import { getSalesTargetsByEvent, saveSalesTargets, SalesTargetEntry } from '../../services/salesTargets';
+import { toEventDay, formatEventDay } from '../../services/visitPlans';
+import { CompanySalesData, SalesTarget } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface Props {
+  eventId: string;
+}
+
+const targetKey = (companyId: string, collaboratorId: string | null) => `${companyId}:${collaboratorId || ''}`;
+
+const inputClass = 'w-24 px-2 py-1 border border-border rounded-md bg-background text-center focus:outline-none focus:ring-2 focus:ring-primary';
+
+const SalesTargetsManager: React.FC<Props> = ({ eventId }) => {
+  const [targets, setTargets] = useState<SalesTarget[]>([]);
+  const [companies, setCompanies] = useState<CompanySalesData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [extraDays, setExtraDays] = useState<string[]>([]);
+  const [day, setDay] = useState(toEventDay());
+  const [newDay, setNewDay] = useState('');
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [expandedCompanyId, setExpandedCompanyId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'success' | 'error' | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [targetsData, companiesData] = await Promise.all([
+        getSalesTargetsByEvent(eventId),
+        getEventSalesData(eventId),
+      ]);
+      setTargets(targetsData);
+      setCompanies(companiesData.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error("Failed to fetch sales targets:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const days = useMemo(
+    () => Array.from(new Set([...targets.map(t => t.day), ...extraDays, day])).sort(),
+    [targets, extraDays, day]
+  );
+
+  // The form starts from what is saved for the selected day
+  useEffect(() => {
+    const values: Record<string, string> = {};
+    targets.filter(t => t.day === day).forEach(t => {
+      values[targetKey(t.companyId, t.collaboratorId || null)] = String(t.targetUnits);
+    });
+    setDraft(values);
+    setSaveStatus(null);
+  }, [targets, day]);
+
+  const totalsByCompany = useMemo(() => targets.reduce((acc, t) => {
+    if (!t.collaboratorId) acc[t.companyId] = (acc[t.companyId] || 0) + t.targetUnits;
+    return acc;
+  }, {} as Record<string, number>), [targets]);
+
+  const handleAddDay = () => {
+    if (!newDay) return;
+    setExtraDays(prev => prev.includes(newDay) ? prev : [...prev, newDay]);
+    setDay(newDay);
+    setNewDay('');
+  };
+
+  const updateDraft = (companyId: string, collaboratorId: string | null, value: string) => {
+    setDraft(prev => ({ ...prev, [targetKey(companyId, collaboratorId)]: value }));
+    setSaveStatus(null);
+  };
+
+  const handleSave = async () => {
+    const entries: SalesTargetEntry[] = companies.flatMap(company => [
+      { companyId: company.id, collaboratorId: null },
+      ...company.collaborators.map(c => ({ companyId: company.id, collaboratorId: c.id })),
+    ]).map(entry => ({
+      ...entry,
+      targetUnits: Math.max(0, Math.floor(Number(draft[targetKey(entry.companyId, entry.collaboratorId)]) || 0)),
+    }));
+
+    setSaving(true);
+    try {
+      await saveSalesTargets(eventId, day, entries, targets);
+      setTargets(await getSalesTargetsByEvent(eventId));
+      setSaveStatus('success');
+    } catch (error) {
+      console.error("Failed to save sales targets:", error);
+      setSaveStatus('error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Metas de Vendas</h2>
+        <p className="text-text-secondary mt-1">
+          Defina quantos veículos cada empresa, e se quiser cada vendedor, deve vender em cada dia do evento. Deixe em branco para não ter meta.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {days.map(d => (
+          <button
+            key={d}
+            type="button"
+            onClick={() => setDay(d)}
+            className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${d === day ? 'bg-primary text-black' : 'bg-secondary hover:bg-secondary-hover'}`}
+          >
+            {formatEventDay(d)}
+          </button>
+        ))}
+        <input
+          type="date"
+          value={newDay}
+          onChange={(e) => setNewDay(e.target.value)}
+          className="px-3 py-1 border border-border rounded-md bg-background text-text-secondary focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <Button variant="secondary" className="text-sm py-1 px-3" onClick={handleAddDay} disabled={!newDay}>Adicionar dia</Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="p-3">Empresa</th>
+              <th className="p-3 text-center">Meta em {formatEventDay(day)}</th>
+              <th className="p-3 text-center">Meta do Evento</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {companies.map(company => (
+              <React.Fragment key={company.id}>
+                <tr className="border-b border-border">
+                  <td className="p-3 font-semibold">{company.name}</td>
+                  <td className="p-3 text-center">
+                    <input
+                      type="number"
+                      min="0"
+                      value={draft[targetKey(company.id, null)] || ''}
+                      onChange={(e) => updateDraft(company.id, null, e.target.value)}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="p-3 text-center text-text-secondary">{totalsByCompany[company.id] || '—'}</td>
+                  <td className="p-3 text-right">
+                    {company.collaborators.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setExpandedCompanyId(prev => prev === company.id ? null : company.id)}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        {expandedCompanyId === company.id ? 'Ocultar vendedores' : `Vendedores (${company.collaborators.length})`}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedCompanyId === company.id && company.collaborators.map(collaborator => (
+                  <tr key={collaborator.id} className="border-b border-border bg-secondary/30">
+                    <td className="p-3 pl-8 text-sm">{collaborator.name} {collaborator.collaboratorCode && <span className="text-text-secondary">({collaborator.collaboratorCode})</span>}</td>
+                    <td className="p-3 text-center">
+                      <input
+                        type="number"
+                        min="0"
+                        value={draft[targetKey(company.id, collaborator.id)] || ''}
+                        onChange={(e) => updateDraft(company.id, collaborator.id, e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="p-3 text-center text-sm text-text-secondary">
+                      {targets.filter(t => t.collaboratorId === collaborator.id).reduce((sum, t) => sum + t.targetUnits, 0) || '—'}
+                    </td>
+                    <td></td>
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+        {companies.length === 0 && <p className="text-center text-text-secondary py-8">Nenhuma empresa cadastrada neste evento.</p>}
+      </div>
+
+      <div className="flex justify-end items-center gap-4 pt-4 mt-4 border-t border-border">
+        {saveStatus === 'success' && <p className="text-green-500 text-sm font-semibold animate-pulse">Metas salvas com sucesso!</p>}
+        {saveStatus === 'error' && <p className="text-red-500 text-sm font-semibold">Falha ao salvar. Tente novamente.</p>}
+        <Button onClick={handleSave} disabled={saving || companies.length === 0}>
+          {saving ? 'Salvando...' : `Salvar metas de ${formatEventDay(day)}`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SalesTargetsManager;
@@ -18,6 +18,8 @@ import Input from '../Input';
 import Button from '../Button';
 import LoadingSpinner from '../LoadingSpinner';
 import ConfirmationModal from '../ConfirmationModal';
+import RevokeAccessModal from './RevokeAccessModal';
+import { drawBadgeSheet, BadgeInfo } from '../../services/qrCodes';
 
 declare const jspdf: any;
 
@@ -48,6 +50,7 @@ const StaffManager: React.FC<Props> = ({ eventId }) => {
   const [isConfirmDeleteModalOpen, setIsConfirmDeleteModalOpen] = useState(false);
   const [itemToUnlink, setItemToUnlink] = useState<string | null>(null);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+  const [staffToRevoke, setStaffToRevoke] = useState<Staff | null>(null);
 
   const [currentStaff, setCurrentStaff] = useState<Omit<Staff, 'id'> | Staff>(emptyStaff);
   const [isEditing, setIsEditing] = useState(false);
@@ -275,6 +278,20 @@ const StaffManager: React.FC<Props> = ({ eventId }) => {
     doc.save(`relatorio_equipe.pdf`);
   };
 
+  const handleDownloadBadgesPdf = () => {
+    const doc = new (window as any).jspdf.jsPDF();
+    const badges: BadgeInfo[] = [...staff]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(member => ({
+        name: member.name,
+        subtitle: getDepartmentName(member.departmentId),
+        code: member.personalCode,
+      }));
+
+    drawBadgeSheet(doc, badges, 'Equipe');
+    doc.save(`crachas_qr_equipe.pdf`);
+  };
+
   const staffAvailableToLink = useMemo(() => {
       const currentEventStaffIds = new Set(staff.map(s => s.id));
       return allOrganizerStaff.filter(s => !currentEventStaffIds.has(s.id));
@@ -283,7 +300,7 @@ const StaffManager: React.FC<Props> = ({ eventId }) => {
   const filteredStaff = useMemo(() =>
     staff.filter(s =>
       s.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      s.personalCode.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (s.personalCode || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
       (s.role && s.role.toLowerCase().includes(searchTerm.toLowerCase()))
     ),
     [staff, searchTerm]
@@ -401,6 +418,15 @@ const StaffManager: React.FC<Props> = ({ eventId }) => {
             <DownloadIcon />
             Download PDF
           </Button>
+          <Button
+            variant="secondary"
+            onClick={handleDownloadBadgesPdf}
+            disabled={staff.length === 0}
+            className="flex-shrink-0 flex items-center justify-center"
+          >
+            <DownloadIcon />
+            Crachás QR
+          </Button>
           <Button onClick={handleOpenAddModal} className="flex-shrink-0" disabled={!organizer}>Adicionar Membro</Button>
         </div>
       </div>
@@ -417,8 +443,9 @@ const StaffManager: React.FC<Props> = ({ eventId }) => {
                         <p className="text-sm text-text-secondary">Tel: {member.phone || 'N/D'}</p>
                     </div>
                 </div>
-                <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t border-border flex-shrink-0">
+                <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t border-border flex-shrink-0">
                     <Button variant="secondary" onClick={() => handleOpenEditModal(member)} className="text-sm w-full">Editar</Button>
+                    <Button variant="secondary" onClick={() => setStaffToRevoke(member)} className="text-sm w-full">Revogar Acesso</Button>
                     <Button variant="secondary" onClick={() => handleUnlinkClick(member.id)} className="text-sm w-full">Desvincular</Button>
                     <Button variant="danger" onClick={() => handleDeleteClick(member.id)} className="text-sm w-full">Excluir</Button>
                 </div>
@@ -450,9 +477,19 @@ const StaffManager: React.FC<Props> = ({ eventId }) => {
         isOpen={isConfirmDeleteModalOpen}
         onClose={() => setIsConfirmDeleteModalOpen(false)}
         onConfirm={handleConfirmDelete}
-        title="Confirmar Exclusão Permanente"
-        message="Tem certeza que deseja excluir este membro da equipe PERMANENTEMENTE? Esta ação removerá o membro de TODOS os eventos e da sua organização. Esta ação não pode ser desfeita."
-        confirmText="Excluir Permanentemente"
+        title="Confirmar Exclusão"
+        message="Tem certeza que deseja excluir este membro da equipe? Ele deixará de aparecer em TODOS os eventos e na sua organização, mas poderá ser restaurado pela Lixeira em até 30 dias."
+        confirmText="Excluir"
+      />
+
+      <RevokeAccessModal
+        target={staffToRevoke && { staffId: staffToRevoke.id, name: staffToRevoke.name }}
+        onClose={() => setStaffToRevoke(null)}
+        onRevoked={(newCode) => {
+          if (newCode && staffToRevoke) {
+            setStaff(prev => prev.map(s => s.id === staffToRevoke.id ? { ...s, personalCode: newCode } : s));
+          }
+        }}
       />
     </div>
   );
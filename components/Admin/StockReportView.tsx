@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { getStockMovementsByEvent, getParticipantCompaniesByEvent } from '../../services/api';
-import { FullStockMovement, ParticipantCompany } from '../../types';
+import { getStatusChangeResponsible, getVehicleStatusChangesByEvent, VEHICLE_STATUS_CLASSES } from '../../services/vehicleLifecycle';
+import { formatConversionRate, getTestDriveConversions, getTestDrivesByEvent, TestDriveConversion } from '../../services/testDrives';
+import { FullStockMovement, FullTestDrive, ParticipantCompany, VehicleStatus, VehicleStatusChange } from '../../types';
+import { useRealtimeRefetch } from '../../hooks/useRealtimeRefetch';
 import LoadingSpinner from '../LoadingSpinner';
 import Button from '../Button';
 
@@ -10,7 +13,7 @@ interface Props {
   eventId: string;
 }
 
-type MovementFilter = 'Todos' | 'Venda' | 'Teste Drive';
+type MovementFilter = 'Todos' | 'Venda' | 'Teste Drive' | 'Negociações' | 'Conversão';
 
 const DownloadIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -27,22 +30,63 @@ const MovementBadge: React.FC<{ type: 'Venda' | 'Teste Drive' }> = ({ type }) =>
     return <span className={`${baseClasses} ${typeClasses[type]}`}>{type}</span>;
 };
 
+const StatusBadge: React.FC<{ status: VehicleStatus }> = ({ status }) => (
+    <span className={`px-2 py-1 text-xs font-bold rounded-full ${VEHICLE_STATUS_CLASSES[status]}`}>{status}</span>
+);
+
+const CONVERSION_COLUMNS = ["Realizados", "Viraram Venda", "Não Converteram", "Sem Retorno", "Conversão"];
+
+const ConversionTable: React.FC<{ title: string; groupLabel: string; rows: TestDriveConversion[] }> = ({ title, groupLabel, rows }) => (
+    <div className="overflow-x-auto mb-8">
+        <h3 className="text-xl font-semibold mb-2">{title}</h3>
+        <table className="w-full text-left">
+            <thead>
+                <tr className="border-b border-border">
+                    <th className="p-3">{groupLabel}</th>
+                    {CONVERSION_COLUMNS.map(column => <th key={column} className="p-3 text-center">{column}</th>)}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.key} className="border-b border-border last:border-0 hover:bg-secondary/30 transition-colors">
+                        <td className="p-3 font-semibold">{row.label}</td>
+                        <td className="p-3 text-center">{row.completed}</td>
+                        <td className="p-3 text-center">{row.converted}</td>
+                        <td className="p-3 text-center">{row.notConverted}</td>
+                        <td className="p-3 text-center">{row.pending}</td>
+                        <td className="p-3 text-center font-bold text-primary">{formatConversionRate(row.rate)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const conversionPdfRows = (rows: TestDriveConversion[]) =>
+    rows.map(r => [r.label, r.completed, r.converted, r.notConverted, r.pending, formatConversionRate(r.rate)]);
+
 const StockReportView: React.FC<Props> = ({ eventId }) => {
     const [movements, setMovements] = useState<FullStockMovement[]>([]);
+    const [statusChanges, setStatusChanges] = useState<VehicleStatusChange[]>([]);
+    const [testDrives, setTestDrives] = useState<FullTestDrive[]>([]);
     const [companies, setCompanies] = useState<ParticipantCompany[]>([]);
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState<MovementFilter>('Todos');
     const [dateFilter, setDateFilter] = useState<string>('');
     const [companyFilter, setCompanyFilter] = useState<string>('all');
+    const [statusFilter, setStatusFilter] = useState<VehicleStatus | 'all'>('all');
 
     const fetchData = useCallback(async () => {
-        setLoading(true);
         try {
-            const [data, companiesData] = await Promise.all([
+            const [data, changesData, testDrivesData, companiesData] = await Promise.all([
                 getStockMovementsByEvent(eventId),
+                getVehicleStatusChangesByEvent(eventId),
+                getTestDrivesByEvent(eventId),
                 getParticipantCompaniesByEvent(eventId)
             ]);
             setMovements(data);
+            setStatusChanges(changesData);
+            setTestDrives(testDrivesData);
             setCompanies(companiesData);
         } catch (error) {
             console.error("Failed to fetch stock movements report:", error);
@@ -52,9 +96,20 @@ const StockReportView: React.FC<Props> = ({ eventId }) => {
     }, [eventId]);
 
     useEffect(() => {
+        setLoading(true);
         fetchData();
     }, [fetchData]);
 
+    // Movements carry no event id, so listen to the whole table and let the refetch scope it
+    useRealtimeRefetch([
+        { table: 'stock_movements' },
+        { table: 'vehicle_status_history' },
+        { table: 'test_drives', filter: `event_id=eq.${eventId}` },
+    ], fetchData);
+
+    const isDealsView = filter === 'Negociações';
+    const isConversionView = filter === 'Conversão';
+
     const filteredMovements = useMemo(() => {
         return movements.filter(m => {
             const typeMatch = filter === 'Todos' || m.type === filter;
@@ -64,6 +119,37 @@ const StockReportView: React.FC<Props> = ({ eventId }) => {
         });
     }, [movements, filter, companyFilter, dateFilter]);
 
+    const filteredStatusChanges = useMemo(() => {
+        return statusChanges.filter(c => {
+            const statusMatch = statusFilter === 'all' || c.toStatus === statusFilter;
+            const companyMatch = companyFilter === 'all' || c.companyId === companyFilter;
+            const dateMatch = !dateFilter || c.createdAt.startsWith(dateFilter);
+            return statusMatch && companyMatch && dateMatch;
+        });
+    }, [statusChanges, statusFilter, companyFilter, dateFilter]);
+
+    const filteredTestDrives = useMemo(() => {
+        return testDrives.filter(t => {
+            const companyMatch = companyFilter === 'all' || t.companyId === companyFilter;
+            const dateMatch = !dateFilter || t.startsAt.startsWith(dateFilter);
+            return companyMatch && dateMatch;
+        });
+    }, [testDrives, companyFilter, dateFilter]);
+
+    const conversionByModel = useMemo(() => getTestDriveConversions(filteredTestDrives, t => {
+        const label = t.vehicle ? `${t.vehicle.marca} - ${t.vehicle.model}` : 'Veículo removido';
+        return { key: label, label };
+    }), [filteredTestDrives]);
+
+    const conversionByCompany = useMemo(() => getTestDriveConversions(filteredTestDrives, t => ({
+        key: t.companyId,
+        label: t.company?.name || 'N/D',
+    })), [filteredTestDrives]);
+
+    const visibleCount = isConversionView
+        ? conversionByCompany.length
+        : isDealsView ? filteredStatusChanges.length : filteredMovements.length;
+
     const getFilterButtonClass = (buttonFilter: MovementFilter) => {
         return `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${
             filter === buttonFilter 
@@ -86,6 +172,46 @@ const StockReportView: React.FC<Props> = ({ eventId }) => {
         doc.text(`Empresa: ${selectedCompanyName}${dateText}`, 14, 30);
         doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 38);
 
+        if (isConversionView) {
+            doc.autoTable({
+                head: [["Modelo", ...CONVERSION_COLUMNS]],
+                body: conversionPdfRows(conversionByModel),
+                startY: 42,
+                theme: 'grid',
+                headStyles: { fillColor: [18, 181, 229] },
+            });
+            doc.autoTable({
+                head: [["Empresa", ...CONVERSION_COLUMNS]],
+                body: conversionPdfRows(conversionByCompany),
+                theme: 'grid',
+                headStyles: { fillColor: [18, 181, 229] },
+            });
+            doc.save('conversao_test_drives.pdf');
+            return;
+        }
+
+        if (isDealsView) {
+            const statusRows = [...filteredStatusChanges]
+                .sort((a, b) => (a.company?.name || '').localeCompare(b.company?.name || ''))
+                .map(c => [
+                    c.company?.name || 'N/D',
+                    `${c.fromStatus} → ${c.toStatus}`,
+                    `${c.vehicle?.marca || 'N/D'} - ${c.vehicle?.model || 'N/D'} (${c.vehicle?.placa || 'N/D'})`,
+                    getStatusChangeResponsible(c),
+                    c.note || '',
+                    new Date(c.createdAt).toLocaleString('pt-BR'),
+                ]);
+            doc.autoTable({
+                head: [["Empresa", "Status", "Veículo", "Responsável", "Observação", "Data/Hora"]],
+                body: statusRows,
+                startY: 42,
+                theme: 'grid',
+                headStyles: { fillColor: [18, 181, 229] },
+            });
+            doc.save('negociacoes_veiculos.pdf');
+            return;
+        }
+
         const tableColumn = ["Empresa", "Tipo", "Veículo", "Equipe", "Data/Hora"];
         const tableRows: string[][] = [];
 
@@ -145,11 +271,25 @@ const StockReportView: React.FC<Props> = ({ eventId }) => {
                         <button onClick={() => setFilter('Todos')} className={getFilterButtonClass('Todos')}>Todos</button>
                         <button onClick={() => setFilter('Venda')} className={getFilterButtonClass('Venda')}>Vendas</button>
                         <button onClick={() => setFilter('Teste Drive')} className={getFilterButtonClass('Teste Drive')}>Test Drives</button>
+                        <button onClick={() => setFilter('Negociações')} className={getFilterButtonClass('Negociações')}>Negociações</button>
+                        <button onClick={() => setFilter('Conversão')} className={getFilterButtonClass('Conversão')}>Conversão</button>
                     </div>
+                    {isDealsView && (
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value as VehicleStatus | 'all')}
+                            className="px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                        >
+                            <option value="all">Todos os Status</option>
+                            {Object.values(VehicleStatus).filter(s => s !== VehicleStatus.DISPONIVEL).map(s => (
+                                <option key={s} value={s}>{s}</option>
+                            ))}
+                        </select>
+                    )}
                     <Button
                         onClick={handleDownloadPdf}
                         variant="secondary"
-                        disabled={filteredMovements.length === 0}
+                        disabled={visibleCount === 0}
                         className="text-sm py-2 px-3 flex items-center"
                     >
                         <DownloadIcon /> Download PDF
@@ -157,6 +297,61 @@ const StockReportView: React.FC<Props> = ({ eventId }) => {
                 </div>
             </div>
 
+            {isConversionView ? (
+            <div>
+                <p className="text-sm text-text-secondary mb-4">
+                    Conversão dos test drives concluídos em venda, conforme o retorno registrado pela empresa.
+                </p>
+                {conversionByCompany.length > 0 ? (
+                    <>
+                        <ConversionTable title="Por Modelo" groupLabel="Modelo" rows={conversionByModel} />
+                        <ConversionTable title="Por Empresa" groupLabel="Empresa" rows={conversionByCompany} />
+                    </>
+                ) : (
+                    <div className="text-center py-12">
+                        <p className="text-text-secondary">Nenhum test drive concluído com o filtro selecionado.</p>
+                    </div>
+                )}
+            </div>
+            ) : isDealsView ? (
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="border-b border-border">
+                            <th className="p-3">Status</th>
+                            <th className="p-3">Veículo</th>
+                            <th className="p-3">Empresa</th>
+                            <th className="p-3">Responsável</th>
+                            <th className="p-3">Data/Hora</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {filteredStatusChanges.map(c => (
+                            <tr key={c.id} className="border-b border-border last:border-0 hover:bg-secondary/30 transition-colors">
+                                <td className="p-3">
+                                    <StatusBadge status={c.toStatus} />
+                                    <p className="text-xs text-text-secondary mt-1">de {c.fromStatus}</p>
+                                    {c.reservedUntil && <p className="text-xs text-text-secondary">até {new Date(c.reservedUntil).toLocaleString('pt-BR')}</p>}
+                                </td>
+                                <td className="p-3 font-semibold">
+                                    <span>{`${c.vehicle?.marca || 'N/D'} - ${c.vehicle?.model || 'N/D'}`}</span>
+                                    <p className="text-xs font-normal text-text-secondary">{c.vehicle?.placa || 'Sem placa'}</p>
+                                    {c.note && <p className="text-xs font-normal text-text-secondary italic">{c.note}</p>}
+                                </td>
+                                <td className="p-3">{c.company?.name || 'N/D'}</td>
+                                <td className="p-3">{getStatusChangeResponsible(c)}</td>
+                                <td className="p-3 text-sm text-text-secondary">{new Date(c.createdAt).toLocaleString('pt-BR')}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {filteredStatusChanges.length === 0 && (
+                    <div className="text-center py-12">
+                        <p className="text-text-secondary">Nenhuma mudança de status encontrada com o filtro selecionado.</p>
+                    </div>
+                )}
+            </div>
+            ) : (
             <div className="overflow-x-auto">
                 <table className="w-full text-left">
                     <thead>
@@ -199,6 +394,7 @@ const StockReportView: React.FC<Props> = ({ eventId }) => {
                     </div>
                 )}
             </div>
+            )}
         </div>
     );
 };
@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { getAssignedTasksByEvent } from '../../services/api';
-import { AssignedTask } from '../../types';
+import { getTasksByEvent, getStaffByEvent, reassignTask, cancelTask } from '../../services/api';
+import { AssignedTask, Staff, TaskStatus, TaskPriority } from '../../types';
+import { useRealtimeRefetch } from '../../hooks/useRealtimeRefetch';
 import LoadingSpinner from '../LoadingSpinner';
 import Button from '../Button';
+import Modal from '../Modal';
+import ConfirmationModal from '../ConfirmationModal';
 
 // Tell TypeScript that jspdf is loaded globally from the CDN
 declare const jspdf: any;
@@ -11,7 +14,7 @@ interface Props {
   eventId: string;
 }
 
-type StatusFilter = 'Todos' | 'Pendente' | 'Concluída';
+type StatusFilter = 'Todos' | TaskStatus;
 
 const DownloadIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -19,25 +22,41 @@ const DownloadIcon = () => (
     </svg>
 );
 
-const StatusBadge: React.FC<{ status: 'Pendente' | 'Concluída' }> = ({ status }) => {
+const StatusBadge: React.FC<{ status: TaskStatus }> = ({ status }) => {
   const baseClasses = 'px-2 py-1 text-xs font-bold rounded-full';
   const statusClasses = {
-    Pendente: 'bg-yellow-800 text-yellow-200',
-    Concluída: 'bg-green-800 text-green-300',
+    [TaskStatus.PENDENTE]: 'bg-yellow-800 text-yellow-200',
+    [TaskStatus.CONCLUIDA]: 'bg-green-800 text-green-300',
+    [TaskStatus.CANCELADA]: 'bg-gray-700 text-gray-300',
   };
   return <span className={`${baseClasses} ${statusClasses[status]}`}>{status}</span>;
 };
 
+const priorityLabels: Record<TaskPriority, string> = {
+  [TaskPriority.BAIXA]: 'Baixa',
+  [TaskPriority.NORMAL]: 'Normal',
+  [TaskPriority.ALTA]: 'Alta',
+};
+
 const TasksView: React.FC<Props> = ({ eventId }) => {
   const [tasks, setTasks] = useState<AssignedTask[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<StatusFilter>('Pendente');
+  const [filter, setFilter] = useState<StatusFilter>(TaskStatus.PENDENTE);
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [taskToReassign, setTaskToReassign] = useState<AssignedTask | null>(null);
+  const [reassignStaffId, setReassignStaffId] = useState('');
+  const [taskToCancel, setTaskToCancel] = useState<AssignedTask | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
 
   const fetchData = useCallback(async () => {
-    setLoading(true);
     try {
-      const tasksData = await getAssignedTasksByEvent(eventId);
+      const [tasksData, staffData] = await Promise.all([
+        getTasksByEvent(eventId),
+        getStaffByEvent(eventId),
+      ]);
       setTasks(tasksData);
+      setStaff(staffData);
     } catch (error) {
       console.error("Failed to fetch assigned tasks:", error);
     } finally {
@@ -46,9 +65,46 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
   }, [eventId]);
 
   useEffect(() => {
+    setLoading(true);
     fetchData();
   }, [fetchData]);
 
+  useRealtimeRefetch([{ table: 'tasks', filter: `event_id=eq.${eventId}` }], fetchData);
+
+  const handleOpenReassign = (task: AssignedTask) => {
+    setActionError(null);
+    setReassignStaffId(task.staffId);
+    setTaskToReassign(task);
+  };
+
+  const handleReassign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!taskToReassign || !reassignStaffId) return;
+    setSaving(true);
+    setActionError(null);
+    try {
+      await reassignTask(taskToReassign.id, reassignStaffId);
+      setTaskToReassign(null);
+      fetchData();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Falha ao reatribuir a tarefa.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmCancel = async () => {
+    if (!taskToCancel) return;
+    try {
+      await cancelTask(taskToCancel.id);
+      fetchData();
+    } catch (error) {
+      console.error("Failed to cancel task:", error);
+    } finally {
+      setTaskToCancel(null);
+    }
+  };
+
   const filteredTasks = useMemo(() => {
     if (filter === 'Todos') {
       return tasks;
@@ -73,7 +129,7 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
     doc.setTextColor(100);
     doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 30);
 
-    const tableColumn = ["Tarefa (Ação)", "Empresa", "Atribuído a", "Data", "Status"];
+    const tableColumn = ["Tarefa (Ação)", "Empresa", "Atribuído a", "Prioridade", "Data", "Prazo", "Status"];
     const tableRows: string[][] = [];
 
     filteredTasks.forEach(task => {
@@ -81,7 +137,9 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
             task.actionLabel,
             task.companyName,
             task.staffName,
-            new Date(task.timestamp).toLocaleString('pt-BR'),
+            priorityLabels[task.priority],
+            new Date(task.createdAt).toLocaleString('pt-BR'),
+            task.dueAt ? new Date(task.dueAt).toLocaleString('pt-BR') : '-',
             task.status,
         ];
         tableRows.push(taskData);
@@ -95,7 +153,7 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
         headStyles: { fillColor: [18, 181, 229] },
     });
     
-    const safeFilterName = filter.toLowerCase().replace('ú', 'u').replace('í', 'i');
+    const safeFilterName = filter.toLowerCase().replace('ú', 'u').replace('í', 'i').replace('ã', 'a');
     doc.save(`relatorio_tarefas_${safeFilterName}.pdf`);
   };
 
@@ -108,8 +166,9 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
         <div className="flex flex-col sm:flex-row items-center gap-4">
             <div className="flex items-center gap-2 p-1 bg-background rounded-lg">
                 <button onClick={() => setFilter('Todos')} className={getFilterButtonClass('Todos')}>Todos</button>
-                <button onClick={() => setFilter('Pendente')} className={getFilterButtonClass('Pendente')}>Pendentes</button>
-                <button onClick={() => setFilter('Concluída')} className={getFilterButtonClass('Concluída')}>Concluídas</button>
+                <button onClick={() => setFilter(TaskStatus.PENDENTE)} className={getFilterButtonClass(TaskStatus.PENDENTE)}>Pendentes</button>
+                <button onClick={() => setFilter(TaskStatus.CONCLUIDA)} className={getFilterButtonClass(TaskStatus.CONCLUIDA)}>Concluídas</button>
+                <button onClick={() => setFilter(TaskStatus.CANCELADA)} className={getFilterButtonClass(TaskStatus.CANCELADA)}>Canceladas</button>
             </div>
             <Button
                 onClick={handleDownloadPdf}
@@ -130,8 +189,11 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
               <th className="p-3">Tarefa (Ação)</th>
               <th className="p-3">Empresa</th>
               <th className="p-3">Atribuído a</th>
+              <th className="p-3">Prioridade</th>
               <th className="p-3">Data</th>
+              <th className="p-3">Prazo</th>
               <th className="p-3 text-center">Status</th>
+              <th className="p-3 text-right">Ações</th>
             </tr>
           </thead>
           <tbody>
@@ -140,8 +202,20 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
                 <td className="p-3 font-semibold text-primary">{task.actionLabel}</td>
                 <td className="p-3">{task.companyName}</td>
                 <td className="p-3">{task.staffName}</td>
-                <td className="p-3 text-sm text-text-secondary">{new Date(task.timestamp).toLocaleString('pt-BR')}</td>
+                <td className={`p-3 text-sm ${task.priority === TaskPriority.ALTA ? 'text-red-400 font-semibold' : ''}`}>{priorityLabels[task.priority]}</td>
+                <td className="p-3 text-sm text-text-secondary">{new Date(task.createdAt).toLocaleString('pt-BR')}</td>
+                <td className={`p-3 text-sm ${task.status === TaskStatus.PENDENTE && task.dueAt && new Date(task.dueAt).getTime() < Date.now() ? 'text-red-400 font-semibold' : 'text-text-secondary'}`}>
+                  {task.dueAt ? new Date(task.dueAt).toLocaleString('pt-BR') : '-'}
+                </td>
                 <td className="p-3 text-center"><StatusBadge status={task.status} /></td>
+                <td className="p-3">
+                  {task.status === TaskStatus.PENDENTE && (
+                    <div className="flex justify-end gap-2">
+                      <Button variant="secondary" onClick={() => handleOpenReassign(task)} className="py-1 px-2 text-sm">Reatribuir</Button>
+                      <Button variant="danger" onClick={() => setTaskToCancel(task)} className="py-1 px-2 text-sm">Cancelar</Button>
+                    </div>
+                  )}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -152,6 +226,40 @@ const TasksView: React.FC<Props> = ({ eventId }) => {
             </div>
         )}
       </div>
+
+      <Modal isOpen={!!taskToReassign} onClose={() => setTaskToReassign(null)} title="Reatribuir Tarefa">
+        <form onSubmit={handleReassign} className="space-y-4">
+          <p className="text-text-secondary">
+            <span className="font-semibold text-text">{taskToReassign?.actionLabel}</span> - {taskToReassign?.companyName}
+          </p>
+          <div>
+            <label htmlFor="reassign-staff" className="block text-sm font-medium mb-1">Membro da Equipe</label>
+            <select
+              id="reassign-staff"
+              value={reassignStaffId}
+              onChange={(e) => setReassignStaffId(e.target.value)}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              required
+            >
+              {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          {actionError && <p className="text-red-500 text-sm text-center">{actionError}</p>}
+          <div className="flex justify-end gap-4 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setTaskToReassign(null)}>Cancelar</Button>
+            <Button type="submit" disabled={saving || reassignStaffId === taskToReassign?.staffId}>{saving ? 'Salvando...' : 'Reatribuir'}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!taskToCancel}
+        onClose={() => setTaskToCancel(null)}
+        onConfirm={handleConfirmCancel}
+        title="Cancelar Tarefa"
+        message={`Tem certeza que deseja cancelar a tarefa "${taskToCancel?.actionLabel}"? Ela deixará de aparecer para ${taskToCancel?.staffName}.`}
+        confirmText="Cancelar Tarefa"
+      />
     </div>
   );
 };
@@ -1,9 +1,20 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import { getTelaoRequestsByEvent } from '../../services/api';
-import { TelaoRequest, TelaoRequestStatus } from '../../types';
+import {
+  approveTelaoRequest,
+  getTelaoDisplayToken,
+  getTelaoDisplayUrl,
+  rotateTelaoDisplayToken,
+  skipTelaoRequest,
+  TELAO_DISPLAY_STATUS_CLASSES,
+  TELAO_DISPLAY_STATUS_LABELS
+} from '../../services/telaoDisplay';
+import { TelaoDisplayStatus, TelaoRequest, TelaoRequestStatus } from '../../types';
+import { useRealtimeRefetch } from '../../hooks/useRealtimeRefetch';
 import LoadingSpinner from '../LoadingSpinner';
 import Button from '../Button';
+import ConfirmationModal from '../ConfirmationModal';
 
 declare const jspdf: any;
 
@@ -27,6 +38,11 @@ const TelaoRequestsDashboard: React.FC = () => {
   const [requests, setRequests] = useState<TelaoRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<TelaoRequestStatus | 'all'>('all');
+  const [displayToken, setDisplayToken] = useState<string | null>(null);
+  const [isRotateConfirmOpen, setIsRotateConfirmOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   const fetchData = useCallback(async () => {
     if (!eventId) return;
@@ -43,9 +59,59 @@ const TelaoRequestsDashboard: React.FC = () => {
   useEffect(() => {
     setLoading(true);
     fetchData();
-    const intervalId = setInterval(fetchData, 20000); // Refresh every 20 seconds
-    return () => clearInterval(intervalId);
   }, [fetchData]);
+
+  useRealtimeRefetch(eventId ? [{ table: 'telao_requests', filter: `event_id=eq.${eventId}` }] : null, fetchData);
+
+  useEffect(() => {
+    if (!eventId) return;
+    getTelaoDisplayToken(eventId)
+      .then(setDisplayToken)
+      .catch(error => console.error("Failed to fetch telão display token:", error));
+  }, [eventId]);
+
+  const displayUrl = eventId && displayToken ? getTelaoDisplayUrl(eventId, displayToken) : null;
+
+  const queueLength = useMemo(
+    () => requests.filter(r => r.displayStatus === TelaoDisplayStatus.APROVADO).length,
+    [requests]
+  );
+
+  const handleRotateToken = async () => {
+    if (!eventId) return;
+    try {
+      setDisplayToken(await rotateTelaoDisplayToken(eventId));
+      setActionError(null);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Falha ao gerar o link do telão.');
+    } finally {
+      setIsRotateConfirmOpen(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!displayUrl) return;
+    try {
+      await navigator.clipboard.writeText(displayUrl);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy telão link:", error);
+    }
+  };
+
+  const handleDisplayAction = async (requestId: string, action: (id: string) => Promise<void>) => {
+    setUpdatingId(requestId);
+    setActionError(null);
+    try {
+      await action(requestId);
+      await fetchData();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Falha ao atualizar a fila do telão.');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
   
   const filteredRequests = useMemo(() => {
     if (filter === 'all') return requests;
@@ -123,6 +189,28 @@ const TelaoRequestsDashboard: React.FC = () => {
         </div>
       </div>
 
+      <div className="mb-6 p-4 bg-secondary rounded-lg">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Tela do Telão</h3>
+            <p className="text-sm text-text-secondary">
+              Abra o link no computador ligado ao telão. As vendas aprovadas abaixo são comemoradas na ordem de aprovação; entre elas, o telão mostra o pódio de vendas.
+            </p>
+            <p className="text-sm mt-1"><span className="font-semibold text-primary">{queueLength}</span> comemoração(ões) na fila.</p>
+          </div>
+          {displayUrl ? (
+            <div className="flex flex-wrap gap-2 flex-shrink-0">
+              <Button variant="secondary" className="text-sm py-2 px-3" onClick={handleCopyLink}>{linkCopied ? 'Copiado!' : 'Copiar Link'}</Button>
+              <Button variant="secondary" className="text-sm py-2 px-3" onClick={() => window.open(displayUrl, '_blank')}>Abrir Telão</Button>
+              <Button variant="secondary" className="text-sm py-2 px-3" onClick={() => setIsRotateConfirmOpen(true)}>Gerar Novo Link</Button>
+            </div>
+          ) : (
+            <Button className="flex-shrink-0" onClick={handleRotateToken}>Gerar Link do Telão</Button>
+          )}
+        </div>
+        {actionError && <p className="text-red-500 text-sm mt-3">{actionError}</p>}
+      </div>
+
       <div className="space-y-4">
         {filteredRequests.length > 0 ? filteredRequests.map(req => (
           <div key={req.id} className="p-4 bg-secondary rounded-lg border-l-4 border-primary">
@@ -135,12 +223,28 @@ const TelaoRequestsDashboard: React.FC = () => {
                  </div>
               </div>
               <div className="text-right">
-                  <StatusBadge status={req.status} />
+                  <div className="flex justify-end gap-2">
+                    <span className={`px-2 py-1 text-xs font-bold rounded-full ${TELAO_DISPLAY_STATUS_CLASSES[req.displayStatus]}`}>
+                      {TELAO_DISPLAY_STATUS_LABELS[req.displayStatus]}
+                    </span>
+                    <StatusBadge status={req.status} />
+                  </div>
                   <p className="text-xs text-text-secondary mt-1">{new Date(req.createdAt).toLocaleString('pt-BR')}</p>
               </div>
             </div>
             <div className="mt-4 pt-4 border-t border-border/50">
                 <p><span className="font-semibold">Veículo Vendido:</span> {req.vehicle?.marca} {req.vehicle?.model}</p>
+                <div className="flex flex-wrap justify-end gap-2 mt-3">
+                  {req.displayStatus === TelaoDisplayStatus.AGUARDANDO && (
+                    <Button className="text-sm py-1 px-3" onClick={() => handleDisplayAction(req.id, approveTelaoRequest)} disabled={updatingId === req.id}>Aprovar</Button>
+                  )}
+                  {(req.displayStatus === TelaoDisplayStatus.AGUARDANDO || req.displayStatus === TelaoDisplayStatus.APROVADO) && (
+                    <Button variant="secondary" className="text-sm py-1 px-3" onClick={() => handleDisplayAction(req.id, skipTelaoRequest)} disabled={updatingId === req.id}>Pular</Button>
+                  )}
+                  {(req.displayStatus === TelaoDisplayStatus.EXIBIDO || req.displayStatus === TelaoDisplayStatus.PULADO) && (
+                    <Button variant="secondary" className="text-sm py-1 px-3" onClick={() => handleDisplayAction(req.id, approveTelaoRequest)} disabled={updatingId === req.id}>Exibir Novamente</Button>
+                  )}
+                </div>
             </div>
             {req.status === TelaoRequestStatus.CONCLUIDO && (
               <div className="mt-4 pt-4 border-t border-border/50 bg-background/50 p-3 rounded-md">
@@ -154,6 +258,14 @@ const TelaoRequestsDashboard: React.FC = () => {
           <p className="text-center py-12 text-text-secondary">Nenhuma solicitação encontrada com o filtro selecionado.</p>
         )}
       </div>
+
+      <ConfirmationModal
+        isOpen={isRotateConfirmOpen}
+        onClose={() => setIsRotateConfirmOpen(false)}
+        onConfirm={handleRotateToken}
+        title="Gerar Novo Link do Telão"
+        message="O link atual deixa de funcionar e o telão precisa ser aberto de novo com o novo link. Continuar?"
+      />
     </div>
   );
 };
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { getTrash, restoreTrashItem, purgeTrashItem, getTrashExpiry, isRestorable, TRASH_RETENTION_DAYS } from '../../services/api';
+import { useAuth } from '../../context/AuthContext';
+import { TrashItem, TrashItemType } from '../../types';
+import LoadingSpinner from '../LoadingSpinner';
+import Button from '../Button';
+import ConfirmationModal from '../ConfirmationModal';
+
+interface Props {
+  // Without an event the view lists the whole platform's trash (master admins)
+  eventId?: string;
+}
+
+type TypeFilter = 'Todos' | TrashItemType;
+
+const typeLabels: Record<TrashItemType, string> = {
+  [TrashItemType.EVENT]: 'Evento',
+  [TrashItemType.COMPANY]: 'Empresa',
+  [TrashItemType.STAFF]: 'Equipe',
+  [TrashItemType.VEHICLE]: 'Veículo',
+};
+
+const TypeBadge: React.FC<{ type: TrashItemType }> = ({ type }) => (
+  <span className="px-2 py-1 text-xs font-bold rounded-full bg-secondary text-text-secondary">{typeLabels[type]}</span>
+);
+
+const TrashView: React.FC<Props> = ({ eventId }) => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TypeFilter>('Todos');
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setItems(await getTrash(eventId));
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData();
+  }, [fetchData]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    setActionError(null);
+    try {
+      await restoreTrashItem(item);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Falha ao restaurar o item.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!itemToPurge) return;
+    const item = itemToPurge;
+    setItemToPurge(null);
+    setBusyId(item.id);
+    setActionError(null);
+    try {
+      await purgeTrashItem(item);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Falha ao excluir o item permanentemente.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const filteredItems = useMemo(() => {
+    if (filter === 'Todos') {
+      return items;
+    }
+    return items.filter(item => item.type === filter);
+  }, [items, filter]);
+
+  const availableTypes = eventId
+    ? [TrashItemType.COMPANY, TrashItemType.STAFF, TrashItemType.VEHICLE]
+    : Object.values(TrashItemType);
+
+  const getFilterButtonClass = (buttonFilter: TypeFilter) => {
+    return `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${
+        filter === buttonFilter
+        ? 'bg-primary text-black'
+        : 'bg-secondary hover:bg-secondary-hover'
+    }`;
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-2 gap-4">
+        <h2 className="text-3xl font-bold">Lixeira</h2>
+        <div className="flex flex-wrap items-center gap-2 p-1 bg-background rounded-lg">
+          <button onClick={() => setFilter('Todos')} className={getFilterButtonClass('Todos')}>Todos</button>
+          {availableTypes.map(type => (
+            <button key={type} onClick={() => setFilter(type)} className={getFilterButtonClass(type)}>{typeLabels[type]}</button>
+          ))}
+        </div>
+      </div>
+      <p className="text-text-secondary mb-6">
+        Itens excluídos podem ser restaurados por até {TRASH_RETENTION_DAYS} dias. A exclusão permanente é restrita a administradores master.
+      </p>
+
+      {actionError && <p className="text-red-500 text-sm text-center mb-4">{actionError}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="p-3">Item</th>
+              <th className="p-3">Tipo</th>
+              <th className="p-3">Excluído em</th>
+              <th className="p-3">Restaurável até</th>
+              <th className="p-3 text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredItems.map(item => {
+              const restorable = isRestorable(item);
+              return (
+                <tr key={`${item.type}-${item.id}`} className="border-b border-border last:border-0 hover:bg-secondary/30 transition-colors">
+                  <td className="p-3">
+                    <p className="font-semibold text-primary">{item.name}</p>
+                    {item.details && <p className="text-xs text-text-secondary">{item.details}</p>}
+                  </td>
+                  <td className="p-3"><TypeBadge type={item.type} /></td>
+                  <td className="p-3 text-sm text-text-secondary">{new Date(item.deletedAt).toLocaleString('pt-BR')}</td>
+                  <td className={`p-3 text-sm ${restorable ? 'text-text-secondary' : 'text-red-400 font-semibold'}`}>
+                    {restorable ? getTrashExpiry(item).toLocaleDateString('pt-BR') : 'Expirado'}
+                  </td>
+                  <td className="p-3">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="secondary"
+                        onClick={() => handleRestore(item)}
+                        disabled={!restorable || busyId === item.id}
+                        className="py-1 px-2 text-sm"
+                      >
+                        Restaurar
+                      </Button>
+                      {user?.isMaster && (
+                        <Button
+                          variant="danger"
+                          onClick={() => setItemToPurge(item)}
+                          disabled={busyId === item.id}
+                          className="py-1 px-2 text-sm"
+                        >
+                          Excluir Permanentemente
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {filteredItems.length === 0 && (
+            <div className="text-center py-12">
+                <p className="text-text-secondary">A lixeira está vazia.</p>
+            </div>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!itemToPurge}
+        onClose={() => setItemToPurge(null)}
+        onConfirm={handleConfirmPurge}
+        title="Excluir Permanentemente"
+        message={itemToPurge?.type === TrashItemType.EVENT
+          ? `Tem certeza que deseja excluir "${itemToPurge.name}" permanentemente? Todos os dados associados (empresas, departamentos, registros) serão perdidos. Se for o último evento do organizador, a empresa organizadora, sua equipe e seu acesso também serão excluídos.`
+          : `Tem certeza que deseja excluir "${itemToPurge?.name}" permanentemente? Esta ação não pode ser desfeita.`}
+        confirmText="Excluir Permanentemente"
+      />
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { getStaffByEvent, getDepartmentsByEvent, getParticipantCompaniesByEvent } from '../../services/api';
+import { getVisitPlansByEvent, saveVisitPlan, deleteVisitPlan, toEventDay, formatEventDay } from '../../services/visitPlans';
+import { VisitPlan, Staff, Department, ParticipantCompany } from '../../types';
+import Modal from '../Modal';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmationModal from '../ConfirmationModal';
+
+interface Props {
+  eventId: string;
+}
+
+type PlanDraft = Omit<VisitPlan, 'id'> & { id?: string };
+type TargetType = 'staff' | 'department';
+
+const selectClass = 'w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary';
+
+const VisitPlansManager: React.FC<Props> = ({ eventId }) => {
+  const [plans, setPlans] = useState<VisitPlan[]>([]);
+  const [staffList, setStaffList] = useState<Staff[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [companies, setCompanies] = useState<ParticipantCompany[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dayFilter, setDayFilter] = useState('Todos');
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+  const [targetType, setTargetType] = useState<TargetType>('staff');
+  const [companyToAdd, setCompanyToAdd] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [planToDelete, setPlanToDelete] = useState<VisitPlan | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [plansData, staffData, departmentsData, companiesData] = await Promise.all([
+        getVisitPlansByEvent(eventId),
+        getStaffByEvent(eventId),
+        getDepartmentsByEvent(eventId),
+        getParticipantCompaniesByEvent(eventId),
+      ]);
+      setPlans(plansData);
+      setStaffList(staffData);
+      setDepartments(departmentsData);
+      setCompanies(companiesData);
+    } catch (error) {
+      console.error("Failed to fetch visit plans:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const companiesById = useMemo(() => new Map(companies.map(c => [c.id, c])), [companies]);
+
+  const days = useMemo(() => Array.from(new Set(plans.map(p => p.day))).sort(), [plans]);
+
+  const filteredPlans = useMemo(() =>
+    plans.filter(p => dayFilter === 'Todos' || p.day === dayFilter),
+    [plans, dayFilter]
+  );
+
+  const getTargetName = (plan: VisitPlan) => {
+    if (plan.staffId) {
+      return staffList.find(s => s.id === plan.staffId)?.name || 'Membro removido';
+    }
+    return `Departamento: ${departments.find(d => d.id === plan.departmentId)?.name || 'N/A'}`;
+  };
+
+  const handleOpenModal = (plan?: VisitPlan) => {
+    setDraft(plan
+      ? { ...plan, companyIds: [...plan.companyIds] }
+      : { eventId, day: dayFilter === 'Todos' ? toEventDay() : dayFilter, staffId: staffList[0]?.id, companyIds: [] });
+    setTargetType(plan && !plan.staffId ? 'department' : 'staff');
+    setCompanyToAdd('');
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setDraft(null);
+  };
+
+  const handleTargetTypeChange = (type: TargetType) => {
+    setTargetType(type);
+    setDraft(prev => prev && (type === 'staff'
+      ? { ...prev, staffId: staffList[0]?.id, departmentId: undefined }
+      : { ...prev, staffId: undefined, departmentId: departments[0]?.id }));
+  };
+
+  const handleAddCompany = () => {
+    if (!companyToAdd) return;
+    setDraft(prev => prev && { ...prev, companyIds: [...prev.companyIds, companyToAdd] });
+    setCompanyToAdd('');
+  };
+
+  const handleMoveCompany = (index: number, offset: -1 | 1) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const companyIds = [...prev.companyIds];
+      const target = index + offset;
+      if (target < 0 || target >= companyIds.length) return prev;
+      [companyIds[index], companyIds[target]] = [companyIds[target], companyIds[index]];
+      return { ...prev, companyIds };
+    });
+  };
+
+  const handleRemoveCompany = (index: number) => {
+    setDraft(prev => prev && { ...prev, companyIds: prev.companyIds.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.day || !(draft.staffId || draft.departmentId)) {
+      setFormError('Escolha o dia e o responsável pelo roteiro.');
+      return;
+    }
+    if (draft.companyIds.length === 0) {
+      setFormError('Adicione ao menos um estande ao roteiro.');
+      return;
+    }
+    setSaving(true);
+    setFormError(null);
+    try {
+      await saveVisitPlan(draft);
+      handleCloseModal();
+      fetchData();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Falha ao salvar o roteiro.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!planToDelete) return;
+    try {
+      await deleteVisitPlan(planToDelete.id);
+      fetchData();
+    } catch (error) {
+      console.error("Failed to delete visit plan:", error);
+    } finally {
+      setPlanToDelete(null);
+    }
+  };
+
+  const getFilterButtonClass = (day: string) =>
+    `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${dayFilter === day ? 'bg-primary text-black' : 'bg-secondary hover:bg-secondary-hover'}`;
+
+  if (loading) return <LoadingSpinner />;
+
+  const availableCompanies = draft ? companies.filter(c => !draft.companyIds.includes(c.id)) : [];
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Roteiros de Visita</h2>
+          <p className="text-text-secondary mt-1">
+            Defina, para cada dia, a ordem dos estandes que um membro ou um departamento inteiro deve visitar. O roteiro do membro substitui o do seu departamento.
+          </p>
+        </div>
+        <Button onClick={() => handleOpenModal()} className="flex-shrink-0">Novo Roteiro</Button>
+      </div>
+
+      {days.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button onClick={() => setDayFilter('Todos')} className={getFilterButtonClass('Todos')}>Todos</button>
+          {days.map(day => (
+            <button key={day} onClick={() => setDayFilter(day)} className={getFilterButtonClass(day)}>{formatEventDay(day)}</button>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="p-3">Dia</th>
+              <th className="p-3">Responsável</th>
+              <th className="p-3">Estandes</th>
+              <th className="p-3 text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredPlans.map(plan => (
+              <tr key={plan.id} className="border-b border-border last:border-0 hover:bg-secondary/30 transition-colors">
+                <td className="p-3 whitespace-nowrap">{formatEventDay(plan.day)}</td>
+                <td className="p-3 font-semibold">{getTargetName(plan)}</td>
+                <td className="p-3 text-sm text-text-secondary">
+                  {plan.companyIds.map((id, index) => `${index + 1}. ${companiesById.get(id)?.name || 'Empresa removida'}`).join('  ')}
+                </td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="secondary" onClick={() => handleOpenModal(plan)} className="py-1 px-2 text-sm">Editar</Button>
+                    <Button variant="danger" onClick={() => setPlanToDelete(plan)} className="py-1 px-2 text-sm">Excluir</Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filteredPlans.length === 0 && (
+          <p className="text-center text-text-secondary py-4">Nenhum roteiro de visita criado.</p>
+        )}
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={draft?.id ? 'Editar Roteiro' : 'Novo Roteiro'}>
+        {draft && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="plan-day" className="block text-sm font-medium mb-1 text-text">Dia</label>
+              <input
+                id="plan-day"
+                type="date"
+                value={draft.day}
+                onChange={(e) => setDraft({ ...draft, day: e.target.value })}
+                className={selectClass}
+                required
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium mb-1 text-text">Responsável</span>
+              <div className="flex gap-4 mb-2 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={targetType === 'staff'} onChange={() => handleTargetTypeChange('staff')} />
+                  Membro da equipe
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={targetType === 'department'} onChange={() => handleTargetTypeChange('department')} />
+                  Departamento
+                </label>
+              </div>
+              {targetType === 'staff' ? (
+                <select value={draft.staffId || ''} onChange={(e) => setDraft({ ...draft, staffId: e.target.value })} className={selectClass}>
+                  {staffList.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              ) : (
+                <select value={draft.departmentId || ''} onChange={(e) => setDraft({ ...draft, departmentId: e.target.value })} className={selectClass}>
+                  {departments.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+              )}
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium mb-1 text-text">Estandes, na ordem de visita</span>
+              <ol className="space-y-2 mb-2">
+                {draft.companyIds.map((id, index) => (
+                  <li key={id} className="flex items-center gap-2 p-2 border border-border rounded-md">
+                    <span className="flex-1 truncate">
+                      {index + 1}. {companiesById.get(id)?.name || 'Empresa removida'}
+                      <span className="text-xs text-text-secondary ml-2">{companiesById.get(id)?.boothCode}</span>
+                    </span>
+                    <Button type="button" variant="secondary" onClick={() => handleMoveCompany(index, -1)} disabled={index === 0} className="py-1 px-2 text-sm" aria-label="Subir">↑</Button>
+                    <Button type="button" variant="secondary" onClick={() => handleMoveCompany(index, 1)} disabled={index === draft.companyIds.length - 1} className="py-1 px-2 text-sm" aria-label="Descer">↓</Button>
+                    <Button type="button" variant="danger" onClick={() => handleRemoveCompany(index)} className="py-1 px-2 text-sm">Remover</Button>
+                  </li>
+                ))}
+              </ol>
+              <div className="flex gap-2">
+                <select value={companyToAdd} onChange={(e) => setCompanyToAdd(e.target.value)} className={selectClass}>
+                  <option value="">Selecione um estande...</option>
+                  {availableCompanies.map(c => <option key={c.id} value={c.id}>{c.name} ({c.boothCode})</option>)}
+                </select>
+                <Button type="button" variant="secondary" onClick={handleAddCompany} disabled={!companyToAdd} className="flex-shrink-0">Adicionar</Button>
+              </div>
+            </div>
+
+            {formError && <p className="text-red-500 text-sm text-center">{formError}</p>}
+            <div className="flex justify-end gap-4 pt-4">
+              <Button type="button" variant="secondary" onClick={handleCloseModal}>Cancelar</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Salvando...' : 'Salvar'}</Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!planToDelete}
+        onClose={() => setPlanToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Confirmar Exclusão"
+        message="Tem certeza que deseja excluir este roteiro? As visitas já registradas não são apagadas."
+        confirmText="Excluir"
+      />
+    </div>
+  );
+};
+
+export default VisitPlansManager;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { GoalProgress, formatGoalPercent, goalBarWidth } from '../services/salesTargets';
+
+interface Props {
+  progress: GoalProgress;
+}
+
+// Sold against target, with today's numbers and where the current pace leads.
+const GoalProgressBar: React.FC<Props> = ({ progress }) => {
+  const barClass = progress.isFarBehind
+    ? 'bg-red-500'
+    : (progress.percent ?? 0) >= 1 ? 'bg-green-500' : 'bg-primary';
+
+  return (
+    <div>
+      <div className="w-full bg-secondary rounded-full h-4 overflow-hidden">
+        <div className={`${barClass} h-4 rounded-full transition-all duration-500 ease-out`} style={{ width: goalBarWidth(progress.percent) }}></div>
+      </div>
+      <div className="flex flex-wrap justify-between gap-x-4 mt-1 text-xs text-text-secondary">
+        <span>{progress.sold} de {progress.target} · {formatGoalPercent(progress.percent)}</span>
+        {progress.todayTarget > 0 && <span>Hoje: {progress.todaySold} de {progress.todayTarget}</span>}
+        {progress.projection !== null && <span>Projeção: {progress.projection}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default GoalProgressBar;
@@ -1,12 +1,13 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useLocation, Link, useNavigate } from 'react-router-dom';
 import { triad3Logo } from '../assets/logo';
 import Modal from './Modal';
 import Button from './Button';
 import LoadingSpinner from './LoadingSpinner';
-import { uploadImage, updateUserPhoto, updateCollaborator, getCompanyCallsByEvent, getTelaoRequestsByEvent } from '../services/api';
+import { uploadImage, updateUserPhoto, updateCollaborator, getCompanyCallsByEvent, getTelaoRequestsByEvent, apiEndBoothSession } from '../services/api';
 import { UserRole, Collaborator, CallStatus, TelaoRequestStatus } from '../types';
+import { useRealtimeRefetch } from '../hooks/useRealtimeRefetch';
 
 const Header: React.FC = () => {
   const { isAuthenticated, user, logout, updateAuthUser } = useAuth();
@@ -33,40 +34,39 @@ const Header: React.FC = () => {
 
   const [pendingNotificationsCount, setPendingNotificationsCount] = useState(0);
 
-  useEffect(() => {
-    if (!user || (user.role !== UserRole.ADMIN && user.role !== UserRole.ORGANIZER) || !user.eventId) {
+  const notificationsEventId = user && (user.role === UserRole.ADMIN || user.role === UserRole.ORGANIZER) ? user.eventId : undefined;
+
+  const fetchPendingNotifications = useCallback(async () => {
+    if (!notificationsEventId) {
         setPendingNotificationsCount(0);
         return;
     }
+    try {
+        const [calls, telaoRequests] = await Promise.all([
+            getCompanyCallsByEvent(notificationsEventId),
+            getTelaoRequestsByEvent(notificationsEventId),
+        ]);
+        const pendingCalls = calls.filter(c => c.status === CallStatus.PENDENTE).length;
+        const pendingTelao = telaoRequests.filter(r => r.status === TelaoRequestStatus.PENDENTE).length;
+        setPendingNotificationsCount(pendingCalls + pendingTelao);
+    } catch (e) {
+        console.error("Failed to fetch pending notifications for header", e);
+    }
+  }, [notificationsEventId]);
 
-    const eventId = user.eventId;
-    let isMounted = true;
-
-    const fetchPendingNotifications = async () => {
-        try {
-            const [calls, telaoRequests] = await Promise.all([
-                getCompanyCallsByEvent(eventId),
-                getTelaoRequestsByEvent(eventId),
-            ]);
-            if (isMounted) {
-                const pendingCalls = calls.filter(c => c.status === CallStatus.PENDENTE).length;
-                const pendingTelao = telaoRequests.filter(r => r.status === TelaoRequestStatus.PENDENTE).length;
-                setPendingNotificationsCount(pendingCalls + pendingTelao);
-            }
-        } catch (e) {
-            console.error("Failed to fetch pending notifications for header", e);
-        }
-    };
-
+  useEffect(() => {
     fetchPendingNotifications();
-    const intervalId = setInterval(fetchPendingNotifications, 30000); // Poll every 30 seconds
+  }, [fetchPendingNotifications]);
 
-    return () => {
-        isMounted = false;
-        clearInterval(intervalId);
-    };
-
-  }, [user]);
+  useRealtimeRefetch(
+    notificationsEventId
+        ? [
+            { table: 'company_calls', filter: `event_id=eq.${notificationsEventId}` },
+            { table: 'telao_requests', filter: `event_id=eq.${notificationsEventId}` },
+          ]
+        : null,
+    fetchPendingNotifications
+  );
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -135,7 +135,7 @@ const Header: React.FC = () => {
     try {
       const newPhotoUrl = await uploadImage(newPhotoFile);
       const updatedUser = await updateUserPhoto(user.id, newPhotoUrl);
-      updateAuthUser(updatedUser);
+      updateAuthUser({ ...user, photoUrl: updatedUser.photoUrl });
       setIsPhotoModalOpen(false);
     } catch (error) {
       console.error("Failed to update photo", error);
@@ -273,7 +273,7 @@ const Header: React.FC = () => {
                   <div className="border-t border-border my-1"></div>
                   <button
                     onClick={() => {
-                        sessionStorage.removeItem('collaboratorCheckinInfo');
+                        apiEndBoothSession();
                         navigate('/');
                     }}
                     className="w-full text-left px-4 py-2 text-sm text-text hover:bg-secondary-hover"
@@ -0,0 +1,275 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BadgeParserOptions, FullLead, LeadTemperature, Vehicle } from '../types';
+import {
+  createLead,
+  deleteLead,
+  downloadLeads,
+  getLeadsByCompany,
+  isLeadConverted,
+  LEAD_TEMPERATURE_CLASSES,
+  LEAD_TEMPERATURE_LABELS
+} from '../services/leads';
+import { getBadgeKey, parseBadgePayload } from '../services/badges';
+import { useRealtimeRefetch } from '../hooks/useRealtimeRefetch';
+import QrScanner from './QrScanner';
+import Input from './Input';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import ConfirmationModal from './ConfirmationModal';
+
+interface LeadManagerProps {
+  eventId: string;
+  companyId: string;
+  companyName: string;
+  collaboratorId: string;
+  vehicles: Vehicle[]; // Offered as vehicle of interest
+  badgeOptions?: BadgeParserOptions; // Enables badge scanning
+}
+
+const emptyForm = {
+  consent: false,
+  name: '',
+  phone: '',
+  email: '',
+  vehicleId: '',
+  temperature: LeadTemperature.MORNO,
+  note: '',
+  badgeKey: null as string | null,
+};
+
+// Capture form and lead list of a company. Contact fields stay locked until
+// the visitor's consent is ticked; a scanned badge only fills them in.
+const LeadManager: React.FC<LeadManagerProps> = ({ eventId, companyId, companyName, collaboratorId, vehicles, badgeOptions }) => {
+  const [leads, setLeads] = useState<FullLead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'list' | 'form' | 'scan'>('list');
+  const [scanMessage, setScanMessage] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [leadToDelete, setLeadToDelete] = useState<FullLead | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLeads(await getLeadsByCompany(companyId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao carregar os leads.');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData();
+  }, [fetchData]);
+
+  useRealtimeRefetch([{ table: 'leads', filter: `company_id=eq.${companyId}` }], fetchData);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setForm(prev => ({ ...prev, [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value }));
+  };
+
+  const handleOpenForm = () => {
+    setForm(emptyForm);
+    setError(null);
+    setView('form');
+  };
+
+  const handleOpenScanner = () => {
+    setScanMessage(null);
+    setError(null);
+    setView('scan');
+  };
+
+  const handleScan = (payload: string) => {
+    if (!badgeOptions) return;
+    const badge = parseBadgePayload(payload, badgeOptions);
+    if (!badge) {
+      setScanMessage('QR Code não reconhecido como crachá deste evento.');
+      return;
+    }
+    const badgeKey = getBadgeKey(badge);
+    const existing = badgeKey ? leads.find(l => l.badgeKey === badgeKey) : undefined;
+    if (existing) {
+      setScanMessage(`${existing.name} já é lead da empresa desde ${new Date(existing.createdAt).toLocaleString('pt-BR')}${existing.collaborator ? ` (${existing.collaborator.name})` : ''}.`);
+      return;
+    }
+    setForm({ ...emptyForm, name: badge.name || '', phone: badge.phone || '', email: badge.email || '', badgeKey });
+    setError(null);
+    setView('form');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.consent) {
+      setError('O visitante precisa autorizar o uso dos dados (LGPD).');
+      return;
+    }
+    if (!form.phone.trim() && !form.email.trim()) {
+      setError('Informe o telefone ou o e-mail.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await createLead({
+        eventId,
+        companyId,
+        collaboratorId,
+        name: form.name,
+        phone: form.phone,
+        email: form.email,
+        vehicleId: form.vehicleId,
+        temperature: form.temperature,
+        note: form.note,
+        badgeKey: form.badgeKey,
+      });
+      setView('list');
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao salvar o lead.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!leadToDelete) return;
+    try {
+      await deleteLead(leadToDelete.id);
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao excluir o lead.');
+    } finally {
+      setLeadToDelete(null);
+    }
+  };
+
+  const fileName = `leads_${companyName.toLowerCase().replace(/\s+/g, '_')}`;
+
+  if (view === 'scan') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-text-secondary text-center">Aponte a câmera para o QR Code do crachá do visitante.</p>
+        <QrScanner onScan={handleScan} />
+        {scanMessage && <p className="text-yellow-400 text-sm text-center">{scanMessage}</p>}
+        <div className="flex justify-end">
+          <Button variant="secondary" onClick={() => setView('list')}>Voltar</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'form') {
+    return (
+      <form onSubmit={handleSubmit}>
+        {form.badgeKey && <p className="text-sm text-green-400 mb-4">Dados lidos do crachá. Confirme o consentimento do visitante para salvar.</p>}
+        <label className="flex items-start gap-2 mb-4 cursor-pointer">
+          <input type="checkbox" name="consent" checked={form.consent} onChange={handleChange} className="mt-1 h-4 w-4" />
+          <span className="text-sm">O visitante autoriza {companyName} a guardar nome, telefone e e-mail para contato comercial, conforme a LGPD.</span>
+        </label>
+        <Input id="lead-name" name="name" label="Nome" value={form.name} onChange={handleChange} required disabled={!form.consent} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input id="lead-phone" name="phone" label="Telefone" type="tel" value={form.phone} onChange={handleChange} disabled={!form.consent} />
+          <Input id="lead-email" name="email" label="E-mail" type="email" value={form.email} onChange={handleChange} disabled={!form.consent} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <div className="mb-4">
+            <label htmlFor="lead-vehicle" className="block text-sm font-medium mb-1 text-text">Veículo de Interesse</label>
+            <select
+              id="lead-vehicle"
+              name="vehicleId"
+              value={form.vehicleId}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Nenhum em específico</option>
+              {vehicles.map(vehicle => (
+                <option key={vehicle.id} value={vehicle.id}>{vehicle.marca} {vehicle.model} ({vehicle.placa || 'N/D'})</option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-4">
+            <label htmlFor="lead-temperature" className="block text-sm font-medium mb-1 text-text">Temperatura</label>
+            <select
+              id="lead-temperature"
+              name="temperature"
+              value={form.temperature}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {Object.values(LeadTemperature).map(temperature => (
+                <option key={temperature} value={temperature}>{LEAD_TEMPERATURE_LABELS[temperature]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <Input id="lead-note" name="note" label="Observação (opcional)" value={form.note} onChange={handleChange} />
+        {error && <p className="text-red-500 text-sm text-center mb-2">{error}</p>}
+        <div className="flex justify-end gap-4 pt-2">
+          <Button type="button" variant="secondary" onClick={() => setView('list')} disabled={submitting}>Voltar</Button>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? <LoadingSpinner /> : 'Salvar Lead'}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 justify-between">
+        <div className="flex gap-2">
+          <Button onClick={handleOpenForm}>Novo Lead</Button>
+          {badgeOptions && <Button onClick={handleOpenScanner}>Escanear Crachá</Button>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" className="text-sm py-2 px-3" onClick={() => downloadLeads(leads, fileName, 'csv')} disabled={leads.length === 0}>CSV</Button>
+          <Button variant="secondary" className="text-sm py-2 px-3" onClick={() => downloadLeads(leads, fileName, 'xlsx')} disabled={leads.length === 0}>XLSX</Button>
+        </div>
+      </div>
+      {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+      {loading ? <LoadingSpinner /> : (
+        <div className="space-y-3">
+          {leads.length > 0 ? leads.map(lead => (
+            <div key={lead.id} className="p-3 bg-secondary rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <p className="font-bold text-text">{lead.name}</p>
+                <p className="text-sm text-text-secondary">{[lead.phone, lead.email].filter(Boolean).join(' · ')}</p>
+                {lead.vehicle && <p className="text-sm text-text-secondary">Interesse: {lead.vehicle.marca} {lead.vehicle.model}</p>}
+                {lead.note && <p className="text-xs text-text-secondary">{lead.note}</p>}
+                <div className="flex flex-wrap gap-2 mt-1">
+                  <span className={`px-2 py-1 text-xs font-bold rounded-full ${LEAD_TEMPERATURE_CLASSES[lead.temperature]}`}>
+                    {LEAD_TEMPERATURE_LABELS[lead.temperature]}
+                  </span>
+                  {isLeadConverted(lead) && (
+                    <span className="px-2 py-1 text-xs font-bold rounded-full bg-green-800 text-green-300">Virou venda</span>
+                  )}
+                </div>
+              </div>
+              <div className="text-right flex-shrink-0">
+                <p className="text-xs text-text-secondary">{new Date(lead.createdAt).toLocaleString('pt-BR')}</p>
+                {lead.collaborator && <p className="text-xs text-text-secondary">por {lead.collaborator.name}</p>}
+                <Button variant="danger" className="py-1 px-2 text-xs mt-2" onClick={() => setLeadToDelete(lead)}>Excluir</Button>
+              </div>
+            </div>
+          )) : (
+            <p className="text-center text-text-secondary py-8">Nenhum lead capturado ainda.</p>
+          )}
+        </div>
+      )}
+      <ConfirmationModal
+        isOpen={!!leadToDelete}
+        onClose={() => setLeadToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Excluir Lead"
+        message={`Excluir os dados de ${leadToDelete?.name}? Use esta opção quando o visitante retirar o consentimento.`}
+      />
+    </div>
+  );
+};
+
+export default LeadManager;
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+declare const jsQR: any;
+
+interface QrScannerProps {
+  // Called with the text of every QR code read; the same code is not repeated back to back
+  onScan: (text: string) => void;
+  className?: string;
+}
+
+// Reads QR codes from the rear camera, decoding frames with the jsQR script from index.html.
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, className = '' }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frameId: number | null = null;
+    let lastText: string | null = null;
+    let cancelled = false;
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (result?.data && result.data !== lastText) {
+            lastText = result.data;
+            onScanRef.current(result.data);
+          }
+        }
+      }
+      frameId = requestAnimationFrame(scanFrame);
+    };
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        setError('Este navegador não permite acesso à câmera.');
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+        frameId = requestAnimationFrame(scanFrame);
+      } catch (err) {
+        console.error("Error accessing camera: ", err);
+        setError('Não foi possível acessar a câmera. Verifique as permissões do seu navegador.');
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-red-500 text-center">{error}</p>;
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-lg bg-black"></video>
+      <div className="absolute inset-8 border-4 border-primary/70 rounded-lg pointer-events-none"></div>
+      <canvas ref={canvasRef} className="hidden"></canvas>
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { ReportForm, ReportAnswer, ReportType } from '../types';
+import { getQuestionOptions, getNextQuestionId, getRatingScale, toReportAnswer } from '../services/reportForms';
+import { uploadImage } from '../services/api';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import SignaturePad from './SignaturePad';
+
+interface ReportFormWizardProps {
+  form: ReportForm;
+  submitting: boolean;
+  // Answers of the questions on the path taken, in order; unanswered optional ones are left out
+  onSubmit: (answers: ReportAnswer[]) => void;
+  onCancel: () => void;
+}
+
+type AnswerValue = string | string[];
+
+const isEmpty = (value?: AnswerValue) => !value || (Array.isArray(value) ? value.length === 0 : !value.trim());
+
+const DATE_TIME_INPUT_TYPES = { date: 'date', time: 'time', datetime: 'datetime-local' } as const;
+
+// Photos and signatures are stored as images, which needs the connection; the
+// offline queue only keeps the answers.
+const OFFLINE_MEDIA_MESSAGE = 'Sem conexão: fotos e assinaturas só podem ser enviadas com internet. Tente novamente quando a conexão voltar.';
+
+const dataUrlToFile = async (dataUrl: string, filename: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], filename, { type: blob.type });
+};
+
+// Asks a button's questions one at a time, following the branches of the form.
+// State lives for one filling; give each button its own `key`.
+const ReportFormWizard: React.FC<ReportFormWizardProps> = ({ form, submitting, onSubmit, onCancel }) => {
+  const startId = form.questions[0]?.id;
+  // Questions answered so far plus the current one; going back drops the last
+  const [path, setPath] = useState<string[]>(startId ? [startId] : []);
+  const [values, setValues] = useState<Record<string, AnswerValue>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const question = form.questions.find(q => q.id === path[path.length - 1]);
+  if (!question) return null;
+
+  const value = values[question.id];
+  const nextId = getNextQuestionId(question, value);
+  const isLast = !nextId;
+  const options = getQuestionOptions(question);
+
+  const setValue = (newValue: AnswerValue) => {
+    setValues(prev => ({ ...prev, [question.id]: newValue }));
+    setError(null);
+  };
+
+  const toggleChecklistItem = (optionId: string) => {
+    const selected = Array.isArray(value) ? value : [];
+    setValue(selected.includes(optionId) ? selected.filter(id => id !== optionId) : [...selected, optionId]);
+  };
+
+  const handleBack = () => {
+    setPath(prev => prev.slice(0, -1));
+    setError(null);
+  };
+
+  // Photos are uploaded as soon as they are picked, so the answer only holds URLs
+  const handlePhotosSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (!navigator.onLine) {
+      setError(OFFLINE_MEDIA_MESSAGE);
+      return;
+    }
+    setUploading(true);
+    setError(null);
+    try {
+      const urls = await Promise.all(files.map(file => uploadImage(file)));
+      setValue([...(Array.isArray(value) ? value : []), ...urls]);
+    } catch (err) {
+      setError(!navigator.onLine ? OFFLINE_MEDIA_MESSAGE : err instanceof Error ? err.message : 'Falha ao enviar a foto.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removePhoto = (url: string) => {
+    setValue((Array.isArray(value) ? value : []).filter(u => u !== url));
+  };
+
+  // The first problem with the current value, or null
+  const checkValue = (): string | null => {
+    if (isEmpty(value)) return question.required ? 'Esta pergunta é obrigatória.' : null;
+    if (question.type === ReportType.NUMBER) {
+      const number = Number(value);
+      if (isNaN(number)) return 'Informe um número válido.';
+      if (question.min != null && number < question.min) return `O valor mínimo é ${question.min}.`;
+      if (question.max != null && number > question.max) return `O valor máximo é ${question.max}.`;
+    }
+    return null;
+  };
+
+  const handleNext = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = checkValue();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    // A signature is drawn locally and stored like a photo once the question is left
+    let currentValue = value;
+    if (question.type === ReportType.SIGNATURE && typeof value === 'string' && value.startsWith('data:')) {
+      if (!navigator.onLine) {
+        setError(OFFLINE_MEDIA_MESSAGE);
+        return;
+      }
+      setUploading(true);
+      try {
+        currentValue = await uploadImage(await dataUrlToFile(value, `assinatura-${Date.now()}.png`));
+        setValues(prev => ({ ...prev, [question.id]: currentValue! }));
+      } catch (err) {
+        setError(!navigator.onLine ? OFFLINE_MEDIA_MESSAGE : err instanceof Error ? err.message : 'Falha ao enviar a assinatura.');
+        return;
+      } finally {
+        setUploading(false);
+      }
+    }
+    if (nextId) {
+      setPath(prev => [...prev, nextId]);
+      return;
+    }
+    const finalValues = { ...values, [question.id]: currentValue };
+    const answers = path
+      .map(id => form.questions.find(q => q.id === id)!)
+      .filter(q => !isEmpty(finalValues[q.id]) || q.type === ReportType.CHECKLIST)
+      .map(q => toReportAnswer(q, finalValues[q.id] ?? []));
+    onSubmit(answers);
+  };
+
+  const ratingScale = getRatingScale(question);
+
+  return (
+    <form onSubmit={handleNext}>
+      {form.questions.length > 1 && (
+        <p className="text-xs text-text-secondary mb-2">Pergunta {path.length}</p>
+      )}
+      <p className="mb-4 text-lg">
+        {question.question}
+        {question.required && <span className="text-red-500"> *</span>}
+      </p>
+
+      {question.type === ReportType.OPEN_TEXT && (
+        <textarea
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-full p-2 border border-border rounded-md bg-background"
+          rows={4}
+          autoFocus
+        />
+      )}
+
+      {question.type === ReportType.MULTIPLE_CHOICE && (
+        <div className="space-y-2">
+          {options.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 p-2 rounded-md hover:bg-border cursor-pointer">
+              <input
+                type="radio"
+                name={`question-${question.id}`}
+                value={option.id}
+                checked={value === option.id}
+                onChange={(e) => setValue(e.target.value)}
+                className="form-radio text-primary focus:ring-primary"
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === ReportType.CHECKLIST && (
+        <div className="space-y-2">
+          {options.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 p-2 rounded-md hover:bg-border cursor-pointer">
+              <input
+                type="checkbox"
+                checked={Array.isArray(value) && value.includes(option.id)}
+                onChange={() => toggleChecklistItem(option.id)}
+                className="form-checkbox h-5 w-5 rounded text-primary focus:ring-primary bg-background border-border"
+              />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === ReportType.YES_NO && (
+        <div className="flex gap-4">
+          {options.map(option => (
+            <label key={option.id} className="flex-1 flex items-center justify-center gap-2 p-3 rounded-md border-2 border-border hover:bg-border cursor-pointer has-[:checked]:bg-primary has-[:checked]:text-black has-[:checked]:border-primary">
+              <input
+                type="radio"
+                name={`question-${question.id}`}
+                value={option.id}
+                checked={value === option.id}
+                onChange={(e) => setValue(e.target.value)}
+                className="sr-only"
+              />
+              <span className="font-semibold">{option.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === ReportType.NUMBER && (
+        <input
+          type="number"
+          inputMode="decimal"
+          step="any"
+          min={question.min}
+          max={question.max}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-full p-2 border border-border rounded-md bg-background"
+          autoFocus
+        />
+      )}
+
+      {question.type === ReportType.RATING && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {Array.from({ length: ratingScale.max - ratingScale.min + 1 }, (_, i) => ratingScale.min + i).map(score => {
+            const selected = Number(value);
+            const isStars = question.scale !== 'nps';
+            const active = typeof value === 'string' && value !== '' && (isStars ? score <= selected : score === selected);
+            return (
+              <button
+                key={score}
+                type="button"
+                onClick={() => setValue(String(score))}
+                aria-label={String(score)}
+                className={isStars
+                  ? `text-4xl leading-none transition-colors ${active ? 'text-yellow-400' : 'text-border hover:text-yellow-200'}`
+                  : `w-10 h-10 rounded-md border-2 font-semibold transition-colors ${active ? 'bg-primary text-black border-primary' : 'border-border hover:bg-border'}`}
+              >
+                {isStars ? '★' : score}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {(question.type === ReportType.PHOTO || question.type === ReportType.SIGNATURE) && !navigator.onLine && (
+        <p className="text-yellow-400 text-sm mb-3">{OFFLINE_MEDIA_MESSAGE}</p>
+      )}
+
+      {question.type === ReportType.PHOTO && (
+        <div className="space-y-3">
+          {Array.isArray(value) && value.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              {value.map(url => (
+                <div key={url} className="relative">
+                  <img src={url} alt="Foto enviada" className="w-full h-24 object-cover rounded-md" />
+                  <button type="button" onClick={() => removePhoto(url)} className="absolute top-1 right-1 bg-black/60 text-white rounded-full w-6 h-6 text-xs" aria-label="Remover foto">X</button>
+                </div>
+              ))}
+            </div>
+          )}
+          <label className={`flex items-center justify-center gap-2 p-3 rounded-md border-2 border-dashed border-border hover:bg-border cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+            {uploading ? <LoadingSpinner /> : <span className="font-semibold">Tirar ou escolher foto</span>}
+            <input type="file" accept="image/*" capture="environment" multiple onChange={handlePhotosSelected} className="sr-only" />
+          </label>
+        </div>
+      )}
+
+      {question.type === ReportType.SIGNATURE && (
+        <SignaturePad value={typeof value === 'string' ? value : ''} onChange={setValue} />
+      )}
+
+      {question.type === ReportType.DATE_TIME && (
+        <input
+          type={DATE_TIME_INPUT_TYPES[question.dateTimeMode || 'datetime']}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-full p-2 border border-border rounded-md bg-background"
+        />
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+      <div className="mt-6 flex justify-end gap-4">
+        {path.length > 1 ? (
+          <Button type="button" variant="secondary" onClick={handleBack} disabled={submitting || uploading}>Voltar</Button>
+        ) : (
+          <Button type="button" variant="secondary" onClick={onCancel}>Cancelar</Button>
+        )}
+        <Button type="submit" disabled={submitting || uploading}>
+          {submitting || uploading ? <LoadingSpinner /> : isLast ? 'Enviar' : 'Próxima'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ReportFormWizard;
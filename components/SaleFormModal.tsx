@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { FullLead, PaymentMethod, Sale, Vehicle } from '../types';
+import { formatCurrency, isValidCpf, PAYMENT_METHOD_LABELS, recordSale } from '../services/sales';
+import { getLeadsByCompany, isLeadConverted, linkLeadToSale } from '../services/leads';
+import Modal from './Modal';
+import Input from './Input';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SaleFormModalProps {
+  vehicle: Vehicle | null; // Open while set
+  collaboratorId: string; // The seller
+  onClose: () => void;
+  onSaved: (sale: Sale, vehicle: Vehicle) => void;
+}
+
+const emptyForm = {
+  leadId: '',
+  salePrice: '',
+  discount: '',
+  paymentMethod: PaymentMethod.A_VISTA,
+  tradeInVehicle: '',
+  tradeInValue: '',
+  buyerConsent: false,
+  buyerName: '',
+  buyerPhone: '',
+  buyerCpf: '',
+};
+
+// Sale details asked for when a vehicle is marked as sold. Buyer fields stay
+// locked until the buyer's consent is ticked. Picking the lead the buyer came
+// from links the sale to it and fills in their contact.
+const SaleFormModal: React.FC<SaleFormModalProps> = ({ vehicle, collaboratorId, onClose, onSaved }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [leads, setLeads] = useState<FullLead[]>([]);
+
+  useEffect(() => {
+    setForm(emptyForm);
+    setError(null);
+    setLeads([]);
+    if (!vehicle) return;
+    getLeadsByCompany(vehicle.companyId)
+      .then(data => setLeads(
+        data
+          .filter(lead => !isLeadConverted(lead))
+          // Visitors who asked about this vehicle first
+          .sort((a, b) => Number(b.vehicleId === vehicle.id) - Number(a.vehicleId === vehicle.id))
+      ))
+      .catch(err => console.error('Failed to load leads for sale:', err));
+  }, [vehicle?.id]);
+
+  const salePrice = Number(form.salePrice) || 0;
+  const discount = Number(form.discount) || 0;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setForm(prev => ({ ...prev, [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value }));
+  };
+
+  const handleLeadChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const lead = leads.find(l => l.id === e.target.value);
+    setForm(prev => ({
+      ...prev,
+      leadId: e.target.value,
+      buyerName: lead ? lead.name : prev.buyerName,
+      buyerPhone: lead ? lead.phone || '' : prev.buyerPhone,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vehicle) return;
+    if (salePrice <= 0) {
+      setError('Informe o valor da venda.');
+      return;
+    }
+    if (discount > salePrice) {
+      setError('O desconto não pode ser maior que o valor da venda.');
+      return;
+    }
+    if (form.buyerConsent && form.buyerCpf && !isValidCpf(form.buyerCpf)) {
+      setError('CPF inválido.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const sale = await recordSale({
+        vehicleId: vehicle.id,
+        collaboratorId,
+        salePrice,
+        discount,
+        paymentMethod: form.paymentMethod,
+        tradeInVehicle: form.tradeInVehicle.trim(),
+        tradeInValue: form.tradeInVehicle.trim() && form.tradeInValue ? Number(form.tradeInValue) : null,
+        buyerConsent: form.buyerConsent,
+        buyerName: form.buyerName.trim(),
+        buyerPhone: form.buyerPhone.trim(),
+        buyerCpf: form.buyerCpf,
+      });
+      if (form.leadId) {
+        // The sale stands either way; the lead can still be followed up without the link
+        await linkLeadToSale(form.leadId, sale.id).catch(err => console.error('Failed to link lead to sale:', err));
+      }
+      onSaved(sale, vehicle);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao registrar a venda.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!vehicle} onClose={onClose} title={`Registrar Venda: ${vehicle?.marca} - ${vehicle?.model}`}>
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input id="sale-price" name="salePrice" label="Valor da Venda (R$)" type="number" min="0" step="0.01" value={form.salePrice} onChange={handleChange} required />
+          <Input id="sale-discount" name="discount" label="Desconto (R$)" type="number" min="0" step="0.01" value={form.discount} onChange={handleChange} />
+        </div>
+        {salePrice > 0 && (
+          <p className="text-sm text-text-secondary -mt-2 mb-4">Valor líquido: <span className="font-semibold text-text">{formatCurrency(salePrice - discount)}</span></p>
+        )}
+        <div className="mb-4">
+          <label htmlFor="sale-payment" className="block text-sm font-medium mb-1 text-text">Forma de Pagamento</label>
+          <select
+            id="sale-payment"
+            name="paymentMethod"
+            value={form.paymentMethod}
+            onChange={handleChange}
+            className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {Object.values(PaymentMethod).map(method => (
+              <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input id="sale-trade-in" name="tradeInVehicle" label="Veículo na Troca (opcional)" placeholder="Marca, modelo e placa" value={form.tradeInVehicle} onChange={handleChange} />
+          <Input id="sale-trade-in-value" name="tradeInValue" label="Valor da Troca (R$)" type="number" min="0" step="0.01" value={form.tradeInValue} onChange={handleChange} disabled={!form.tradeInVehicle.trim()} />
+        </div>
+
+        {leads.length > 0 && (
+          <div className="mb-4">
+            <label htmlFor="sale-lead" className="block text-sm font-medium mb-1 text-text">Lead de Origem (opcional)</label>
+            <select
+              id="sale-lead"
+              value={form.leadId}
+              onChange={handleLeadChange}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">Nenhum</option>
+              {leads.map(lead => (
+                <option key={lead.id} value={lead.id}>
+                  {lead.name}{lead.vehicleId === vehicle?.id ? ' (interessado neste veículo)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="border-t border-border pt-4 mt-2">
+          <label className="flex items-start gap-2 mb-4 cursor-pointer">
+            <input type="checkbox" name="buyerConsent" checked={form.buyerConsent} onChange={handleChange} className="mt-1 h-4 w-4" />
+            <span className="text-sm">O comprador autoriza o uso do nome, telefone e CPF para o registro desta venda.</span>
+          </label>
+          {form.buyerConsent && (
+            <>
+              <Input id="sale-buyer-name" name="buyerName" label="Nome do Comprador" value={form.buyerName} onChange={handleChange} />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+                <Input id="sale-buyer-phone" name="buyerPhone" label="Telefone" type="tel" value={form.buyerPhone} onChange={handleChange} />
+                <Input id="sale-buyer-cpf" name="buyerCpf" label="CPF" inputMode="numeric" placeholder="000.000.000-00" value={form.buyerCpf} onChange={handleChange} />
+              </div>
+            </>
+          )}
+        </div>
+
+        {error && <p className="text-red-500 text-sm text-center mb-2">{error}</p>}
+        <div className="flex justify-end gap-4 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={submitting}>Cancelar</Button>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? <LoadingSpinner /> : 'Confirmar Venda'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default SaleFormModal;
@@ -1,7 +1,9 @@
 import React, { useState, useMemo } from 'react';
-import { CompanySalesData } from '../types';
+import { CompanySalesData, SalesTarget } from '../types';
+import { getGoalProgress, formatGoalPercent } from '../services/salesTargets';
 import Modal from './Modal';
 import LoadingSpinner from './LoadingSpinner';
+import GoalProgressBar from './GoalProgressBar';
 
 const MedalIcon: React.FC<{ position: number }> = ({ position }) => {
     const medals: { [key: number]: string } = {
@@ -24,9 +26,10 @@ interface Props {
   isOpen: boolean;
   onClose: () => void;
   salesData: CompanySalesData[];
+  targets?: SalesTarget[]; // Adds goal progress when set
 }
 
-const SalesRankingModal: React.FC<Props> = ({ isOpen, onClose, salesData }) => {
+const SalesRankingModal: React.FC<Props> = ({ isOpen, onClose, salesData, targets = [] }) => {
     const [sellerCompanyFilter, setSellerCompanyFilter] = useState('all');
 
     const rankedCompaniesBySales = useMemo(() => {
@@ -44,6 +47,26 @@ const SalesRankingModal: React.FC<Props> = ({ isOpen, onClose, salesData }) => {
             .sort((a, b) => b.salesCount - a.salesCount);
     }, [salesData, sellerCompanyFilter]);
 
+    const companyGoals = useMemo(() => {
+        return salesData
+            .map(company => ({
+                company,
+                progress: getGoalProgress(targets.filter(t => t.companyId === company.id && !t.collaboratorId), company.saleDates),
+            }))
+            .filter(goal => goal.progress.target > 0);
+    }, [salesData, targets]);
+
+    const sellerGoals = useMemo(() => {
+        return salesData
+            .flatMap(company => company.collaborators)
+            .map(seller => ({
+                seller,
+                progress: getGoalProgress(targets.filter(t => t.collaboratorId === seller.id), seller.saleDates),
+            }))
+            .filter(goal => goal.progress.target > 0)
+            .sort((a, b) => (b.progress.percent ?? 0) - (a.progress.percent ?? 0));
+    }, [salesData, targets]);
+
     const maxSalesCompanyValue = Math.max(...rankedCompaniesBySales.map(c => c.salesCount), 0);
 
     const isSingleCompanyView = salesData.length === 1;
@@ -51,6 +74,40 @@ const SalesRankingModal: React.FC<Props> = ({ isOpen, onClose, salesData }) => {
     return (
         <Modal isOpen={isOpen} onClose={onClose} title="Ranking de Vendas">
             <div className="space-y-8 max-h-[70vh] overflow-y-auto custom-scrollbar pr-2">
+                {/* Metas */}
+                {(companyGoals.length > 0 || sellerGoals.length > 0) && (
+                    <div className="pb-8 border-b border-border">
+                        <h3 className="text-xl font-semibold text-primary mb-4">Metas de Vendas</h3>
+                        <div className="space-y-4">
+                            {companyGoals.map(({ company, progress }) => (
+                                <div key={company.id}>
+                                    <div className="flex justify-between items-center mb-1">
+                                        <p className="text-sm font-medium text-text truncate pr-2">{isSingleCompanyView ? 'Meta da Empresa' : company.name}</p>
+                                        <div className="flex items-center gap-2">
+                                            {progress.isFarBehind && <span className="px-2 py-1 text-xs font-bold rounded-full bg-red-800 text-red-300">Muito atrás</span>}
+                                            <p className="text-sm font-bold text-primary">{formatGoalPercent(progress.percent)}</p>
+                                        </div>
+                                    </div>
+                                    <GoalProgressBar progress={progress} />
+                                </div>
+                            ))}
+                            {sellerGoals.map(({ seller, progress }, index) => (
+                                <div key={seller.id} className="flex items-center gap-4 p-3 bg-secondary rounded-lg">
+                                    <span className="text-right font-semibold text-text-secondary w-10">{index + 1}º</span>
+                                    <img src={seller.photoUrl || 'https://via.placeholder.com/150'} alt={seller.name} className="w-10 h-10 rounded-full object-cover flex-shrink-0"/>
+                                    <div className="flex-1 overflow-hidden">
+                                        <div className="flex justify-between items-center mb-1">
+                                            <p className="font-bold text-text truncate pr-2">{seller.name}</p>
+                                            <p className="text-sm font-bold text-primary">{formatGoalPercent(progress.percent)}</p>
+                                        </div>
+                                        <GoalProgressBar progress={progress} />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Ranking por Empresa */}
                 {!isSingleCompanyView && (
                     <div>
@@ -103,7 +160,7 @@ const SalesRankingModal: React.FC<Props> = ({ isOpen, onClose, salesData }) => {
                                 <img src={seller.photoUrl || 'https://via.placeholder.com/150'} alt={seller.name} className="w-12 h-12 rounded-full object-cover flex-shrink-0"/>
                                 <div className="flex-1 overflow-hidden">
                                     <p className="font-bold text-text truncate">{seller.name}</p>
-                                    <p className="text-sm text-text-secondary truncate">{seller.companyName} / {seller.collaboratorCode}</p>
+                                    <p className="text-sm text-text-secondary truncate">{seller.companyName}{seller.collaboratorCode && ` / ${seller.collaboratorCode}`}</p>
                                 </div>
                                 <div className="flex items-center flex-shrink-0">
                                     <p className="text-lg font-bold text-primary">{seller.salesCount}</p>
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import Button from './Button';
+
+interface SignaturePadProps {
+  // A data URL while drawing, or the uploaded image URL once saved
+  value?: string;
+  onChange: (dataUrl: string) => void;
+}
+
+// Finger or mouse signature drawn on a canvas, reported as a PNG data URL
+// after each stroke.
+const SignaturePad: React.FC<SignaturePadProps> = ({ value, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // Scale the drawing surface to the displayed size so strokes follow the
+  // pointer, and redraw the signature the pad was opened with
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#000';
+    if (value) {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => context.drawImage(image, 0, 0, canvas.offsetWidth, canvas.offsetHeight);
+      image.src = value;
+    }
+  }, []);
+
+  const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointFrom(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointFrom(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        className="w-full h-40 bg-white rounded-md border border-border touch-none"
+      />
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-text-secondary">Assine no quadro acima.</span>
+        <Button type="button" variant="secondary" onClick={handleClear} className="py-1 px-2 text-sm">Limpar</Button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FullTestDrive, TestDriveOutcome, TestDriveStatus, Vehicle } from '../types';
+import {
+  cancelTestDrive,
+  checkInTestDrive,
+  checkOutTestDrive,
+  DEFAULT_TEST_DRIVE_MINUTES,
+  getTestDrivesByCompany,
+  isValidLicense,
+  markTestDriveNoShow,
+  scheduleTestDrive,
+  setTestDriveOutcome,
+  TEST_DRIVE_OUTCOME_LABELS,
+  TEST_DRIVE_STATUS_CLASSES,
+  TEST_DRIVE_STATUS_LABELS
+} from '../services/testDrives';
+import { useRealtimeRefetch } from '../hooks/useRealtimeRefetch';
+import Input from './Input';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TestDriveSchedulerProps {
+  eventId: string;
+  companyId: string;
+  vehicles: Vehicle[]; // Vehicles that can be offered for a test drive
+  staffId?: string;
+  collaboratorId?: string;
+  onCheckOut?: (testDrive: FullTestDrive) => void;
+}
+
+// YYYY-MM-DD in local time, as used by <input type="date">
+const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+const emptyForm = {
+  vehicleId: '',
+  time: '',
+  duration: String(DEFAULT_TEST_DRIVE_MINUTES),
+  prospectName: '',
+  prospectPhone: '',
+  prospectLicense: '',
+  consent: false,
+  note: '',
+};
+
+// Day agenda of a company's test drives: schedule a slot, check the car out and
+// back in, then record whether the prospect bought.
+const TestDriveScheduler: React.FC<TestDriveSchedulerProps> = ({ eventId, companyId, vehicles, staffId, collaboratorId, onCheckOut }) => {
+  const [testDrives, setTestDrives] = useState<FullTestDrive[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [day, setDay] = useState(() => toLocalDate(new Date()));
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setTestDrives(await getTestDrivesByCompany(companyId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao carregar os test drives.');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchData();
+  }, [fetchData]);
+
+  useRealtimeRefetch([{ table: 'test_drives', filter: `company_id=eq.${companyId}` }], fetchData);
+
+  const dayTestDrives = useMemo(
+    () => testDrives.filter(t => toLocalDate(new Date(t.startsAt)) === day),
+    [testDrives, day]
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setForm(prev => ({ ...prev, [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value }));
+  };
+
+  const handleOpenForm = () => {
+    setForm({ ...emptyForm, vehicleId: vehicles[0]?.id || '' });
+    setError(null);
+    setIsFormOpen(true);
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.consent) {
+      setError('O cliente precisa autorizar o uso dos dados para agendar o test drive.');
+      return;
+    }
+    if (!isValidLicense(form.prospectLicense)) {
+      setError('O número da CNH deve ter 11 dígitos.');
+      return;
+    }
+    const startsAt = new Date(`${day}T${form.time}`);
+    const endsAt = new Date(startsAt.getTime() + (Number(form.duration) || DEFAULT_TEST_DRIVE_MINUTES) * 60000);
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await scheduleTestDrive({
+        eventId,
+        companyId,
+        vehicleId: form.vehicleId,
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        prospectName: form.prospectName.trim(),
+        prospectPhone: form.prospectPhone.trim(),
+        prospectLicense: form.prospectLicense,
+        staffId,
+        collaboratorId,
+        note: form.note.trim(),
+      });
+      setIsFormOpen(false);
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao agendar o test drive.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const runAction = async (testDrive: FullTestDrive, action: () => Promise<unknown>) => {
+    setActingId(testDrive.id);
+    setError(null);
+    try {
+      await action();
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao atualizar o test drive.');
+    } finally {
+      setActingId(null);
+    }
+  };
+
+  const handleCheckOut = (testDrive: FullTestDrive) =>
+    runAction(testDrive, async () => {
+      await checkOutTestDrive(testDrive.id);
+      onCheckOut?.(testDrive);
+    });
+
+  const renderActions = (testDrive: FullTestDrive) => {
+    if (actingId === testDrive.id) return <LoadingSpinner />;
+    switch (testDrive.status) {
+      case TestDriveStatus.AGENDADO:
+        return (
+          <>
+            <Button className="py-1 px-2 text-xs" onClick={() => handleCheckOut(testDrive)}>Saída</Button>
+            <Button variant="secondary" className="py-1 px-2 text-xs" onClick={() => runAction(testDrive, () => markTestDriveNoShow(testDrive.id))}>Não veio</Button>
+            <Button variant="danger" className="py-1 px-2 text-xs" onClick={() => runAction(testDrive, () => cancelTestDrive(testDrive.id))}>Cancelar</Button>
+          </>
+        );
+      case TestDriveStatus.EM_ANDAMENTO:
+        return <Button className="py-1 px-2 text-xs" onClick={() => runAction(testDrive, () => checkInTestDrive(testDrive.id))}>Retorno</Button>;
+      case TestDriveStatus.CONCLUIDO:
+        return testDrive.outcome === TestDriveOutcome.PENDENTE ? (
+          <>
+            <Button className="py-1 px-2 text-xs" onClick={() => runAction(testDrive, () => setTestDriveOutcome(testDrive.id, TestDriveOutcome.CONVERTIDO))}>Virou venda</Button>
+            <Button variant="secondary" className="py-1 px-2 text-xs" onClick={() => runAction(testDrive, () => setTestDriveOutcome(testDrive.id, TestDriveOutcome.NAO_CONVERTIDO))}>Não converteu</Button>
+          </>
+        ) : (
+          <span className="text-sm font-semibold text-text-secondary">{TEST_DRIVE_OUTCOME_LABELS[testDrive.outcome]}</span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (isFormOpen) {
+    return (
+      <form onSubmit={handleSchedule}>
+        <div className="mb-4">
+          <label htmlFor="test-drive-vehicle" className="block text-sm font-medium mb-1 text-text">Veículo</label>
+          <select
+            id="test-drive-vehicle"
+            name="vehicleId"
+            value={form.vehicleId}
+            onChange={handleChange}
+            required
+            className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {vehicles.map(vehicle => (
+              <option key={vehicle.id} value={vehicle.id}>{vehicle.marca} {vehicle.model} ({vehicle.placa || 'N/D'})</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-x-4">
+          <Input id="test-drive-time" name="time" label={`Horário (${new Date(`${day}T00:00`).toLocaleDateString('pt-BR')})`} type="time" value={form.time} onChange={handleChange} required />
+          <Input id="test-drive-duration" name="duration" label="Duração (min)" type="number" min="5" step="5" value={form.duration} onChange={handleChange} required />
+        </div>
+        <label className="flex items-start gap-2 mb-4 cursor-pointer">
+          <input type="checkbox" name="consent" checked={form.consent} onChange={handleChange} className="mt-1 h-4 w-4" />
+          <span className="text-sm">O cliente autoriza o uso do nome, telefone e CNH para o agendamento e o retorno sobre este test drive.</span>
+        </label>
+        <Input id="test-drive-name" name="prospectName" label="Nome do Cliente" value={form.prospectName} onChange={handleChange} required disabled={!form.consent} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input id="test-drive-phone" name="prospectPhone" label="Telefone" type="tel" value={form.prospectPhone} onChange={handleChange} required disabled={!form.consent} />
+          <Input id="test-drive-license" name="prospectLicense" label="Nº da CNH" inputMode="numeric" value={form.prospectLicense} onChange={handleChange} required disabled={!form.consent} />
+        </div>
+        <Input id="test-drive-note" name="note" label="Observação (opcional)" value={form.note} onChange={handleChange} />
+        {error && <p className="text-red-500 text-sm text-center mb-2">{error}</p>}
+        <div className="flex justify-end gap-4 pt-2">
+          <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)} disabled={submitting}>Voltar</Button>
+          <Button type="submit" disabled={submitting || !form.vehicleId}>
+            {submitting ? <LoadingSpinner /> : 'Agendar'}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="flex-grow">
+          <Input id="test-drive-day" label="Dia" type="date" value={day} onChange={e => setDay(e.target.value)} />
+        </div>
+        <Button onClick={handleOpenForm} disabled={vehicles.length === 0} className="mb-4">Agendar Test Drive</Button>
+      </div>
+      {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+      {loading ? <LoadingSpinner /> : (
+        <div className="space-y-3">
+          {dayTestDrives.length > 0 ? dayTestDrives.map(testDrive => (
+            <div key={testDrive.id} className="p-3 bg-secondary rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <p className="font-bold text-text">
+                  {formatTime(testDrive.startsAt)}–{formatTime(testDrive.endsAt)} · {testDrive.vehicle ? `${testDrive.vehicle.marca} ${testDrive.vehicle.model}` : 'Veículo removido'}
+                </p>
+                <p className="text-sm text-text-secondary">{testDrive.prospectName} · {testDrive.prospectPhone}</p>
+                {testDrive.note && <p className="text-xs text-text-secondary">{testDrive.note}</p>}
+                <span className={`inline-block mt-1 px-2 py-1 text-xs font-bold rounded-full ${TEST_DRIVE_STATUS_CLASSES[testDrive.status]}`}>
+                  {TEST_DRIVE_STATUS_LABELS[testDrive.status]}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2 justify-end">{renderActions(testDrive)}</div>
+            </div>
+          )) : (
+            <p className="text-center text-text-secondary py-8">Nenhum test drive agendado para este dia.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TestDriveScheduler;
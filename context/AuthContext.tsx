@@ -1,6 +1,6 @@
 import React, { createContext, useState, useEffect, ReactNode, useContext, useCallback } from 'react';
-import { User, UserRole, Event } from '../types';
-import { apiLogin, apiLogout } from '../services/api';
+import { User, UserRole, AuthSession } from '../types';
+import { apiLogin, apiLogout, apiValidateSession } from '../services/api';
 import { useNavigate } from 'react-router-dom';
 
 interface AuthContextType {
@@ -15,32 +15,72 @@ interface AuthContextType {
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Only the organizer's selected event is kept locally; the user itself always
+// comes from a server-validated session.
+const ACTIVE_EVENT_KEY = 'activeEventId';
+
+const withActiveEvent = (session: AuthSession): AuthSession => {
+  const activeEventId = localStorage.getItem(ACTIVE_EVENT_KEY);
+  if (activeEventId && session.user.events?.some(e => e.id === activeEventId)) {
+    return { ...session, user: { ...session.user, eventId: activeEventId } };
+  }
+  return session;
+};
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [loading, setLoading] = useState(true);
+  const [, setExpiryTick] = useState(0);
   const navigate = useNavigate();
 
-  useEffect(() => {
+  const user = session?.user ?? null;
+  const isAuthenticated = !!session && new Date(session.expiresAt).getTime() > Date.now();
+
+  const revalidate = useCallback(async () => {
     try {
-        const storedUserRaw = localStorage.getItem('user');
-        if (storedUserRaw) {
-            setUser(JSON.parse(storedUserRaw));
-        }
+      const validSession = await apiValidateSession();
+      setSession(validSession ? withActiveEvent(validSession) : null);
     } catch (error) {
-        console.error("Failed to parse user from localStorage", error);
-        localStorage.removeItem('user');
-    } finally {
-        setLoading(false);
+      // The server could not be reached: the token is kept, and so is the
+      // session, until the server itself says it is no longer valid.
+      console.error("Failed to validate session", error);
     }
   }, []);
 
+  useEffect(() => {
+    // Sessions from older versions stored the raw user object; it is no longer trusted.
+    localStorage.removeItem('user');
+    revalidate().finally(() => setLoading(false));
+  }, [revalidate]);
+
+  // Re-check with the server when the tab regains focus so revoked sessions are dropped.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && session) {
+        revalidate();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [session, revalidate]);
+
+  // Force a re-render when the session expires so route guards redirect to login.
+  useEffect(() => {
+    if (!session) return;
+    const msUntilExpiry = new Date(session.expiresAt).getTime() - Date.now();
+    if (msUntilExpiry <= 0) return;
+    const timeout = setTimeout(() => setExpiryTick(tick => tick + 1), Math.min(msUntilExpiry, 2147483647));
+    return () => clearTimeout(timeout);
+  }, [session]);
+
 
   const login = useCallback(async (email: string, pass: string) => {
     setLoading(true);
     try {
-      const loggedInUser = await apiLogin(email, pass);
-      setUser(loggedInUser);
-      localStorage.setItem('user', JSON.stringify(loggedInUser));
+      const newSession = await apiLogin(email, pass);
+      const loggedInUser = newSession.user;
+      localStorage.removeItem(ACTIVE_EVENT_KEY);
+      setSession(newSession);
       
       if (loggedInUser.role === UserRole.ADMIN && loggedInUser.isMaster) {
         navigate('/admin/events');
@@ -64,39 +104,48 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const logout = useCallback(async () => {
     await apiLogout();
-    setUser(null);
-    localStorage.removeItem('user');
+    setSession(null);
+    localStorage.removeItem(ACTIVE_EVENT_KEY);
     sessionStorage.removeItem('checkinInfo');
     sessionStorage.removeItem('collaboratorCheckinInfo');
     navigate('/login');
   }, [navigate]);
 
-  const updateAuthUser = (updatedUser: User) => {
-    setUser(updatedUser);
-    localStorage.setItem('user', JSON.stringify(updatedUser));
-  };
+  // Updates the in-memory copy only (e.g. a new photo); role and master flags are
+  // re-read from the server on the next validation.
+  const updateAuthUser = useCallback((updatedUser: User) => {
+    setSession(currentSession => {
+        if (!currentSession) {
+            return currentSession;
+        }
+        if (updatedUser.eventId) {
+            localStorage.setItem(ACTIVE_EVENT_KEY, updatedUser.eventId);
+        }
+        return { ...currentSession, user: updatedUser };
+    });
+  }, []);
 
   const switchEvent = useCallback((eventId: string) => {
-    setUser(currentUser => {
-        if (!currentUser || currentUser.role !== UserRole.ORGANIZER) {
-            return currentUser;
+    setSession(currentSession => {
+        const currentUser = currentSession?.user;
+        if (!currentSession || !currentUser || currentUser.role !== UserRole.ORGANIZER) {
+            return currentSession;
         }
 
         const newEvent = currentUser.events?.find(e => e.id === eventId);
         if (!newEvent) {
-            return currentUser;
+            return currentSession;
         }
 
-        const updatedUser = { ...currentUser, eventId: eventId };
-        localStorage.setItem('user', JSON.stringify(updatedUser));
+        localStorage.setItem(ACTIVE_EVENT_KEY, eventId);
         navigate(`/admin/event/${eventId}/dashboard`);
-        return updatedUser;
+        return { ...currentSession, user: { ...currentUser, eventId: eventId } };
     });
   }, [navigate]);
 
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated: !!user, user, loading, login, logout, updateAuthUser, switchEvent }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, loading, login, logout, updateAuthUser, switchEvent }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subscribeToOfflineQueue, startOfflineSync, syncOfflineQueue, discardQueuedOperation } from '../services/offlineQueue';
+import { QueuedOperation } from '../types';
+
+// Keeps the offline queue syncing while the component is mounted and exposes its contents.
+export const useOfflineQueue = () => {
+  const [operations, setOperations] = useState<QueuedOperation[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => subscribeToOfflineQueue(setOperations), []);
+
+  useEffect(() => startOfflineSync(), []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const syncNow = useCallback(() => syncOfflineQueue(), []);
+  const discard = useCallback((id: number) => discardQueuedOperation(id), []);
+
+  return {
+    operations,
+    pendingCount: operations.filter(op => op.status === 'pending').length,
+    conflictCount: operations.filter(op => op.status === 'conflict').length,
+    isOnline,
+    syncNow,
+    discard,
+  };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToTable } from '../services/realtime';
+import { RealtimeTable } from '../types';
+
+export interface RealtimeSubscription {
+  table: RealtimeTable;
+  filter?: string;
+}
+
+// Changes often arrive in bursts (e.g. a sale writes a movement and an activity).
+const REFETCH_DEBOUNCE_MS = 250;
+
+// Calls `refetch` whenever one of the subscribed tables changes. Pass `null` to pause.
+export const useRealtimeRefetch = (subscriptions: RealtimeSubscription[] | null, refetch: () => void) => {
+  const refetchRef = useRef(refetch);
+  refetchRef.current = refetch;
+
+  // Subscriptions are usually inline literals; key on their content instead of identity.
+  const key = subscriptions ? subscriptions.map(s => `${s.table}:${s.filter || ''}`).join('|') : null;
+
+  useEffect(() => {
+    if (!subscriptions) return;
+
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefetch = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => refetchRef.current(), REFETCH_DEBOUNCE_MS);
+    };
+
+    const unsubscribers = subscriptions.map(({ table, filter }) => subscribeToTable(table, scheduleRefetch, filter));
+    return () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [key]);
+};
@@ -1,20 +1,25 @@
 
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { apiUnifiedCheckin } from '../services/api';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { apiUnifiedCheckin, storeStaffCheckinInfo, storeCollaboratorCheckinInfo } from '../services/api';
+import { normalizeCheckinCode, parseCheckinQr } from '../services/qrCodes';
 import Input from '../components/Input';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
+import QrScanner from '../components/QrScanner';
 import { triad3LogoFull } from '../assets/logo';
 
 const CheckinPage: React.FC = () => {
-  const [boothCode, setBoothCode] = useState('');
-  const [personalCode, setPersonalCode] = useState('');
+  // Posters and badges link here with ?booth= or ?code= (services/qrCodes.ts)
+  const [searchParams] = useSearchParams();
+  const [boothCode, setBoothCode] = useState(() => normalizeCheckinCode(searchParams.get('booth') || ''));
+  const [personalCode, setPersonalCode] = useState(() => normalizeCheckinCode(searchParams.get('code') || ''));
+  const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
 
-  const handleValidation = async () => {
+  const handleValidation = async (boothCode: string, personalCode: string) => {
     if (!boothCode || !personalCode) {
       setError('Ambos os códigos são obrigatórios.');
       return;
@@ -26,28 +31,11 @@ const CheckinPage: React.FC = () => {
 
       // FIX: Added 'in' operator as a type guard to help TypeScript correctly narrow the union type.
       if (result.type === 'staff' && 'staff' in result.data) {
-        const { staff, event, company } = result.data;
-        sessionStorage.setItem('checkinInfo', JSON.stringify({
-          boothCode: boothCode.toUpperCase(),
-          companyName: company.name,
-          companyId: company.id,
-          personalCode: personalCode.toUpperCase(),
-          staffName: staff.name,
-          staffPhotoUrl: staff.photoUrl,
-          eventId: event.id,
-          departmentId: staff.departmentId,
-          staffId: staff.id,
-        }));
+        storeStaffCheckinInfo(result.data);
         navigate(`/informes/${boothCode.toUpperCase()}`);
       // FIX: Added 'in' operator as a type guard to help TypeScript correctly narrow the union type.
       } else if (result.type === 'collaborator' && 'collaborator' in result.data) {
-        const { collaborator, company, event } = result.data;
-        sessionStorage.setItem('collaboratorCheckinInfo', JSON.stringify({
-          boothCode: boothCode.toUpperCase(),
-          company: company,
-          collaborator: collaborator,
-          eventId: event.id,
-        }));
+        storeCollaboratorCheckinInfo(result.data);
         navigate(`/collaborator/${boothCode.toUpperCase()}`);
       }
     } catch (err) {
@@ -57,6 +45,25 @@ const CheckinPage: React.FC = () => {
     }
   };
 
+  // Booth poster and badge can be scanned in either order; check-in starts once both are read.
+  const handleScan = (text: string) => {
+    if (loading) return;
+    const qr = parseCheckinQr(text);
+    if (!qr) {
+      setError('QR Code não reconhecido. Escaneie o cartaz do estande ou o seu crachá.');
+      return;
+    }
+    setError(null);
+    const nextBoothCode = qr.kind === 'booth' ? qr.code : boothCode;
+    const nextPersonalCode = qr.kind === 'badge' ? qr.code : personalCode;
+    setBoothCode(nextBoothCode);
+    setPersonalCode(nextPersonalCode);
+    if (nextBoothCode && nextPersonalCode) {
+      setIsScanning(false);
+      handleValidation(nextBoothCode, nextPersonalCode);
+    }
+  };
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen px-4">
       <div className="w-full max-w-md p-8 space-y-6 bg-card rounded-xl shadow-lg">
@@ -71,6 +78,15 @@ const CheckinPage: React.FC = () => {
         <p className="text-center text-text-secondary">
             Acesso da Equipe e Colaboradores
         </p>
+        {isScanning && (
+          <div className="space-y-2">
+            <QrScanner onScan={handleScan} />
+            <p className="text-center text-sm text-text-secondary">
+              {!boothCode ? 'Escaneie o QR Code do estande' : 'Estande lido. Agora escaneie o seu crachá'}
+              {!boothCode && personalCode && ' (crachá já lido)'}
+            </p>
+          </div>
+        )}
         <div className="space-y-4">
           <Input 
             id="booth-code"
@@ -85,9 +101,12 @@ const CheckinPage: React.FC = () => {
             onChange={(e) => setPersonalCode(e.target.value.toUpperCase().replace(/\s/g, ''))}
           />
           {error && <p className="text-red-500 text-center">{error}</p>}
-          <Button onClick={handleValidation} disabled={loading} className="w-full">
+          <Button onClick={() => handleValidation(boothCode, personalCode)} disabled={loading} className="w-full">
             {loading ? <LoadingSpinner /> : 'Entrar'}
           </Button>
+          <Button variant="secondary" onClick={() => { setError(null); setIsScanning(prev => !prev); }} disabled={loading} className="w-full">
+            {isScanning ? 'Digitar Códigos' : 'Escanear QR Code'}
+          </Button>
         </div>
       </div>
       <div className="mt-6 text-center">
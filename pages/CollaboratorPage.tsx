@@ -4,18 +4,32 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { 
     getVehiclesByCompany, 
-    updateVehicle,
     getEventSalesData,
     sendTelaoNotification,
     getDepartmentsByEvent,
     submitCompanyCall
 } from '../services/api';
-import { Vehicle, Collaborator, CompanySalesData, ParticipantCompany, Department } from '../types';
+import {
+    canTransitionVehicle,
+    getAllowedTransitions,
+    getStatusChangeResponsible,
+    getVehicleStatus,
+    getVehicleStatusHistory,
+    isVehicleSold,
+    transitionVehicle,
+    VEHICLE_STATUS_CLASSES,
+    VEHICLE_TRANSITION_LABELS
+} from '../services/vehicleLifecycle';
+import { getEventModules } from '../services/eventModules';
+import { getSalesTargetsByEvent } from '../services/salesTargets';
+import { Vehicle, VehicleStatus, VehicleStatusChange, Sale, Collaborator, CompanySalesData, ParticipantCompany, Department, EventModule, BadgeParserOptions, SalesTarget } from '../types';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
-import ConfirmationModal from '../components/ConfirmationModal';
+import SaleFormModal from '../components/SaleFormModal';
 import SalesRankingModal from '../components/SalesRankingModal';
+import TestDriveScheduler from '../components/TestDriveScheduler';
+import LeadManager from '../components/LeadManager';
 
 const CollaboratorPage: React.FC = () => {
   const { boothCode } = useParams<{ boothCode: string }>();
@@ -29,11 +43,25 @@ const CollaboratorPage: React.FC = () => {
   const [isTelaoModalOpen, setIsTelaoModalOpen] = useState(false);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
 
-  const [vehicleToUpdate, setVehicleToUpdate] = useState<Vehicle | null>(null);
-  const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
+  const [vehicleToSell, setVehicleToSell] = useState<Vehicle | null>(null);
   
+  // State for reservations, negotiations, invoicing and delivery
+  const [pendingTransition, setPendingTransition] = useState<{ vehicle: Vehicle; status: VehicleStatus } | null>(null);
+  const [reservedUntil, setReservedUntil] = useState('');
+  const [transitionNote, setTransitionNote] = useState('');
+  const [transitionSubmitting, setTransitionSubmitting] = useState(false);
+  const [transitionError, setTransitionError] = useState<string | null>(null);
+  const [historyVehicle, setHistoryVehicle] = useState<Vehicle | null>(null);
+  const [history, setHistory] = useState<VehicleStatusChange[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const [isTestDriveModalOpen, setIsTestDriveModalOpen] = useState(false);
+  const [isLeadsModalOpen, setIsLeadsModalOpen] = useState(false);
+  const [badgeOptions, setBadgeOptions] = useState<BadgeParserOptions | undefined>(undefined);
+
   const [isRankingModalOpen, setIsRankingModalOpen] = useState(false);
   const [salesData, setSalesData] = useState<CompanySalesData[]>([]);
+  const [salesTargets, setSalesTargets] = useState<SalesTarget[]>([]);
   const [rankingLoading, setRankingLoading] = useState(false);
   
   // State for Company Call
@@ -68,6 +96,14 @@ const CollaboratorPage: React.FC = () => {
           const vehiclesData = await getVehiclesByCompany(checkinInfo.company.id);
           setVehicles(vehiclesData);
 
+          // Badge scanning is optional; leads can still be typed in without it
+          getEventModules(checkinInfo.eventId)
+            .then(modules => {
+              const leadCapture = modules[EventModule.LEAD_CAPTURE];
+              setBadgeOptions(leadCapture.isEnabled ? leadCapture.options : undefined);
+            })
+            .catch(err => console.error('Failed to load event modules for collaborator', err));
+
           if(checkinInfo.company.canOpenCall) {
             const departmentsData = await getDepartmentsByEvent(checkinInfo.eventId);
             setDepartments(departmentsData);
@@ -91,9 +127,13 @@ const CollaboratorPage: React.FC = () => {
         if (checkinInfo?.eventId && checkinInfo.company.id) {
             setRankingLoading(true);
             try {
-                const data = await getEventSalesData(checkinInfo.eventId);
+                const [data, targetsData] = await Promise.all([
+                    getEventSalesData(checkinInfo.eventId),
+                    getSalesTargetsByEvent(checkinInfo.eventId),
+                ]);
                 const companySalesData = data.filter(d => d.id === checkinInfo.company.id);
                 setSalesData(companySalesData);
+                setSalesTargets(targetsData.filter(t => t.companyId === checkinInfo.company.id));
             } catch (e) {
                 console.error("Failed to fetch sales data for collaborator", e);
             } finally {
@@ -106,18 +146,29 @@ const CollaboratorPage: React.FC = () => {
 
   const soldVehicles = useMemo(() => {
     return vehicles
-      .filter(v => v.status === 'Vendido')
+      .filter(isVehicleSold)
       .sort((a, b) => {
-        const dateA = a.updatedAt ? new Date(a.updatedAt).getTime() : 0;
-        const dateB = b.updatedAt ? new Date(b.updatedAt).getTime() : 0;
+        const dateA = new Date(a.soldAt || a.updatedAt || 0).getTime();
+        const dateB = new Date(b.soldAt || b.updatedAt || 0).getTime();
         return dateB - dateA;
     });
   }, [vehicles]);
 
+  // Reserved or in negotiation vehicles can still be sold
   const availableVehicles = useMemo(() => {
-    return vehicles.filter(v => v.status === 'Disponível');
+    return vehicles.filter(v => canTransitionVehicle(v, VehicleStatus.VENDIDO));
   }, [vehicles]);
 
+  const refreshSales = async () => {
+    if (!checkinInfo) return;
+    const [updatedVehicles, updatedSalesData] = await Promise.all([
+        getVehiclesByCompany(checkinInfo.company.id),
+        getEventSalesData(checkinInfo.eventId)
+    ]);
+    setVehicles(updatedVehicles);
+    setSalesData(updatedSalesData.filter(d => d.id === checkinInfo.company.id));
+  };
+
   const handleOpenTelaoModal = () => {
     setIsTelaoModalOpen(true);
   };
@@ -127,64 +178,90 @@ const CollaboratorPage: React.FC = () => {
   };
   
   const handleMarkAsSold = (vehicle: Vehicle) => {
-    setVehicleToUpdate(vehicle);
-    setIsConfirmModalOpen(true);
+    setVehicleToSell(vehicle);
   };
 
-  const handleConfirmSold = async () => {
-    if (!vehicleToUpdate || !checkinInfo || !collaborator) return;
+  const handleSaleSaved = async (_sale: Sale, vehicle: Vehicle) => {
+    setVehicleToSell(null);
+    if (!checkinInfo || !collaborator) return;
     try {
-      const { updatedAt, ...vehicleData } = vehicleToUpdate;
-      const updatedVehicle = await updateVehicle({ 
-          ...vehicleData, 
-          status: 'Vendido',
-          soldByCollaboratorId: collaborator.id
-      });
-      
-      // Fire and forget webhook for bd-sheet
-      try {
-        const webhookPayload = {
-            'Veículo (Marca)': updatedVehicle.marca,
-            'Veículo (Modelo)': updatedVehicle.model,
-            'Placa': updatedVehicle.placa || 'N/D',
-            'Loja': checkinInfo.company.name,
-            'Vendedor': collaborator.name,
-            'Data da Venda': updatedVehicle.updatedAt 
-                ? new Date(updatedVehicle.updatedAt).toLocaleString('pt-BR') 
-                : new Date().toLocaleString('pt-BR'),
-        };
-        fetch('https://webhook.triad3.io/webhook/bd-sheet', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(webhookPayload)
-        }).catch(webhookError => {
-            console.error("Failed to send bd-sheet webhook (non-critical):", webhookError);
-        });
-      } catch (e) {
-        console.error("Error preparing bd-sheet webhook:", e);
-      }
-      
       await sendTelaoNotification(
           checkinInfo.eventId,
-          vehicleToUpdate,
+          vehicle,
           collaborator,
           checkinInfo.company
       );
-
-      const [updatedVehicles, updatedSalesData] = await Promise.all([
-          getVehiclesByCompany(checkinInfo.company.id),
-          getEventSalesData(checkinInfo.eventId)
-      ]);
-      setVehicles(updatedVehicles);
-      const companySalesData = updatedSalesData.filter(d => d.id === checkinInfo.company.id);
-      setSalesData(companySalesData);
+      await refreshSales();
     } catch (error) {
-      console.error("Failed to update vehicle status", error);
+      console.error("Failed to update sales after recording a sale", error);
+    }
+  };
+
+  const handleStartTransition = (vehicle: Vehicle, status: VehicleStatus) => {
+    setPendingTransition({ vehicle, status });
+    setReservedUntil('');
+    setTransitionNote('');
+    setTransitionError(null);
+  };
+
+  const handleConfirmTransition = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!pendingTransition) return;
+    setTransitionSubmitting(true);
+    setTransitionError(null);
+    try {
+      await transitionVehicle({
+          vehicleId: pendingTransition.vehicle.id,
+          status: pendingTransition.status,
+          reservedUntil: reservedUntil ? new Date(reservedUntil).toISOString() : undefined,
+          note: transitionNote,
+      });
+      await refreshSales();
+      setPendingTransition(null);
+    } catch (err) {
+      setTransitionError(err instanceof Error ? err.message : 'Falha ao alterar o status do veículo.');
     } finally {
-      setIsConfirmModalOpen(false);
-      setVehicleToUpdate(null);
+      setTransitionSubmitting(false);
     }
   };
+
+  const handleOpenHistory = async (vehicle: Vehicle) => {
+    setHistoryVehicle(vehicle);
+    setHistory([]);
+    setHistoryLoading(true);
+    try {
+      setHistory(await getVehicleStatusHistory(vehicle.id));
+    } catch (err) {
+      console.error("Failed to fetch vehicle history", err);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  // Status badge plus the buttons for the moves other than the sale itself,
+  // which goes through the telão flow
+  const renderDealActions = (vehicle: Vehicle) => {
+    const status = getVehicleStatus(vehicle);
+    return (
+      <div className="flex flex-wrap justify-end items-center gap-2">
+        <span className={`px-2 py-1 text-xs font-bold rounded-full ${VEHICLE_STATUS_CLASSES[status]}`}>
+          {status}
+          {status === VehicleStatus.RESERVADO && vehicle.reservedUntil && ` até ${new Date(vehicle.reservedUntil).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}`}
+        </span>
+        {getAllowedTransitions(vehicle).filter(s => s !== VehicleStatus.VENDIDO).map(s => (
+          <Button
+            key={s}
+            variant={s === VehicleStatus.CANCELADO ? 'danger' : 'secondary'}
+            onClick={() => handleStartTransition(vehicle, s)}
+            className="py-1 px-2 text-sm"
+          >
+            {VEHICLE_TRANSITION_LABELS[s]}
+          </Button>
+        ))}
+        <Button variant="secondary" onClick={() => handleOpenHistory(vehicle)} className="py-1 px-2 text-sm">Histórico</Button>
+      </div>
+    );
+  };
   
   const handleOpenCompanyCallModal = () => {
     setObservation('');
@@ -244,6 +321,12 @@ const CollaboratorPage: React.FC = () => {
                 <Button onClick={handleOpenTelaoModal} className="w-full text-lg py-3">
                     Solicitar Telão
                 </Button>
+                <Button onClick={() => setIsLeadsModalOpen(true)} className="w-full text-lg py-3">
+                    Leads
+                </Button>
+                <Button onClick={() => setIsTestDriveModalOpen(true)} className="w-full text-lg py-3">
+                    Test Drives
+                </Button>
                 <Button onClick={handleOpenRankingModal} className="w-full text-lg py-3">
                     Ranking de Vendas
                 </Button>
@@ -255,29 +338,60 @@ const CollaboratorPage: React.FC = () => {
             </div>
         </div>
 
+        <div className="mb-8">
+            <h2 className="text-2xl font-bold mb-4">Estoque e Negociações</h2>
+            <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-2">
+                {availableVehicles.length > 0 ? (
+                    availableVehicles.map(vehicle => (
+                        <div key={vehicle.id} className="p-4 bg-card rounded-lg flex flex-col sm:flex-row sm:items-center gap-4">
+                            <div className="flex items-center gap-4 flex-grow">
+                                <img src={vehicle.photoUrl} alt={vehicle.marca} className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />
+                                <div>
+                                    <p className="font-bold text-text">{vehicle.marca}</p>
+                                    <p className="text-sm text-text-secondary">{vehicle.model}</p>
+                                    <p className="text-sm text-text-secondary">Placa: {vehicle.placa || 'N/D'}</p>
+                                </div>
+                            </div>
+                            {renderDealActions(vehicle)}
+                        </div>
+                    ))
+                ) : (
+                    <div className="text-center py-8 bg-card rounded-lg">
+                        <p className="text-text-secondary">Nenhum veículo disponível no estoque.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+
         <div>
             <h2 className="text-2xl font-bold mb-4">Histórico de Vendas</h2>
             <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-2">
                 {soldVehicles.length > 0 ? (
-                    soldVehicles.map(vehicle => (
-                        <div key={vehicle.id} className="p-4 bg-card rounded-lg flex items-center gap-4">
-                            <img src={vehicle.photoUrl} alt={vehicle.marca} className="w-20 h-20 rounded-lg object-cover flex-shrink-0" />
-                            <div className="flex-grow">
-                                <p className="font-bold text-text">{vehicle.marca}</p>
-                                <p className="text-sm text-text-secondary">{vehicle.model}</p>
-                                <p className="text-sm text-text-secondary">Placa: {vehicle.placa || 'N/D'}</p>
-                            </div>
-                            <div className="text-right flex-shrink-0">
-                                <p className="text-sm font-semibold text-primary">Vendido em:</p>
-                                <p className="text-sm text-text-secondary">
-                                    {vehicle.updatedAt ? new Date(vehicle.updatedAt).toLocaleDateString('pt-BR') : 'Data indisponível'}
-                                </p>
-                                <p className="text-xs text-text-secondary">
-                                    {vehicle.updatedAt ? new Date(vehicle.updatedAt).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : ''}
-                                </p>
+                    soldVehicles.map(vehicle => {
+                        const soldAt = vehicle.soldAt || vehicle.updatedAt;
+                        return (
+                        <div key={vehicle.id} className="p-4 bg-card rounded-lg space-y-3">
+                            <div className="flex items-center gap-4">
+                                <img src={vehicle.photoUrl} alt={vehicle.marca} className="w-20 h-20 rounded-lg object-cover flex-shrink-0" />
+                                <div className="flex-grow">
+                                    <p className="font-bold text-text">{vehicle.marca}</p>
+                                    <p className="text-sm text-text-secondary">{vehicle.model}</p>
+                                    <p className="text-sm text-text-secondary">Placa: {vehicle.placa || 'N/D'}</p>
+                                </div>
+                                <div className="text-right flex-shrink-0">
+                                    <p className="text-sm font-semibold text-primary">Vendido em:</p>
+                                    <p className="text-sm text-text-secondary">
+                                        {soldAt ? new Date(soldAt).toLocaleDateString('pt-BR') : 'Data indisponível'}
+                                    </p>
+                                    <p className="text-xs text-text-secondary">
+                                        {soldAt ? new Date(soldAt).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' }) : ''}
+                                    </p>
+                                </div>
                             </div>
+                            {renderDealActions(vehicle)}
                         </div>
-                    ))
+                        );
+                    })
                 ) : (
                     <div className="text-center py-8 bg-card rounded-lg">
                         <p className="text-text-secondary">Nenhum veículo vendido ainda.</p>
@@ -298,6 +412,11 @@ const CollaboratorPage: React.FC = () => {
                                         <p className="font-bold text-text">{vehicle.marca}</p>
                                         <p className="text-sm text-text-secondary">{vehicle.model}</p>
                                         <p className="text-sm text-text-secondary">Placa: {vehicle.placa || 'N/D'}</p>
+                                        {getVehicleStatus(vehicle) !== VehicleStatus.DISPONIVEL && (
+                                            <span className={`inline-block mt-1 px-2 py-1 text-xs font-bold rounded-full ${VEHICLE_STATUS_CLASSES[getVehicleStatus(vehicle)]}`}>
+                                                {getVehicleStatus(vehicle)}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                                 <Button
@@ -315,11 +434,40 @@ const CollaboratorPage: React.FC = () => {
             </div>
         </Modal>
         
+        <Modal isOpen={isTestDriveModalOpen} onClose={() => setIsTestDriveModalOpen(false)} title="Agenda de Test Drives">
+            <div className="max-h-[70vh] overflow-y-auto">
+                {checkinInfo && isTestDriveModalOpen && (
+                    <TestDriveScheduler
+                        eventId={checkinInfo.eventId}
+                        companyId={checkinInfo.company.id}
+                        vehicles={availableVehicles}
+                        collaboratorId={collaborator.id}
+                    />
+                )}
+            </div>
+        </Modal>
+
+        <Modal isOpen={isLeadsModalOpen} onClose={() => setIsLeadsModalOpen(false)} title="Leads do Estande">
+            <div className="max-h-[70vh] overflow-y-auto">
+                {checkinInfo && isLeadsModalOpen && (
+                    <LeadManager
+                        eventId={checkinInfo.eventId}
+                        companyId={checkinInfo.company.id}
+                        companyName={checkinInfo.company.name}
+                        collaboratorId={collaborator.id}
+                        vehicles={vehicles}
+                        badgeOptions={badgeOptions}
+                    />
+                )}
+            </div>
+        </Modal>
+
         {rankingLoading ? <LoadingSpinner /> : (
             <SalesRankingModal 
                 isOpen={isRankingModalOpen}
                 onClose={() => setIsRankingModalOpen(false)}
                 salesData={salesData}
+                targets={salesTargets}
             />
         )}
         
@@ -370,14 +518,77 @@ const CollaboratorPage: React.FC = () => {
             )}
         </Modal>
 
-        <ConfirmationModal
-            isOpen={isConfirmModalOpen}
-            onClose={() => setIsConfirmModalOpen(false)}
-            onConfirm={handleConfirmSold}
-            title="Confirmar Venda"
-            message={`Você confirma a venda do veículo "${vehicleToUpdate?.marca} - ${vehicleToUpdate?.model}"? Esta ação não pode ser desfeita.`}
-            confirmText="Sim, confirmo"
+        <SaleFormModal
+            vehicle={vehicleToSell}
+            collaboratorId={collaborator.id}
+            onClose={() => setVehicleToSell(null)}
+            onSaved={handleSaleSaved}
         />
+
+        <Modal
+            isOpen={!!pendingTransition}
+            onClose={() => setPendingTransition(null)}
+            title={pendingTransition ? `${VEHICLE_TRANSITION_LABELS[pendingTransition.status]}: ${pendingTransition.vehicle.marca} - ${pendingTransition.vehicle.model}` : ''}
+        >
+            {pendingTransition && (
+                <form onSubmit={handleConfirmTransition} className="space-y-4">
+                    {pendingTransition.status === VehicleStatus.CANCELADO && (
+                        <p className="text-text">O veículo volta ao estoque como Disponível e, se já estava vendido, deixa de contar no ranking.</p>
+                    )}
+                    {pendingTransition.status === VehicleStatus.RESERVADO && (
+                        <div>
+                            <label htmlFor="reserved-until" className="block text-sm font-medium mb-1 text-text">Reservado até</label>
+                            <input
+                                id="reserved-until"
+                                type="datetime-local"
+                                value={reservedUntil}
+                                onChange={(e) => setReservedUntil(e.target.value)}
+                                className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                                required
+                            />
+                            <p className="text-xs text-text-secondary mt-1">Depois deste horário o veículo volta a ficar disponível.</p>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="transition-note" className="block text-sm font-medium mb-1 text-text">Observação (opcional)</label>
+                        <textarea
+                            id="transition-note"
+                            value={transitionNote}
+                            onChange={(e) => setTransitionNote(e.target.value)}
+                            rows={3}
+                            className="w-full px-3 py-2 border border-border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                    </div>
+                    {transitionError && <p className="text-red-500 text-sm text-center">{transitionError}</p>}
+                    <div className="flex justify-end gap-4 pt-4">
+                        <Button type="button" variant="secondary" onClick={() => setPendingTransition(null)} disabled={transitionSubmitting}>Voltar</Button>
+                        <Button type="submit" variant={pendingTransition.status === VehicleStatus.CANCELADO ? 'danger' : 'primary'} disabled={transitionSubmitting}>
+                            {transitionSubmitting ? <LoadingSpinner /> : 'Confirmar'}
+                        </Button>
+                    </div>
+                </form>
+            )}
+        </Modal>
+
+        <Modal isOpen={!!historyVehicle} onClose={() => setHistoryVehicle(null)} title={`Histórico: ${historyVehicle?.marca} - ${historyVehicle?.model}`}>
+            {historyLoading ? <LoadingSpinner /> : (
+                <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                    {history.length > 0 ? history.map(change => (
+                        <div key={change.id} className="p-3 bg-secondary rounded-lg">
+                            <div className="flex justify-between items-center gap-2">
+                                <span className={`px-2 py-1 text-xs font-bold rounded-full ${VEHICLE_STATUS_CLASSES[change.toStatus]}`}>{change.toStatus}</span>
+                                <span className="text-xs text-text-secondary">{new Date(change.createdAt).toLocaleString('pt-BR')}</span>
+                            </div>
+                            <p className="text-sm text-text-secondary mt-2">De {change.fromStatus} · por {getStatusChangeResponsible(change)}</p>
+                            {change.reservedUntil && <p className="text-sm text-text-secondary">Reservado até {new Date(change.reservedUntil).toLocaleString('pt-BR')}</p>}
+                            {change.note && <p className="text-sm mt-1">{change.note}</p>}
+                        </div>
+                    )) : (
+                        <p className="text-center text-text-secondary py-4">Nenhuma mudança de status registrada.</p>
+                    )}
+                </div>
+            )}
+        </Modal>
     </div>
   );
 };
@@ -6,12 +6,13 @@ import {
     getReportButtonsForBooth, 
     submitReport, 
     validateCheckin, 
-    getButtonConfigs, 
+    storeStaffCheckinInfo,
+    apiEndBoothSession,
+    getButtonConfigsByEvent, 
     submitSalesCheckin, 
     getDepartmentsByEvent, 
     getStaffByEvent, 
     getPendingTasksForStaff, 
-    apiCompleteTaskActivity, 
     getReportsByEvent, 
     getParticipantCompaniesByEvent, 
     getStaffActivity,
@@ -21,7 +22,6 @@ import {
     deleteVehicle,
     uploadImage,
     apiBulkAddVehicles,
-    addStockMovement,
     getStockMovementsByCompany,
     getPendingCompanyCallsForStaff,
     resolveCompanyCall,
@@ -31,12 +31,45 @@ import {
     sendTelaoNotification,
     getDetailedSalesByEvent
 } from '../services/api';
-import { ReportButtonConfig, ReportType, Department, Staff, AssignedTask, ReportSubmission, ParticipantCompany, StaffActivity, Vehicle, StockMovement, CompanyCall, TelaoRequest, Collaborator } from '../types';
+import { notify } from '../services/notifications';
+import { runOrQueue } from '../services/offlineQueue';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { useRealtimeRefetch } from '../hooks/useRealtimeRefetch';
+import { getEventModules, canUseModule, EventModulesMap } from '../services/eventModules';
+import { getButtonForm, summarizeAnswers } from '../services/reportForms';
+import { canTransitionVehicle } from '../services/vehicleLifecycle';
+import { formatCurrency, getSaleNetValue, PAYMENT_METHOD_LABELS } from '../services/sales';
+import { getVisitPlansByEvent, findVisitPlanForStaff, getPlannedVisits, getNextPlannedVisit, isButtonVisibleTo, toEventDay } from '../services/visitPlans';
+import { ReportButtonConfig, ReportType, Department, Staff, AssignedTask, ReportSubmission, ParticipantCompany, StaffActivity, Vehicle, VehicleStatus, StockMovement, CompanyCall, TelaoRequest, Collaborator, NotificationChannel, QueuedOperation, TaskPriority, EventModule, VisitPlan, PlannedVisitStatus, ReportAnswer, Sale, FullTestDrive } from '../types';
 import LoadingSpinner from '../components/LoadingSpinner';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
 import Input from '../components/Input';
 import ConfirmationModal from '../components/ConfirmationModal';
+import ReportFormWizard from '../components/ReportFormWizard';
+import SaleFormModal from '../components/SaleFormModal';
+import TestDriveScheduler from '../components/TestDriveScheduler';
+
+// Synthetic button used to reuse the report modal for the "Abrir Chamado" module
+const NOTIFY_CALL_BUTTON_ID = 'notify-call';
+
+const describeQueuedOperation = ({ operation }: QueuedOperation): string => {
+    switch (operation.kind) {
+        case 'report':
+            return `Informe '${operation.report.reportLabel}' - ${operation.report.boothCode}`;
+        case 'taskCompletion':
+            return `Tarefa concluída: ${operation.reportDetails.actionLabel} - ${operation.reportDetails.boothCode}`;
+        case 'stockMovement':
+            return `${operation.type === 'Teste Drive' ? 'Test Drive' : operation.type} - ${operation.vehicleLabel || operation.vehicleId}`;
+    }
+};
+
+const visitStatusClasses: Record<PlannedVisitStatus, string> = {
+    [PlannedVisitStatus.PENDENTE]: 'bg-secondary text-text',
+    [PlannedVisitStatus.CONCLUIDA]: 'bg-green-800 text-green-300',
+    [PlannedVisitStatus.PULADA]: 'bg-yellow-800 text-yellow-200',
+    [PlannedVisitStatus.ATRASADA]: 'bg-red-800 text-red-300',
+};
 
 const MedalIcon: React.FC<{ position: number }> = ({ position }) => {
     const medals: { [key: number]: string } = {
@@ -64,7 +97,7 @@ const emptyVehicle: Omit<Vehicle, 'id' | 'createdAt'> = {
   placa: '',
   photoUrl: DEFAULT_VEHICLE_PHOTO,
   companyId: '',
-  status: 'Disponível'
+  status: VehicleStatus.DISPONIVEL
 };
 
 interface DetailedSale {
@@ -81,7 +114,6 @@ interface DetailedSale {
     id: string;
     name: string;
     photoUrl?: string;
-    collaboratorCode: string;
   } | null;
 }
 
@@ -99,11 +131,9 @@ const InformesPage: React.FC = () => {
   // State for report submission modal
   const [selectedButton, setSelectedButton] = useState<ReportButtonConfig | null>(null);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
-  const [primaryResponse, setPrimaryResponse] = useState('');
-  const [checklistSelection, setChecklistSelection] = useState<string[]>([]);
-  const [followUpResponse, setFollowUpResponse] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [submissionSuccess, setSubmissionSuccess] = useState<boolean | null>(null);
+  const [submissionQueued, setSubmissionQueued] = useState(false);
   const [respondedButtonIds, setRespondedButtonIds] = useState<string[]>([]);
 
   // State for booth switching modal
@@ -121,9 +151,10 @@ const InformesPage: React.FC = () => {
   const [salesDataLoading, setSalesDataLoading] = useState(false);
   const [salesVehicleSearch, setSalesVehicleSearch] = useState('');
   const [salesSubmitting, setSalesSubmitting] = useState(false);
+  const [saleFormVehicle, setSaleFormVehicle] = useState<Vehicle | null>(null);
   const [salesSubmitStatus, setSalesSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   // FIX: Declare state to store staff IDs with permission for sales check-in.
-  const [salesCheckinStaffIds, setSalesCheckinStaffIds] = useState<string[]>([]);
+  const [eventModules, setEventModules] = useState<EventModulesMap | null>(null);
 
   // State for Notification Call
   const [isNotificationModalOpen, setIsNotificationModalOpen] = useState(false);
@@ -132,10 +163,9 @@ const InformesPage: React.FC = () => {
   const [selectedNotificationStaff, setSelectedNotificationStaff] = useState<Staff | null>(null);
   const [notificationReason, setNotificationReason] = useState('');
   // FIX: Declare state to store staff IDs with permission for notify calls.
-  const [notifyCallStaffIds, setNotifyCallStaffIds] = useState<string[]>([]);
 
   // State for Assigned Tasks
-  const [pendingTasks, setPendingTasks] = useState<AssignedTask[]>([]);
+  const [assignedTasks, setAssignedTasks] = useState<AssignedTask[]>([]);
   const [isTasksModalOpen, setIsTasksModalOpen] = useState(false);
   const [taskCompleting, setTaskCompleting] = useState<string | null>(null);
   
@@ -146,6 +176,7 @@ const InformesPage: React.FC = () => {
   const [allStaffActivities, setAllStaffActivities] = useState<Record<string, StaffActivity[]>>({});
   const [allEventReports, setAllEventReports] = useState<ReportSubmission[]>([]);
   const [allEventCompanies, setAllEventCompanies] = useState<ParticipantCompany[]>([]);
+  const [visitPlans, setVisitPlans] = useState<VisitPlan[]>([]);
   const [staffActivities, setStaffActivities] = useState<StaffActivity[]>([]);
   
   // State for Vehicle Stock Modal
@@ -167,12 +198,22 @@ const InformesPage: React.FC = () => {
   const [importSuccessMessage, setImportSuccessMessage] = useState<string | null>(null);
 
   // State for Stock Control
-  const [stockControlStaffIds, setStockControlStaffIds] = useState<string[]>([]);
   const [isStockModalOpen, setIsStockModalOpen] = useState(false);
   const [stockView, setStockView] = useState<'menu' | 'venda' | 'teste_drive'>('menu');
   const [stockSubmitting, setStockSubmitting] = useState<string | null>(null); // vehicle.id
   const [stockSubmitStatus, setStockSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
-  const [lastSubmittedVehicle, setLastSubmittedVehicle] = useState<{id: string, type: 'Venda' | 'Teste Drive'} | null>(null);
+  const [lastSubmittedVehicle, setLastSubmittedVehicle] = useState<{id: string, type: 'Venda' | 'Teste Drive', queued: boolean} | null>(null);
+
+  // Offline queue for reports, task completions and stock movements
+  const { operations: queuedOperations, pendingCount: pendingSyncCount, conflictCount: syncConflictCount, isOnline, syncNow, discard: discardQueuedOperation } = useOfflineQueue();
+  const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+  const [operationToDiscard, setOperationToDiscard] = useState<QueuedOperation | null>(null);
+
+  // Completions waiting in the offline queue stay hidden even if a refetch brings them back
+  const pendingTasks = useMemo(() => {
+    const queuedTaskIds = new Set(queuedOperations.map(({ operation }) => operation.kind === 'taskCompletion' ? operation.taskId : null));
+    return assignedTasks.filter(task => !queuedTaskIds.has(task.id));
+  }, [assignedTasks, queuedOperations]);
   const [stockSearchTerm, setStockSearchTerm] = useState('');
 
   // State for Company Calls
@@ -202,10 +243,17 @@ const InformesPage: React.FC = () => {
     const [soldVehiclesLoading, setSoldVehiclesLoading] = useState(false);
     const [soldVehiclesFilter, setSoldVehiclesFilter] = useState<'my_booth' | 'all_booths'>('my_booth');
 
-  const hasSalesPermission = useMemo(() => {
-    if (!checkinInfo?.staffId) return false;
-    return salesCheckinStaffIds.includes(checkinInfo.staffId);
-  }, [checkinInfo, salesCheckinStaffIds]);
+  const hasSalesPermission = useMemo(() =>
+    !!eventModules && canUseModule(eventModules[EventModule.SALES_CHECKIN], checkinInfo?.staffId, checkinInfo?.departmentId),
+  [checkinInfo, eventModules]);
+
+  const hasNotifyCallPermission = useMemo(() =>
+    !!eventModules && canUseModule(eventModules[EventModule.NOTIFY_CALL], checkinInfo?.staffId, checkinInfo?.departmentId),
+  [checkinInfo, eventModules]);
+
+  const hasStockControlPermission = useMemo(() =>
+    !!eventModules && canUseModule(eventModules[EventModule.STOCK_CONTROL], checkinInfo?.staffId, checkinInfo?.departmentId),
+  [checkinInfo, eventModules]);
 
   useEffect(() => {
     let eventIdForFetch: string | null = null;
@@ -240,20 +288,27 @@ const InformesPage: React.FC = () => {
       if (!boothCode || !eventIdForFetch || !staffIdForFetch) return;
       try {
         setLoading(true);
-        const [companyButtons, allSystemButtons, depts, staff, tasks, reports, companies] = await Promise.all([
+        const [companyButtons, allSystemButtons, modules, depts, staff, tasks, reports, companies, plans] = await Promise.all([
             getReportButtonsForBooth(boothCode),
-            getButtonConfigs(),
+            getButtonConfigsByEvent(eventIdForFetch),
+            getEventModules(eventIdForFetch),
             getDepartmentsByEvent(eventIdForFetch),
             getStaffByEvent(eventIdForFetch),
             getPendingTasksForStaff(staffIdForFetch, eventIdForFetch),
             getReportsByEvent(eventIdForFetch),
             getParticipantCompaniesByEvent(eventIdForFetch),
+            // A missing route must not keep the staff member from working the booth
+            getVisitPlansByEvent(eventIdForFetch).catch(err => {
+                console.error("Failed to fetch visit plans", err);
+                return [] as VisitPlan[];
+            }),
         ]);
-        setPendingTasks(tasks);
+        setAssignedTasks(tasks);
         setDepartments(depts);
         setAllStaff(staff);
         setAllEventReports(reports);
         setAllEventCompanies(companies);
+        setVisitPlans(plans);
 
         if (staff.length > 0) {
             const activityPromises = staff.map(s => getStaffActivity(s.id, eventIdForFetch!));
@@ -275,14 +330,7 @@ const InformesPage: React.FC = () => {
             }
         });
 
-        const salesConfigs = allSystemButtons.filter(b => b.label === '__SALES_CHECKIN_CONFIG__');
-        setSalesCheckinStaffIds(salesConfigs.map(c => c.staffId).filter((id): id is string => !!id));
-
-        const notifyCallConfigs = allSystemButtons.filter(b => b.label === '__NOTIFY_CALL_CONFIG__' && b.type === ReportType.NOTIFY_CALL);
-        setNotifyCallStaffIds(notifyCallConfigs.map(c => c.staffId).filter((id): id is string => !!id));
-        
-        const stockControlConfigs = allSystemButtons.filter(b => b.label === '__STOCK_CONTROL_CONFIG__');
-        setStockControlStaffIds(stockControlConfigs.map(c => c.staffId).filter((id): id is string => !!id));
+        setEventModules(modules);
 
         setAllButtons(Array.from(buttonsMap.values()));
       } catch (err) {
@@ -294,56 +342,113 @@ const InformesPage: React.FC = () => {
     fetchInitialData();
   }, [boothCode, navigate]);
 
-  useEffect(() => {
-    const fetchCalls = async () => {
-        if (checkinInfo?.eventId && checkinInfo?.departmentId) {
-            try {
-                const calls = await getPendingCompanyCallsForStaff(checkinInfo.eventId, checkinInfo.departmentId);
-                setPendingCompanyCalls(calls);
-            } catch (e) {
-                console.error("Failed to fetch pending calls", e);
-            }
+  const fetchPendingTasks = useCallback(async () => {
+    if (checkinInfo?.staffId && checkinInfo?.eventId) {
+        const tasks = await getPendingTasksForStaff(checkinInfo.staffId, checkinInfo.eventId);
+        setAssignedTasks(tasks);
+    }
+  }, [checkinInfo]);
+
+  // New, reassigned and cancelled tasks show up without reloading the page. Filtering on
+  // staff_id would miss tasks reassigned away from this staff member, so listen per event.
+  useRealtimeRefetch(
+    checkinInfo?.staffId ? [{ table: 'tasks', filter: `event_id=eq.${checkinInfo.eventId}` }] : null,
+    fetchPendingTasks
+  );
+
+  const fetchCalls = useCallback(async () => {
+    if (checkinInfo?.eventId && checkinInfo?.departmentId) {
+        try {
+            const calls = await getPendingCompanyCallsForStaff(checkinInfo.eventId, checkinInfo.departmentId);
+            setPendingCompanyCalls(calls);
+        } catch (e) {
+            console.error("Failed to fetch pending calls", e);
         }
     }
+  }, [checkinInfo]);
+
+  useEffect(() => {
     fetchCalls(); // Initial fetch
-    const intervalId = setInterval(fetchCalls, 15000); // Poll every 15 seconds
+  }, [fetchCalls]);
+
+  // New and resolved calls are pushed as they happen
+  useRealtimeRefetch(
+    checkinInfo?.departmentId ? [{ table: 'company_calls', filter: `department_id=eq.${checkinInfo.departmentId}` }] : null,
+    fetchCalls
+  );
 
-    return () => clearInterval(intervalId); // Cleanup interval on component unmount
+  const fetchTelaoRequests = useCallback(async () => {
+    if (checkinInfo?.eventId) {
+        try {
+            const requests = await getPendingTelaoRequestsForEvent(checkinInfo.eventId);
+            setPendingTelaoRequests(requests);
+        } catch (e) {
+            console.error("Failed to fetch pending telão requests", e);
+        }
+    }
   }, [checkinInfo]);
-  
+
   useEffect(() => {
     if (!hasSalesPermission) {
         setPendingTelaoRequests([]);
         return;
     };
-
-    const fetchTelaoRequests = async () => {
-        if (checkinInfo?.eventId) {
-            try {
-                const requests = await getPendingTelaoRequestsForEvent(checkinInfo.eventId);
-                setPendingTelaoRequests(requests);
-            } catch (e) {
-                console.error("Failed to fetch pending telão requests", e);
-            }
-        }
-    }
     fetchTelaoRequests();
-    const intervalId = setInterval(fetchTelaoRequests, 15000);
+  }, [fetchTelaoRequests, hasSalesPermission]);
 
-    return () => clearInterval(intervalId);
-  }, [checkinInfo, hasSalesPermission]);
+  useRealtimeRefetch(
+    hasSalesPermission && checkinInfo?.eventId ? [{ table: 'telao_requests', filter: `event_id=eq.${checkinInfo.eventId}` }] : null,
+    fetchTelaoRequests
+  );
 
   const visibleButtons = useMemo(() => {
     if (!checkinInfo || !checkinInfo.staffId) return [];
     
     return allButtons.filter(button => 
-        button.label !== '__SALES_CHECKIN_CONFIG__' &&
-        button.label !== '__NOTIFY_CALL_CONFIG__' &&
-        !button.label.startsWith('__') && // Hide all internal config buttons
         !respondedButtonIds.includes(button.id) &&
-        (button.staffId === checkinInfo.staffId || (!button.staffId && (!button.departmentId || button.departmentId === checkinInfo.departmentId)))
+        isButtonVisibleTo(button, checkinInfo.staffId, checkinInfo.departmentId)
     );
   }, [allButtons, checkinInfo, respondedButtonIds]);
+
+  const fetchVisitPlans = useCallback(async () => {
+    if (!checkinInfo?.eventId) return;
+    try {
+        setVisitPlans(await getVisitPlansByEvent(checkinInfo.eventId));
+    } catch (e) {
+        console.error("Failed to fetch visit plans", e);
+    }
+  }, [checkinInfo]);
+
+  // Routes edited by an admin during the day show up right away
+  useRealtimeRefetch(
+    checkinInfo?.eventId ? [{ table: 'visit_plans', filter: `event_id=eq.${checkinInfo.eventId}` }] : null,
+    fetchVisitPlans
+  );
+
+  // Today's route; answers given here since check-in count even before they sync
+  const plannedVisits = useMemo(() => {
+    if (!checkinInfo?.staffId || !boothCode) return [];
+    const plan = findVisitPlanForStaff(visitPlans, toEventDay(), checkinInfo.staffId, checkinInfo.departmentId);
+    if (!plan) return [];
+    return getPlannedVisits({
+        plan,
+        companies: allEventCompanies,
+        eventButtons: allButtons,
+        reports: allEventReports,
+        staff: { id: checkinInfo.staffId, name: checkinInfo.staffName, departmentId: checkinInfo.departmentId },
+        respondedAtBooth: { boothCode: boothCode.toUpperCase(), buttonIds: respondedButtonIds },
+    });
+  }, [visitPlans, checkinInfo, boothCode, allEventCompanies, allButtons, allEventReports, respondedButtonIds]);
+
+  const nextPlannedVisit = useMemo(() =>
+    getNextPlannedVisit(plannedVisits.filter(visit => visit.company.boothCode !== boothCode?.toUpperCase())),
+  [plannedVisits, boothCode]);
+
+  const handleGoToPlannedVisit = (code: string) => {
+    setNewBoothCode(code);
+    setSwitchError('');
+    setIsSwitchModalOpen(true);
+  };
   
   const rankingData = useMemo(() => {
     if (allEventReports.length === 0 || allEventCompanies.length === 0) return [];
@@ -440,29 +545,16 @@ const InformesPage: React.FC = () => {
     }, [companyNameMap]);
 
 
-  // Effect to trigger webhook when all buttons are completed
+  // Effect to notify when all buttons are completed
   useEffect(() => {
-    const sendCompletionWebhook = async () => {
-        if (checkinInfo && boothCode) {
-            try {
-                const payload = {
-                    staffName: checkinInfo.staffName,
-                    boothCode: boothCode,
-                    companyName: checkinInfo.companyName,
-                };
-                await fetch('https://webhook.triad3.io/webhook/notificar-empesa-cie', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(payload)
-                });
-            } catch (error) {
-                console.error("Failed to send completion webhook:", error);
-            }
-        }
-    };
-
-    if (!loading && allButtons.length > 0 && respondedButtonIds.length > 0 && visibleButtons.length === 0) {
-        sendCompletionWebhook();
+    if (!loading && allButtons.length > 0 && respondedButtonIds.length > 0 && visibleButtons.length === 0 && checkinInfo && boothCode) {
+        // Keyed per staff, booth and day so re-renders don't notify the company twice
+        const today = new Date().toISOString().slice(0, 10);
+        notify(checkinInfo.eventId, NotificationChannel.BOOTH_COMPLETED, {
+            staffName: checkinInfo.staffName,
+            boothCode: boothCode,
+            companyName: checkinInfo.companyName,
+        }, { idempotencyKey: `booth_completed:${boothCode}:${checkinInfo.staffId}:${today}` });
     }
   }, [visibleButtons, allButtons, respondedButtonIds, checkinInfo, boothCode, loading]);
 
@@ -470,21 +562,21 @@ const InformesPage: React.FC = () => {
   const handleButtonClick = (button: ReportButtonConfig) => {
     setSelectedButton(button);
     setSubmissionSuccess(null);
-    setPrimaryResponse('');
-    setFollowUpResponse('');
-    setChecklistSelection([]);
+    setSubmissionQueued(false);
     setIsReportModalOpen(true);
   };
 
   const openNotifyCallModal = () => {
     const notifyButtonConfig: ReportButtonConfig = {
-        id: '__NOTIFY_CALL_CONFIG__',
+        id: NOTIFY_CALL_BUTTON_ID,
+        eventId: checkinInfo?.eventId || '',
         label: 'Abrir Chamado',
         question: '',
         type: ReportType.NOTIFY_CALL,
     };
     setSelectedButton(notifyButtonConfig);
     setSubmissionSuccess(null);
+    setSubmissionQueued(false);
     setNotificationStep('department');
     setSelectedNotificationDeptId(null);
     setSelectedNotificationStaff(null);
@@ -499,17 +591,10 @@ const InformesPage: React.FC = () => {
   }, []);
   
   const handleExit = () => {
-    sessionStorage.removeItem('checkinInfo');
+    apiEndBoothSession();
     navigate('/');
   }
   
-  const handleChecklistChange = (value: string) => {
-    setChecklistSelection(prev =>
-        prev.includes(value)
-            ? prev.filter(item => item !== value)
-            : [...prev, value]
-    );
-  };
 
 
   const handleSwitchBooth = async () => {
@@ -520,18 +605,7 @@ const InformesPage: React.FC = () => {
     setSwitching(true);
     setSwitchError('');
     try {
-        const { staff, event, company } = await validateCheckin(newBoothCode, checkinInfo.personalCode);
-        sessionStorage.setItem('checkinInfo', JSON.stringify({
-            boothCode: newBoothCode.toUpperCase(),
-            companyName: company.name,
-            companyId: company.id,
-            personalCode: checkinInfo.personalCode,
-            staffName: staff.name,
-            staffPhotoUrl: staff.photoUrl,
-            eventId: event.id,
-            departmentId: staff.departmentId,
-            staffId: staff.id,
-        }));
+        storeStaffCheckinInfo(await validateCheckin(newBoothCode, checkinInfo.personalCode));
         setIsSwitchModalOpen(false);
         setNewBoothCode('');
         navigate(`/informes/${newBoothCode.toUpperCase()}`);
@@ -556,7 +630,7 @@ const InformesPage: React.FC = () => {
             getVehiclesByCompany(checkinInfo.companyId)
         ]);
         setSalesCollaborators(collaboratorsData);
-        setSalesAvailableVehicles(vehiclesData.filter(v => v.status === 'Disponível'));
+        setSalesAvailableVehicles(vehiclesData.filter(v => canTransitionVehicle(v, VehicleStatus.VENDIDO)));
         if (collaboratorsData.length > 0) {
             setSelectedSaleCollaboratorId(collaboratorsData[0].id);
         }
@@ -579,64 +653,36 @@ const InformesPage: React.FC = () => {
     );
   }, [salesAvailableVehicles, salesVehicleSearch]);
 
-  const handleSubmitSalesCheckin = async (e: React.FormEvent) => {
+  // Picking the seller and the vehicle opens the sale form; the rest runs once the sale is saved
+  const handleSubmitSalesCheckin = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!checkinInfo || !boothCode || !selectedSaleCollaboratorId || !selectedSaleVehicleId) {
+    const vehicleToSell = salesAvailableVehicles.find(v => v.id === selectedSaleVehicleId);
+    if (!checkinInfo || !boothCode || !selectedSaleCollaboratorId || !vehicleToSell) {
         setSalesSubmitStatus('error');
         return;
     };
-
-    setSalesSubmitting(true);
     setSalesSubmitStatus('idle');
+    setSaleFormVehicle(vehicleToSell);
+  };
 
-    const vehicleToSell = salesAvailableVehicles.find(v => v.id === selectedSaleVehicleId);
+  const handleSalesCheckinSaved = async (sale: Sale, vehicleToSell: Vehicle) => {
+    setSaleFormVehicle(null);
     const collaborator = salesCollaborators.find(c => c.id === selectedSaleCollaboratorId);
-    const companyInfo = allEventCompanies.find(c => c.id === checkinInfo.companyId);
-
-    if (!vehicleToSell || !collaborator || !companyInfo) {
-        setSalesSubmitStatus('error');
-        setSalesSubmitting(false);
-        return;
-    }
+    const companyInfo = allEventCompanies.find(c => c.id === checkinInfo?.companyId);
+    if (!checkinInfo || !boothCode || !collaborator || !companyInfo) return;
 
+    setSalesSubmitting(true);
     try {
-        const updatedVehicle = await updateVehicle({ 
-          ...vehicleToSell, 
-          status: 'Vendido',
-          soldByCollaboratorId: collaborator.id
-        });
-        
-        // Fire and forget webhook for bd-sheet
-        try {
-            const webhookPayload = {
-                'Veículo (Marca)': updatedVehicle.marca,
-                'Veículo (Modelo)': updatedVehicle.model,
-                'Placa': updatedVehicle.placa || 'N/D',
-                'Loja': companyInfo.name,
-                'Vendedor': collaborator.name,
-                'Data da Venda': updatedVehicle.updatedAt 
-                    ? new Date(updatedVehicle.updatedAt).toLocaleString('pt-BR') 
-                    : new Date().toLocaleString('pt-BR'),
-            };
-            fetch('https://webhook.triad3.io/webhook/bd-sheet', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(webhookPayload)
-            }).catch(webhookError => {
-                console.error("Failed to send bd-sheet webhook (non-critical):", webhookError);
-            });
-        } catch (e) {
-             console.error("Error preparing bd-sheet webhook:", e);
+        if (eventModules?.[EventModule.SALES_CHECKIN].options.notifyTelao) {
+            await sendTelaoNotification(
+                checkinInfo.eventId,
+                vehicleToSell,
+                collaborator,
+                companyInfo
+            );
         }
 
-        await sendTelaoNotification(
-            checkinInfo.eventId,
-            vehicleToSell,
-            collaborator,
-            companyInfo
-        );
-
-        const logDescription = `Registrou venda do veículo ${vehicleToSell.marca} ${vehicleToSell.model} (Placa: ${vehicleToSell.placa || 'N/D'}) pelo vendedor ${collaborator.name}.`;
+        const logDescription = `Registrou venda do veículo ${vehicleToSell.marca} ${vehicleToSell.model} (Placa: ${vehicleToSell.placa || 'N/D'}) pelo vendedor ${collaborator.name}, no valor de ${formatCurrency(getSaleNetValue(sale))} (${sale.paymentMethod ? PAYMENT_METHOD_LABELS[sale.paymentMethod] : 'N/D'}).`;
         await submitReport({
             eventId: checkinInfo.eventId,
             boothCode,
@@ -646,7 +692,7 @@ const InformesPage: React.FC = () => {
         });
 
         setSalesSubmitStatus('success');
-        setSalesAvailableVehicles(prev => prev.filter(v => v.id !== selectedSaleVehicleId));
+        setSalesAvailableVehicles(prev => prev.filter(v => v.id !== vehicleToSell.id));
         setSelectedSaleVehicleId('');
 
         setTimeout(() => {
@@ -654,6 +700,7 @@ const InformesPage: React.FC = () => {
         }, 2000);
 
     } catch (error) {
+        // The sale itself is saved; only the telão or the booth log failed
         console.error("Failed to process sale check-in", error);
         setSalesSubmitStatus('error');
     } finally {
@@ -662,34 +709,26 @@ const InformesPage: React.FC = () => {
   };
 
 
-  const handleSubmitReport = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmitReport = async (answers: ReportAnswer[]) => {
     if (!selectedButton || !boothCode || !checkinInfo) return;
     
     setSubmitting(true);
     setSubmissionSuccess(null);
-
-    let finalResponse = primaryResponse;
-
-    if (selectedButton.type === ReportType.CHECKLIST) {
-        finalResponse = checklistSelection.length > 0 ? checklistSelection.join(', ') : 'Nenhum item selecionado.';
-    } else if (
-      selectedButton.type === ReportType.YES_NO && 
-      selectedButton.followUp &&
-      primaryResponse === selectedButton.followUp.triggerValue &&
-      followUpResponse
-    ) {
-      finalResponse = `${primaryResponse} - ${selectedButton.followUp.question}: ${followUpResponse}`;
-    }
+    setSubmissionQueued(false);
 
     try {
-      await submitReport({
-        eventId: checkinInfo.eventId,
-        boothCode,
-        staffName: checkinInfo.staffName,
-        reportLabel: selectedButton.label,
-        response: finalResponse,
+      const result = await runOrQueue({
+        kind: 'report',
+        report: {
+          eventId: checkinInfo.eventId,
+          boothCode,
+          staffName: checkinInfo.staffName,
+          reportLabel: selectedButton.label,
+          response: summarizeAnswers(answers),
+          answers,
+        },
       });
+      setSubmissionQueued(result === 'queued');
       setSubmissionSuccess(true);
       setRespondedButtonIds(prev => [...prev, selectedButton.id]);
       setTimeout(() => {
@@ -708,23 +747,18 @@ const InformesPage: React.FC = () => {
 
     setSubmitting(true);
     setSubmissionSuccess(null);
+    setSubmissionQueued(false);
 
     try {
-        const webhookPayload = {
+        const result = await notify(checkinInfo.eventId, NotificationChannel.STAFF_CALL, {
             staffName: checkinInfo.staffName,
             companyName: checkinInfo.companyName,
             targetStaffPhone: selectedNotificationStaff.phone,
             targetStaffName: selectedNotificationStaff.name,
             reason: notificationReason,
-        };
-        const webhookResponse = await fetch('https://webhook.triad3.io/webhook/notificar-chamado-cie', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(webhookPayload),
         });
-        if (!webhookResponse.ok) {
-            const errorText = await webhookResponse.text();
-            throw new Error(`Falha ao enviar notificação: ${errorText}`);
+        if (result === 'failed') {
+            throw new Error('Falha ao enviar notificação.');
         }
 
         const reportResponse = `Chamado aberto para ${selectedNotificationStaff.name} (Depto: ${departments.find(d => d.id === selectedNotificationStaff.departmentId)?.name || 'N/A'}). Motivo: "${notificationReason}"`;
@@ -736,8 +770,9 @@ const InformesPage: React.FC = () => {
             response: reportResponse,
         });
 
+        setSubmissionQueued(result === 'queued');
         setSubmissionSuccess(true);
-        if (selectedButton.id !== '__NOTIFY_CALL_CONFIG__') {
+        if (selectedButton.id !== NOTIFY_CALL_BUTTON_ID) {
           setRespondedButtonIds(prev => [...prev, selectedButton.id]);
         }
         setTimeout(() => {
@@ -759,17 +794,24 @@ const InformesPage: React.FC = () => {
       }
       setTaskCompleting(task.id);
       try {
-          const taskDetails = parseTaskDetails(task.description);
-          await apiCompleteTaskActivity(checkinInfo.staffId, task.description, {
-              eventId: checkinInfo.eventId,
-              boothCode: task.boothCode,
-              staffName: checkinInfo.staffName,
-              actionLabel: `[TAREFA] ${task.actionLabel}`,
-              actionResponse: taskDetails || 'Tarefa Concluída.'
+          const result = await runOrQueue({
+              kind: 'taskCompletion',
+              taskId: task.id,
+              staffId: checkinInfo.staffId,
+              reportDetails: {
+                  eventId: checkinInfo.eventId,
+                  boothCode: task.boothCode,
+                  staffName: checkinInfo.staffName,
+                  actionLabel: `[TAREFA] ${task.actionLabel}`,
+                  actionResponse: task.details || 'Tarefa Concluída.'
+              },
           });
-          // Refresh list
-          const updatedTasks = await getPendingTasksForStaff(checkinInfo.staffId, checkinInfo.eventId);
-          setPendingTasks(updatedTasks);
+          if (result === 'queued') {
+              // The server doesn't know yet; drop it locally so it isn't completed twice
+              setAssignedTasks(prev => prev.filter(t => t.id !== task.id));
+          } else {
+              await fetchPendingTasks();
+          }
       } catch (error) {
           console.error("Failed to complete task", error);
           // TODO: Show error message to user, e.g., using a state for toast notifications
@@ -778,11 +820,6 @@ const InformesPage: React.FC = () => {
       }
   };
 
-  const parseTaskDetails = (description: string): string | null => {
-    const match = description.match(/Descrição: (.*)$/s);
-    return match ? match[1] : null;
-  };
-  
   // --- Vehicle Functions ---
     const handleOpenVehicleModal = async () => {
         if (!checkinInfo) return;
@@ -973,7 +1010,7 @@ const InformesPage: React.FC = () => {
                 marca,
                 model,
                 photoUrl: DEFAULT_VEHICLE_PHOTO,
-                status: 'Disponível',
+                status: VehicleStatus.DISPONIVEL,
                 companyId: checkinInfo.companyId,
             };
         })
@@ -1081,14 +1118,8 @@ const InformesPage: React.FC = () => {
 
 
     // --- Stock Control Functions ---
-    const handleOpenStockControlModal = async () => {
+    const fetchAvailableVehicles = useCallback(async () => {
         if (!checkinInfo) return;
-        setIsStockModalOpen(true);
-        setStockView('menu');
-        setStockSubmitStatus('idle');
-        setLastSubmittedVehicle(null);
-        setStockSearchTerm('');
-        setVehiclesLoading(true);
         try {
             const [allCompanyVehicles, movements] = await Promise.all([
                 getVehiclesByCompany(checkinInfo.companyId),
@@ -1099,11 +1130,34 @@ const InformesPage: React.FC = () => {
                 movements.filter(m => m.type === 'Venda').map(m => m.vehicleId)
             );
 
-            const availableVehicles = allCompanyVehicles.filter(v => !soldVehicleIdsInLog.has(v.id));
+            // Vehicles still in stock with no 'Venda' logged here yet
+            const availableVehicles = allCompanyVehicles.filter(v => canTransitionVehicle(v, VehicleStatus.VENDIDO) && !soldVehicleIdsInLog.has(v.id));
             
             setVehicles(availableVehicles);
         } catch (error) {
             console.error("Failed to fetch vehicles for stock control", error);
+        }
+    }, [checkinInfo]);
+
+    // Drop vehicles sold from another phone while the modal is open
+    useRealtimeRefetch(
+        isStockModalOpen && checkinInfo?.companyId ? [
+            { table: 'stock_movements', filter: `company_id=eq.${checkinInfo.companyId}` },
+            { table: 'vehicle_status_history', filter: `company_id=eq.${checkinInfo.companyId}` },
+        ] : null,
+        fetchAvailableVehicles
+    );
+
+    const handleOpenStockControlModal = async () => {
+        if (!checkinInfo) return;
+        setIsStockModalOpen(true);
+        setStockView('menu');
+        setStockSubmitStatus('idle');
+        setLastSubmittedVehicle(null);
+        setStockSearchTerm('');
+        setVehiclesLoading(true);
+        try {
+            await fetchAvailableVehicles();
         } finally {
             setVehiclesLoading(false);
         }
@@ -1120,9 +1174,17 @@ const InformesPage: React.FC = () => {
         setStockSubmitStatus('idle');
         let wasSuccessful = false;
         try {
-            await addStockMovement(checkinInfo.staffId, checkinInfo.companyId, vehicle.id, type, checkinInfo.eventId);
+            const result = await runOrQueue({
+                kind: 'stockMovement',
+                staffId: checkinInfo.staffId,
+                companyId: checkinInfo.companyId,
+                vehicleId: vehicle.id,
+                type,
+                eventId: checkinInfo.eventId,
+                vehicleLabel: `${vehicle.marca} ${vehicle.model} (${vehicle.placa || 'N/D'})`,
+            });
             setStockSubmitStatus('success');
-            setLastSubmittedVehicle({id: vehicle.id, type});
+            setLastSubmittedVehicle({id: vehicle.id, type, queued: result === 'queued'});
             wasSuccessful = true;
         } catch (err) {
             setStockSubmitStatus('error');
@@ -1140,6 +1202,20 @@ const InformesPage: React.FC = () => {
         }
     };
 
+    // A test drive leaving the booth still counts as a stock movement
+    const handleTestDriveCheckOut = (testDrive: FullTestDrive) => {
+        if (!checkinInfo) return;
+        runOrQueue({
+            kind: 'stockMovement',
+            staffId: checkinInfo.staffId,
+            companyId: checkinInfo.companyId,
+            vehicleId: testDrive.vehicleId,
+            type: 'Teste Drive',
+            eventId: checkinInfo.eventId,
+            vehicleLabel: testDrive.vehicle ? `${testDrive.vehicle.marca} ${testDrive.vehicle.model} (${testDrive.vehicle.placa || 'N/D'})` : undefined,
+        }).catch(err => console.error('Failed to log test drive movement:', err));
+    };
+
     const filteredVehicles = useMemo(() => {
         if (!vehicleSearchTerm) {
             return vehicles;
@@ -1292,7 +1368,17 @@ const InformesPage: React.FC = () => {
             </h2>
             <p className="text-sm text-text-secondary text-center sm:text-left">Código: {boothCode}</p>
           </div>
-          <div className="flex gap-2">
+          <div className="flex gap-2 flex-wrap justify-center">
+            {(queuedOperations.length > 0 || !isOnline) && (
+                <Button variant="secondary" onClick={() => setIsSyncModalOpen(true)} className="relative">
+                    {isOnline ? 'Sincronização' : 'Offline'}
+                    {queuedOperations.length > 0 && (
+                        <span className={`absolute -top-2 -right-2 flex h-6 w-6 items-center justify-center rounded-full text-xs font-bold text-white shadow-md ${syncConflictCount > 0 ? 'bg-red-600' : 'bg-yellow-600'}`}>
+                            {queuedOperations.length}
+                        </span>
+                    )}
+                </Button>
+            )}
             <Button variant="secondary" onClick={() => setIsSwitchModalOpen(true)}>
                 Trocar Estande
             </Button>
@@ -1300,6 +1386,52 @@ const InformesPage: React.FC = () => {
           </div>
       </div>
       
+      {plannedVisits.length > 0 && (
+        <div className="my-8 p-4 bg-card rounded-lg shadow-lg">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-semibold">Roteiro de Hoje</h3>
+            <span className="text-sm text-text-secondary">
+              {plannedVisits.filter(v => v.status === PlannedVisitStatus.CONCLUIDA).length}/{plannedVisits.length} estandes concluídos
+            </span>
+          </div>
+          <div className="w-full h-2 bg-secondary rounded-full overflow-hidden mb-4">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${(plannedVisits.filter(v => v.status === PlannedVisitStatus.CONCLUIDA).length / plannedVisits.length) * 100}%` }}
+            ></div>
+          </div>
+          {nextPlannedVisit ? (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 mb-4 border border-primary rounded-lg">
+              <div>
+                <p className="text-sm text-text-secondary">Próximo estande</p>
+                <p className="text-xl font-bold text-primary">{nextPlannedVisit.company.name}</p>
+                <p className="text-sm text-text-secondary">
+                  Código: {nextPlannedVisit.company.boothCode} · {nextPlannedVisit.pendingButtons.length} ação(ões) pendente(s)
+                </p>
+              </div>
+              <Button onClick={() => handleGoToPlannedVisit(nextPlannedVisit.company.boothCode)} className="flex-shrink-0">
+                Ir para o estande
+              </Button>
+            </div>
+          ) : (
+            <p className="text-center text-text-secondary mb-4">Não há mais estandes pendentes no seu roteiro.</p>
+          )}
+          <ol className="space-y-2">
+            {plannedVisits.map((visit, index) => (
+              <li key={visit.company.id} className={`p-2 rounded-md ${visit.company.boothCode === boothCode?.toUpperCase() ? 'bg-secondary' : ''}`}>
+                <div className="flex justify-between items-center gap-2">
+                  <span className="font-semibold truncate">{index + 1}. {visit.company.name}</span>
+                  <span className={`px-2 py-1 text-xs font-bold rounded-full flex-shrink-0 ${visitStatusClasses[visit.status]}`}>{visit.status}</span>
+                </div>
+                {visit.status !== PlannedVisitStatus.CONCLUIDA && visit.pendingButtons.length > 0 && (
+                  <p className="text-xs text-text-secondary mt-1">Pendente: {visit.pendingButtons.map(b => b.label).join(', ')}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       <div className="my-8 p-4 bg-card rounded-lg shadow-lg">
         <div className="text-center mb-6">
             <h3 className="text-lg font-semibold text-text-secondary">Total de Atividades Registradas</h3>
@@ -1350,12 +1482,12 @@ const InformesPage: React.FC = () => {
                   Check-in de Vendas
               </Button>
           )}
-          {checkinInfo?.staffId && notifyCallStaffIds.includes(checkinInfo.staffId) && (
+          {hasNotifyCallPermission && (
               <Button onClick={openNotifyCallModal} className="w-full">
                   Abrir Chamado
               </Button>
           )}
-          {checkinInfo?.staffId && stockControlStaffIds.includes(checkinInfo.staffId) && (
+          {hasStockControlPermission && (
               <Button onClick={handleOpenStockControlModal} className="w-full">
                   Controle de Estoque
               </Button>
@@ -1386,123 +1518,20 @@ const InformesPage: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <p className="mt-4 text-lg font-semibold">Informe enviado com sucesso!</p>
+                <p className="mt-4 text-lg font-semibold">{submissionQueued ? 'Informe salvo no dispositivo!' : 'Informe enviado com sucesso!'}</p>
+                {submissionQueued && <p className="mt-2 text-sm text-text-secondary">Ele será enviado automaticamente quando a conexão voltar.</p>}
             </div>
           ) : (
-            <form onSubmit={handleSubmitReport}>
-              <p className="mb-4 text-lg">{selectedButton.question}</p>
-              
-              {selectedButton.type === ReportType.OPEN_TEXT && (
-                <textarea
-                  value={primaryResponse}
-                  onChange={(e) => setPrimaryResponse(e.target.value)}
-                  className="w-full p-2 border border-border rounded-md bg-background"
-                  rows={4}
-                  required
-                />
-              )}
-
-              {selectedButton.type === ReportType.MULTIPLE_CHOICE && selectedButton.options && (
-                <div className="space-y-2">
-                  {selectedButton.options.map((option) => (
-                    <label key={option.id} className="flex items-center gap-2 p-2 rounded-md hover:bg-border cursor-pointer">
-                      <input
-                        type="radio"
-                        name="report-option"
-                        value={option.label}
-                        checked={primaryResponse === option.label}
-                        onChange={(e) => setPrimaryResponse(e.target.value)}
-                        required
-                        className="form-radio text-primary focus:ring-primary"
-                      />
-                      <span>{option.label}</span>
-                    </label>
-                  ))}
-                </div>
-              )}
-
-              {selectedButton.type === ReportType.CHECKLIST && selectedButton.options && (
-                <div className="space-y-2">
-                  {selectedButton.options.map((option) => (
-                    <label key={option.id} className="flex items-center gap-2 p-2 rounded-md hover:bg-border cursor-pointer">
-                      <input
-                        type="checkbox"
-                        name="report-option-checklist"
-                        value={option.label}
-                        checked={checklistSelection.includes(option.label)}
-                        onChange={() => handleChecklistChange(option.label)}
-                        className="form-checkbox h-5 w-5 rounded text-primary focus:ring-primary bg-background border-border"
-                      />
-                      <span>{option.label}</span>
-                    </label>
-                  ))}
-                </div>
-              )}
-
-              {selectedButton.type === ReportType.YES_NO && (
-                <div className="space-y-4">
-                  <div className="flex gap-4">
-                    {['Sim', 'Não'].map(option => (
-                        <label key={option} className="flex-1 flex items-center justify-center gap-2 p-3 rounded-md border-2 border-border hover:bg-border cursor-pointer has-[:checked]:bg-primary has-[:checked]:text-black has-[:checked]:border-primary">
-                          <input
-                            type="radio"
-                            name="yes-no-option"
-                            value={option}
-                            checked={primaryResponse === option}
-                            onChange={(e) => setPrimaryResponse(e.target.value)}
-                            required
-                            className="sr-only"
-                          />
-                          <span className="font-semibold">{option}</span>
-                        </label>
-                    ))}
-                  </div>
-
-                  {selectedButton.followUp && primaryResponse === selectedButton.followUp.triggerValue && (
-                    <div className="border-t border-border pt-4 animate-fade-in">
-                        <label className="block text-sm font-medium mb-2" htmlFor="followUpInput">
-                            {selectedButton.followUp.question}
-                        </label>
-                        {selectedButton.followUp.type === ReportType.MULTIPLE_CHOICE && selectedButton.followUp.options ? (
-                           <div className="space-y-2">
-                            {selectedButton.followUp.options.map((option) => (
-                              <label key={option.id} className="flex items-center gap-2 p-2 rounded-md hover:bg-border cursor-pointer">
-                                <input
-                                  type="radio"
-                                  name="follow-up-option"
-                                  value={option.label}
-                                  checked={followUpResponse === option.label}
-                                  onChange={(e) => setFollowUpResponse(e.target.value)}
-                                  required
-                                  className="form-radio text-primary focus:ring-primary"
-                                />
-                                <span>{option.label}</span>
-                              </label>
-                            ))}
-                          </div>
-                        ) : (
-                          <textarea
-                              id="followUpInput"
-                              value={followUpResponse}
-                              onChange={(e) => setFollowUpResponse(e.target.value)}
-                              className="w-full p-2 border border-border rounded-md bg-background"
-                              rows={2}
-                              required
-                          />
-                        )}
-                    </div>
-                  )}
-                </div>
-              )}
-
-              {submissionSuccess === false && <p className="text-red-500 mt-2 text-center">Falha ao enviar o informe.</p>}
-              <div className="mt-6 flex justify-end gap-4">
-                <Button type="button" variant="secondary" onClick={handleModalClose}>Cancelar</Button>
-                <Button type="submit" disabled={submitting}>
-                  {submitting ? <LoadingSpinner /> : 'Enviar'}
-                </Button>
-              </div>
-            </form>
+            <>
+              {submissionSuccess === false && <p className="text-red-500 mb-2 text-center">Falha ao enviar o informe.</p>}
+              <ReportFormWizard
+                key={selectedButton.id}
+                form={getButtonForm(selectedButton)}
+                submitting={submitting}
+                onSubmit={handleSubmitReport}
+                onCancel={handleModalClose}
+              />
+            </>
           )}
         </Modal>
       )}
@@ -1514,7 +1543,8 @@ const InformesPage: React.FC = () => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mx-auto text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <p className="mt-4 text-lg font-semibold">Chamado enviado com sucesso!</p>
+                <p className="mt-4 text-lg font-semibold">{submissionQueued ? 'Chamado registrado!' : 'Chamado enviado com sucesso!'}</p>
+                {submissionQueued && <p className="mt-2 text-sm text-text-secondary">O aviso ainda não foi entregue e será reenviado automaticamente.</p>}
             </div>
           ) : (
             <form onSubmit={handleSubmitNotificationCall}>
@@ -1664,7 +1694,7 @@ const InformesPage: React.FC = () => {
                         <div className="flex justify-end gap-4 pt-4">
                             <Button type="button" variant="secondary" onClick={() => setIsSalesModalOpen(false)}>Cancelar</Button>
                             <Button type="submit" disabled={salesSubmitting || !selectedSaleCollaboratorId || !selectedSaleVehicleId}>
-                                {salesSubmitting ? <LoadingSpinner /> : 'Confirmar Venda'}
+                                {salesSubmitting ? <LoadingSpinner /> : 'Continuar'}
                             </Button>
                         </div>
                     </>
@@ -1675,21 +1705,36 @@ const InformesPage: React.FC = () => {
         )}
       </Modal>
 
+      <SaleFormModal
+        vehicle={saleFormVehicle}
+        collaboratorId={selectedSaleCollaboratorId}
+        onClose={() => setSaleFormVehicle(null)}
+        onSaved={handleSalesCheckinSaved}
+      />
+
        {/* Assigned Tasks Modal */}
       <Modal isOpen={isTasksModalOpen} onClose={() => setIsTasksModalOpen(false)} title="Minhas Tarefas Pendentes">
         <div className="space-y-4 max-h-[60vh] overflow-y-auto">
           {pendingTasks.length > 0 ? (
             pendingTasks.map(task => {
-              const taskDetails = parseTaskDetails(task.description);
+              const isOverdue = !!task.dueAt && new Date(task.dueAt).getTime() < Date.now();
               return (
-                <div key={task.id} className="p-4 bg-secondary rounded-lg flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                <div key={task.id} className={`p-4 bg-secondary rounded-lg flex flex-col sm:flex-row justify-between sm:items-center gap-4 ${task.priority === TaskPriority.ALTA ? 'border-l-4 border-red-500' : ''}`}>
                   <div className="flex-grow">
-                    <p className="font-bold text-primary">{task.actionLabel}</p>
+                    <p className="font-bold text-primary">
+                      {task.actionLabel}
+                      {task.priority === TaskPriority.ALTA && <span className="ml-2 text-xs font-semibold bg-red-800 text-red-200 py-0.5 px-2 rounded-full">Urgente</span>}
+                    </p>
                     <p>Empresa: <span className="font-semibold">{task.companyName}</span></p>
-                    {taskDetails && <p className="text-sm text-text-secondary mt-2 pt-2 border-t border-border/50">{taskDetails}</p>}
+                    {task.details && <p className="text-sm text-text-secondary mt-2 pt-2 border-t border-border/50">{task.details}</p>}
                     <p className="text-xs text-text-secondary mt-2">
-                      Atribuída em: {new Date(task.timestamp).toLocaleString('pt-BR')}
+                      Atribuída em: {new Date(task.createdAt).toLocaleString('pt-BR')}
                     </p>
+                    {task.dueAt && (
+                      <p className={`text-xs mt-1 ${isOverdue ? 'text-red-400 font-semibold' : 'text-text-secondary'}`}>
+                        Prazo: {new Date(task.dueAt).toLocaleString('pt-BR')}{isOverdue && ' (atrasada)'}
+                      </p>
+                    )}
                   </div>
                   <Button 
                     onClick={() => handleCompleteTask(task)} 
@@ -1902,19 +1947,37 @@ const InformesPage: React.FC = () => {
             {stockView === 'menu' && (
                 <div className="flex flex-col gap-4 p-4">
                     <Button onClick={() => setStockView('venda')} className="w-full text-lg py-4">Venda</Button>
-                    <Button onClick={() => setStockView('teste_drive')} className="w-full text-lg py-4">Test Drive</Button>
+                    {eventModules?.[EventModule.STOCK_CONTROL].options.allowTestDrive && (
+                        <Button onClick={() => setStockView('teste_drive')} className="w-full text-lg py-4">Test Drive</Button>
+                    )}
+                </div>
+            )}
+
+            {stockView === 'teste_drive' && checkinInfo && (
+                <div>
+                    <div className="flex justify-between items-center mb-4">
+                        <Button variant="secondary" onClick={() => setStockView('menu')}>
+                            &larr; Voltar
+                        </Button>
+                        <h3 className="text-xl font-semibold text-primary">Agenda de Test Drives</h3>
+                    </div>
+                    <TestDriveScheduler
+                        eventId={checkinInfo.eventId}
+                        companyId={checkinInfo.companyId}
+                        vehicles={vehicles}
+                        staffId={checkinInfo.staffId}
+                        onCheckOut={handleTestDriveCheckOut}
+                    />
                 </div>
             )}
 
-            {(stockView === 'venda' || stockView === 'teste_drive') && (
+            {stockView === 'venda' && (
                 <div>
                     <div className="flex justify-between items-center mb-4">
                         <Button variant="secondary" onClick={() => setStockView('menu')}>
                             &larr; Voltar
                         </Button>
-                        <h3 className="text-xl font-semibold text-primary">
-                            {stockView === 'venda' ? 'Confirmar Venda' : 'Confirmar Test Drive'}
-                        </h3>
+                        <h3 className="text-xl font-semibold text-primary">Confirmar Venda</h3>
                     </div>
 
                     <Input
@@ -1942,17 +2005,17 @@ const InformesPage: React.FC = () => {
                                     {lastSubmittedVehicle?.id === vehicle.id ? (
                                         <div className="text-green-400 font-bold flex items-center gap-2">
                                             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                                            {lastSubmittedVehicle.type === 'Teste Drive' ? 'Test Drive' : lastSubmittedVehicle.type} Registrada!
+                                            Venda {lastSubmittedVehicle.queued ? 'salva para sincronizar' : 'Registrada!'}
                                         </div>
                                     ) : (
                                         <Button
-                                            onClick={() => handleStockMovement(vehicle, stockView === 'venda' ? 'Venda' : 'Teste Drive')}
+                                            onClick={() => handleStockMovement(vehicle, 'Venda')}
                                             disabled={stockSubmitting === vehicle.id}
                                             className="w-full sm:w-auto flex-shrink-0"
                                         >
                                             {stockSubmitting === vehicle.id 
                                                 ? <div className="flex justify-center items-center h-5 w-40"><div className="animate-spin rounded-full h-5 w-5 border-b-2 border-black"></div></div>
-                                                : `Confirmar ${stockView === 'venda' ? 'Venda' : 'Test Drive'}`
+                                                : 'Confirmar Venda'
                                             }
                                         </Button>
                                     )}
@@ -1967,6 +2030,47 @@ const InformesPage: React.FC = () => {
         </div>
       </Modal>
       
+      {/* Offline Sync Modal */}
+      <Modal isOpen={isSyncModalOpen} onClose={() => setIsSyncModalOpen(false)} title="Pendências de Sincronização">
+        <div className="space-y-4">
+          <p className="text-sm text-text-secondary">
+            {isOnline
+              ? `${pendingSyncCount} registro(s) aguardando envio. Eles são enviados automaticamente na ordem em que foram feitos.`
+              : 'Você está sem conexão. Os registros feitos agora serão enviados automaticamente quando a conexão voltar.'}
+          </p>
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {queuedOperations.map(op => (
+              <div key={op.id} className={`p-3 bg-secondary rounded-lg border-l-4 ${op.status === 'conflict' ? 'border-red-500' : 'border-yellow-500'}`}>
+                <div className="flex justify-between items-start gap-3">
+                  <div>
+                    <p className="font-semibold">{describeQueuedOperation(op)}</p>
+                    <p className="text-xs text-text-secondary">Registrado em: {new Date(op.capturedAt).toLocaleString('pt-BR')}</p>
+                    {op.status === 'conflict' && <p className="text-sm text-red-400 mt-1">Conflito: {op.conflictReason}</p>}
+                    {op.status === 'pending' && op.lastError && <p className="text-xs text-yellow-400 mt-1">Última tentativa falhou: {op.lastError}</p>}
+                  </div>
+                  {op.id !== undefined && (
+                    <Button
+                      variant="danger"
+                      onClick={() => op.status === 'conflict' ? discardQueuedOperation(op.id!) : setOperationToDiscard(op)}
+                      className="py-1 px-2 text-sm flex-shrink-0"
+                    >
+                      Descartar
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {queuedOperations.length === 0 && (
+              <p className="text-center text-text-secondary py-4">Nenhum registro pendente.</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-4 pt-2">
+            <Button variant="secondary" onClick={() => setIsSyncModalOpen(false)}>Fechar</Button>
+            <Button onClick={syncNow} disabled={!isOnline || pendingSyncCount === 0}>Sincronizar Agora</Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Company Calls Modals */}
       <Modal isOpen={isCallsModalOpen} onClose={handleCloseCallsModal} title="Chamados Pendentes">
         <div className="space-y-4 max-h-[60vh] overflow-y-auto">
@@ -2128,10 +2232,22 @@ const InformesPage: React.FC = () => {
         onClose={() => setIsConfirmVehicleDeleteOpen(false)}
         onConfirm={handleConfirmVehicleDelete}
         title="Confirmar Exclusão"
-        message="Tem certeza que deseja excluir este veículo do estoque?"
+        message="Tem certeza que deseja excluir este veículo do estoque? Ele poderá ser restaurado pela organização do evento em até 30 dias."
         confirmText="Excluir"
       />
 
+      <ConfirmationModal
+        isOpen={!!operationToDiscard}
+        onClose={() => setOperationToDiscard(null)}
+        onConfirm={() => {
+          if (operationToDiscard?.id !== undefined) discardQueuedOperation(operationToDiscard.id);
+          setOperationToDiscard(null);
+        }}
+        title="Descartar Registro"
+        message={`"${operationToDiscard ? describeQueuedOperation(operationToDiscard) : ''}" ainda não foi enviado. Se descartado, ele não será registrado no servidor.`}
+        confirmText="Descartar"
+      />
+
       <style>{`
         @keyframes fade-in {
             from { opacity: 0; transform: translateY(-10px); }
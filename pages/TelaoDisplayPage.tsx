@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { getTelaoFeed, markTelaoCelebrationShown } from '../services/telaoDisplay';
+import { TelaoCelebration, TelaoFeed, TelaoPodiumEntry } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+// The screen has no session, so it polls instead of listening to realtime
+const FEED_POLL_MS = 5000;
+const CELEBRATION_MS = 12000;
+const PODIUM_ROTATE_MS = 10000;
+
+const CONFETTI_COLORS = ['#12B5E5', '#FACC15', '#22C55E', '#F472B6', '#FFFFFF'];
+
+// A replayed request comes back with a new approval time
+const celebrationKey = (celebration: TelaoCelebration) => `${celebration.id}:${celebration.approvedAt}`;
+
+const Confetti: React.FC = () => (
+  <div className="absolute inset-0 overflow-hidden pointer-events-none">
+    {Array.from({ length: 60 }, (_, i) => (
+      <span
+        key={i}
+        className="telao-confetti absolute top-0 w-3 h-5 rounded-sm"
+        style={{
+          left: `${(i * 37) % 100}%`,
+          backgroundColor: CONFETTI_COLORS[i % CONFETTI_COLORS.length],
+          animationDelay: `${(i % 12) * 0.25}s`,
+          animationDuration: `${3 + (i % 5) * 0.6}s`,
+        }}
+      />
+    ))}
+  </div>
+);
+
+const CelebrationView: React.FC<{ celebration: TelaoCelebration }> = ({ celebration }) => (
+  <div className="relative flex-1 flex flex-col items-center justify-center text-center px-8">
+    <Confetti />
+    <p className="telao-pop text-5xl md:text-7xl font-extrabold text-primary uppercase tracking-wide">Mais uma venda!</p>
+    <div className="telao-rise flex items-center justify-center gap-10 mt-12" style={{ animationDelay: '0.4s' }}>
+      <img
+        src={celebration.company.logoUrl || 'https://via.placeholder.com/150?text=Logo'}
+        alt={celebration.company.name}
+        className="w-40 h-40 md:w-56 md:h-56 rounded-full object-contain bg-white p-4 shadow-2xl"
+      />
+      {celebration.collaborator && (
+        <img
+          src={celebration.collaborator.photoUrl || 'https://via.placeholder.com/150'}
+          alt={celebration.collaborator.name}
+          className="w-40 h-40 md:w-56 md:h-56 rounded-full object-cover ring-8 ring-primary shadow-2xl"
+        />
+      )}
+    </div>
+    <div className="telao-rise mt-10" style={{ animationDelay: '0.8s' }}>
+      <p className="text-4xl md:text-6xl font-bold">{celebration.company.name}</p>
+      {celebration.collaborator && <p className="text-2xl md:text-4xl text-text-secondary mt-3">Vendedor: {celebration.collaborator.name}</p>}
+    </div>
+    {celebration.vehicle && (
+      <div className="telao-rise flex items-center gap-6 mt-10 bg-card/80 rounded-2xl px-8 py-4" style={{ animationDelay: '1.2s' }}>
+        {celebration.vehicle.photoUrl && (
+          <img src={celebration.vehicle.photoUrl} alt={celebration.vehicle.model} className="h-24 md:h-32 rounded-lg object-cover" />
+        )}
+        <p className="text-3xl md:text-5xl font-semibold">{celebration.vehicle.marca} {celebration.vehicle.model}</p>
+      </div>
+    )}
+  </div>
+);
+
+// 2nd, 1st, 3rd from left to right
+const PODIUM_ORDER = [1, 0, 2];
+const PODIUM_HEIGHTS = ['h-64', 'h-48', 'h-36'];
+const PODIUM_MEDALS = ['🥇', '🥈', '🥉'];
+
+const PodiumView: React.FC<{ title: string; entries: TelaoPodiumEntry[]; isCompany: boolean }> = ({ title, entries, isCompany }) => (
+  <div className="flex-1 flex flex-col items-center justify-center px-8">
+    <p className="telao-pop text-4xl md:text-6xl font-extrabold text-primary mb-12">{title}</p>
+    {entries.length > 0 ? (
+      <div className="flex items-end justify-center gap-6 w-full max-w-5xl">
+        {PODIUM_ORDER.filter(position => entries[position]).map(position => {
+          const entry = entries[position];
+          return (
+            <div key={entry.id} className="telao-rise flex-1 flex flex-col items-center" style={{ animationDelay: `${(2 - position) * 0.3}s` }}>
+              <img
+                src={entry.imageUrl || (isCompany ? 'https://via.placeholder.com/150?text=Logo' : 'https://via.placeholder.com/150')}
+                alt={entry.name}
+                className={`w-28 h-28 md:w-36 md:h-36 rounded-full shadow-2xl mb-4 ${isCompany ? 'object-contain bg-white p-2' : 'object-cover'}`}
+              />
+              <p className="text-2xl md:text-3xl font-bold text-center truncate max-w-full">{entry.name}</p>
+              {entry.companyName && <p className="text-lg text-text-secondary text-center truncate max-w-full">{entry.companyName}</p>}
+              <p className="text-xl md:text-2xl text-primary font-semibold mb-4">{entry.salesCount} venda(s)</p>
+              <div className={`w-full ${PODIUM_HEIGHTS[position]} bg-card rounded-t-2xl flex items-start justify-center pt-4 border-t-4 border-primary`}>
+                <span className="text-6xl" role="img" aria-label={`${position + 1}º lugar`}>{PODIUM_MEDALS[position]}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    ) : (
+      <p className="text-3xl text-text-secondary">As vendas do evento aparecem aqui.</p>
+    )}
+  </div>
+);
+
+// Full screen for the event's big screen: celebrates the sales operators
+// approve and shows the sales podium in between.
+const TelaoDisplayPage: React.FC = () => {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [feed, setFeed] = useState<TelaoFeed | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState<TelaoCelebration | null>(null);
+  const [podium, setPodium] = useState<'companies' | 'sellers'>('companies');
+  // Shown here already, in case the feed still lists them for a poll or two
+  const shownKeys = useRef(new Set<string>());
+
+  const fetchFeed = useCallback(async () => {
+    if (!eventId || !token) return;
+    try {
+      setFeed(await getTelaoFeed(eventId, token));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao carregar o telão.');
+    }
+  }, [eventId, token]);
+
+  useEffect(() => {
+    fetchFeed();
+    const intervalId = setInterval(fetchFeed, FEED_POLL_MS);
+    return () => clearInterval(intervalId);
+  }, [fetchFeed]);
+
+  // Next approved celebration, once the screen is free
+  useEffect(() => {
+    if (current || !feed) return;
+    const next = feed.queue.find(c => !shownKeys.current.has(celebrationKey(c)));
+    if (next) setCurrent(next);
+  }, [feed, current]);
+
+  useEffect(() => {
+    if (!current || !eventId) return;
+    const timeoutId = setTimeout(() => {
+      shownKeys.current.add(celebrationKey(current));
+      markTelaoCelebrationShown(eventId, token, current.id).catch(err => console.error('Failed to mark telão celebration as shown', err));
+      setCurrent(null);
+    }, CELEBRATION_MS);
+    return () => clearTimeout(timeoutId);
+  }, [current, eventId, token]);
+
+  useEffect(() => {
+    if (current) return;
+    const intervalId = setInterval(() => setPodium(prev => prev === 'companies' ? 'sellers' : 'companies'), PODIUM_ROTATE_MS);
+    return () => clearInterval(intervalId);
+  }, [current]);
+
+  const handleFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(err => console.error('Fullscreen was refused', err));
+  };
+
+  let content: React.ReactNode;
+  if (!token) {
+    content = <p className="m-auto text-3xl text-text-secondary">Link do telão incompleto. Peça um novo link à organização.</p>;
+  } else if (error && !feed) {
+    content = <p className="m-auto text-3xl text-red-400">{error}</p>;
+  } else if (!feed) {
+    content = <div className="m-auto"><LoadingSpinner /></div>;
+  } else if (current) {
+    content = <CelebrationView key={celebrationKey(current)} celebration={current} />;
+  } else if (podium === 'companies') {
+    content = <PodiumView key="companies" title="Empresas que mais venderam" entries={feed.companies} isCompany />;
+  } else {
+    content = <PodiumView key="sellers" title="Vendedores que mais venderam" entries={feed.sellers} isCompany={false} />;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-background text-text flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-8 py-4">
+        <div className="flex items-center gap-4">
+          {feed?.event?.logoUrl && <img src={feed.event.logoUrl} alt={feed.event.name} className="h-14 object-contain" />}
+          <p className="text-2xl font-bold">{feed?.event?.name}</p>
+        </div>
+        <button onClick={handleFullscreen} className="text-sm text-text-secondary hover:text-text opacity-40 hover:opacity-100">Tela cheia</button>
+      </div>
+      {content}
+      <style>{`
+        @keyframes telao-pop {
+          0% { opacity: 0; transform: scale(0.6); }
+          60% { opacity: 1; transform: scale(1.08); }
+          100% { opacity: 1; transform: scale(1); }
+        }
+        @keyframes telao-rise {
+          from { opacity: 0; transform: translateY(40px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        @keyframes telao-confetti {
+          from { transform: translateY(-10vh) rotate(0deg); opacity: 1; }
+          to { transform: translateY(110vh) rotate(720deg); opacity: 0.8; }
+        }
+        .telao-pop { animation: telao-pop 0.8s ease-out both; }
+        .telao-rise { animation: telao-rise 0.8s ease-out both; }
+        .telao-confetti { animation: telao-confetti linear infinite; }
+      `}</style>
+    </div>
+  );
+};
+
+export default TelaoDisplayPage;
@@ -8,17 +8,21 @@ import StaffManager from '../../components/Admin/StaffManager';
 import ButtonsManager from '../../components/Admin/ButtonsManager';
 import NotFoundPage from '../NotFoundPage';
 import DepartmentsManager from '../../components/Admin/DepartmentsManager';
-import SalesCheckinManager from '../../components/Admin/SalesCheckinManager';
-import NotifyCallManager from '../../components/Admin/NotifyCallManager';
 import RankingView from '../../components/Admin/RankingView';
 import TasksView from '../../components/Admin/TasksView';
-import StockControlManager from '../../components/Admin/StockControlManager';
 import StockReportView from '../../components/Admin/StockReportView';
 import NotificationsManager from '../../components/Admin/NotificationsManager';
 import CompanyCallManager from '../../components/Admin/CompanyCallManager';
 import CompanyCallsDashboard from '../../components/Admin/CompanyCallsDashboard';
 import TelaoRequestsDashboard from '../../components/Admin/TelaoRequestsDashboard';
 import EmitirAlertaView from '../../components/Admin/EmitirAlertaView';
+import NotificationChannelsManager from '../../components/Admin/NotificationChannelsManager';
+import NotificationOutboxDashboard from '../../components/Admin/NotificationOutboxDashboard';
+import EventModulesManager from '../../components/Admin/EventModulesManager';
+import TrashView from '../../components/Admin/TrashView';
+import AuditView from '../../components/Admin/AuditView';
+import VisitPlansManager from '../../components/Admin/VisitPlansManager';
+import SalesTargetsManager from '../../components/Admin/SalesTargetsManager';
 
 const EventDashboardPage: React.FC = () => {
   const { eventId } = useParams<{ eventId: string }>();
@@ -42,19 +46,23 @@ const EventDashboardPage: React.FC = () => {
         <Route path="dashboard" element={<DashboardView eventId={eventId} />} />
         <Route path="tasks" element={<TasksView eventId={eventId} />} />
         <Route path="ranking" element={<RankingView eventId={eventId} />} />
+        <Route path="sales-targets" element={<SalesTargetsManager eventId={eventId} />} />
         <Route path="companies" element={<ParticipantCompaniesManager eventId={eventId} />} />
         <Route path="staff" element={<StaffManager eventId={eventId} />} />
         <Route path="departments" element={<DepartmentsManager eventId={eventId} />} />
-        <Route path="buttons" element={<ButtonsManager />} />
-        <Route path="sales-checkin" element={<SalesCheckinManager eventId={eventId} />} />
-        <Route path="notify-call" element={<NotifyCallManager eventId={eventId} />} />
+        <Route path="visit-plans" element={<VisitPlansManager eventId={eventId} />} />
+        <Route path="buttons" element={<ButtonsManager eventId={eventId} />} />
+        <Route path="modules" element={<EventModulesManager eventId={eventId} />} />
         <Route path="company-calls" element={<CompanyCallManager eventId={eventId} />} />
         <Route path="company-calls-dashboard" element={<CompanyCallsDashboard />} />
         <Route path="telao-requests" element={<TelaoRequestsDashboard />} />
+        <Route path="notification-outbox" element={<NotificationOutboxDashboard />} />
         <Route path="issue-alert" element={<EmitirAlertaView eventId={eventId} />} />
-        <Route path="stock-control" element={<StockControlManager eventId={eventId} />} />
         <Route path="stock-report" element={<StockReportView eventId={eventId} />} />
         <Route path="notifications" element={<NotificationsManager eventId={eventId} />} />
+        <Route path="notification-channels" element={<NotificationChannelsManager eventId={eventId} />} />
+        <Route path="trash" element={<TrashView eventId={eventId} />} />
+        <Route path="audit" element={<AuditView eventId={eventId} />} />
         <Route path="*" element={<NotFoundPage />} />
       </Route>
     </Routes>
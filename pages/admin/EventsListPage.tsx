@@ -19,6 +19,8 @@ import Modal from '../../components/Modal';
 import Input from '../../components/Input';
 import ConfirmationModal from '../../components/ConfirmationModal';
 import AdminsManager from '../../components/Admin/AdminsManager';
+import TrashView from '../../components/Admin/TrashView';
+import AuditView from '../../components/Admin/AuditView';
 
 const emptyEventData = {
     event: { name: '', date: '', details: '', logoUrl: '' },
@@ -49,12 +51,20 @@ const EventsListPage: React.FC = () => {
                     <button onClick={() => setActiveTab('admins')} className={getTabClass('admins')}>
                         Administradores
                     </button>
+                    <button onClick={() => setActiveTab('trash')} className={getTabClass('trash')}>
+                        Lixeira
+                    </button>
+                    <button onClick={() => setActiveTab('audit')} className={getTabClass('audit')}>
+                        Auditoria
+                    </button>
                 </nav>
             </div>
 
             <div>
                 {activeTab === 'events' && <EventsManager />}
                 {activeTab === 'admins' && <AdminsManager />}
+                {activeTab === 'trash' && <TrashView />}
+                {activeTab === 'audit' && <AuditView />}
             </div>
         </div>
     );
@@ -414,7 +424,7 @@ const EventsManager: React.FC = () => {
                 onClose={() => setIsConfirmModalOpen(false)}
                 onConfirm={handleConfirmDelete}
                 title="Confirmar Exclusão"
-                message="Tem certeza que deseja excluir este evento? Todos os dados associados (organizador, empresas, equipe, registros) serão perdidos permanentemente."
+                message="Tem certeza que deseja excluir este evento? Ele será movido para a Lixeira e poderá ser restaurado em até 30 dias."
                 confirmText="Excluir"
             />
         </div>
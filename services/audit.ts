@@ -0,0 +1,111 @@
+import { supabase, camelCaseKeys, toApiError } from './supabase';
+import { AuditAction, AuditActorType, AuditEntry, AuditFilters } from '../types';
+
+// --- Audit Log ---
+// Entries are written by database triggers (see the audit_log migration), so
+// nothing here records anything; this module only reads and labels the log.
+
+export const AUDIT_PAGE_SIZE = 500;
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  events: 'Evento',
+  organizer_companies: 'Empresa Organizadora',
+  users: 'Administrador',
+  participant_companies: 'Empresa',
+  departments: 'Departamento',
+  staff: 'Equipe',
+  staff_event_assignments: 'Vínculo de Equipe',
+  report_button_configs: 'Botão de Ação',
+  event_modules: 'Módulo do Evento',
+  notification_targets: 'Canal de Notificação',
+  telao_notification_recipients: 'Destinatário do Telão',
+  telao_displays: 'Link do Telão',
+  tasks: 'Tarefa',
+  vehicle_stock: 'Veículo',
+  collaborators: 'Colaborador',
+  visit_plans: 'Roteiro de Visitas',
+  sales: 'Venda',
+  test_drives: 'Test Drive',
+  leads: 'Lead',
+  sales_targets: 'Meta de Vendas',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [AuditAction.CREATE]: 'Criação',
+  [AuditAction.UPDATE]: 'Alteração',
+  [AuditAction.DELETE]: 'Exclusão',
+  [AuditAction.TRASH]: 'Enviado à Lixeira',
+  [AuditAction.RESTORE]: 'Restauração',
+};
+
+export const AUDIT_ACTOR_LABELS: Record<AuditActorType, string> = {
+  user: 'Administrador',
+  staff: 'Equipe',
+  collaborator: 'Colaborador',
+  system: 'Sistema',
+};
+
+export const getAuditEntityLabel = (entity: string): string => AUDIT_ENTITY_LABELS[entity] || entity;
+
+// before/after keep the database's column names so they line up with changed_fields
+const fromRow = (row: any): AuditEntry => {
+  const { before, after, ...rest } = row;
+  return { ...camelCaseKeys(rest), before, after };
+};
+
+// Dates are local calendar days; `to` includes the whole day.
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+/**
+ * Newest entries first, at most AUDIT_PAGE_SIZE of them. With an event, the
+ * log covers that event plus its organizer's staff, which belong to no event.
+ */
+export const getAuditLog = async (eventId: string | undefined, filters: AuditFilters = {}): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_PAGE_SIZE);
+
+  if (eventId) {
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('organizer_company_id')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError) {
+      console.error('Error fetching event for audit log:', eventError);
+      throw toApiError(eventError, 'Falha ao carregar o registro de auditoria.');
+    }
+    query = query.or(`event_id.eq.${eventId},and(event_id.is.null,organizer_company_id.eq.${event.organizer_company_id})`);
+  }
+  if (filters.entity) {
+    query = query.eq('entity', filters.entity);
+  }
+  if (filters.actor?.trim()) {
+    query = query.ilike('actor_name', `%${filters.actor.trim()}%`);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', startOfDay(filters.from).toISOString());
+  }
+  if (filters.to) {
+    const end = startOfDay(filters.to);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('created_at', end.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    throw toApiError(error, 'Falha ao carregar o registro de auditoria.');
+  }
+  return data.map(fromRow);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
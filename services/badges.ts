@@ -0,0 +1,99 @@
+import { BadgeField, BadgeFormat, BadgeParserOptions } from '../types';
+
+// --- Visitor Badges ---
+// Reads the QR code payload of a fair's visitor badge into lead fields. Each
+// fair encodes badges its own way, configured in the event's lead_capture
+// module (services/eventModules.ts).
+
+export type ParsedBadge = Partial<Record<BadgeField, string>>;
+
+export const BADGE_FORMAT_LABELS: Record<BadgeFormat, string> = {
+  vcard: 'vCard',
+  json: 'JSON',
+  delimited: 'Texto com separador',
+};
+
+export const BADGE_FIELD_LABELS: Record<BadgeField, string> = {
+  id: 'Código do visitante',
+  name: 'Nome',
+  phone: 'Telefone',
+  email: 'E-mail',
+};
+
+// vCard 3/4: FN (or N), TEL, EMAIL and UID. Folded lines are joined first.
+const parseVCard = (payload: string): ParsedBadge => {
+  const lines = payload.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const badge: ParsedBadge = {};
+  let structuredName: string | undefined;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    // Drops parameters (TEL;TYPE=CELL) and group prefixes (item1.EMAIL)
+    const property = line.slice(0, separator).split(';')[0].split('.').pop()!.toUpperCase();
+    const value = line.slice(separator + 1).replace(/\\([,;\\])/g, '$1').trim();
+    if (!value) continue;
+
+    if (property === 'FN') badge.name = badge.name || value;
+    else if (property === 'N') structuredName = value.split(';').slice(0, 2).reverse().filter(Boolean).join(' ');
+    else if (property === 'TEL') badge.phone = badge.phone || value.replace(/^tel:/i, '');
+    else if (property === 'EMAIL') badge.email = badge.email || value;
+    else if (property === 'UID') badge.id = badge.id || value;
+  }
+  if (!badge.name && structuredName) badge.name = structuredName;
+  return badge;
+};
+
+const getPath = (data: any, path: string): unknown =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+const parseJsonBadge = (payload: string, keys: Record<BadgeField, string>): ParsedBadge => {
+  let data: unknown;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return {};
+  }
+  const badge: ParsedBadge = {};
+  (Object.keys(keys) as BadgeField[]).forEach(field => {
+    const value = keys[field] ? getPath(data, keys[field]) : undefined;
+    if (typeof value === 'string' || typeof value === 'number') badge[field] = String(value).trim();
+  });
+  return badge;
+};
+
+const parseDelimitedBadge = (payload: string, delimiter: string, positions: Record<BadgeField, number>): ParsedBadge => {
+  const columns = payload.trim().split(delimiter || ';').map(c => c.trim());
+  const badge: ParsedBadge = {};
+  (Object.keys(positions) as BadgeField[]).forEach(field => {
+    const value = positions[field] > 0 ? columns[positions[field] - 1] : undefined;
+    if (value) badge[field] = value;
+  });
+  return badge;
+};
+
+// Null when the payload does not look like a badge of this event.
+export const parseBadgePayload = (payload: string, options: BadgeParserOptions): ParsedBadge | null => {
+  let badge: ParsedBadge;
+  switch (options.badgeFormat) {
+    case 'vcard':
+      badge = /BEGIN:VCARD/i.test(payload) ? parseVCard(payload) : {};
+      break;
+    case 'json':
+      badge = parseJsonBadge(payload, options.badgeJsonKeys);
+      break;
+    case 'delimited':
+      badge = parseDelimitedBadge(payload, options.badgeDelimiter, options.badgePositions);
+      break;
+  }
+  if (badge.email && !/^\S+@\S+\.\S+$/.test(badge.email)) delete badge.email;
+  return badge.name && (badge.phone || badge.email) ? badge : null;
+};
+
+// Identifies the visitor across scans: the badge id, else the e-mail, else the phone.
+export const getBadgeKey = (badge: ParsedBadge): string | null => {
+  if (badge.id) return `id:${badge.id}`;
+  if (badge.email) return `email:${badge.email.toLowerCase()}`;
+  const phone = badge.phone?.replace(/\D/g, '');
+  return phone ? `tel:${phone}` : null;
+};
@@ -0,0 +1,139 @@
+import { FormQuestion, ParticipantCompany, ReportAnswer, ReportButtonConfig, ReportSubmission, ReportType } from '../types';
+import { getAnswerOptionIds, getButtonForm, getQuestionOptions, getRatingScale, getReportAnswers } from './reportForms';
+import { toEventDay, formatEventDay } from './visitPlans';
+
+// --- Booth Scores ---
+// A booth's "nota" (0 to 10) comes from the reports staff send about it. Each
+// scored answer is worth between 0 and 1:
+// - single choice: weight of the chosen option over the highest weight;
+// - checklist: weights of the checked items over the weights of all items;
+// - rating (when marked as scored): position of the rating on its scale.
+// The nota is the average of those values times ten, so every scored
+// question counts the same however many options it has.
+
+export interface ScoreTally {
+  score: number | null; // 0 to 10; null when nothing scored was answered
+  answers: number;
+}
+
+export interface QuestionScore extends ScoreTally {
+  button: ReportButtonConfig;
+  question: FormQuestion;
+}
+
+export interface BoothScore extends ScoreTally {
+  company: ParticipantCompany;
+  days: (ScoreTally & { day: string })[]; // Oldest first
+  questions: QuestionScore[];
+}
+
+const weightOf = (question: FormQuestion, optionId: string) => question.optionWeights?.[optionId] ?? 0;
+
+export const isScoredQuestion = (question: FormQuestion): boolean => {
+  switch (question.type) {
+    case ReportType.MULTIPLE_CHOICE:
+    case ReportType.YES_NO:
+    case ReportType.CHECKLIST:
+      return getQuestionOptions(question).some(o => weightOf(question, o.id) > 0);
+    case ReportType.RATING:
+      return !!question.scored;
+    default:
+      return false;
+  }
+};
+
+// The 0 to 1 value of one answer, or null when the question is not scored.
+export const scoreAnswer = (question: FormQuestion, answer: ReportAnswer): number | null => {
+  if (!isScoredQuestion(question) || answer.type !== question.type) return null;
+  if (question.type === ReportType.RATING) {
+    const { min, max } = getRatingScale(question);
+    const value = Number(answer.value);
+    return isNaN(value) ? null : Math.min(Math.max((value - min) / (max - min), 0), 1);
+  }
+
+  const options = getQuestionOptions(question);
+  const chosen = getAnswerOptionIds(question, answer);
+  if (question.type === ReportType.CHECKLIST) {
+    const total = options.reduce((sum, o) => sum + weightOf(question, o.id), 0);
+    const checked = options.filter(o => chosen.includes(o.id)).reduce((sum, o) => sum + weightOf(question, o.id), 0);
+    return checked / total;
+  }
+  const best = Math.max(...options.map(o => weightOf(question, o.id)));
+  return chosen.length > 0 ? weightOf(question, chosen[0]) / best : null;
+};
+
+const toTally = (values: number[]): ScoreTally => ({
+  score: values.length > 0 ? (values.reduce((sum, v) => sum + v, 0) / values.length) * 10 : null,
+  answers: values.length,
+});
+
+export const formatScore = (score: number | null): string =>
+  score === null ? '—' : score.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+// Scores of every company, best first; companies without scored answers come last.
+export const getBoothScores = (
+  companies: ParticipantCompany[],
+  buttons: ReportButtonConfig[],
+  reports: ReportSubmission[]
+): BoothScore[] => {
+  const buttonsByLabel = new Map(buttons.map(b => [b.label, b]));
+  // Every scored answer with where and when it was given
+  const scored = reports.flatMap(report => {
+    const button = buttonsByLabel.get(report.reportLabel);
+    if (!button) return [];
+    const answers = getReportAnswers(report, button);
+    return getButtonForm(button).questions.flatMap(question => {
+      const answer = answers.find(a => a.questionId === question.id);
+      const value = answer ? scoreAnswer(question, answer) : null;
+      return value === null ? [] : [{ boothCode: report.boothCode, day: toEventDay(report.timestamp), button, question, value }];
+    });
+  });
+
+  return companies
+    .map(company => {
+      const own = scored.filter(s => s.boothCode === company.boothCode);
+      const days = [...new Set(own.map(s => s.day))].sort().map(day => ({
+        day,
+        ...toTally(own.filter(s => s.day === day).map(s => s.value)),
+      }));
+      const questions: QuestionScore[] = [];
+      own.forEach(({ button, question }) => {
+        if (questions.some(q => q.button === button && q.question === question)) return;
+        const values = own.filter(s => s.button === button && s.question === question).map(s => s.value);
+        questions.push({ button, question, ...toTally(values) });
+      });
+      return { company, days, questions, ...toTally(own.map(s => s.value)) };
+    })
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || b.answers - a.answers);
+};
+
+// Scorecard page for ParticipantCompaniesManager: the event nota, then the nota
+// per day and per question. Needs the jspdf autotable plugin.
+export const drawScorecard = (doc: any, score: BoothScore, eventName?: string) => {
+  doc.setFontSize(18);
+  doc.text(`Boletim de Conformidade: ${score.company.name}`, 14, 22);
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(`Estande: ${score.company.boothCode}${eventName ? ` · Evento: ${eventName}` : ''}`, 14, 30);
+  doc.text(`Gerado em: ${new Date().toLocaleString('pt-BR')}`, 14, 36);
+
+  doc.setFontSize(14);
+  doc.setTextColor(0);
+  doc.text(`Nota do evento: ${formatScore(score.score)} (${score.answers} resposta(s) avaliada(s))`, 14, 48);
+
+  doc.autoTable({
+    head: [['Dia', 'Nota', 'Respostas Avaliadas']],
+    body: score.days.map(d => [formatEventDay(d.day), formatScore(d.score), d.answers]),
+    startY: 54,
+    theme: 'grid',
+    headStyles: { fillColor: [18, 181, 229] },
+  });
+
+  doc.autoTable({
+    head: [['Ação', 'Pergunta', 'Nota', 'Respostas']],
+    body: score.questions.map(q => [q.button.label, q.question.question, formatScore(q.score), q.answers]),
+    startY: doc.autoTable.previous.finalY + 10,
+    theme: 'grid',
+    headStyles: { fillColor: [18, 181, 229] },
+  });
+};
@@ -0,0 +1,114 @@
+import { supabase, snakeCaseKeys, camelCaseKeys, toApiError } from './supabase';
+import { EventModule, EventModuleOptions, EventModuleSettings } from '../types';
+
+// --- Module Definitions ---
+// Optional booth features. An event without a row for a module has it disabled
+// with the default options below.
+
+interface ModuleDefinition<M extends EventModule> {
+  label: string;
+  description: string;
+  defaultOptions: EventModuleOptions[M];
+  // Used on the collaborator panel, where every collaborator gets it once enabled
+  forCollaborators?: boolean;
+}
+
+export const EVENT_MODULES: { [M in EventModule]: ModuleDefinition<M> } = {
+  [EventModule.SALES_CHECKIN]: {
+    label: 'Check-in de Vendas',
+    description: 'Registro de vendas no estande, estoque de veículos, relação de vendidos e solicitações de telão.',
+    defaultOptions: { notifyTelao: true },
+  },
+  [EventModule.NOTIFY_CALL]: {
+    label: 'Abrir Chamado',
+    description: 'Permite acionar outro membro da equipe a partir do estande.',
+    defaultOptions: {},
+  },
+  [EventModule.STOCK_CONTROL]: {
+    label: 'Controle de Estoque',
+    description: 'Registro de vendas e test drives a partir do estoque da empresa.',
+    defaultOptions: { allowTestDrive: true },
+  },
+  [EventModule.LEAD_CAPTURE]: {
+    label: 'Leitura de Crachás',
+    description: 'Colaboradores leem o QR Code do crachá do visitante para cadastrar o lead.',
+    defaultOptions: {
+      badgeFormat: 'vcard',
+      badgeDelimiter: ';',
+      badgePositions: { id: 1, name: 2, email: 3, phone: 4 },
+      badgeJsonKeys: { id: 'id', name: 'name', email: 'email', phone: 'phone' },
+    },
+    forCollaborators: true,
+  },
+};
+
+export type EventModulesMap = { [M in EventModule]: EventModuleSettings<M> };
+
+const defaultSettings = <M extends EventModule>(eventId: string, module: M): EventModuleSettings<M> => ({
+  eventId,
+  module,
+  isEnabled: false,
+  staffIds: [],
+  departmentIds: [],
+  options: { ...EVENT_MODULES[module].defaultOptions },
+});
+
+// Options saved by an older version may lack newer keys; defaults fill them in.
+const fromRow = (row: any): EventModuleSettings => {
+  const settings = camelCaseKeys(row) as EventModuleSettings;
+  return {
+    ...settings,
+    staffIds: settings.staffIds || [],
+    departmentIds: settings.departmentIds || [],
+    options: { ...EVENT_MODULES[settings.module].defaultOptions, ...(row.options || {}) },
+  };
+};
+
+export const getEventModules = async (eventId: string): Promise<EventModulesMap> => {
+  const { data, error } = await supabase
+    .from('event_modules')
+    .select('*')
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error('Error fetching event modules:', error);
+    throw toApiError(error, 'Falha ao carregar os módulos do evento.');
+  }
+
+  const modules = {
+    [EventModule.SALES_CHECKIN]: defaultSettings(eventId, EventModule.SALES_CHECKIN),
+    [EventModule.NOTIFY_CALL]: defaultSettings(eventId, EventModule.NOTIFY_CALL),
+    [EventModule.STOCK_CONTROL]: defaultSettings(eventId, EventModule.STOCK_CONTROL),
+    [EventModule.LEAD_CAPTURE]: defaultSettings(eventId, EventModule.LEAD_CAPTURE),
+  } as EventModulesMap;
+
+  for (const settings of data.map(fromRow)) {
+    if (settings.module in EVENT_MODULES) {
+      (modules as Record<EventModule, EventModuleSettings>)[settings.module] = settings;
+    }
+  }
+  return modules;
+};
+
+export const saveEventModule = async <M extends EventModule>(settings: EventModuleSettings<M>): Promise<EventModuleSettings<M>> => {
+  const { id, updatedAt, options, ...rest } = settings;
+  const { data, error } = await supabase
+    .from('event_modules')
+    // Options are stored as-is; their keys are camelCase on purpose
+    .upsert({ ...snakeCaseKeys(rest), options, updated_at: new Date().toISOString() }, { onConflict: 'event_id,module' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving event module:', error);
+    throw toApiError(error, 'Falha ao salvar o módulo.');
+  }
+  return fromRow(data) as EventModuleSettings<M>;
+};
+
+// A staff member may use a module when it is enabled and they are listed either
+// by id or through their department in this event.
+export const canUseModule = (settings: EventModuleSettings, staffId?: string, departmentId?: string): boolean =>
+  settings.isEnabled &&
+  ((!!staffId && settings.staffIds.includes(staffId)) ||
+    (!!departmentId && settings.departmentIds.includes(departmentId)));
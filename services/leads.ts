@@ -0,0 +1,188 @@
+import { supabase, camelCaseKeys, snakeCaseKeys, toApiError } from './supabase';
+import { FullLead, Lead, LeadTemperature } from '../types';
+
+// --- Leads ---
+// Visitors captured at the booth. A lead counts as converted while the sale
+// linked to it stands; cancelling that sale takes the conversion back.
+
+export const LEAD_TEMPERATURE_LABELS: Record<LeadTemperature, string> = {
+  [LeadTemperature.QUENTE]: 'Quente',
+  [LeadTemperature.MORNO]: 'Morno',
+  [LeadTemperature.FRIO]: 'Frio',
+};
+
+export const LEAD_TEMPERATURE_CLASSES: Record<LeadTemperature, string> = {
+  [LeadTemperature.QUENTE]: 'bg-red-800 text-red-300',
+  [LeadTemperature.MORNO]: 'bg-yellow-800 text-yellow-200',
+  [LeadTemperature.FRIO]: 'bg-blue-800 text-blue-300',
+};
+
+export const isLeadConverted = (lead: FullLead): boolean => !!lead.saleId && !lead.sale?.cancelledAt;
+
+const FULL_SELECT = `
+  *,
+  vehicle:vehicle_stock (marca, model, placa),
+  collaborator:collaborators (name),
+  sale:sales (cancelled_at)
+`;
+
+export interface LeadInput {
+  eventId: string;
+  companyId: string;
+  collaboratorId?: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  vehicleId?: string;
+  temperature: LeadTemperature;
+  note?: string;
+  badgeKey?: string | null; // From a scanned badge (services/badges.ts)
+}
+
+// Only called once the visitor agreed to have their details stored.
+export const createLead = async (input: LeadInput): Promise<Lead> => {
+  const { data, error } = await supabase
+    .from('leads')
+    .insert(snakeCaseKeys({
+      ...input,
+      name: input.name.trim(),
+      phone: input.phone?.trim() || null,
+      email: input.email?.trim().toLowerCase() || null,
+      vehicleId: input.vehicleId || null,
+      note: input.note?.trim() || null,
+      badgeKey: input.badgeKey || null,
+      consentAt: new Date().toISOString(),
+    }))
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating lead:', error);
+    // leads_company_badge_key: another phone saved the same badge first
+    if (error.code === '23505') throw new Error('Este visitante já foi cadastrado como lead pela empresa.');
+    throw toApiError(error, 'Falha ao salvar o lead.');
+  }
+  return camelCaseKeys(data) as Lead;
+};
+
+export const getLeadsByCompany = async (companyId: string): Promise<FullLead[]> => {
+  const { data, error } = await supabase
+    .from('leads')
+    .select(FULL_SELECT)
+    .eq('company_id', companyId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching leads:', error);
+    throw toApiError(error, 'Falha ao carregar os leads.');
+  }
+  return camelCaseKeys(data) as FullLead[];
+};
+
+export const getLeadsByEvent = async (eventId: string): Promise<FullLead[]> => {
+  const { data, error } = await supabase
+    .from('leads')
+    .select(FULL_SELECT)
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching leads for event:', error);
+    throw toApiError(error, 'Falha ao carregar os leads do evento.');
+  }
+  return camelCaseKeys(data) as FullLead[];
+};
+
+// Only a sale of the lead's own company converts it; leads_all enforces the
+// same on the server.
+export const linkLeadToSale = async (leadId: string, saleId: string): Promise<void> => {
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select('company_id')
+    .eq('id', saleId)
+    .maybeSingle();
+
+  if (saleError) {
+    console.error('Error fetching sale to link lead:', saleError);
+    throw toApiError(saleError, 'Falha ao vincular o lead à venda.');
+  }
+  if (!sale) throw new Error('Venda não encontrada.');
+
+  const { data, error } = await supabase
+    .from('leads')
+    .update({ sale_id: saleId, updated_at: new Date().toISOString() })
+    .eq('id', leadId)
+    .eq('company_id', sale.company_id)
+    .select('id');
+
+  if (error) {
+    console.error('Error linking lead to sale:', error);
+    throw toApiError(error, 'Falha ao vincular o lead à venda.');
+  }
+  if (!data || data.length === 0) throw new Error('O lead não pertence à empresa da venda.');
+};
+
+// For visitors who withdraw their consent
+export const deleteLead = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('leads').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting lead:', error);
+    throw toApiError(error, 'Falha ao excluir o lead.');
+  }
+};
+
+export interface LeadConversion {
+  leadsCount: number;
+  convertedCount: number;
+}
+
+// Leads and converted leads per key (company, collaborator...)
+export const countLeadConversions = (leads: FullLead[], keyOf: (lead: FullLead) => string | null | undefined): Record<string, LeadConversion> =>
+  leads.reduce((acc, lead) => {
+    const key = keyOf(lead);
+    if (key) {
+      acc[key] = acc[key] || { leadsCount: 0, convertedCount: 0 };
+      acc[key].leadsCount++;
+      if (isLeadConverted(lead)) acc[key].convertedCount++;
+    }
+    return acc;
+  }, {} as Record<string, LeadConversion>);
+
+export const formatLeadConversion = (conversion?: LeadConversion): string =>
+  conversion && conversion.leadsCount > 0
+    ? `${Math.round((conversion.convertedCount / conversion.leadsCount) * 100)}% de ${conversion.leadsCount} lead(s)`
+    : 'Sem leads';
+
+// Lead list as CSV or XLSX. Needs the Papa / XLSX globals from the CDN.
+export const downloadLeads = (leads: FullLead[], fileName: string, format: 'csv' | 'xlsx') => {
+  const rows = leads.map(lead => ({
+    'Data': new Date(lead.createdAt).toLocaleString('pt-BR'),
+    'Nome': lead.name,
+    'Telefone': lead.phone || '',
+    'E-mail': lead.email || '',
+    'Veículo de Interesse': lead.vehicle ? `${lead.vehicle.marca} ${lead.vehicle.model}${lead.vehicle.placa ? ` (${lead.vehicle.placa})` : ''}` : '',
+    'Temperatura': LEAD_TEMPERATURE_LABELS[lead.temperature],
+    'Colaborador': lead.collaborator?.name || '',
+    'Observação': lead.note || '',
+    'Convertido em Venda': isLeadConverted(lead) ? 'Sim' : 'Não',
+    'Consentimento em': new Date(lead.consentAt).toLocaleString('pt-BR'),
+  }));
+
+  if (format === 'xlsx') {
+    const XLSX = (window as any).XLSX;
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Leads');
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+    return;
+  }
+
+  const csv = (window as any).Papa.unparse(rows);
+  const blob = new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${fileName}.csv`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
@@ -0,0 +1,503 @@
+import { supabase, toApiError, isNetworkFailure } from './supabase';
+import { NotificationChannel, NotificationTarget, NotificationPayloads, OutboxEntry, OutboxStatus } from '../types';
+
+// --- Channel Definitions ---
+// Each channel has a typed payload (see NotificationPayloads in types.ts) and the
+// webhook targets used when an event has not configured any of its own. As soon
+// as an event has at least one target for a channel, the defaults are ignored.
+// The database delivers from its own copy of the defaults
+// (notification_default_targets); keep both in step.
+
+type DefaultTarget = Pick<NotificationTarget, 'name' | 'url' | 'headers' | 'payloadTemplate'>;
+
+interface ChannelDefinition<C extends NotificationChannel> {
+  label: string;
+  description: string;
+  defaultTargets: DefaultTarget[];
+  sample: NotificationPayloads[C];
+}
+
+export const NOTIFICATION_CHANNELS: { [C in NotificationChannel]: ChannelDefinition<C> } = {
+  [NotificationChannel.COMPANY_CALL]: {
+    label: 'Chamado de empresa',
+    description: 'Enviado quando um colaborador abre um chamado para a organização.',
+    defaultTargets: [
+      { name: 'Triad3 - Chamados', url: 'https://webhook.triad3.io/webhook/chamados-cie2-0', headers: {}, payloadTemplate: null },
+    ],
+    sample: {
+      eventId: 'evento-teste',
+      companyName: 'Empresa Exemplo',
+      collaboratorName: 'Colaborador Exemplo',
+      departmentName: 'Geral',
+      observation: 'Mensagem de teste',
+      timestamp: new Date(0).toISOString(),
+    },
+  },
+  [NotificationChannel.TELAO]: {
+    label: 'Telão',
+    description: 'Enviado quando uma venda é registrada e precisa ser exibida no telão.',
+    defaultTargets: [
+      {
+        name: 'Triad3 - Solicitar telão',
+        url: 'https://webhook.triad3.io/webhook/solicitar-telao-cie',
+        headers: {},
+        payloadTemplate: JSON.stringify({
+          companyName: '{{companyName}}',
+          collaboratorName: '{{collaboratorName}}',
+          vehicleMarca: '{{vehicleMarca}}',
+          vehicleModel: '{{vehicleModel}}',
+          targetPhones: '{{targetPhones}}',
+          timestamp: '{{timestamp}}',
+        }),
+      },
+      {
+        name: 'Prospect AI Chat',
+        url: 'https://webhook.prospectai.chat/webhook/0ec71931-e44c-45e2-b4e3-434a9767a11d',
+        headers: {},
+        payloadTemplate: JSON.stringify({
+          collaboratorName: '{{collaboratorName}}',
+          companyName: '{{companyName}}',
+          selectedStaff: '{{selectedStaff}}',
+        }),
+      },
+    ],
+    sample: {
+      companyName: 'Empresa Exemplo',
+      collaboratorName: 'Vendedor Exemplo',
+      vehicleMarca: 'Marca',
+      vehicleModel: 'Modelo',
+      targetPhones: ['5500000000000'],
+      selectedStaff: [{ name: 'Equipe Exemplo', phone: '5500000000000' }],
+      timestamp: new Date(0).toISOString(),
+    },
+  },
+  [NotificationChannel.SALES_CHECKIN]: {
+    label: 'Check-in de vendas',
+    description: 'Enviado quando a equipe registra um check-in de vendas no estande.',
+    defaultTargets: [
+      { name: 'Triad3 - Check-in de vendas', url: 'https://webhook.triad3.io/webhook/chek-in-vendas-cie', headers: {}, payloadTemplate: null },
+    ],
+    sample: { companyName: 'Empresa Exemplo', boothCode: 'A01' },
+  },
+  [NotificationChannel.STAFF_ALERT]: {
+    label: 'Alerta para equipe',
+    description: 'Enviado para cada membro da equipe selecionado em "Emitir Alerta".',
+    defaultTargets: [
+      { name: 'Triad3 - Alerta equipe', url: 'https://webhook.triad3.io/webhook/emitiralerta-staffs', headers: {}, payloadTemplate: null },
+    ],
+    sample: { staffName: 'Equipe Exemplo', staffPhone: '5500000000000', alertMessage: 'Mensagem de teste' },
+  },
+  [NotificationChannel.GROUP_ALERT]: {
+    label: 'Alerta para grupo',
+    description: 'Enviado ao grupo do evento em "Emitir Alerta".',
+    defaultTargets: [
+      { name: 'Triad3 - Alerta grupo', url: 'https://webhook.triad3.io/webhook/aca7d18d-8c37-49ae-92a4-03285bc6729a', headers: {}, payloadTemplate: null },
+    ],
+    sample: { message: 'Mensagem de teste' },
+  },
+  [NotificationChannel.STAFF_CALL]: {
+    label: 'Chamado para equipe',
+    description: 'Enviado quando a equipe aciona outro membro pelo botão de chamado.',
+    defaultTargets: [
+      { name: 'Triad3 - Notificar chamado', url: 'https://webhook.triad3.io/webhook/notificar-chamado-cie', headers: {}, payloadTemplate: null },
+    ],
+    sample: {
+      staffName: 'Equipe Exemplo',
+      companyName: 'Empresa Exemplo',
+      targetStaffName: 'Destinatário Exemplo',
+      targetStaffPhone: '5500000000000',
+      reason: 'Mensagem de teste',
+    },
+  },
+  [NotificationChannel.BOOTH_COMPLETED]: {
+    label: 'Estande concluído',
+    description: 'Enviado quando a equipe responde todas as ações de um estande.',
+    defaultTargets: [
+      { name: 'Triad3 - Notificar empresa', url: 'https://webhook.triad3.io/webhook/notificar-empesa-cie', headers: {}, payloadTemplate: null },
+    ],
+    sample: { staffName: 'Equipe Exemplo', boothCode: 'A01', companyName: 'Empresa Exemplo' },
+  },
+  [NotificationChannel.COMPANY_REGISTERED]: {
+    label: 'Empresa cadastrada',
+    description: 'Enviado quando uma nova empresa participante é cadastrada no evento.',
+    defaultTargets: [
+      { name: 'Triad3 - Nova empresa', url: 'https://webhook.triad3.io/webhook/c12c6861-f16a-466d-a450-8b2aae9110f9', headers: {}, payloadTemplate: null },
+    ],
+    sample: {
+      id: 'empresa-teste',
+      name: 'Empresa Exemplo',
+      boothCode: 'A01',
+      buttonIds: [],
+      responsible: 'Responsável Exemplo',
+      contact: 'contato@exemplo.com',
+      responsiblePhone: '5500000000000',
+      eventId: 'evento-teste',
+      eventName: 'Evento Exemplo',
+    },
+  },
+};
+
+// --- Payload Templates ---
+// Rendered by the database on delivery (app_render_notification_payload); the
+// same rules apply here for previews and tests. Templates are JSON documents. A string that is exactly "{{path}}" is replaced by
+// the raw value (so arrays and objects keep their shape); placeholders embedded in
+// longer strings are replaced by their text representation.
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+const resolvePath = (payload: any, path: string): unknown =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), payload);
+
+const renderTemplateNode = (node: unknown, payload: unknown): unknown => {
+  if (typeof node === 'string') {
+    const whole = node.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return resolvePath(payload, whole[1]) ?? null;
+    }
+    return node.replace(PLACEHOLDER, (_, path) => {
+      const value = resolvePath(payload, path);
+      if (value == null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(node)) {
+    return node.map(item => renderTemplateNode(item, payload));
+  }
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, renderTemplateNode(value, payload)]));
+  }
+  return node;
+};
+
+export const renderPayload = (template: string | null | undefined, payload: unknown): unknown => {
+  if (!template || !template.trim()) return payload;
+  return renderTemplateNode(JSON.parse(template), payload);
+};
+
+// --- Targets ---
+// Rows are mapped by hand: header names must keep their exact casing, which the
+// generic snake/camel case helpers would rewrite.
+const fromRow = (row: any): NotificationTarget => ({
+  id: row.id,
+  eventId: row.event_id,
+  channel: row.channel,
+  name: row.name,
+  url: row.url,
+  headers: row.headers || {},
+  payloadTemplate: row.payload_template,
+  isActive: row.is_active,
+  createdAt: row.created_at,
+});
+
+const toRow = (target: Omit<NotificationTarget, 'id' | 'createdAt'>) => ({
+  event_id: target.eventId,
+  channel: target.channel,
+  name: target.name,
+  url: target.url,
+  headers: target.headers,
+  payload_template: target.payloadTemplate || null,
+  is_active: target.isActive,
+});
+
+export const getNotificationTargetsByEvent = async (eventId: string): Promise<NotificationTarget[]> => {
+  const { data, error } = await supabase
+    .from('notification_targets')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching notification targets:', error);
+    throw toApiError(error, 'Falha ao carregar os destinos de notificação.');
+  }
+  return data.map(fromRow);
+};
+
+export const addNotificationTarget = async (target: Omit<NotificationTarget, 'id' | 'createdAt'>): Promise<NotificationTarget> => {
+  const { data, error } = await supabase.from('notification_targets').insert(toRow(target)).select().single();
+  if (error) {
+    console.error('Error adding notification target:', error);
+    throw toApiError(error, 'Falha ao salvar o destino de notificação.');
+  }
+  return fromRow(data);
+};
+
+export const updateNotificationTarget = async (target: NotificationTarget): Promise<NotificationTarget> => {
+  const { data, error } = await supabase.from('notification_targets').update(toRow(target)).eq('id', target.id).select().single();
+  if (error) {
+    console.error('Error updating notification target:', error);
+    throw toApiError(error, 'Falha ao salvar o destino de notificação.');
+  }
+  return fromRow(data);
+};
+
+export const deleteNotificationTarget = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('notification_targets').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting notification target:', error);
+    throw toApiError(error, 'Falha ao excluir o destino de notificação.');
+  }
+};
+
+// --- Test Delivery ---
+// Only the admin "test" action sends from the browser; the outbox is delivered
+// by the database.
+interface DeliveryResult {
+  ok: boolean;
+  error?: string;
+}
+
+const sendRequest = async (url: string, headers: Record<string, string>, body: unknown): Promise<DeliveryResult> => {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      return { ok: false, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+    }
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// --- Outbox ---
+// Notifications are written to `notification_outbox` and delivered by the
+// database: app_enqueue_notification writes one entry per target of the
+// channel, each entry is sent as soon as it is written and retried with
+// exponential backoff until delivered or out of attempts (see
+// 20261019000036_server_notification_delivery.sql). The request is built from
+// the target there, so clients never see URLs or headers, and what a booth
+// raises is sent whether or not anyone else has the app open.
+// If the outbox itself can't be reached (e.g. the venue Wi-Fi dropped), the
+// notification is kept in localStorage and flushed by the worker once back online.
+const OUTBOX_TABLE = 'notification_outbox';
+// Entries kept under the old key were rendered requests, which are no longer accepted
+const LOCAL_OUTBOX_KEY = 'pendingNotifications';
+// How long notify() waits to learn whether the first attempt got through
+const DELIVERY_WAIT_MS = 5_000;
+const DELIVERY_POLL_MS = 1_000;
+
+interface NotificationRequest {
+  idempotencyKey: string;
+  eventId: string;
+  channel: NotificationChannel;
+  payload: unknown;
+}
+
+const fromOutboxRow = (row: any): OutboxEntry => ({
+  id: row.id,
+  idempotencyKey: row.idempotency_key,
+  eventId: row.event_id,
+  channel: row.channel,
+  targetName: row.target_name,
+  targetId: row.target_id,
+  defaultTargetIndex: row.default_target_index,
+  url: row.url,
+  payload: row.payload ?? row.body, // Older entries stored the rendered request
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error,
+  lockedAt: row.locked_at,
+  deliveredAt: row.delivered_at,
+  createdAt: row.created_at,
+});
+
+const readLocalOutbox = (): NotificationRequest[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_OUTBOX_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalOutbox = (entries: NotificationRequest[]) => {
+  if (entries.length === 0) {
+    localStorage.removeItem(LOCAL_OUTBOX_KEY);
+  } else {
+    localStorage.setItem(LOCAL_OUTBOX_KEY, JSON.stringify(entries));
+  }
+};
+
+// Returns the entries written, none when the notification was already queued.
+const enqueue = async (request: NotificationRequest): Promise<OutboxEntry[]> => {
+  const { data, error } = await supabase.rpc('app_enqueue_notification', {
+    p_event_id: request.eventId,
+    p_channel: request.channel,
+    p_idempotency_key: request.idempotencyKey,
+    p_payload: request.payload,
+  });
+
+  if (error) throw error;
+  return (data || []).map(fromOutboxRow);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Whether every entry was delivered within DELIVERY_WAIT_MS. Entries still
+// pending keep being retried by the database either way.
+const waitForDelivery = async (ids: string[]): Promise<boolean> => {
+  const deadline = Date.now() + DELIVERY_WAIT_MS;
+  while (Date.now() < deadline) {
+    await sleep(DELIVERY_POLL_MS);
+    const { data, error } = await supabase.rpc('app_notification_status', { p_ids: ids });
+    if (error) {
+      console.error('Error checking notification delivery:', error);
+      return false;
+    }
+    const statuses: OutboxStatus[] = (data || []).map((row: { status: OutboxStatus }) => row.status);
+    if (statuses.length === ids.length && statuses.every(status => status === OutboxStatus.DELIVERED)) return true;
+    if (statuses.some(status => status === OutboxStatus.FAILED)) return false;
+  }
+  return false;
+};
+
+// How far a notification got: accepted by every target, or kept in the outbox
+// for the worker to retry. 'failed' means it could not even be queued.
+export type NotifyResult = 'delivered' | 'queued' | 'failed';
+
+/**
+ * Queues a notification for every active target configured for the channel in
+ * this event and waits briefly for the database's first delivery attempt.
+ * Failed deliveries stay in the outbox and are retried there, so a 'queued'
+ * result may still arrive later, or never; callers must not report it as sent.
+ *
+ * `idempotencyKey` identifies the business event (e.g. the call id); repeated
+ * calls with the same key are ignored. Without one, every call is distinct.
+ */
+export const notify = async <C extends NotificationChannel>(
+  eventId: string,
+  channel: C,
+  payload: NotificationPayloads[C],
+  options: { idempotencyKey?: string } = {}
+): Promise<NotifyResult> => {
+  const request: NotificationRequest = {
+    idempotencyKey: options.idempotencyKey || `${channel}:${crypto.randomUUID()}`,
+    eventId,
+    channel,
+    payload,
+  };
+
+  let entries: OutboxEntry[];
+  try {
+    entries = await enqueue(request);
+  } catch (error) {
+    if (!isNetworkFailure(error as { message?: string })) {
+      console.error('Failed to queue notification:', error);
+      return 'failed';
+    }
+    console.error('Notification outbox unavailable, keeping the notification locally:', error);
+    writeLocalOutbox([...readLocalOutbox().filter(e => e.idempotencyKey !== request.idempotencyKey), request]);
+    return 'queued';
+  }
+
+  // No entries: queued by an earlier call, which reported it then, or nobody to notify
+  if (entries.length === 0) return 'delivered';
+  return (await waitForDelivery(entries.map(entry => entry.id))) ? 'delivered' : 'queued';
+};
+
+/**
+ * Flushes locally kept notifications into the outbox, which delivers them.
+ */
+export const processOutbox = async (): Promise<void> => {
+  const localEntries = readLocalOutbox();
+  if (localEntries.length > 0) {
+    const remaining: NotificationRequest[] = [];
+    for (const request of localEntries) {
+      try {
+        await enqueue(request);
+      } catch (error) {
+        if (isNetworkFailure(error as { message?: string })) {
+          remaining.push(request);
+        } else {
+          console.error('Dropping notification the outbox refused:', error);
+        }
+      }
+    }
+    writeLocalOutbox(remaining);
+  }
+};
+
+// Starts the background flush loop. Returns a function that stops it.
+export const startOutboxWorker = (intervalMs = 30_000): (() => void) => {
+  let running = false;
+  const tick = async () => {
+    if (running || !navigator.onLine) return;
+    running = true;
+    try {
+      await processOutbox();
+    } catch (error) {
+      console.error('Notification outbox worker failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const interval = setInterval(tick, intervalMs);
+  window.addEventListener('online', tick);
+  return () => {
+    clearInterval(interval);
+    window.removeEventListener('online', tick);
+  };
+};
+
+export const getOutboxEntriesByEvent = async (eventId: string): Promise<OutboxEntry[]> => {
+  const { data, error } = await supabase
+    .from(OUTBOX_TABLE)
+    .select('*')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+    .limit(500);
+
+  if (error) {
+    console.error('Error fetching notification outbox:', error);
+    throw toApiError(error, 'Falha ao carregar as entregas de notificação.');
+  }
+  return data.map(fromOutboxRow);
+};
+
+// Puts a failed entry back in the queue with a fresh attempt budget; the
+// database tries it right away.
+export const resendOutboxEntry = async (id: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from(OUTBOX_TABLE)
+    .update({
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+      locked_at: null,
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('Error re-queueing notification:', error);
+    throw toApiError(error, 'Falha ao reenviar a notificação.');
+  }
+  return waitForDelivery([data.id]);
+};
+
+// Sends the channel's sample payload to a single target, for the admin "test" action.
+// Tests bypass the outbox: they should fail loudly, not be retried.
+export const sendTestNotification = async (target: Pick<NotificationTarget, 'name' | 'url' | 'headers' | 'payloadTemplate' | 'channel'>): Promise<boolean> => {
+  try {
+    const body = renderPayload(target.payloadTemplate, NOTIFICATION_CHANNELS[target.channel].sample);
+    const result = await sendRequest(target.url, target.headers, body);
+    if (!result.ok) {
+      console.error(`Test notification to "${target.name}" failed:`, result.error);
+    }
+    return result.ok;
+  } catch (error) {
+    console.error(`Invalid payload template for notification target "${target.name}":`, error);
+    return false;
+  }
+};
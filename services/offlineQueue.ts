@@ -0,0 +1,238 @@
+import {
+  submitReport,
+  completeTask,
+  addStockMovement,
+  isVehicleAlreadySold,
+  isStockMovementRecorded,
+  getTaskState,
+} from './api';
+import { NetworkError } from './supabase';
+import { OfflineOperation, QueuedOperation, TaskStatus } from '../types';
+
+// --- Offline Queue ---
+// Booth operations that could not reach the server are kept in IndexedDB and
+// replayed in capture order once connectivity returns. Replay stops at the first
+// network failure so later operations never overtake earlier ones; operations
+// the server refuses, that keep failing or that no longer make sense (e.g.
+// selling a vehicle someone else already sold) are flagged as conflicts and
+// left for the staff member to review.
+
+const DB_NAME = 'cie-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+const SYNC_INTERVAL_MS = 30_000;
+const MAX_REPLAY_ATTEMPTS = 10;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Keys are auto-incremented, so getAll returns operations in capture order.
+export const getQueuedOperations = (): Promise<QueuedOperation[]> =>
+  runRequest('readonly', store => store.getAll() as IDBRequest<QueuedOperation[]>);
+
+const saveOperation = (operation: QueuedOperation) => runRequest('readwrite', store => store.put(operation));
+
+const removeOperation = (id: number) => runRequest('readwrite', store => store.delete(id));
+
+// --- Change Notifications ---
+type QueueListener = (operations: QueuedOperation[]) => void;
+const listeners = new Set<QueueListener>();
+
+const emitChange = async () => {
+  try {
+    const operations = await getQueuedOperations();
+    listeners.forEach(listener => listener(operations));
+  } catch (error) {
+    console.error('Failed to read offline queue:', error);
+  }
+};
+
+export const subscribeToOfflineQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  getQueuedOperations().then(listener).catch(error => console.error('Failed to read offline queue:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Execution ---
+const execute = async (operation: OfflineOperation, capturedAt: string, clientId?: string): Promise<void> => {
+  switch (operation.kind) {
+    case 'report':
+      await submitReport(operation.report, capturedAt, clientId);
+      break;
+    case 'taskCompletion':
+      await completeTask(operation.taskId, operation.reportDetails, capturedAt);
+      break;
+    case 'stockMovement':
+      await addStockMovement(operation.staffId, operation.companyId, operation.vehicleId, operation.type, operation.eventId, capturedAt, clientId);
+      break;
+  }
+};
+
+// Only failures to reach the server are worth queueing or retrying; anything
+// the server answered (refused, invalid, not found) will fail the same way again.
+const isTransientError = (error: unknown): boolean =>
+  !navigator.onLine || error instanceof NetworkError || error instanceof TypeError;
+
+type ReplayCheck = { action: 'run' } | { action: 'skip' } | { action: 'conflict'; reason: string };
+
+// State may have changed on the server while the operation sat in the queue.
+const checkBeforeReplay = async ({ operation, clientId }: QueuedOperation): Promise<ReplayCheck> => {
+  // The earlier attempt went through, only its response was lost
+  if (operation.kind === 'stockMovement' && clientId && await isStockMovementRecorded(clientId)) {
+    return { action: 'skip' };
+  }
+  if (operation.kind === 'stockMovement' && operation.type === 'Venda' && await isVehicleAlreadySold(operation.vehicleId)) {
+    return { action: 'conflict', reason: 'Este veículo já foi marcado como vendido por outra pessoa.' };
+  }
+  if (operation.kind === 'taskCompletion') {
+    const state = await getTaskState(operation.taskId);
+    if (state?.status === TaskStatus.CONCLUIDA) {
+      // Already applied (e.g. completed again from another device); nothing left to do.
+      return { action: 'skip' };
+    }
+    if (!state || state.status === TaskStatus.CANCELADA) {
+      return { action: 'conflict', reason: 'Esta tarefa foi cancelada ou removida pelo organizador.' };
+    }
+    if (state.staffId !== operation.staffId) {
+      return { action: 'conflict', reason: 'Esta tarefa foi reatribuída a outra pessoa.' };
+    }
+  }
+  return { action: 'run' };
+};
+
+const replay = async () => {
+  const pending = (await getQueuedOperations()).filter(op => op.status === 'pending');
+
+  for (const queued of pending) {
+    if (!navigator.onLine) break;
+    try {
+      const check = await checkBeforeReplay(queued);
+      if (check.action === 'conflict') {
+        await saveOperation({ ...queued, status: 'conflict', conflictReason: check.reason });
+      } else {
+        if (check.action === 'run') {
+          await execute(queued.operation, queued.capturedAt, queued.clientId);
+        }
+        await removeOperation(queued.id!);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = queued.attempts + 1;
+      // Retrying will not help once the server refuses the operation (e.g. the
+      // booth session ended before the backlog was flushed), and an operation
+      // that keeps failing must not hold back the rest of the queue.
+      if (!isTransientError(error)) {
+        await saveOperation({ ...queued, attempts, lastError: message, status: 'conflict', conflictReason: message });
+        continue;
+      }
+      if (attempts >= MAX_REPLAY_ATTEMPTS) {
+        const conflictReason = `Não foi possível enviar após ${attempts} tentativas (${message}).`;
+        await saveOperation({ ...queued, attempts, lastError: message, status: 'conflict', conflictReason });
+        continue;
+      }
+      await saveOperation({ ...queued, attempts, lastError: message });
+      break;
+    } finally {
+      await emitChange();
+    }
+  }
+};
+
+let activeSync: Promise<void> | null = null;
+
+export const syncOfflineQueue = (): Promise<void> => {
+  if (!activeSync) {
+    activeSync = replay()
+      .catch(error => console.error('Offline queue replay failed:', error))
+      .finally(() => {
+        activeSync = null;
+      });
+  }
+  return activeSync;
+};
+
+/**
+ * Runs the operation immediately when online and nothing older is waiting.
+ * Otherwise, or if the server cannot be reached, the operation is queued for
+ * replay. Throws if the server rejects it, or if it could neither be sent nor
+ * stored.
+ */
+export const runOrQueue = async (operation: OfflineOperation): Promise<'synced' | 'queued'> => {
+  const capturedAt = new Date().toISOString();
+  const clientId = crypto.randomUUID();
+
+  let hasBacklog: boolean;
+  try {
+    hasBacklog = (await getQueuedOperations()).some(op => op.status === 'pending');
+  } catch (error) {
+    // IndexedDB unavailable (e.g. private browsing): behave like a plain request.
+    console.error('Offline queue unavailable:', error);
+    await execute(operation, capturedAt, clientId);
+    return 'synced';
+  }
+
+  if (navigator.onLine && !hasBacklog) {
+    try {
+      await execute(operation, capturedAt, clientId);
+      return 'synced';
+    } catch (error) {
+      if (!isTransientError(error)) throw error;
+      console.warn('Request failed, queueing for later sync:', error);
+    }
+  }
+
+  await saveOperation({ operation, capturedAt, clientId, status: 'pending', attempts: 0 });
+  await emitChange();
+  if (navigator.onLine) {
+    syncOfflineQueue();
+  }
+  return 'queued';
+};
+
+export const discardQueuedOperation = async (id: number) => {
+  await removeOperation(id);
+  await emitChange();
+};
+
+// Replays on reconnect and periodically. Returns a function that stops it.
+export const startOfflineSync = (): (() => void) => {
+  const handleOnline = () => {
+    syncOfflineQueue();
+  };
+  syncOfflineQueue();
+  const interval = setInterval(handleOnline, SYNC_INTERVAL_MS);
+  window.addEventListener('online', handleOnline);
+  return () => {
+    clearInterval(interval);
+    window.removeEventListener('online', handleOnline);
+  };
+};
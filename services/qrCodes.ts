@@ -0,0 +1,143 @@
+// --- Check-in QR Codes ---
+// Booth posters and staff/collaborator badges carry a link to the check-in page
+// with the code in the query string, so a phone's own camera app opens the
+// page pre-filled and the in-app scanner (components/QrScanner.tsx) can read
+// the same codes. Encoding uses the qrcode-generator script from index.html.
+
+declare const qrcode: any;
+
+export type CheckinQrKind = 'booth' | 'badge';
+
+export interface CheckinQr {
+  kind: CheckinQrKind;
+  code: string;
+}
+
+const QUERY_PARAMS: Record<CheckinQrKind, string> = {
+  booth: 'booth',
+  badge: 'code',
+};
+
+// Codes are typed uppercase without spaces on the check-in page; QR codes follow suit.
+export const normalizeCheckinCode = (code: string) => code.toUpperCase().replace(/\s/g, '');
+
+export const getCheckinQrUrl = (kind: CheckinQrKind, code: string): string =>
+  `${window.location.origin}${window.location.pathname}#/?${QUERY_PARAMS[kind]}=${encodeURIComponent(normalizeCheckinCode(code))}`;
+
+export const parseCheckinQr = (text: string): CheckinQr | null => {
+  const query = text.split('?')[1];
+  if (!query) return null;
+
+  const params = new URLSearchParams(query);
+  for (const kind of Object.keys(QUERY_PARAMS) as CheckinQrKind[]) {
+    const code = params.get(QUERY_PARAMS[kind]);
+    if (code) return { kind, code: normalizeCheckinCode(code) };
+  }
+  return null;
+};
+
+// --- PDF Drawing ---
+// Helpers for the jsPDF exports in StaffManager and ParticipantCompaniesManager.
+// QR codes are drawn as vector squares so they stay sharp when printed large.
+
+export const drawQrCode = (doc: any, text: string, x: number, y: number, size: number) => {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+
+  const count = qr.getModuleCount();
+  const cell = size / count;
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) {
+        doc.rect(x + col * cell, y + row * cell, cell, cell, 'F');
+      }
+    }
+  }
+};
+
+export interface BadgeInfo {
+  name: string;
+  subtitle: string; // Department or company shown under the name
+  code: string;
+}
+
+const BADGE_WIDTH = 85;
+const BADGE_HEIGHT = 120;
+const BADGE_COLUMNS = 2;
+const BADGE_ROWS = 2;
+const BADGE_MARGIN_X = 15;
+const BADGE_MARGIN_Y = 20;
+const BADGE_GAP = 10;
+
+// Lays the badges out four per A4 page, with cut lines around each one.
+export const drawBadgeSheet = (doc: any, badges: BadgeInfo[], title: string) => {
+  const perPage = BADGE_COLUMNS * BADGE_ROWS;
+
+  badges.forEach((badge, index) => {
+    if (index > 0 && index % perPage === 0) {
+      doc.addPage();
+    }
+    const slot = index % perPage;
+    const x = BADGE_MARGIN_X + (slot % BADGE_COLUMNS) * (BADGE_WIDTH + BADGE_GAP);
+    const y = BADGE_MARGIN_Y + Math.floor(slot / BADGE_COLUMNS) * (BADGE_HEIGHT + BADGE_GAP);
+    const centerX = x + BADGE_WIDTH / 2;
+
+    doc.setDrawColor(180);
+    doc.setLineDashPattern([2, 2], 0);
+    doc.rect(x, y, BADGE_WIDTH, BADGE_HEIGHT);
+    doc.setLineDashPattern([], 0);
+
+    doc.setFillColor(18, 181, 229);
+    doc.rect(x, y, BADGE_WIDTH, 14, 'F');
+    doc.setTextColor(255);
+    doc.setFontSize(11);
+    doc.text(title, centerX, y + 9, { align: 'center', maxWidth: BADGE_WIDTH - 6 });
+
+    doc.setTextColor(0);
+    doc.setFontSize(14);
+    doc.text(badge.name, centerX, y + 26, { align: 'center', maxWidth: BADGE_WIDTH - 6 });
+    doc.setTextColor(100);
+    doc.setFontSize(10);
+    doc.text(badge.subtitle, centerX, y + 34, { align: 'center', maxWidth: BADGE_WIDTH - 6 });
+
+    const qrSize = 60;
+    drawQrCode(doc, getCheckinQrUrl('badge', badge.code), centerX - qrSize / 2, y + 42, qrSize);
+
+    doc.setTextColor(0);
+    doc.setFontSize(12);
+    doc.text(badge.code, centerX, y + 112, { align: 'center' });
+  });
+};
+
+// One A4 page per booth with a large QR code to stick on the stand.
+export const drawBoothPoster = (doc: any, companyName: string, boothCode: string, eventName?: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const centerX = pageWidth / 2;
+
+  doc.setFillColor(18, 181, 229);
+  doc.rect(0, 0, pageWidth, 30, 'F');
+  doc.setTextColor(255);
+  doc.setFontSize(20);
+  doc.text('Check-in da Equipe', centerX, 19, { align: 'center' });
+
+  doc.setTextColor(0);
+  doc.setFontSize(28);
+  doc.text(companyName, centerX, 55, { align: 'center', maxWidth: pageWidth - 30 });
+  if (eventName) {
+    doc.setTextColor(100);
+    doc.setFontSize(14);
+    doc.text(eventName, centerX, 67, { align: 'center', maxWidth: pageWidth - 30 });
+  }
+
+  const qrSize = 140;
+  drawQrCode(doc, getCheckinQrUrl('booth', boothCode), centerX - qrSize / 2, 80, qrSize);
+
+  doc.setTextColor(0);
+  doc.setFontSize(22);
+  doc.text(`Código do estande: ${boothCode}`, centerX, 238, { align: 'center' });
+  doc.setTextColor(100);
+  doc.setFontSize(12);
+  doc.text('Escaneie este código e depois o seu crachá para fazer o check-in.', centerX, 250, { align: 'center', maxWidth: pageWidth - 30 });
+};
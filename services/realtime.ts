@@ -0,0 +1,111 @@
+import { RealtimeChannel, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
+import { supabase, camelCaseKeys } from './supabase';
+import { RealtimeChange, RealtimeTable } from '../types';
+
+// --- Realtime Data Layer ---
+// Screens subscribe to row changes instead of polling. Subscribers asking for the
+// same table and filter share a single channel. While a channel is not connected
+// (websocket blocked, backend hiccup) subscribers are nudged on a slow interval
+// so they can refetch, and once it reconnects they get one last nudge to pick up
+// whatever was missed in between.
+
+const FALLBACK_POLL_INTERVAL_MS = 30_000;
+
+export type RealtimeListener = (change: RealtimeChange) => void;
+
+interface SharedChannel {
+  channel: RealtimeChannel;
+  listeners: Set<RealtimeListener>;
+  connected: boolean;
+  closed: boolean; // Set once the last subscriber leaves; removing the channel still reports CLOSED
+  fallbackInterval: ReturnType<typeof setInterval> | null;
+}
+
+const channels = new Map<string, SharedChannel>();
+
+const emit = (shared: SharedChannel, change: RealtimeChange) => {
+  shared.listeners.forEach(listener => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('Realtime listener failed:', error);
+    }
+  });
+};
+
+const startFallbackPolling = (shared: SharedChannel) => {
+  if (shared.fallbackInterval) return;
+  shared.fallbackInterval = setInterval(() => {
+    if (navigator.onLine) emit(shared, { type: 'refresh' });
+  }, FALLBACK_POLL_INTERVAL_MS);
+};
+
+const stopFallbackPolling = (shared: SharedChannel) => {
+  if (shared.fallbackInterval) {
+    clearInterval(shared.fallbackInterval);
+    shared.fallbackInterval = null;
+  }
+};
+
+const openChannel = (key: string, table: RealtimeTable, filter?: string): SharedChannel => {
+  const shared: SharedChannel = {
+    channel: supabase.channel(`realtime:${key}`),
+    listeners: new Set(),
+    connected: false,
+    closed: false,
+    fallbackInterval: null,
+  };
+
+  shared.channel
+    .on('postgres_changes', { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) }, payload => {
+      if (payload.eventType === 'DELETE') {
+        emit(shared, { type: 'DELETE', old: camelCaseKeys(payload.old) });
+      } else {
+        emit(shared, { type: payload.eventType, new: camelCaseKeys(payload.new) });
+      }
+    })
+    .subscribe(status => {
+      if (shared.closed) return;
+      if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        const wasDisconnected = !shared.connected && shared.fallbackInterval !== null;
+        shared.connected = true;
+        stopFallbackPolling(shared);
+        if (wasDisconnected) emit(shared, { type: 'refresh' });
+      } else {
+        shared.connected = false;
+        startFallbackPolling(shared);
+      }
+    });
+
+  // Until the first SUBSCRIBED arrives we can't tell a slow handshake from a
+  // blocked websocket, so keep the fallback armed.
+  startFallbackPolling(shared);
+  return shared;
+};
+
+/**
+ * Subscribes to inserts, updates and deletes on a table. `filter` uses the
+ * realtime filter syntax and supports a single column, e.g. `event_id=eq.<id>`.
+ * Rows are delivered camelCased. Returns a function that unsubscribes.
+ */
+export const subscribeToTable = (table: RealtimeTable, listener: RealtimeListener, filter?: string): (() => void) => {
+  const key = filter ? `${table}:${filter}` : table;
+  let shared = channels.get(key);
+  if (!shared) {
+    shared = openChannel(key, table, filter);
+    channels.set(key, shared);
+  }
+  shared.listeners.add(listener);
+
+  return () => {
+    const current = channels.get(key);
+    if (!current) return;
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      current.closed = true;
+      stopFallbackPolling(current);
+      supabase.removeChannel(current.channel);
+      channels.delete(key);
+    }
+  };
+};
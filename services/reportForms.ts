@@ -0,0 +1,289 @@
+import { ReportButtonConfig, ReportForm, FormQuestion, FormQuestionType, ReportAnswer, ReportOption, ReportType, RatingScale, ReportSubmission } from '../types';
+
+// --- Report Forms ---
+// A button asks a small graph of questions. Each question goes on to `next`,
+// unless a branch picks another question (or the end) for the chosen option.
+// Buttons saved before forms existed are read as a one or two question form.
+
+export const FORM_QUESTION_TYPE_LABELS: Record<FormQuestionType, string> = {
+  [ReportType.OPEN_TEXT]: 'Resposta Aberta',
+  [ReportType.MULTIPLE_CHOICE]: 'Múltipla Escolha',
+  [ReportType.YES_NO]: 'Sim/Não',
+  [ReportType.CHECKLIST]: 'Checklist',
+  [ReportType.NUMBER]: 'Número',
+  [ReportType.RATING]: 'Avaliação',
+  [ReportType.PHOTO]: 'Foto',
+  [ReportType.SIGNATURE]: 'Assinatura',
+  [ReportType.DATE_TIME]: 'Data e Hora',
+};
+
+export const RATING_SCALES: Record<RatingScale, { label: string; min: number; max: number }> = {
+  stars: { label: 'Estrelas (1 a 5)', min: 1, max: 5 },
+  nps: { label: 'NPS (0 a 10)', min: 0, max: 10 },
+};
+
+export const getRatingScale = (question: FormQuestion) => RATING_SCALES[question.scale || 'stars'];
+
+export const YES_NO_OPTIONS: ReportOption[] = [
+  { id: 'sim', label: 'Sim' },
+  { id: 'nao', label: 'Não' },
+];
+
+// Questions whose answer is one option, and so can branch
+export const isSingleChoice = (question: FormQuestion): boolean =>
+  question.type === ReportType.MULTIPLE_CHOICE || question.type === ReportType.YES_NO;
+
+export const getQuestionOptions = (question: FormQuestion): ReportOption[] =>
+  question.type === ReportType.YES_NO ? YES_NO_OPTIONS : question.options || [];
+
+export const getButtonForm = (button: ReportButtonConfig): ReportForm => {
+  if (button.form && button.form.questions.length > 0) return button.form;
+
+  const first: FormQuestion = {
+    id: 'q1',
+    question: button.question,
+    type: button.type === ReportType.NOTIFY_CALL ? ReportType.OPEN_TEXT : button.type,
+    options: button.options || [],
+    required: button.type !== ReportType.CHECKLIST,
+  };
+  if (button.type !== ReportType.YES_NO || !button.followUp?.question) {
+    return { questions: [first] };
+  }
+
+  const triggerOption = YES_NO_OPTIONS.find(o => o.label === button.followUp!.triggerValue)!;
+  return {
+    questions: [
+      { ...first, branches: [{ optionId: triggerOption.id, next: 'q2' }] },
+      {
+        id: 'q2',
+        question: button.followUp.question,
+        type: button.followUp.type,
+        options: button.followUp.options || [],
+        required: true,
+      },
+    ],
+  };
+};
+
+// Where the form goes after `question` was answered with `value` (option ids for
+// choice questions). Undefined ends the form.
+export const getNextQuestionId = (question: FormQuestion, value?: string | string[]): string | undefined => {
+  if (isSingleChoice(question) && typeof value === 'string') {
+    const branch = question.branches?.find(b => b.optionId === value);
+    if (branch) return branch.next ?? undefined;
+  }
+  return question.next;
+};
+
+const getTargets = (question: FormQuestion): string[] =>
+  [question.next, ...(question.branches || []).map(b => b.next)].filter((id): id is string => !!id);
+
+// The first problem that would keep the form from being filled in, or null.
+export const validateReportForm = (form: ReportForm): string | null => {
+  if (form.questions.length === 0) return 'Adicione ao menos uma pergunta.';
+
+  const byId = new Map(form.questions.map(q => [q.id, q]));
+  for (const [index, question] of form.questions.entries()) {
+    const name = `Pergunta ${index + 1}`;
+    if (!question.question.trim()) return `${name}: informe o texto da pergunta.`;
+    if ((question.type === ReportType.MULTIPLE_CHOICE || question.type === ReportType.CHECKLIST) &&
+        !(question.options || []).some(o => o.label.trim())) {
+      return `${name}: adicione ao menos uma opção.`;
+    }
+    if (question.type === ReportType.NUMBER && question.min != null && question.max != null && question.min > question.max) {
+      return `${name}: o valor mínimo é maior que o máximo.`;
+    }
+    if (getTargets(question).some(id => !byId.has(id))) return `${name}: aponta para uma pergunta que não existe.`;
+  }
+
+  // Walk from the first question; meeting a question already on the current
+  // path means the form could loop forever.
+  const visited = new Set<string>();
+  const onPath = new Set<string>();
+  const walk = (id: string): boolean => {
+    if (onPath.has(id)) return false;
+    if (visited.has(id)) return true;
+    visited.add(id);
+    onPath.add(id);
+    const ok = getTargets(byId.get(id)!).every(walk);
+    onPath.delete(id);
+    return ok;
+  };
+  if (!walk(form.questions[0].id)) return 'O formulário tem um ciclo: uma resposta leva de volta a uma pergunta anterior.';
+
+  const unreachable = form.questions.findIndex(q => !visited.has(q.id));
+  if (unreachable >= 0) return `Pergunta ${unreachable + 1}: nenhuma resposta leva a esta pergunta.`;
+  return null;
+};
+
+// Builds the stored answer from what the wizard collected: option ids become
+// their labels so reports stay readable without the form, and numbers are typed.
+export const toReportAnswer = (question: FormQuestion, value: string | string[]): ReportAnswer => {
+  const answer = { questionId: question.id, question: question.question, type: question.type };
+  switch (question.type) {
+    case ReportType.MULTIPLE_CHOICE:
+    case ReportType.YES_NO:
+    case ReportType.CHECKLIST: {
+      const options = getQuestionOptions(question);
+      const labelOf = (id: string) => options.find(o => o.id === id)?.label || id;
+      const optionIds = Array.isArray(value) ? value : [value];
+      return { ...answer, value: Array.isArray(value) ? value.map(labelOf) : labelOf(value), optionIds };
+    }
+    case ReportType.NUMBER:
+    case ReportType.RATING:
+      return { ...answer, value: Number(value) };
+    default:
+      return { ...answer, value };
+  }
+};
+
+export const formatDateTimeAnswer = (value: string): string => {
+  if (/^\d{2}:\d{2}$/.test(value)) return value;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00` : value);
+  if (isNaN(date.getTime())) return value;
+  return value.length === 10
+    ? date.toLocaleDateString('pt-BR')
+    : date.toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+export const formatAnswerValue = (answer: ReportAnswer): string => {
+  const { value } = answer;
+  switch (answer.type) {
+    case ReportType.PHOTO:
+      return `${Array.isArray(value) ? value.length : 0} foto(s)`;
+    case ReportType.SIGNATURE:
+      return 'Assinatura coletada';
+    case ReportType.DATE_TIME:
+      return formatDateTimeAnswer(String(value));
+    case ReportType.NUMBER:
+    case ReportType.RATING:
+      return Number(value).toLocaleString('pt-BR');
+  }
+  return Array.isArray(value)
+    ? (value.length > 0 ? value.join(', ') : 'Nenhum item selecionado.')
+    : String(value);
+};
+
+// The `response` text: the first answer as-is, later ones prefixed by their
+// question, as single follow-ups were written before.
+export const summarizeAnswers = (answers: ReportAnswer[]): string =>
+  answers
+    .map((answer, index) => (index === 0 ? formatAnswerValue(answer) : `${answer.question}: ${formatAnswerValue(answer)}`))
+    .join(' - ');
+
+// --- Reading Answers ---
+
+// The answers of a report. Reports sent before forms only have the `response`
+// text, which can be read back when the button asked a single question.
+export const getReportAnswers = (report: ReportSubmission, button?: ReportButtonConfig): ReportAnswer[] => {
+  if (report.answers && report.answers.length > 0) return report.answers;
+  if (!button) return [];
+  const { questions } = getButtonForm(button);
+  if (questions.length !== 1) return [];
+
+  const [question] = questions;
+  switch (question.type) {
+    case ReportType.OPEN_TEXT:
+      return [toReportAnswer(question, report.response)];
+    case ReportType.MULTIPLE_CHOICE:
+    case ReportType.YES_NO: {
+      const option = getQuestionOptions(question).find(o => o.label === report.response);
+      return option ? [toReportAnswer(question, option.id)] : [];
+    }
+    case ReportType.CHECKLIST: {
+      const labels = report.response.split(', ');
+      return [toReportAnswer(question, getQuestionOptions(question).filter(o => labels.includes(o.label)).map(o => o.id))];
+    }
+    default:
+      return [];
+  }
+};
+
+// Chosen option ids; answers saved without ids are matched by label.
+export const getAnswerOptionIds = (question: FormQuestion, answer: ReportAnswer): string[] => {
+  if (answer.optionIds) return answer.optionIds;
+  const labels = ([] as unknown[]).concat(answer.value);
+  return getQuestionOptions(question).filter(o => labels.includes(o.label)).map(o => o.id);
+};
+
+// --- Answer Statistics ---
+// Figures per question across reports, for the question types that add up:
+// options (reports and booths per option), numbers (average), ratings
+// (distribution) and images (gallery).
+
+export interface AnswerImage {
+  url: string;
+  boothCode: string;
+  staffName: string;
+  timestamp: string;
+}
+
+export interface OptionCount {
+  optionId: string;
+  label: string;
+  reports: number;
+  booths: number;
+}
+
+export type QuestionStats =
+  | { kind: 'options'; count: number; options: OptionCount[] }
+  | { kind: 'number'; count: number; average: number; min: number; max: number }
+  | { kind: 'rating'; count: number; average: number; scale: RatingScale; distribution: { score: number; count: number }[] }
+  | { kind: 'images'; images: AnswerImage[] };
+
+export interface ButtonQuestionStats {
+  button: ReportButtonConfig;
+  question: FormQuestion;
+  stats: QuestionStats;
+}
+
+export const getAnswerStats = (buttons: ReportButtonConfig[], reports: ReportSubmission[]): ButtonQuestionStats[] => {
+  const result: ButtonQuestionStats[] = [];
+  for (const button of buttons) {
+    const buttonReports = reports
+      .filter(r => r.reportLabel === button.label)
+      .map(report => ({ report, answers: getReportAnswers(report, button) }));
+    for (const question of getButtonForm(button).questions) {
+      const answered = buttonReports
+        .map(({ report, answers }) => ({ report, answer: answers.find(a => a.questionId === question.id && a.type === question.type) }))
+        .filter((entry): entry is { report: ReportSubmission; answer: ReportAnswer } => !!entry.answer);
+      if (answered.length === 0) continue;
+
+      if (question.type === ReportType.MULTIPLE_CHOICE || question.type === ReportType.YES_NO || question.type === ReportType.CHECKLIST) {
+        const chosen = answered.map(({ report, answer }) => ({ boothCode: report.boothCode, optionIds: getAnswerOptionIds(question, answer) }));
+        const options = getQuestionOptions(question).map(option => {
+          const withOption = chosen.filter(c => c.optionIds.includes(option.id));
+          return {
+            optionId: option.id,
+            label: option.label,
+            reports: withOption.length,
+            booths: new Set(withOption.map(c => c.boothCode)).size,
+          };
+        });
+        result.push({ button, question, stats: { kind: 'options', count: answered.length, options } });
+      } else if (question.type === ReportType.NUMBER || question.type === ReportType.RATING) {
+        const values = answered.map(({ answer }) => Number(answer.value)).filter(v => !isNaN(v));
+        if (values.length === 0) continue;
+        const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+        if (question.type === ReportType.NUMBER) {
+          result.push({ button, question, stats: { kind: 'number', count: values.length, average, min: Math.min(...values), max: Math.max(...values) } });
+        } else {
+          const { min, max } = getRatingScale(question);
+          const distribution = Array.from({ length: max - min + 1 }, (_, i) => ({
+            score: min + i,
+            count: values.filter(v => v === min + i).length,
+          }));
+          result.push({ button, question, stats: { kind: 'rating', count: values.length, average, scale: question.scale || 'stars', distribution } });
+        }
+      } else if (question.type === ReportType.PHOTO || question.type === ReportType.SIGNATURE) {
+        const images = answered.flatMap(({ report, answer }) =>
+          ([] as unknown[]).concat(answer.value)
+            .filter((url): url is string => typeof url === 'string' && !!url)
+            .map(url => ({ url, boothCode: report.boothCode, staffName: report.staffName, timestamp: report.timestamp }))
+        );
+        if (images.length > 0) result.push({ button, question, stats: { kind: 'images', images } });
+      }
+    }
+  }
+  return result;
+};
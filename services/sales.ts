@@ -0,0 +1,139 @@
+import { supabase, camelCaseKeys, toApiError, forbiddenError } from './supabase';
+import { TRANSITION_ERRORS } from './vehicleLifecycle';
+import { FullSale, PaymentMethod, Sale } from '../types';
+
+// --- Sales ---
+// A sale is recorded by app_record_sale, which marks the vehicle as Vendido
+// and stores the deal in one go. Cancelling the deal on the vehicle
+// (services/vehicleLifecycle.ts) sets cancelled_at, and cancelled sales are
+// left out of revenue. Sales made before prices were kept have no sale price
+// and count as units only.
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.A_VISTA]: 'À vista',
+  [PaymentMethod.FINANCIADO]: 'Financiado',
+  [PaymentMethod.CONSORCIO]: 'Consórcio',
+};
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const formatCurrency = (value: number): string => currencyFormatter.format(value);
+
+// What the sale brought in: price minus discount
+export const getSaleNetValue = (sale: Pick<Sale, 'salePrice' | 'discount'>): number =>
+  sale.salePrice === null ? 0 : Number(sale.salePrice) - Number(sale.discount || 0);
+
+export const normalizeCpf = (cpf: string): string => cpf.replace(/\D/g, '');
+
+export const formatCpf = (cpf: string): string => {
+  const digits = normalizeCpf(cpf);
+  return digits.length === 11 ? digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4') : cpf;
+};
+
+// Checks the two verification digits
+export const isValidCpf = (cpf: string): boolean => {
+  const digits = normalizeCpf(cpf);
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) return false;
+  const checkDigit = (length: number) => {
+    const sum = digits.slice(0, length).split('').reduce((acc, d, i) => acc + Number(d) * (length + 1 - i), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+};
+
+const SALE_ERRORS: Record<string, string> = {
+  ...TRANSITION_ERRORS,
+  invalid_price: 'Informe o valor da venda.',
+  invalid_discount: 'O desconto não pode ser maior que o valor da venda.',
+  invalid_payment_method: 'Selecione a forma de pagamento.',
+  consent_required: 'Os dados do comprador só podem ser salvos com o consentimento dele.',
+};
+
+export interface SaleInput {
+  vehicleId: string;
+  collaboratorId: string;
+  salePrice: number;
+  discount: number;
+  paymentMethod: PaymentMethod;
+  tradeInVehicle?: string;
+  tradeInValue?: number | null;
+  buyerName?: string;
+  buyerPhone?: string;
+  buyerCpf?: string;
+  buyerConsent: boolean;
+}
+
+export const recordSale = async (input: SaleInput): Promise<Sale> => {
+  const { data, error } = await supabase.rpc('app_record_sale', {
+    p_vehicle_id: input.vehicleId,
+    p_collaborator_id: input.collaboratorId,
+    p_sale_price: input.salePrice,
+    p_discount: input.discount,
+    p_payment_method: input.paymentMethod,
+    p_trade_in_vehicle: input.tradeInVehicle || null,
+    p_trade_in_value: input.tradeInValue ?? null,
+    // Without consent nothing about the buyer is sent
+    p_buyer_name: input.buyerConsent ? input.buyerName || null : null,
+    p_buyer_phone: input.buyerConsent ? input.buyerPhone || null : null,
+    p_buyer_cpf: input.buyerConsent && input.buyerCpf ? normalizeCpf(input.buyerCpf) : null,
+    p_buyer_consent: input.buyerConsent,
+  });
+
+  if (error || !data) {
+    console.error('Error recording sale:', error);
+    if (error?.message.includes('forbidden')) throw forbiddenError();
+    const code = Object.keys(SALE_ERRORS).find(key => error?.message.includes(key));
+    throw new Error(code ? SALE_ERRORS[code] : 'Falha ao registrar a venda.');
+  }
+  return camelCaseKeys(data) as Sale;
+};
+
+// Sales still standing, oldest first; pass includeCancelled for the full log.
+export const getSalesByEvent = async (eventId: string, includeCancelled = false): Promise<FullSale[]> => {
+  let query = supabase
+    .from('sales')
+    .select(`
+      *,
+      vehicle:vehicle_stock (marca, model, placa, status),
+      company:participant_companies (id, name, logo_url),
+      collaborator:collaborators (id, name, photo_url)
+    `)
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: true });
+  if (!includeCancelled) query = query.is('cancelled_at', null);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching sales:', error);
+    throw toApiError(error, 'Falha ao buscar as vendas do evento.');
+  }
+  return camelCaseKeys(data) as FullSale[];
+};
+
+// Spreadsheet of the given sales, one row per sale. Needs the XLSX global from the CDN.
+export const downloadSalesSpreadsheet = (sales: FullSale[], fileName: string) => {
+  const rows = sales.map(sale => ({
+    'Data da Venda': new Date(sale.createdAt).toLocaleString('pt-BR'),
+    'Loja': sale.company?.name || 'N/D',
+    'Vendedor': sale.collaborator?.name || 'N/D',
+    'Veículo (Marca)': sale.vehicle?.marca || 'N/D',
+    'Veículo (Modelo)': sale.vehicle?.model || 'N/D',
+    'Placa': sale.vehicle?.placa || 'N/D',
+    'Status': sale.cancelledAt ? 'Cancelada' : sale.vehicle?.status || 'N/D',
+    'Valor de Venda': sale.salePrice ?? '',
+    'Desconto': sale.salePrice === null ? '' : Number(sale.discount),
+    'Valor Líquido': sale.salePrice === null ? '' : getSaleNetValue(sale),
+    'Pagamento': sale.paymentMethod ? PAYMENT_METHOD_LABELS[sale.paymentMethod] : '',
+    'Veículo na Troca': sale.tradeInVehicle || '',
+    'Valor da Troca': sale.tradeInValue ?? '',
+    'Comprador': sale.buyerName || '',
+    'Telefone': sale.buyerPhone || '',
+    'CPF': sale.buyerCpf ? formatCpf(sale.buyerCpf) : '',
+  }));
+
+  const XLSX = (window as any).XLSX;
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Vendas');
+  XLSX.writeFile(workbook, fileName);
+};
@@ -0,0 +1,128 @@
+import { supabase, camelCaseKeys, toApiError, forbiddenError } from './supabase';
+import { toEventDay } from './visitPlans';
+import { SalesTarget } from '../types';
+
+// --- Sales Targets ---
+// Targets are set per day, for a company or for one of its collaborators.
+// Progress counts every sale still standing, whatever day it was made on.
+
+// Share of a day that has gone by is measured over the usual fair hours, so the
+// expected pace does not start before the doors open.
+const SALES_DAY_START_HOUR = 9;
+const SALES_DAY_END_HOUR = 21;
+
+// Below this share of the target expected so far, a company is far behind.
+export const FAR_BEHIND_RATIO = 0.5;
+
+export const getSalesTargetsByEvent = async (eventId: string): Promise<SalesTarget[]> => {
+  const { data, error } = await supabase
+    .from('sales_targets')
+    .select('*, collaborator:collaborators (name, photo_url)')
+    .eq('event_id', eventId)
+    .order('day');
+
+  if (error) {
+    console.error('Error fetching sales targets:', error);
+    throw toApiError(error, 'Falha ao carregar as metas de vendas.');
+  }
+  return camelCaseKeys(data) as SalesTarget[];
+};
+
+export interface SalesTargetEntry {
+  companyId: string;
+  collaboratorId: string | null;
+  targetUnits: number; // 0 removes the target
+}
+
+// Applies the entries of one day against the targets already saved.
+export const saveSalesTargets = async (eventId: string, day: string, entries: SalesTargetEntry[], existing: SalesTarget[]): Promise<void> => {
+  const findExisting = (entry: SalesTargetEntry) => existing.find(t =>
+    t.day === day && t.companyId === entry.companyId && (t.collaboratorId || null) === entry.collaboratorId
+  );
+
+  for (const entry of entries) {
+    const current = findExisting(entry);
+    if (current && current.targetUnits === entry.targetUnits) continue;
+
+    let result;
+    if (entry.targetUnits <= 0) {
+      if (!current) continue;
+      result = await supabase.from('sales_targets').delete().eq('id', current.id).select('id');
+    } else if (current) {
+      result = await supabase.from('sales_targets')
+        .update({ target_units: entry.targetUnits, updated_at: new Date().toISOString() })
+        .eq('id', current.id)
+        .select('id');
+    } else {
+      result = await supabase.from('sales_targets')
+        .insert({ event_id: eventId, company_id: entry.companyId, collaborator_id: entry.collaboratorId, day, target_units: entry.targetUnits })
+        .select('id');
+    }
+
+    if (result.error) {
+      console.error('Error saving sales target:', result.error);
+      throw toApiError(result.error, 'Falha ao salvar as metas de vendas.');
+    }
+    if (result.data.length === 0) throw forbiddenError();
+  }
+};
+
+export interface GoalProgress {
+  target: number; // All target days
+  sold: number;
+  percent: number | null; // sold / target; null without a target
+  targetToDate: number; // Target of the days gone by, today in proportion to the hours passed
+  todayTarget: number;
+  todaySold: number;
+  projection: number | null; // Units by the last target day at the pace so far
+  isFarBehind: boolean;
+}
+
+const elapsedShareOfDay = (now: Date): number => {
+  const hours = now.getHours() + now.getMinutes() / 60;
+  const share = (hours - SALES_DAY_START_HOUR) / (SALES_DAY_END_HOUR - SALES_DAY_START_HOUR);
+  return Math.min(1, Math.max(0, share));
+};
+
+// `targets` and `saleDates` belong to one company or one collaborator.
+export const getGoalProgress = (targets: SalesTarget[], saleDates: string[], now = new Date()): GoalProgress => {
+  const today = toEventDay(now);
+  const todayShare = elapsedShareOfDay(now);
+
+  let target = 0;
+  let targetToDate = 0;
+  let elapsedDays = 0;
+  let todayTarget = 0;
+  targets.forEach(t => {
+    target += t.targetUnits;
+    if (t.day < today) {
+      targetToDate += t.targetUnits;
+      elapsedDays++;
+    } else if (t.day === today) {
+      todayTarget = t.targetUnits;
+      targetToDate += t.targetUnits * todayShare;
+      elapsedDays += todayShare;
+    }
+  });
+
+  const sold = saleDates.length;
+  const todaySold = saleDates.filter(date => toEventDay(date) === today).length;
+
+  return {
+    target,
+    sold,
+    percent: target > 0 ? sold / target : null,
+    targetToDate,
+    todayTarget,
+    todaySold,
+    projection: elapsedDays > 0 ? Math.round((sold / elapsedDays) * targets.length) : null,
+    // Needs at least one unit expected by now, so the first hour of a day does not raise alarms
+    isFarBehind: targetToDate >= 1 && sold < targetToDate * FAR_BEHIND_RATIO,
+  };
+};
+
+export const formatGoalPercent = (percent: number | null): string =>
+  percent === null ? 'Sem meta' : `${Math.round(percent * 100)}%`;
+
+// Width for a progress bar; going past the target fills it.
+export const goalBarWidth = (percent: number | null): string => `${Math.min(100, (percent ?? 0) * 100)}%`;
@@ -0,0 +1,104 @@
+import { supabase, camelCaseKeys, toApiError, forbiddenError, isForbidden } from './supabase';
+import { TelaoDisplayStatus, TelaoFeed } from '../types';
+
+// --- Telão Display ---
+// The big screen at /telao/:eventId. It has no session of its own: it reads
+// the feed with the event's display token, which admins create and rotate.
+// Operators decide what it celebrates by approving telão requests.
+
+export const TELAO_DISPLAY_STATUS_LABELS: Record<TelaoDisplayStatus, string> = {
+  [TelaoDisplayStatus.AGUARDANDO]: 'Aguardando aprovação',
+  [TelaoDisplayStatus.APROVADO]: 'Na fila do telão',
+  [TelaoDisplayStatus.EXIBIDO]: 'Exibido',
+  [TelaoDisplayStatus.PULADO]: 'Pulado',
+};
+
+export const TELAO_DISPLAY_STATUS_CLASSES: Record<TelaoDisplayStatus, string> = {
+  [TelaoDisplayStatus.AGUARDANDO]: 'bg-yellow-800 text-yellow-200',
+  [TelaoDisplayStatus.APROVADO]: 'bg-blue-800 text-blue-300',
+  [TelaoDisplayStatus.EXIBIDO]: 'bg-green-800 text-green-300',
+  [TelaoDisplayStatus.PULADO]: 'bg-gray-700 text-gray-300',
+};
+
+// --- Link ---
+
+export const getTelaoDisplayToken = async (eventId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('telao_displays')
+    .select('token')
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching telão display token:', error);
+    throw toApiError(error, 'Falha ao carregar o link do telão.');
+  }
+  return data?.token ?? null;
+};
+
+// Creates the token on first use; afterwards screens opened with the old link stop working.
+export const rotateTelaoDisplayToken = async (eventId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('app_rotate_telao_display_token', { p_event_id: eventId });
+
+  if (error || !data) {
+    console.error('Error rotating telão display token:', error);
+    throw toApiError(error, 'Falha ao gerar o link do telão.');
+  }
+  return data as string;
+};
+
+// The app uses a hash router, so the route goes after the '#'.
+export const getTelaoDisplayUrl = (eventId: string, token: string): string =>
+  `${window.location.origin}${window.location.pathname}#/telao/${eventId}?token=${token}`;
+
+// --- Queue ---
+
+const updateDisplayStatus = async (requestId: string, changes: Record<string, unknown>): Promise<void> => {
+  const { data, error } = await supabase
+    .from('telao_requests')
+    .update(changes)
+    .eq('id', requestId)
+    .select('id');
+
+  if (error) {
+    console.error('Error updating telão display status:', error);
+    throw toApiError(error, 'Falha ao atualizar a fila do telão.');
+  }
+  if (data.length === 0) throw forbiddenError();
+};
+
+// Also replays a request that was shown or skipped, at the end of the queue.
+export const approveTelaoRequest = (requestId: string): Promise<void> =>
+  updateDisplayStatus(requestId, {
+    display_status: TelaoDisplayStatus.APROVADO,
+    display_approved_at: new Date().toISOString(),
+  });
+
+export const skipTelaoRequest = (requestId: string): Promise<void> =>
+  updateDisplayStatus(requestId, { display_status: TelaoDisplayStatus.PULADO });
+
+// --- Screen ---
+// A bad token is not a lost session here, so it does not go through forbiddenError.
+
+export const getTelaoFeed = async (eventId: string, token: string): Promise<TelaoFeed> => {
+  const { data, error } = await supabase.rpc('app_telao_feed', { p_event_id: eventId, p_token: token });
+
+  if (error || !data) {
+    console.error('Error fetching telão feed:', error);
+    throw new Error(isForbidden(error) ? 'Link do telão inválido. Peça um novo link à organização.' : 'Falha ao carregar o telão.');
+  }
+  return camelCaseKeys(data) as TelaoFeed;
+};
+
+export const markTelaoCelebrationShown = async (eventId: string, token: string, requestId: string): Promise<void> => {
+  const { error } = await supabase.rpc('app_telao_mark_shown', {
+    p_event_id: eventId,
+    p_token: token,
+    p_request_id: requestId,
+  });
+
+  if (error) {
+    console.error('Error marking telão celebration as shown:', error);
+    throw new Error('Falha ao atualizar a fila do telão.');
+  }
+};
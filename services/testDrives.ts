@@ -0,0 +1,174 @@
+import { supabase, camelCaseKeys, snakeCaseKeys, toApiError } from './supabase';
+import { FullTestDrive, TestDrive, TestDriveOutcome, TestDriveStatus } from '../types';
+
+// --- Test Drives ---
+// Slots are per vehicle and cannot overlap while scheduled or checked out
+// (test_drives_no_overlap). Status only moves forward:
+// agendado -> em_andamento -> concluido, or agendado -> cancelado / nao_compareceu.
+// Each update is matched on the status it starts from, so two phones acting on
+// the same test drive cannot both succeed.
+
+export const DEFAULT_TEST_DRIVE_MINUTES = 30;
+
+export const TEST_DRIVE_STATUS_LABELS: Record<TestDriveStatus, string> = {
+  [TestDriveStatus.AGENDADO]: 'Agendado',
+  [TestDriveStatus.EM_ANDAMENTO]: 'Em andamento',
+  [TestDriveStatus.CONCLUIDO]: 'Concluído',
+  [TestDriveStatus.CANCELADO]: 'Cancelado',
+  [TestDriveStatus.NAO_COMPARECEU]: 'Não compareceu',
+};
+
+export const TEST_DRIVE_STATUS_CLASSES: Record<TestDriveStatus, string> = {
+  [TestDriveStatus.AGENDADO]: 'bg-yellow-800 text-yellow-200',
+  [TestDriveStatus.EM_ANDAMENTO]: 'bg-blue-800 text-blue-300',
+  [TestDriveStatus.CONCLUIDO]: 'bg-green-800 text-green-300',
+  [TestDriveStatus.CANCELADO]: 'bg-gray-700 text-gray-200',
+  [TestDriveStatus.NAO_COMPARECEU]: 'bg-red-800 text-red-300',
+};
+
+export const TEST_DRIVE_OUTCOME_LABELS: Record<TestDriveOutcome, string> = {
+  [TestDriveOutcome.PENDENTE]: 'Aguardando retorno',
+  [TestDriveOutcome.CONVERTIDO]: 'Virou venda',
+  [TestDriveOutcome.NAO_CONVERTIDO]: 'Não converteu',
+};
+
+export const normalizeLicense = (license: string): string => license.replace(/\D/g, '');
+
+export const isValidLicense = (license: string): boolean => normalizeLicense(license).length === 11;
+
+const FULL_SELECT = `
+  *,
+  vehicle:vehicle_stock (marca, model, placa, photo_url),
+  company:participant_companies (id, name),
+  staff:staff (name),
+  collaborator:collaborators (name)
+`;
+
+export interface TestDriveInput {
+  eventId: string;
+  companyId: string;
+  vehicleId: string;
+  startsAt: string;
+  endsAt: string;
+  prospectName: string;
+  prospectPhone: string;
+  prospectLicense: string;
+  staffId?: string;
+  collaboratorId?: string;
+  note?: string;
+}
+
+// The prospect's consent is required to store their details, so scheduling implies it.
+export const scheduleTestDrive = async (input: TestDriveInput): Promise<TestDrive> => {
+  const { data, error } = await supabase
+    .from('test_drives')
+    .insert(snakeCaseKeys({
+      ...input,
+      prospectLicense: normalizeLicense(input.prospectLicense),
+      prospectConsentAt: new Date().toISOString(),
+      note: input.note || null,
+    }))
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error scheduling test drive:', error);
+    if (error.code === '23P01') throw new Error('Este veículo já tem um test drive neste horário.');
+    throw toApiError(error, 'Falha ao agendar o test drive.');
+  }
+  return camelCaseKeys(data) as TestDrive;
+};
+
+export const getTestDrivesByCompany = async (companyId: string): Promise<FullTestDrive[]> => {
+  const { data, error } = await supabase
+    .from('test_drives')
+    .select(FULL_SELECT)
+    .eq('company_id', companyId)
+    .order('starts_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching test drives:', error);
+    throw toApiError(error, 'Falha ao carregar os test drives.');
+  }
+  return camelCaseKeys(data) as FullTestDrive[];
+};
+
+export const getTestDrivesByEvent = async (eventId: string): Promise<FullTestDrive[]> => {
+  const { data, error } = await supabase
+    .from('test_drives')
+    .select(FULL_SELECT)
+    .eq('event_id', eventId)
+    .order('starts_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching test drives for event:', error);
+    throw toApiError(error, 'Falha ao carregar os test drives do evento.');
+  }
+  return camelCaseKeys(data) as FullTestDrive[];
+};
+
+const updateTestDrive = async (id: string, from: TestDriveStatus, changes: Partial<TestDrive>): Promise<TestDrive> => {
+  const { data, error } = await supabase
+    .from('test_drives')
+    .update(snakeCaseKeys({ ...changes, updatedAt: new Date().toISOString() }))
+    .eq('id', id)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating test drive:', error);
+    throw toApiError(error, 'Falha ao atualizar o test drive.');
+  }
+  if (!data) throw new Error('Este test drive já foi atualizado em outro aparelho.');
+  return camelCaseKeys(data) as TestDrive;
+};
+
+export const checkOutTestDrive = (id: string) =>
+  updateTestDrive(id, TestDriveStatus.AGENDADO, { status: TestDriveStatus.EM_ANDAMENTO, checkedOutAt: new Date().toISOString() });
+
+export const checkInTestDrive = (id: string) =>
+  updateTestDrive(id, TestDriveStatus.EM_ANDAMENTO, { status: TestDriveStatus.CONCLUIDO, checkedInAt: new Date().toISOString() });
+
+export const cancelTestDrive = (id: string) =>
+  updateTestDrive(id, TestDriveStatus.AGENDADO, { status: TestDriveStatus.CANCELADO });
+
+export const markTestDriveNoShow = (id: string) =>
+  updateTestDrive(id, TestDriveStatus.AGENDADO, { status: TestDriveStatus.NAO_COMPARECEU });
+
+export const setTestDriveOutcome = (id: string, outcome: TestDriveOutcome) =>
+  updateTestDrive(id, TestDriveStatus.CONCLUIDO, { outcome });
+
+export interface TestDriveConversion {
+  key: string;
+  label: string;
+  completed: number; // Checked back in
+  converted: number;
+  notConverted: number;
+  pending: number; // Completed, follow-up not recorded yet
+  rate: number | null; // converted / completed; null with nothing completed
+}
+
+// Conversion of completed test drives grouped by `groupBy`, highest rate first.
+export const getTestDriveConversions = (
+  testDrives: FullTestDrive[],
+  groupBy: (testDrive: FullTestDrive) => { key: string; label: string }
+): TestDriveConversion[] => {
+  const groups = new Map<string, TestDriveConversion>();
+  testDrives
+    .filter(t => t.status === TestDriveStatus.CONCLUIDO)
+    .forEach(testDrive => {
+      const { key, label } = groupBy(testDrive);
+      const group = groups.get(key) || { key, label, completed: 0, converted: 0, notConverted: 0, pending: 0, rate: null };
+      group.completed++;
+      if (testDrive.outcome === TestDriveOutcome.CONVERTIDO) group.converted++;
+      else if (testDrive.outcome === TestDriveOutcome.NAO_CONVERTIDO) group.notConverted++;
+      else group.pending++;
+      group.rate = group.converted / group.completed;
+      groups.set(key, group);
+    });
+  return [...groups.values()].sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1) || b.completed - a.completed);
+};
+
+export const formatConversionRate = (rate: number | null): string =>
+  rate === null ? '—' : `${Math.round(rate * 100)}%`;
@@ -0,0 +1,143 @@
+import { supabase, camelCaseKeys, toApiError, forbiddenError } from './supabase';
+import { Vehicle, VehicleStatus, VehicleStatusChange } from '../types';
+
+// --- Vehicle Lifecycle ---
+// Status changes go through app_transition_vehicle, which checks the move
+// against the same table as VEHICLE_TRANSITIONS, records who made it and
+// keeps sold_by_collaborator_id / sold_at in step. A plain vehicle update that
+// changes the status is rejected by the database.
+
+type StockStatus = Vehicle['status'];
+
+export const VEHICLE_TRANSITIONS: Record<StockStatus, VehicleStatus[]> = {
+  [VehicleStatus.DISPONIVEL]: [VehicleStatus.RESERVADO, VehicleStatus.EM_NEGOCIACAO, VehicleStatus.VENDIDO],
+  [VehicleStatus.RESERVADO]: [VehicleStatus.EM_NEGOCIACAO, VehicleStatus.VENDIDO, VehicleStatus.CANCELADO],
+  [VehicleStatus.EM_NEGOCIACAO]: [VehicleStatus.RESERVADO, VehicleStatus.VENDIDO, VehicleStatus.CANCELADO],
+  [VehicleStatus.VENDIDO]: [VehicleStatus.FATURADO, VehicleStatus.CANCELADO],
+  [VehicleStatus.FATURADO]: [VehicleStatus.ENTREGUE, VehicleStatus.CANCELADO],
+  [VehicleStatus.ENTREGUE]: [],
+};
+
+// Statuses that count as a sale in rankings and sales reports
+export const SOLD_VEHICLE_STATUSES: VehicleStatus[] = [VehicleStatus.VENDIDO, VehicleStatus.FATURADO, VehicleStatus.ENTREGUE];
+
+export const VEHICLE_STATUS_CLASSES: Record<VehicleStatus, string> = {
+  [VehicleStatus.DISPONIVEL]: 'bg-gray-700 text-gray-200',
+  [VehicleStatus.RESERVADO]: 'bg-yellow-800 text-yellow-200',
+  [VehicleStatus.EM_NEGOCIACAO]: 'bg-blue-800 text-blue-300',
+  [VehicleStatus.VENDIDO]: 'bg-green-800 text-green-300',
+  [VehicleStatus.FATURADO]: 'bg-green-800 text-green-300',
+  [VehicleStatus.ENTREGUE]: 'bg-green-800 text-green-300',
+  [VehicleStatus.CANCELADO]: 'bg-red-800 text-red-300',
+};
+
+// Button text for moving a vehicle to each status
+export const VEHICLE_TRANSITION_LABELS: Record<VehicleStatus, string> = {
+  [VehicleStatus.DISPONIVEL]: 'Disponibilizar',
+  [VehicleStatus.RESERVADO]: 'Reservar',
+  [VehicleStatus.EM_NEGOCIACAO]: 'Em negociação',
+  [VehicleStatus.VENDIDO]: 'Vendido',
+  [VehicleStatus.FATURADO]: 'Faturar',
+  [VehicleStatus.ENTREGUE]: 'Entregar',
+  [VehicleStatus.CANCELADO]: 'Cancelar',
+};
+
+// The status as of `now`: a reservation past its hold is Disponível again.
+export const getVehicleStatus = (vehicle: Vehicle, now: Date = new Date()): StockStatus =>
+  vehicle.status === VehicleStatus.RESERVADO && vehicle.reservedUntil && new Date(vehicle.reservedUntil) <= now
+    ? VehicleStatus.DISPONIVEL
+    : vehicle.status;
+
+export const getAllowedTransitions = (vehicle: Vehicle): VehicleStatus[] => VEHICLE_TRANSITIONS[getVehicleStatus(vehicle)] || [];
+
+export const canTransitionVehicle = (vehicle: Vehicle, status: VehicleStatus): boolean =>
+  getAllowedTransitions(vehicle).includes(status);
+
+export const isVehicleSold = (vehicle: Vehicle): boolean => SOLD_VEHICLE_STATUSES.includes(vehicle.status);
+
+// Also raised by app_record_sale (services/sales.ts), which goes through the same transition
+export const TRANSITION_ERRORS: Record<string, string> = {
+  vehicle_not_found: 'Veículo não encontrado.',
+  invalid_transition: 'Esta mudança de status não é permitida para o veículo no momento.',
+  invalid_reservation: 'Informe até quando o veículo ficará reservado.',
+  collaborator_mismatch: 'O vendedor não pertence à empresa deste veículo.',
+  responsible_required: 'Não foi possível identificar o responsável pela mudança.',
+};
+
+export interface VehicleTransition {
+  vehicleId: string;
+  status: VehicleStatus;
+  collaboratorId?: string; // Seller, when staff record a sale for a collaborator
+  reservedUntil?: string;
+  note?: string;
+}
+
+export const transitionVehicle = async ({ vehicleId, status, collaboratorId, reservedUntil, note }: VehicleTransition): Promise<Vehicle> => {
+  const { data, error } = await supabase.rpc('app_transition_vehicle', {
+    p_vehicle_id: vehicleId,
+    p_status: status,
+    p_collaborator_id: collaboratorId ?? null,
+    p_reserved_until: reservedUntil ?? null,
+    p_note: note ?? null,
+  });
+
+  if (error || !data) {
+    console.error('Error changing vehicle status:', error);
+    if (error?.message.includes('forbidden')) throw forbiddenError();
+    const code = Object.keys(TRANSITION_ERRORS).find(key => error?.message.includes(key));
+    throw code ? new Error(TRANSITION_ERRORS[code]) : toApiError(error, 'Falha ao alterar o status do veículo.');
+  }
+  return camelCaseKeys(data) as Vehicle;
+};
+
+const HISTORY_SELECT = `
+  *,
+  collaborator:collaborators(name),
+  staff:staff(name),
+  user:users(name),
+  vehicle:vehicle_stock(marca, model, placa, photo_url),
+  company:participant_companies(id, name)
+`;
+
+export const getVehicleStatusHistory = async (vehicleId: string): Promise<VehicleStatusChange[]> => {
+  const { data, error } = await supabase
+    .from('vehicle_status_history')
+    .select(HISTORY_SELECT)
+    .eq('vehicle_id', vehicleId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching vehicle status history:', error);
+    throw toApiError(error, 'Falha ao carregar o histórico do veículo.');
+  }
+  return camelCaseKeys(data) as VehicleStatusChange[];
+};
+
+export const getVehicleStatusChangesByEvent = async (eventId: string): Promise<VehicleStatusChange[]> => {
+  const { data: companies, error: companiesError } = await supabase
+    .from('participant_companies')
+    .select('id')
+    .eq('event_id', eventId);
+
+  if (companiesError) {
+    console.error('Error fetching companies for vehicle history:', companiesError);
+    throw toApiError(companiesError, 'Falha ao buscar empresas do evento.');
+  }
+  if (!companies || companies.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('vehicle_status_history')
+    .select(HISTORY_SELECT)
+    .in('company_id', companies.map(c => c.id))
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching vehicle status changes:', error);
+    throw toApiError(error, 'Falha ao carregar o histórico de negociações.');
+  }
+  return camelCaseKeys(data) as VehicleStatusChange[];
+};
+
+// Who made a change, for history lists
+export const getStatusChangeResponsible = (change: VehicleStatusChange): string =>
+  [change.collaborator?.name, change.staff?.name, change.user?.name].filter(Boolean).join(' / ') || 'N/D';
@@ -0,0 +1,145 @@
+import { supabase, camelCaseKeys, toApiError, forbiddenError } from './supabase';
+import { VisitPlan, PlannedVisit, PlannedVisitStatus, ParticipantCompany, ReportButtonConfig, ReportSubmission } from '../types';
+
+// --- Visit Plans ---
+// Admins plan which booths a staff member (or a whole department) visits on
+// each day of the event, in order. Whether a visit happened is not stored: it
+// is read from the reports the staff member sent at that booth on that day.
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The local calendar day (yyyy-mm-dd) of a date or ISO timestamp.
+export const toEventDay = (date: Date | string = new Date()): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// dd/mm/yyyy for a yyyy-mm-dd day; parsing the bare date would read it as UTC.
+export const formatEventDay = (day: string): string => new Date(`${day}T00:00:00`).toLocaleDateString('pt-BR');
+
+const fromRow = (row: any): VisitPlan => {
+  const plan = camelCaseKeys(row) as VisitPlan;
+  return { ...plan, staffId: plan.staffId || undefined, departmentId: plan.departmentId || undefined, companyIds: plan.companyIds || [] };
+};
+
+export const getVisitPlansByEvent = async (eventId: string): Promise<VisitPlan[]> => {
+  const { data, error } = await supabase
+    .from('visit_plans')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('day');
+
+  if (error) {
+    console.error('Error fetching visit plans:', error);
+    throw toApiError(error, 'Falha ao carregar os roteiros de visita.');
+  }
+  return data.map(fromRow);
+};
+
+// Creates the plan, or replaces it when it has an id.
+export const saveVisitPlan = async (plan: Omit<VisitPlan, 'id'> & { id?: string }): Promise<VisitPlan> => {
+  const row = {
+    event_id: plan.eventId,
+    day: plan.day,
+    staff_id: plan.staffId || null,
+    department_id: plan.staffId ? null : plan.departmentId || null,
+    company_ids: plan.companyIds,
+    updated_at: new Date().toISOString(),
+  };
+  const query = plan.id
+    ? supabase.from('visit_plans').update(row).eq('id', plan.id).select().maybeSingle()
+    : supabase.from('visit_plans').insert(row).select().single();
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error saving visit plan:', error);
+    // One plan per staff member or department per day (unique indexes)
+    if (error.code === '23505') {
+      throw new Error('Já existe um roteiro para este dia e responsável.');
+    }
+    throw toApiError(error, 'Falha ao salvar o roteiro.');
+  }
+  if (!data) throw forbiddenError();
+  return fromRow(data);
+};
+
+export const deleteVisitPlan = async (id: string): Promise<void> => {
+  const { data, error } = await supabase.from('visit_plans').delete().eq('id', id).select('id');
+  if (error) throw toApiError(error, 'Falha ao excluir o roteiro.');
+  if (data.length === 0) throw forbiddenError();
+};
+
+// The plan a staff member follows on a day: their own, otherwise their department's.
+export const findVisitPlanForStaff = (plans: VisitPlan[], day: string, staffId: string, departmentId?: string): VisitPlan | undefined =>
+  plans.find(plan => plan.day === day && plan.staffId === staffId) ||
+  (departmentId ? plans.find(plan => plan.day === day && !plan.staffId && plan.departmentId === departmentId) : undefined);
+
+// Same rule InformesPage uses to list a staff member's actions: buttons assigned to
+// them, or to nobody in particular, or to their department.
+export const isButtonVisibleTo = (button: ReportButtonConfig, staffId: string, departmentId?: string): boolean =>
+  button.staffId === staffId || (!button.staffId && (!button.departmentId || button.departmentId === departmentId));
+
+// The actions a booth shows: its own buttons (getReportButtonsForBooth) followed by
+// the rest of the event's.
+export const getBoothButtons = (company: ParticipantCompany, eventButtons: ReportButtonConfig[]): ReportButtonConfig[] => {
+  const ownIds = new Set(company.buttonIds || []);
+  return [...eventButtons.filter(b => ownIds.has(b.id)), ...eventButtons.filter(b => !ownIds.has(b.id))];
+};
+
+interface PlannedVisitsInput {
+  plan: VisitPlan;
+  companies: ParticipantCompany[];
+  eventButtons: ReportButtonConfig[];
+  reports: ReportSubmission[];
+  staff: { id: string; name: string; departmentId?: string };
+  // Buttons answered at the current booth that may not be in `reports` yet (offline queue)
+  respondedAtBooth?: { boothCode: string; buttonIds: string[] };
+  today?: string;
+}
+
+// Status of every booth of a plan for one staff member:
+//   * completed: every action they have at the booth was answered that day (or,
+//     with no actions, they sent at least one report there);
+//   * skipped: not completed, but they already reported at a later booth;
+//   * overdue: neither, and the day is over;
+//   * pending: otherwise.
+// Companies removed from the event since the plan was saved are left out.
+export const getPlannedVisits = ({ plan, companies, eventButtons, reports, staff, respondedAtBooth, today = toEventDay() }: PlannedVisitsInput): PlannedVisit[] => {
+  const companiesById = new Map(companies.map(company => [company.id, company]));
+  const dayReports = reports.filter(report => report.staffName === staff.name && toEventDay(report.timestamp) === plan.day);
+  const visibleIds = new Set(eventButtons.filter(b => isButtonVisibleTo(b, staff.id, staff.departmentId)).map(b => b.id));
+
+  const visits = plan.companyIds
+    .map(id => companiesById.get(id))
+    .filter((company): company is ParticipantCompany => !!company)
+    .map(company => {
+      const boothReports = dayReports.filter(report => report.boothCode === company.boothCode);
+      const answeredLabels = new Set(boothReports.map(report => report.reportLabel));
+      const respondedIds = respondedAtBooth?.boothCode === company.boothCode ? respondedAtBooth.buttonIds : [];
+      const buttons = getBoothButtons(company, eventButtons).filter(b => visibleIds.has(b.id));
+      const pendingButtons = buttons.filter(b => !answeredLabels.has(b.label) && !respondedIds.includes(b.id));
+      const visited = boothReports.length > 0 || respondedIds.length > 0;
+      const lastReportAt = boothReports.reduce<string | undefined>(
+        (latest, report) => (!latest || report.timestamp > latest ? report.timestamp : latest),
+        undefined
+      );
+      return { company, buttons, pendingButtons, visited, lastReportAt };
+    });
+
+  return visits.map(({ visited, ...visit }, index) => {
+    const completed = visit.buttons.length > 0 ? visit.pendingButtons.length === 0 : visited;
+    let status = PlannedVisitStatus.PENDENTE;
+    if (completed) {
+      status = PlannedVisitStatus.CONCLUIDA;
+    } else if (visits.slice(index + 1).some(later => later.visited)) {
+      status = PlannedVisitStatus.PULADA;
+    } else if (plan.day < today) {
+      status = PlannedVisitStatus.ATRASADA;
+    }
+    return { ...visit, status };
+  });
+};
+
+// The first booth of the route still to be done, skipped ones excluded.
+export const getNextPlannedVisit = (visits: PlannedVisit[]): PlannedVisit | undefined =>
+  visits.find(visit => visit.status === PlannedVisitStatus.PENDENTE || visit.status === PlannedVisitStatus.ATRASADA);
@@ -0,0 +1,230 @@
+-- Password hashing and signed sessions.
+--
+-- Passwords are stored as bcrypt hashes (pgcrypto, cost 12) in users.password_hash.
+-- Legacy rows that still carry a plaintext users.password are rehashed on their
+-- first successful login and the plaintext column is cleared.
+--
+-- Sessions are issued by app_login as "<payload>.<signature>" where payload is
+-- base64url(json) and signature is base64url(hmac_sha256(payload, secret)). The
+-- signing secret lives in auth_secrets, which is only readable by the
+-- security definer functions below. Every session also has a row in
+-- auth_sessions so it can be revoked before it expires.
+
+create extension if not exists pgcrypto;
+
+alter table users add column if not exists password_hash text;
+
+create table if not exists auth_secrets (
+  name text primary key,
+  value text not null
+);
+alter table auth_secrets enable row level security;
+revoke all on auth_secrets from anon, authenticated;
+
+insert into auth_secrets (name, value)
+values ('session_signing_key', encode(gen_random_bytes(32), 'hex'))
+on conflict (name) do nothing;
+
+create table if not exists auth_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz
+);
+create index if not exists auth_sessions_user_id_idx on auth_sessions (user_id);
+alter table auth_sessions enable row level security;
+revoke all on auth_sessions from anon, authenticated;
+
+-- --- Helpers ---
+
+create or replace function app_base64url(data bytea)
+returns text language sql immutable as $$
+  select translate(rtrim(replace(encode(data, 'base64'), E'\n', ''), '='), '+/', '-_');
+$$;
+
+create or replace function app_base64url_decode(data text)
+returns bytea language sql immutable as $$
+  select decode(
+    rpad(translate(data, '-_', '+/'), ((length(data) + 3) / 4) * 4, '='),
+    'base64'
+  );
+$$;
+
+create or replace function app_hash_password(p_password text)
+returns text language sql volatile as $$
+  select crypt(p_password, gen_salt('bf', 12));
+$$;
+
+create or replace function app_public_user(u users)
+returns jsonb language sql stable as $$
+  select to_jsonb(u) - 'password' - 'password_hash';
+$$;
+
+create or replace function app_sign_session(p_payload text)
+returns text language sql stable security definer set search_path = public as $$
+  select app_base64url(hmac(p_payload, (select value from auth_secrets where name = 'session_signing_key'), 'sha256'));
+$$;
+
+-- Resolves a session token to its user row. Returns null when the signature is
+-- invalid, the session expired or it was revoked.
+create or replace function app_session_user(p_token text)
+returns users language plpgsql stable security definer set search_path = public as $$
+declare
+  v_payload text;
+  v_signature text;
+  v_claims jsonb;
+  v_user users;
+begin
+  if p_token is null or position('.' in p_token) = 0 then
+    return null;
+  end if;
+
+  v_payload := split_part(p_token, '.', 1);
+  v_signature := split_part(p_token, '.', 2);
+
+  if v_signature <> app_sign_session(v_payload) then
+    return null;
+  end if;
+
+  v_claims := convert_from(app_base64url_decode(v_payload), 'utf8')::jsonb;
+
+  if (v_claims->>'exp')::bigint < extract(epoch from now()) then
+    return null;
+  end if;
+
+  select u.* into v_user
+  from auth_sessions s
+  join users u on u.id = s.user_id
+  where s.id = (v_claims->>'sid')::uuid
+    and s.revoked_at is null
+    and s.expires_at > now();
+
+  return v_user;
+end;
+$$;
+
+-- --- Public RPCs ---
+
+create or replace function app_login(p_email text, p_password text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user users;
+  v_session_id uuid;
+  v_expires_at timestamptz;
+  v_payload text;
+begin
+  -- Organizer accounts are shared across events, so the same email can have
+  -- several rows. Any of them with matching credentials is accepted.
+  for v_user in select * from users where email = p_email order by id loop
+    if v_user.password_hash is not null then
+      exit when crypt(p_password, v_user.password_hash) = v_user.password_hash;
+    elsif v_user.password is not null and v_user.password = p_password then
+      -- Legacy plaintext password: rehash it and drop the plaintext copy.
+      update users
+         set password_hash = app_hash_password(p_password),
+             password = null
+       where id = v_user.id
+       returning * into v_user;
+      exit;
+    end if;
+    v_user := null;
+  end loop;
+
+  if v_user.id is null then
+    raise exception 'invalid_credentials' using errcode = '28P01';
+  end if;
+
+  v_expires_at := now() + make_interval(hours => greatest(1, p_ttl_hours));
+  insert into auth_sessions (user_id, expires_at)
+  values (v_user.id, v_expires_at)
+  returning id into v_session_id;
+
+  v_payload := app_base64url(convert_to(jsonb_build_object(
+    'sid', v_session_id,
+    'sub', v_user.id,
+    'role', v_user.role,
+    'is_master', v_user.is_master,
+    'exp', floor(extract(epoch from v_expires_at))::bigint
+  )::text, 'utf8'));
+
+  return jsonb_build_object(
+    'token', v_payload || '.' || app_sign_session(v_payload),
+    'expires_at', v_expires_at,
+    'user', app_public_user(v_user)
+  );
+end;
+$$;
+
+create or replace function app_validate_session(p_token text)
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_user users;
+  v_claims jsonb;
+begin
+  v_user := app_session_user(p_token);
+  if v_user.id is null then
+    return null;
+  end if;
+
+  v_claims := convert_from(app_base64url_decode(split_part(p_token, '.', 1)), 'utf8')::jsonb;
+
+  return jsonb_build_object(
+    'token', p_token,
+    'expires_at', to_timestamp((v_claims->>'exp')::bigint),
+    'user', app_public_user(v_user)
+  );
+end;
+$$;
+
+create or replace function app_logout(p_token text)
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_claims jsonb;
+begin
+  if app_session_user(p_token) is null then
+    return;
+  end if;
+  v_claims := convert_from(app_base64url_decode(split_part(p_token, '.', 1)), 'utf8')::jsonb;
+  update auth_sessions set revoked_at = now() where id = (v_claims->>'sid')::uuid;
+end;
+$$;
+
+-- Sets a user's password. Only master admins may change other users'
+-- passwords; everyone else may only change their own. Changing a password
+-- revokes the target user's other sessions.
+create or replace function app_set_password(p_token text, p_user_id uuid, p_password text)
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_actor users;
+begin
+  v_actor := app_session_user(p_token);
+  if v_actor.id is null then
+    raise exception 'invalid_session' using errcode = '28000';
+  end if;
+  if v_actor.id <> p_user_id and not coalesce(v_actor.is_master, false) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+  if p_password is null or length(p_password) < 6 then
+    raise exception 'weak_password' using errcode = '22023';
+  end if;
+
+  update users
+     set password_hash = app_hash_password(p_password),
+         password = null
+   where id = p_user_id;
+
+  update auth_sessions
+     set revoked_at = now()
+   where user_id = p_user_id
+     and revoked_at is null
+     and id <> (convert_from(app_base64url_decode(split_part(p_token, '.', 1)), 'utf8')::jsonb->>'sid')::uuid;
+end;
+$$;
+
+revoke all on function app_sign_session(text) from public, anon, authenticated;
+revoke all on function app_session_user(text) from public, anon, authenticated;
+grant execute on function app_login(text, text, int) to anon, authenticated;
+grant execute on function app_validate_session(text) to anon, authenticated;
+grant execute on function app_logout(text) to anon, authenticated;
+grant execute on function app_set_password(text, uuid, text) to anon, authenticated;
@@ -0,0 +1,20 @@
+-- Per-event webhook targets for the notification gateway (services/notifications.ts).
+-- A channel with no rows for an event falls back to the built-in default targets.
+
+create table if not exists notification_targets (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  channel text not null check (channel in (
+    'company_call', 'telao', 'sales_checkin', 'sale_sheet', 'staff_alert',
+    'group_alert', 'staff_call', 'booth_completed', 'company_registered'
+  )),
+  name text not null,
+  url text not null,
+  headers jsonb not null default '{}'::jsonb,
+  payload_template text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_targets_event_channel_idx
+  on notification_targets (event_id, channel);
@@ -0,0 +1,26 @@
+-- Durable outbox for notification deliveries (services/notifications.ts).
+-- Every outbound webhook is stored here before it is sent, retried with
+-- exponential backoff while pending, and deduplicated by idempotency_key.
+
+create table if not exists notification_outbox (
+  id uuid primary key default gen_random_uuid(),
+  idempotency_key text not null unique,
+  event_id uuid not null references events(id) on delete cascade,
+  channel text not null,
+  target_name text not null,
+  url text not null,
+  headers jsonb not null default '{}'::jsonb,
+  body jsonb,
+  status text not null default 'pending' check (status in ('pending', 'sending', 'delivered', 'failed')),
+  attempts int not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  locked_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_outbox_due_idx
+  on notification_outbox (status, next_attempt_at);
+create index if not exists notification_outbox_event_idx
+  on notification_outbox (event_id, created_at desc);
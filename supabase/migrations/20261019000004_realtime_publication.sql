@@ -0,0 +1,25 @@
+-- Publish row changes for the tables the client subscribes to (services/realtime.ts).
+-- Full replica identity lets UPDATE filters match on non-key columns such as
+-- event_id / department_id.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['company_calls', 'telao_requests', 'stock_movements', 'staff_activities'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+    execute format('alter table public.%I replica identity full', t);
+  end loop;
+end $$;
+
+-- Every pushed change triggers a refetch scoped by these columns.
+create index if not exists company_calls_department_id_idx on company_calls (department_id);
+create index if not exists company_calls_event_id_idx on company_calls (event_id);
+create index if not exists telao_requests_event_id_idx on telao_requests (event_id);
+create index if not exists stock_movements_company_id_idx on stock_movements (company_id);
+create index if not exists staff_activities_event_id_idx on staff_activities (event_id);
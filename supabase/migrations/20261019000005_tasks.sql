@@ -0,0 +1,86 @@
+-- First-class tasks assigned to staff members (services/api.ts, "Tasks").
+-- Tasks used to live in staff_activities as free text
+-- ("Tarefa atribuída: Realizar 'X' na empresa 'Y' [CODE]. Descrição: ...")
+-- and were matched back by string comparison. Completions are still logged as
+-- staff activities so they keep counting towards the rankings.
+
+create table if not exists tasks (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  staff_id uuid not null references staff(id) on delete cascade,
+  company_id uuid references participant_companies(id) on delete set null,
+  button_id uuid references report_button_configs(id) on delete set null,
+  action_label text not null,
+  details text not null default '',
+  priority text not null default 'normal' check (priority in ('baixa', 'normal', 'alta')),
+  status text not null default 'Pendente' check (status in ('Pendente', 'Concluída', 'Cancelada')),
+  due_at timestamptz,
+  completed_at timestamptz,
+  cancelled_at timestamptz,
+  legacy_activity_id uuid unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists tasks_event_status_idx on tasks (event_id, status);
+create index if not exists tasks_staff_status_idx on tasks (staff_id, status);
+
+-- Import the description-encoded tasks. Companies are matched by booth code
+-- when the description has one, otherwise by name within the same event.
+with assigned as (
+  select
+    a.id,
+    a.event_id,
+    a.staff_id,
+    a.timestamp,
+    a.description,
+    substring(a.description from 'Realizar ''([^'']+)'' na empresa') as action_label,
+    substring(a.description from 'na empresa ''([^'']+)''') as company_name,
+    substring(a.description from 'na empresa ''[^'']+'' \[([^\]]+)\]') as booth_code,
+    substring(a.description from 'Descrição: (.*)$') as details
+  from staff_activities a
+  where a.description like 'Tarefa atribuída:%'
+)
+insert into tasks (event_id, staff_id, company_id, action_label, details, status, completed_at, legacy_activity_id, created_at, updated_at)
+select
+  t.event_id,
+  t.staff_id,
+  coalesce(
+    (select c.id from participant_companies c where c.event_id = t.event_id and c.booth_code = t.booth_code limit 1),
+    (select c.id from participant_companies c where c.event_id = t.event_id and c.name = t.company_name limit 1)
+  ),
+  t.action_label,
+  coalesce(t.details, ''),
+  case when done.timestamp is null then 'Pendente' else 'Concluída' end,
+  done.timestamp,
+  t.id,
+  t.timestamp,
+  coalesce(done.timestamp, t.timestamp)
+from assigned t
+left join lateral (
+  select min(d.timestamp) as timestamp
+  from staff_activities d
+  where d.staff_id = t.staff_id
+    and d.event_id = t.event_id
+    and d.description = replace(t.description, 'Tarefa atribuída:', 'Tarefa concluída:')
+) done on true
+where t.action_label is not null
+on conflict (legacy_activity_id) do nothing;
+
+-- The old assignment rows are no longer read; completions stay as activity history.
+delete from staff_activities a
+where a.description like 'Tarefa atribuída:%'
+  and exists (select 1 from tasks t where t.legacy_activity_id = a.id);
+
+-- Staff phones pick up new and reassigned tasks over realtime.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'tasks'
+  ) then
+    alter publication supabase_realtime add table public.tasks;
+  end if;
+end $$;
+
+alter table tasks replica identity full;
@@ -0,0 +1,56 @@
+-- Scope report button configurations to an event. Until now every organizer
+-- listed and edited every row in report_button_configs.
+
+alter table report_button_configs
+  add column if not exists event_id uuid references events(id) on delete cascade;
+
+create index if not exists report_button_configs_event_id_idx on report_button_configs (event_id);
+
+-- Backfill: a button belongs to every event that uses it, either through a
+-- participant company's button_ids, its department, or its assigned staff
+-- member. The first event keeps the row; every other event gets its own copy
+-- and that event's companies are repointed to the copy.
+do $$
+declare
+  r record;
+  copy_id uuid;
+begin
+  for r in
+    select distinct usage.button_id, usage.event_id
+    from (
+      select b.id as button_id, pc.event_id
+      from report_button_configs b
+      join participant_companies pc on b.id = any(pc.button_ids)
+      union
+      select b.id, d.event_id
+      from report_button_configs b
+      join departments d on d.id = b.department_id
+      union
+      select b.id, a.event_id
+      from report_button_configs b
+      join staff_event_assignments a on a.staff_id = b.staff_id
+    ) usage
+    join report_button_configs b on b.id = usage.button_id
+    where b.event_id is null
+    order by usage.button_id, usage.event_id
+  loop
+    if exists (select 1 from report_button_configs where id = r.button_id and event_id is null) then
+      update report_button_configs set event_id = r.event_id where id = r.button_id;
+    else
+      insert into report_button_configs
+      select (jsonb_populate_record(
+        null::report_button_configs,
+        to_jsonb(b) || jsonb_build_object('id', gen_random_uuid(), 'event_id', r.event_id)
+      )).*
+      from report_button_configs b
+      where b.id = r.button_id
+      returning id into copy_id;
+
+      update participant_companies
+      set button_ids = array_replace(button_ids, r.button_id, copy_id)
+      where event_id = r.event_id and r.button_id = any(button_ids);
+    end if;
+  end loop;
+end $$;
+
+-- Rows no event uses are left with a null event_id and no longer show up anywhere.
@@ -0,0 +1,46 @@
+-- Per-event feature modules (services/eventModules.ts). Replaces the internal
+-- report_button_configs rows labelled __SALES_CHECKIN_CONFIG__,
+-- __NOTIFY_CALL_CONFIG__ and __STOCK_CONTROL_CONFIG__, one per authorised staff member.
+
+create table if not exists event_modules (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  module text not null check (module in ('sales_checkin', 'notify_call', 'stock_control')),
+  is_enabled boolean not null default false,
+  staff_ids uuid[] not null default '{}',
+  department_ids uuid[] not null default '{}',
+  options jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now(),
+  unique (event_id, module)
+);
+
+-- Convert the magic rows. Staff come from staff_id and, where present, allowed_staff_ids.
+with magic as (
+  select
+    b.event_id,
+    case b.label
+      when '__SALES_CHECKIN_CONFIG__' then 'sales_checkin'
+      when '__NOTIFY_CALL_CONFIG__' then 'notify_call'
+      when '__STOCK_CONTROL_CONFIG__' then 'stock_control'
+    end as module,
+    b.staff_id,
+    coalesce(to_jsonb(b.allowed_staff_ids), '[]'::jsonb) as allowed_staff_ids
+  from report_button_configs b
+  where b.event_id is not null
+    and b.label in ('__SALES_CHECKIN_CONFIG__', '__NOTIFY_CALL_CONFIG__', '__STOCK_CONTROL_CONFIG__')
+),
+staff as (
+  select event_id, module, staff_id from magic where staff_id is not null
+  union
+  select m.event_id, m.module, allowed.value::uuid
+  from magic m
+  cross join lateral jsonb_array_elements_text(m.allowed_staff_ids) as allowed(value)
+)
+insert into event_modules (event_id, module, is_enabled, staff_ids)
+select event_id, module, true, array_agg(distinct staff_id)
+from staff
+group by event_id, module
+on conflict (event_id, module) do nothing;
+
+delete from report_button_configs
+where label in ('__SALES_CHECKIN_CONFIG__', '__NOTIFY_CALL_CONFIG__', '__STOCK_CONTROL_CONFIG__');
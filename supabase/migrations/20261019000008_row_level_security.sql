@@ -0,0 +1,677 @@
+-- Server-enforced permissions.
+--
+-- Until now every table was readable and writable with the anon key. Sessions
+-- are now issued as standard HS256 JWTs signed with the project's JWT secret,
+-- so PostgREST and Realtime accept them as bearer tokens (role
+-- "authenticated") and row-level security can scope every request:
+--
+--   * master admins see everything;
+--   * organizers see the events of their organizer company, other admins
+--     only the event on their user row;
+--   * staff check-ins (app_staff_checkin) are limited to their assigned event;
+--   * collaborator check-ins (app_collaborator_checkin) are limited to their
+--     company, plus the event-wide lists they need (departments, buttons).
+--
+-- Requests without a session token only reach the login and check-in RPCs.
+-- Policies read the session through the helpers below, so a revoked session
+-- loses access immediately even though its JWT has not expired yet.
+--
+-- The JWT secret is taken from app.settings.jwt_secret when the project exposes
+-- it. Otherwise insert it by hand (Project Settings > API > JWT Secret):
+--   insert into auth_secrets (name, value) values ('jwt_secret', '<secret>');
+
+insert into auth_secrets (name, value)
+select 'jwt_secret', current_setting('app.settings.jwt_secret', true)
+where coalesce(current_setting('app.settings.jwt_secret', true), '') <> ''
+on conflict (name) do nothing;
+
+delete from auth_secrets where name = 'session_signing_key';
+
+-- Sessions now belong to a user, a checked-in staff member or a checked-in
+-- collaborator. Booth sessions are pinned to the event they checked in at.
+alter table auth_sessions alter column user_id drop not null;
+alter table auth_sessions add column if not exists staff_id uuid references staff(id) on delete cascade;
+alter table auth_sessions add column if not exists collaborator_id uuid references collaborators(id) on delete cascade;
+alter table auth_sessions add column if not exists event_id uuid references events(id) on delete cascade;
+alter table auth_sessions drop constraint if exists auth_sessions_principal_check;
+alter table auth_sessions add constraint auth_sessions_principal_check check (
+  num_nonnulls(user_id, staff_id, collaborator_id) = 1
+  and (user_id is not null or event_id is not null)
+);
+
+-- --- Tokens ---
+
+-- Existing "<payload>.<signature>" tokens no longer verify; their users simply
+-- log in again.
+create or replace function app_sign_session(p_payload text)
+returns text language plpgsql stable security definer set search_path = public as $$
+declare
+  v_secret text;
+begin
+  select value into v_secret from auth_secrets where name = 'jwt_secret';
+  if v_secret is null then
+    raise exception 'jwt_secret_missing';
+  end if;
+  return app_base64url(hmac(p_payload, v_secret, 'sha256'));
+end;
+$$;
+
+-- Opens a session for exactly one principal and returns its signed token.
+create or replace function app_open_session(
+  p_user_id uuid,
+  p_staff_id uuid,
+  p_collaborator_id uuid,
+  p_event_id uuid,
+  p_ttl_hours int
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_session auth_sessions;
+  v_header text;
+  v_payload text;
+begin
+  insert into auth_sessions (user_id, staff_id, collaborator_id, event_id, expires_at)
+  values (p_user_id, p_staff_id, p_collaborator_id, p_event_id, now() + make_interval(hours => greatest(1, p_ttl_hours)))
+  returning * into v_session;
+
+  v_header := app_base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'));
+  v_payload := app_base64url(convert_to(jsonb_build_object(
+    'sid', v_session.id,
+    'sub', coalesce(p_user_id, p_staff_id, p_collaborator_id),
+    'role', 'authenticated',
+    'aud', 'authenticated',
+    'iat', floor(extract(epoch from v_session.created_at))::bigint,
+    'exp', floor(extract(epoch from v_session.expires_at))::bigint
+  )::text, 'utf8'));
+
+  return jsonb_build_object(
+    'token', v_header || '.' || v_payload || '.' || app_sign_session(v_header || '.' || v_payload),
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
+
+-- Verified claims of a token, or null when the signature is invalid or the
+-- token expired. Revocation is checked separately against auth_sessions.
+create or replace function app_token_claims(p_token text)
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_signed text;
+  v_claims jsonb;
+begin
+  if p_token is null or array_length(string_to_array(p_token, '.'), 1) <> 3 then
+    return null;
+  end if;
+
+  v_signed := split_part(p_token, '.', 1) || '.' || split_part(p_token, '.', 2);
+  if split_part(p_token, '.', 3) <> app_sign_session(v_signed) then
+    return null;
+  end if;
+
+  v_claims := convert_from(app_base64url_decode(split_part(p_token, '.', 2)), 'utf8')::jsonb;
+  if (v_claims->>'exp')::bigint < extract(epoch from now()) then
+    return null;
+  end if;
+
+  return v_claims;
+end;
+$$;
+
+create or replace function app_session_user(p_token text)
+returns users language plpgsql stable security definer set search_path = public as $$
+declare
+  v_claims jsonb;
+  v_user users;
+begin
+  v_claims := app_token_claims(p_token);
+  if v_claims is null then
+    return null;
+  end if;
+
+  select u.* into v_user
+  from auth_sessions s
+  join users u on u.id = s.user_id
+  where s.id = (v_claims->>'sid')::uuid
+    and s.revoked_at is null
+    and s.expires_at > now();
+
+  return v_user;
+end;
+$$;
+
+-- --- Request Scope ---
+-- Used by the policies below. They run as the caller but read auth tables, so
+-- they are security definer. Array-returning helpers are meant to be wrapped in
+-- a scalar subquery, e.g. `event_id = any((select app_accessible_event_ids()))`,
+-- so they are evaluated once per statement instead of once per row.
+
+create or replace function app_current_session()
+returns auth_sessions language sql stable security definer set search_path = public as $$
+  select s.*
+  from auth_sessions s
+  where s.id = nullif(nullif(current_setting('request.jwt.claims', true), '')::jsonb->>'sid', '')::uuid
+    and s.revoked_at is null
+    and s.expires_at > now();
+$$;
+
+create or replace function app_is_master()
+returns boolean language sql stable security definer set search_path = public as $$
+  select coalesce((
+    select u.is_master
+    from users u
+    where u.id = (select user_id from app_current_session())
+  ), false);
+$$;
+
+create or replace function app_current_user_id()
+returns uuid language sql stable security definer set search_path = public as $$
+  select user_id from app_current_session();
+$$;
+
+create or replace function app_current_staff_id()
+returns uuid language sql stable security definer set search_path = public as $$
+  select staff_id from app_current_session();
+$$;
+
+create or replace function app_current_collaborator_id()
+returns uuid language sql stable security definer set search_path = public as $$
+  select collaborator_id from app_current_session();
+$$;
+
+-- Events an admin or organizer session may manage.
+create or replace function app_managed_event_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select coalesce(array_agg(e.id), '{}')
+  from users u
+  join events e on
+    u.is_master
+    or (u.role = 'organizer' and e.organizer_company_id = (select organizer_company_id from events where id = u.event_id))
+    or (u.role = 'admin' and e.id = u.event_id)
+  where u.id = (select user_id from app_current_session());
+$$;
+
+-- Events whose day-to-day data (reports, activities, tasks, calls) the session
+-- may work with: managed events plus a staff member's check-in event.
+create or replace function app_operated_event_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select app_managed_event_ids() || coalesce((
+    select array[s.event_id] from app_current_session() s where s.staff_id is not null
+  ), '{}');
+$$;
+
+-- Events whose shared configuration the session may read; collaborators
+-- included.
+create or replace function app_accessible_event_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select app_operated_event_ids() || coalesce((
+    select array[s.event_id] from app_current_session() s where s.collaborator_id is not null
+  ), '{}');
+$$;
+
+create or replace function app_managed_company_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select coalesce(array_agg(pc.id), '{}')
+  from participant_companies pc
+  where pc.event_id = any(app_managed_event_ids());
+$$;
+
+-- Participant companies the session may read and work with. A collaborator
+-- only ever gets their own company.
+create or replace function app_accessible_company_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select case
+    when s.collaborator_id is not null then coalesce((
+      select array[c.company_id] from collaborators c where c.id = s.collaborator_id
+    ), '{}')
+    else coalesce((
+      select array_agg(pc.id) from participant_companies pc where pc.event_id = any(app_operated_event_ids())
+    ), '{}')
+  end
+  from (select (app_current_session()).*) s;
+$$;
+
+create or replace function app_managed_organizer_company_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select case
+    when app_is_master() then (select coalesce(array_agg(id), '{}') from organizer_companies)
+    else (
+      select coalesce(array_agg(distinct e.organizer_company_id), '{}')
+      from events e
+      where e.id = any(app_managed_event_ids())
+    )
+  end;
+$$;
+
+create or replace function app_accessible_organizer_company_ids()
+returns uuid[] language sql stable security definer set search_path = public as $$
+  select app_managed_organizer_company_ids() || (
+    select coalesce(array_agg(distinct e.organizer_company_id), '{}')
+    from events e
+    where e.id = any(app_accessible_event_ids())
+  );
+$$;
+
+-- --- Public RPCs ---
+
+create or replace function app_login(p_email text, p_password text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user users;
+begin
+  -- Organizer accounts are shared across events, so the same email can have
+  -- several rows. Any of them with matching credentials is accepted.
+  for v_user in select * from users where email = p_email order by id loop
+    if v_user.password_hash is not null then
+      exit when crypt(p_password, v_user.password_hash) = v_user.password_hash;
+    elsif v_user.password is not null and v_user.password = p_password then
+      -- Legacy plaintext password: rehash it and drop the plaintext copy.
+      update users
+         set password_hash = app_hash_password(p_password),
+             password = null
+       where id = v_user.id
+       returning * into v_user;
+      exit;
+    end if;
+    v_user := null;
+  end loop;
+
+  if v_user.id is null then
+    raise exception 'invalid_credentials' using errcode = '28P01';
+  end if;
+
+  return app_open_session(v_user.id, null, null, null, p_ttl_hours)
+    || jsonb_build_object('user', app_public_user(v_user));
+end;
+$$;
+
+create or replace function app_validate_session(p_token text)
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_user users;
+begin
+  v_user := app_session_user(p_token);
+  if v_user.id is null then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'token', p_token,
+    'expires_at', to_timestamp((app_token_claims(p_token)->>'exp')::bigint),
+    'user', app_public_user(v_user)
+  );
+end;
+$$;
+
+-- Revokes any kind of session, user or booth.
+create or replace function app_logout(p_token text)
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_claims jsonb;
+begin
+  v_claims := app_token_claims(p_token);
+  if v_claims is null then
+    return;
+  end if;
+  update auth_sessions set revoked_at = now() where id = (v_claims->>'sid')::uuid and revoked_at is null;
+end;
+$$;
+
+create or replace function app_set_password(p_token text, p_user_id uuid, p_password text)
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_actor users;
+begin
+  v_actor := app_session_user(p_token);
+  if v_actor.id is null then
+    raise exception 'invalid_session' using errcode = '28000';
+  end if;
+  if v_actor.id <> p_user_id and not coalesce(v_actor.is_master, false) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+  if p_password is null or length(p_password) < 6 then
+    raise exception 'weak_password' using errcode = '22023';
+  end if;
+
+  update users
+     set password_hash = app_hash_password(p_password),
+         password = null
+   where id = p_user_id;
+
+  update auth_sessions
+     set revoked_at = now()
+   where user_id = p_user_id
+     and revoked_at is null
+     and id <> (app_token_claims(p_token)->>'sid')::uuid;
+end;
+$$;
+
+-- Staff check-in: booth code of any company in the event plus the staff
+-- member's personal code. The session is scoped to that event.
+create or replace function app_staff_checkin(p_booth_code text, p_personal_code text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_company participant_companies;
+  v_event events;
+  v_staff staff;
+  v_department_id uuid;
+begin
+  select * into v_company from participant_companies where booth_code = upper(p_booth_code) limit 1;
+  if v_company.id is null then
+    raise exception 'invalid_booth_code' using errcode = 'P0002';
+  end if;
+
+  select * into v_event from events where id = v_company.event_id;
+  if v_event.id is null or not v_event.is_active then
+    raise exception 'event_inactive' using errcode = '55000';
+  end if;
+
+  -- Personal codes are only unique per organizer company.
+  select * into v_staff
+  from staff
+  where personal_code = upper(p_personal_code)
+  order by (organizer_company_id = v_event.organizer_company_id) desc
+  limit 1;
+  if v_staff.id is null then
+    raise exception 'invalid_personal_code' using errcode = 'P0002';
+  end if;
+
+  select department_id into v_department_id
+  from staff_event_assignments
+  where staff_id = v_staff.id and event_id = v_event.id;
+  if not found then
+    raise exception 'staff_not_assigned' using errcode = '42501';
+  end if;
+
+  if v_staff.organizer_company_id is distinct from v_event.organizer_company_id then
+    raise exception 'organization_mismatch' using errcode = '42501';
+  end if;
+
+  return app_open_session(null, v_staff.id, null, v_event.id, p_ttl_hours) || jsonb_build_object(
+    'staff', to_jsonb(v_staff) || jsonb_build_object('department_id', v_department_id),
+    'company', to_jsonb(v_company),
+    'event', to_jsonb(v_event)
+  );
+end;
+$$;
+
+-- Collaborator check-in: their company's booth code plus their collaborator
+-- code. The session is scoped to that company.
+create or replace function app_collaborator_checkin(p_booth_code text, p_collaborator_code text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_company participant_companies;
+  v_event events;
+  v_collaborator collaborators;
+begin
+  select * into v_company from participant_companies where booth_code = upper(p_booth_code) limit 1;
+  if v_company.id is null then
+    raise exception 'invalid_booth_code' using errcode = 'P0002';
+  end if;
+
+  select * into v_event from events where id = v_company.event_id;
+  if v_event.id is null or not v_event.is_active then
+    raise exception 'event_inactive' using errcode = '55000';
+  end if;
+
+  select * into v_collaborator
+  from collaborators
+  where collaborator_code = upper(p_collaborator_code) and company_id = v_company.id;
+  if v_collaborator.id is null then
+    raise exception 'invalid_collaborator_code' using errcode = 'P0002';
+  end if;
+
+  return app_open_session(null, null, v_collaborator.id, v_event.id, p_ttl_hours) || jsonb_build_object(
+    'collaborator', to_jsonb(v_collaborator),
+    'company', to_jsonb(v_company),
+    'event', to_jsonb(v_event)
+  );
+end;
+$$;
+
+revoke all on function app_sign_session(text) from public, anon, authenticated;
+revoke all on function app_session_user(text) from public, anon, authenticated;
+revoke all on function app_token_claims(text) from public, anon, authenticated;
+revoke all on function app_open_session(uuid, uuid, uuid, uuid, int) from public, anon, authenticated;
+grant execute on function app_login(text, text, int) to anon, authenticated;
+grant execute on function app_validate_session(text) to anon, authenticated;
+grant execute on function app_logout(text) to anon, authenticated;
+grant execute on function app_set_password(text, uuid, text) to anon, authenticated;
+grant execute on function app_staff_checkin(text, text, int) to anon, authenticated;
+grant execute on function app_collaborator_checkin(text, text, int) to anon, authenticated;
+
+-- --- Policies ---
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'events', 'organizer_companies', 'users', 'participant_companies', 'departments',
+    'staff', 'staff_event_assignments', 'report_button_configs', 'event_modules',
+    'notification_targets', 'notification_outbox', 'telao_notification_recipients',
+    'reports', 'staff_activities', 'tasks', 'company_calls', 'telao_requests',
+    'stock_movements', 'vehicle_stock', 'collaborators', 'alert_logs'
+  ] loop
+    execute format('alter table public.%I enable row level security', t);
+  end loop;
+end $$;
+
+-- Event configuration: readable by everyone working the event, written by
+-- the people managing it.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'departments', 'report_button_configs', 'event_modules',
+    'notification_targets', 'telao_notification_recipients'
+  ] loop
+    execute format('drop policy if exists %I on public.%I', t || '_select', t);
+    execute format('drop policy if exists %I on public.%I', t || '_write', t);
+    execute format(
+      'create policy %I on public.%I for select using (event_id = any((select app_accessible_event_ids())))',
+      t || '_select', t
+    );
+    execute format(
+      'create policy %I on public.%I for all using (event_id = any((select app_managed_event_ids()))) with check (event_id = any((select app_managed_event_ids())))',
+      t || '_write', t
+    );
+  end loop;
+end $$;
+
+-- Notifications are delivered from whichever client raised them, booths
+-- included, so the outbox is open to the whole event.
+drop policy if exists notification_outbox_all on notification_outbox;
+create policy notification_outbox_all on notification_outbox for all
+  using (event_id = any((select app_accessible_event_ids())))
+  with check (event_id = any((select app_accessible_event_ids())));
+
+drop policy if exists events_select on events;
+drop policy if exists events_insert on events;
+drop policy if exists events_update on events;
+drop policy if exists events_delete on events;
+create policy events_select on events for select using (id = any((select app_accessible_event_ids())));
+create policy events_insert on events for insert with check ((select app_is_master()));
+create policy events_update on events for update
+  using (id = any((select app_managed_event_ids())))
+  with check (id = any((select app_managed_event_ids())));
+create policy events_delete on events for delete using ((select app_is_master()));
+
+drop policy if exists organizer_companies_select on organizer_companies;
+drop policy if exists organizer_companies_insert on organizer_companies;
+drop policy if exists organizer_companies_update on organizer_companies;
+drop policy if exists organizer_companies_delete on organizer_companies;
+create policy organizer_companies_select on organizer_companies for select
+  using (id = any((select app_accessible_organizer_company_ids())));
+create policy organizer_companies_insert on organizer_companies for insert with check ((select app_is_master()));
+create policy organizer_companies_update on organizer_companies for update
+  using (id = any((select app_managed_organizer_company_ids())))
+  with check (id = any((select app_managed_organizer_company_ids())));
+create policy organizer_companies_delete on organizer_companies for delete using ((select app_is_master()));
+
+-- Users see themselves; organizers also see the accounts of their events.
+drop policy if exists users_select on users;
+drop policy if exists users_insert on users;
+drop policy if exists users_update on users;
+drop policy if exists users_delete on users;
+create policy users_select on users for select using (
+  (select app_is_master())
+  or id = (select app_current_user_id())
+  or event_id = any((select app_managed_event_ids()))
+);
+create policy users_insert on users for insert with check ((select app_is_master()));
+create policy users_update on users for update
+  using ((select app_is_master()) or id = (select app_current_user_id()))
+  with check ((select app_is_master()) or id = (select app_current_user_id()));
+create policy users_delete on users for delete using ((select app_is_master()));
+
+-- Self-service updates may not touch privileges or credentials.
+create or replace function app_protect_user_columns()
+returns trigger language plpgsql as $$
+begin
+  if current_user in ('anon', 'authenticated') and not app_is_master() and (
+    new.role is distinct from old.role
+    or new.is_master is distinct from old.is_master
+    or new.event_id is distinct from old.event_id
+    or new.password is distinct from old.password
+    or new.password_hash is distinct from old.password_hash
+  ) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_protect_columns on users;
+create trigger users_protect_columns before update on users
+  for each row execute function app_protect_user_columns();
+
+drop policy if exists participant_companies_select on participant_companies;
+drop policy if exists participant_companies_write on participant_companies;
+create policy participant_companies_select on participant_companies for select
+  using (id = any((select app_accessible_company_ids())));
+create policy participant_companies_write on participant_companies for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+
+-- Staff belong to an organizer company; booths see the staff of their event.
+drop policy if exists staff_select on staff;
+drop policy if exists staff_write on staff;
+create policy staff_select on staff for select using (
+  organizer_company_id = any((select app_managed_organizer_company_ids()))
+  or exists (
+    select 1 from staff_event_assignments a
+    where a.staff_id = staff.id and a.event_id = any((select app_accessible_event_ids()))
+  )
+);
+create policy staff_write on staff for all
+  using (organizer_company_id = any((select app_managed_organizer_company_ids())))
+  with check (organizer_company_id = any((select app_managed_organizer_company_ids())));
+
+drop policy if exists staff_event_assignments_select on staff_event_assignments;
+drop policy if exists staff_event_assignments_write on staff_event_assignments;
+create policy staff_event_assignments_select on staff_event_assignments for select
+  using (event_id = any((select app_accessible_event_ids())));
+create policy staff_event_assignments_write on staff_event_assignments for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+
+-- Booth records: staff add them, managers may also correct or remove them.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['reports', 'staff_activities'] loop
+    execute format('drop policy if exists %I on public.%I', t || '_select', t);
+    execute format('drop policy if exists %I on public.%I', t || '_insert', t);
+    execute format('drop policy if exists %I on public.%I', t || '_manage', t);
+    execute format(
+      'create policy %I on public.%I for select using (event_id = any((select app_operated_event_ids())))',
+      t || '_select', t
+    );
+    execute format(
+      'create policy %I on public.%I for insert with check (event_id = any((select app_operated_event_ids())))',
+      t || '_insert', t
+    );
+    execute format(
+      'create policy %I on public.%I for all using (event_id = any((select app_managed_event_ids()))) with check (event_id = any((select app_managed_event_ids())))',
+      t || '_manage', t
+    );
+  end loop;
+end $$;
+
+-- Tasks: managers assign them, the assignee completes them.
+drop policy if exists tasks_select on tasks;
+drop policy if exists tasks_manage on tasks;
+drop policy if exists tasks_complete on tasks;
+create policy tasks_select on tasks for select using (event_id = any((select app_operated_event_ids())));
+create policy tasks_manage on tasks for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+create policy tasks_complete on tasks for update
+  using (staff_id = (select app_current_staff_id()))
+  with check (staff_id = (select app_current_staff_id()));
+
+-- Calls and telão requests are opened from a company's booth and handled by
+-- the event's staff.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['company_calls', 'telao_requests'] loop
+    execute format('drop policy if exists %I on public.%I', t || '_select', t);
+    execute format('drop policy if exists %I on public.%I', t || '_insert', t);
+    execute format('drop policy if exists %I on public.%I', t || '_update', t);
+    execute format('drop policy if exists %I on public.%I', t || '_delete', t);
+    execute format(
+      'create policy %I on public.%I for select using (event_id = any((select app_operated_event_ids())) or participant_company_id = any((select app_accessible_company_ids())))',
+      t || '_select', t
+    );
+    execute format(
+      'create policy %I on public.%I for insert with check (event_id = any((select app_operated_event_ids())) or participant_company_id = any((select app_accessible_company_ids())))',
+      t || '_insert', t
+    );
+    execute format(
+      'create policy %I on public.%I for update using (event_id = any((select app_operated_event_ids()))) with check (event_id = any((select app_operated_event_ids())))',
+      t || '_update', t
+    );
+    execute format(
+      'create policy %I on public.%I for delete using (event_id = any((select app_managed_event_ids())))',
+      t || '_delete', t
+    );
+  end loop;
+end $$;
+
+-- Company-owned data.
+drop policy if exists vehicle_stock_all on vehicle_stock;
+create policy vehicle_stock_all on vehicle_stock for all
+  using (company_id = any((select app_accessible_company_ids())))
+  with check (company_id = any((select app_accessible_company_ids())));
+
+drop policy if exists stock_movements_select on stock_movements;
+drop policy if exists stock_movements_insert on stock_movements;
+drop policy if exists stock_movements_manage on stock_movements;
+create policy stock_movements_select on stock_movements for select
+  using (company_id = any((select app_accessible_company_ids())));
+create policy stock_movements_insert on stock_movements for insert
+  with check (company_id = any((select app_accessible_company_ids())));
+create policy stock_movements_manage on stock_movements for all
+  using (company_id = any((select app_managed_company_ids())))
+  with check (company_id = any((select app_managed_company_ids())));
+
+drop policy if exists collaborators_select on collaborators;
+drop policy if exists collaborators_manage on collaborators;
+drop policy if exists collaborators_update_self on collaborators;
+create policy collaborators_select on collaborators for select
+  using (company_id = any((select app_accessible_company_ids())));
+create policy collaborators_manage on collaborators for all
+  using (company_id = any((select app_managed_company_ids())))
+  with check (company_id = any((select app_managed_company_ids())));
+create policy collaborators_update_self on collaborators for update
+  using (id = (select app_current_collaborator_id()))
+  with check (id = (select app_current_collaborator_id()) and company_id = any((select app_accessible_company_ids())));
+
+drop policy if exists alert_logs_all on alert_logs;
+create policy alert_logs_all on alert_logs for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
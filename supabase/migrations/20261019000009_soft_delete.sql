@@ -0,0 +1,243 @@
+-- Soft delete for events, participant companies, staff and vehicles.
+--
+-- Deleting from the admin screens now only sets deleted_at; the row disappears
+-- from the app and shows up in the "Lixeira" (trash) instead. Trashed rows can be
+-- restored for 30 days (TRASH_RETENTION_DAYS in services/api.ts). Permanently
+-- deleting them, which used to be what every delete did, is reserved for master
+-- admins.
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['events', 'participant_companies', 'staff', 'vehicle_stock'] loop
+    execute format('alter table public.%I add column if not exists deleted_at timestamptz', t);
+    execute format('create index if not exists %I on public.%I (deleted_at) where deleted_at is not null', t || '_deleted_at_idx', t);
+  end loop;
+end $$;
+
+-- Restoring is only possible inside the retention window.
+create or replace function app_guard_restore()
+returns trigger language plpgsql as $$
+begin
+  if old.deleted_at is not null and new.deleted_at is null
+     and old.deleted_at < now() - interval '30 days' then
+    raise exception 'restore_window_expired' using errcode = '55000';
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['events', 'participant_companies', 'staff', 'vehicle_stock'] loop
+    execute format('drop trigger if exists %I on public.%I', t || '_guard_restore', t);
+    execute format(
+      'create trigger %I before update of deleted_at on public.%I for each row execute function app_guard_restore()',
+      t || '_guard_restore', t
+    );
+  end loop;
+end $$;
+
+-- Trashing a staff member or an event ends the booth sessions that depend on it.
+create or replace function app_revoke_trashed_sessions()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    if tg_table_name = 'staff' then
+      update auth_sessions set revoked_at = now() where staff_id = new.id and revoked_at is null;
+    else
+      update auth_sessions set revoked_at = now() where event_id = new.id and user_id is null and revoked_at is null;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists staff_revoke_trashed_sessions on staff;
+create trigger staff_revoke_trashed_sessions after update of deleted_at on staff
+  for each row execute function app_revoke_trashed_sessions();
+
+drop trigger if exists events_revoke_trashed_sessions on events;
+create trigger events_revoke_trashed_sessions after update of deleted_at on events
+  for each row execute function app_revoke_trashed_sessions();
+
+-- --- Check-in ---
+-- Same as before, but trashed events, companies and staff no longer check in.
+
+-- Staff check-in: booth code of any company in the event plus the staff
+-- member's personal code. The session is scoped to that event.
+create or replace function app_staff_checkin(p_booth_code text, p_personal_code text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_company participant_companies;
+  v_event events;
+  v_staff staff;
+  v_department_id uuid;
+begin
+  select * into v_company
+  from participant_companies
+  where booth_code = upper(p_booth_code) and deleted_at is null
+  limit 1;
+  if v_company.id is null then
+    raise exception 'invalid_booth_code' using errcode = 'P0002';
+  end if;
+
+  select * into v_event from events where id = v_company.event_id;
+  if v_event.id is null or not v_event.is_active or v_event.deleted_at is not null then
+    raise exception 'event_inactive' using errcode = '55000';
+  end if;
+
+  -- Personal codes are only unique per organizer company.
+  select * into v_staff
+  from staff
+  where personal_code = upper(p_personal_code) and deleted_at is null
+  order by (organizer_company_id = v_event.organizer_company_id) desc
+  limit 1;
+  if v_staff.id is null then
+    raise exception 'invalid_personal_code' using errcode = 'P0002';
+  end if;
+
+  select department_id into v_department_id
+  from staff_event_assignments
+  where staff_id = v_staff.id and event_id = v_event.id;
+  if not found then
+    raise exception 'staff_not_assigned' using errcode = '42501';
+  end if;
+
+  if v_staff.organizer_company_id is distinct from v_event.organizer_company_id then
+    raise exception 'organization_mismatch' using errcode = '42501';
+  end if;
+
+  return app_open_session(null, v_staff.id, null, v_event.id, p_ttl_hours) || jsonb_build_object(
+    'staff', to_jsonb(v_staff) || jsonb_build_object('department_id', v_department_id),
+    'company', to_jsonb(v_company),
+    'event', to_jsonb(v_event)
+  );
+end;
+$$;
+
+-- Collaborator check-in: their company's booth code plus their collaborator
+-- code. The session is scoped to that company.
+create or replace function app_collaborator_checkin(p_booth_code text, p_collaborator_code text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_company participant_companies;
+  v_event events;
+  v_collaborator collaborators;
+begin
+  select * into v_company
+  from participant_companies
+  where booth_code = upper(p_booth_code) and deleted_at is null
+  limit 1;
+  if v_company.id is null then
+    raise exception 'invalid_booth_code' using errcode = 'P0002';
+  end if;
+
+  select * into v_event from events where id = v_company.event_id;
+  if v_event.id is null or not v_event.is_active or v_event.deleted_at is not null then
+    raise exception 'event_inactive' using errcode = '55000';
+  end if;
+
+  select * into v_collaborator
+  from collaborators
+  where collaborator_code = upper(p_collaborator_code) and company_id = v_company.id;
+  if v_collaborator.id is null then
+    raise exception 'invalid_collaborator_code' using errcode = 'P0002';
+  end if;
+
+  return app_open_session(null, null, v_collaborator.id, v_event.id, p_ttl_hours) || jsonb_build_object(
+    'collaborator', to_jsonb(v_collaborator),
+    'company', to_jsonb(v_company),
+    'event', to_jsonb(v_event)
+  );
+end;
+$$;
+
+-- --- Purge ---
+
+-- Permanently deletes an event and its data. When the organizer company has no
+-- other event left (trashed ones count), the company, its staff and its
+-- organizer users are deleted as well; otherwise those users are pointed at one
+-- of the remaining events.
+create or replace function app_purge_event(p_event_id uuid)
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_event events;
+  v_remaining_event_id uuid;
+begin
+  if not app_is_master() then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  select * into v_event from events where id = p_event_id;
+  if v_event.id is null then
+    raise exception 'event_not_found' using errcode = 'P0002';
+  end if;
+
+  delete from reports where event_id = p_event_id;
+  delete from participant_companies where event_id = p_event_id;
+  delete from departments where event_id = p_event_id;
+  delete from events where id = p_event_id;
+
+  select id into v_remaining_event_id
+  from events
+  where organizer_company_id = v_event.organizer_company_id
+  order by deleted_at nulls first
+  limit 1;
+
+  if v_remaining_event_id is null then
+    delete from users where role = 'organizer' and event_id = p_event_id;
+    delete from staff where organizer_company_id = v_event.organizer_company_id;
+    delete from organizer_companies where id = v_event.organizer_company_id;
+  else
+    update users set event_id = v_remaining_event_id where event_id = p_event_id;
+  end if;
+end;
+$$;
+
+grant execute on function app_purge_event(uuid) to authenticated;
+
+-- --- Policies ---
+-- Trashing and restoring are updates; only hard deletes become master-only.
+
+drop policy if exists participant_companies_write on participant_companies;
+drop policy if exists participant_companies_insert on participant_companies;
+drop policy if exists participant_companies_update on participant_companies;
+drop policy if exists participant_companies_delete on participant_companies;
+create policy participant_companies_insert on participant_companies for insert
+  with check (event_id = any((select app_managed_event_ids())));
+create policy participant_companies_update on participant_companies for update
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+create policy participant_companies_delete on participant_companies for delete
+  using ((select app_is_master()));
+
+drop policy if exists staff_write on staff;
+drop policy if exists staff_insert on staff;
+drop policy if exists staff_update on staff;
+drop policy if exists staff_delete on staff;
+create policy staff_insert on staff for insert
+  with check (organizer_company_id = any((select app_managed_organizer_company_ids())));
+create policy staff_update on staff for update
+  using (organizer_company_id = any((select app_managed_organizer_company_ids())))
+  with check (organizer_company_id = any((select app_managed_organizer_company_ids())));
+create policy staff_delete on staff for delete
+  using ((select app_is_master()));
+
+drop policy if exists vehicle_stock_all on vehicle_stock;
+drop policy if exists vehicle_stock_select on vehicle_stock;
+drop policy if exists vehicle_stock_insert on vehicle_stock;
+drop policy if exists vehicle_stock_update on vehicle_stock;
+drop policy if exists vehicle_stock_delete on vehicle_stock;
+create policy vehicle_stock_select on vehicle_stock for select
+  using (company_id = any((select app_accessible_company_ids())));
+create policy vehicle_stock_insert on vehicle_stock for insert
+  with check (company_id = any((select app_accessible_company_ids())));
+create policy vehicle_stock_update on vehicle_stock for update
+  using (company_id = any((select app_accessible_company_ids())))
+  with check (company_id = any((select app_accessible_company_ids())));
+create policy vehicle_stock_delete on vehicle_stock for delete
+  using ((select app_is_master()));
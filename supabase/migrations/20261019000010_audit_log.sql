@@ -0,0 +1,162 @@
+-- Audit log of administrative mutations (services/audit.ts, "Auditoria").
+--
+-- Every insert, update and delete on the tables below is recorded by a row
+-- trigger, so writes from the CRUD factory in services/api.ts, from the other
+-- API helpers and from RPCs are all covered. The actor is whoever owns the
+-- request's session; changes made without one (SQL editor, service role) are
+-- logged as "system".
+--
+-- Entries are written only by the trigger. There are no insert, update or
+-- delete policies, so the log cannot be edited from the app.
+
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  -- Scope used for filtering and permissions. No foreign keys: entries must
+  -- outlive the rows they describe.
+  event_id uuid,
+  organizer_company_id uuid,
+  entity text not null,
+  entity_id text,
+  entity_label text,
+  action text not null check (action in ('create', 'update', 'delete', 'trash', 'restore')),
+  actor_type text not null check (actor_type in ('user', 'staff', 'collaborator', 'system')),
+  actor_id uuid,
+  actor_name text,
+  -- Full row for create/delete; only the changed fields for updates.
+  before jsonb,
+  after jsonb,
+  changed_fields text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_event_created_idx on audit_log (event_id, created_at desc);
+create index if not exists audit_log_organizer_created_idx on audit_log (organizer_company_id, created_at desc);
+create index if not exists audit_log_created_idx on audit_log (created_at desc);
+
+create or replace function app_audit_row()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_old_full jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new_full jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  -- Credentials never reach the log; a password change only shows up by name.
+  v_old jsonb := v_old_full - 'password' - 'password_hash';
+  v_new jsonb := v_new_full - 'password' - 'password_hash';
+  v_row jsonb := coalesce(v_new, v_old);
+  v_changed text[] := '{}';
+  v_before jsonb := v_old;
+  v_after jsonb := v_new;
+  v_action text;
+  v_event_id uuid;
+  v_organizer_company_id uuid;
+  v_label text;
+  v_session auth_sessions;
+  v_actor_type text := 'system';
+  v_actor_id uuid;
+  v_actor_name text;
+begin
+  if tg_op = 'UPDATE' then
+    select coalesce(array_agg(k.key order by k.key), '{}') into v_changed
+    from jsonb_each(v_new_full) k
+    where k.value is distinct from v_old_full->k.key
+      and k.key <> 'updated_at';
+
+    if cardinality(v_changed) = 0 then
+      return null;
+    end if;
+
+    select jsonb_object_agg(k, v_old->k), jsonb_object_agg(k, v_new->k)
+    into v_before, v_after
+    from unnest(v_changed) k
+    where v_new ? k;
+
+    v_action := case
+      when v_old->>'deleted_at' is null and v_new->>'deleted_at' is not null then 'trash'
+      when v_old->>'deleted_at' is not null and v_new->>'deleted_at' is null then 'restore'
+      else 'update'
+    end;
+  else
+    v_action := case tg_op when 'INSERT' then 'create' else 'delete' end;
+  end if;
+
+  case tg_table_name
+    when 'events' then
+      v_event_id := (v_row->>'id')::uuid;
+      v_organizer_company_id := (v_row->>'organizer_company_id')::uuid;
+    when 'organizer_companies' then
+      v_organizer_company_id := (v_row->>'id')::uuid;
+    when 'staff' then
+      v_organizer_company_id := (v_row->>'organizer_company_id')::uuid;
+    when 'vehicle_stock', 'collaborators' then
+      select pc.event_id into v_event_id from participant_companies pc where pc.id = (v_row->>'company_id')::uuid;
+    else
+      v_event_id := (v_row->>'event_id')::uuid;
+  end case;
+
+  if v_organizer_company_id is null and v_event_id is not null then
+    select e.organizer_company_id into v_organizer_company_id from events e where e.id = v_event_id;
+  end if;
+
+  v_label := coalesce(
+    v_row->>'name',
+    v_row->>'label',
+    nullif(concat_ws(' ', v_row->>'marca', v_row->>'model', v_row->>'placa'), ''),
+    (select s.name from staff s where s.id = (v_row->>'staff_id')::uuid)
+  );
+
+  select * into v_session from app_current_session();
+  if v_session.user_id is not null then
+    v_actor_type := 'user';
+    v_actor_id := v_session.user_id;
+    select u.name into v_actor_name from users u where u.id = v_session.user_id;
+  elsif v_session.staff_id is not null then
+    v_actor_type := 'staff';
+    v_actor_id := v_session.staff_id;
+    select s.name into v_actor_name from staff s where s.id = v_session.staff_id;
+  elsif v_session.collaborator_id is not null then
+    v_actor_type := 'collaborator';
+    v_actor_id := v_session.collaborator_id;
+    select c.name into v_actor_name from collaborators c where c.id = v_session.collaborator_id;
+  end if;
+
+  insert into audit_log (
+    event_id, organizer_company_id, entity, entity_id, entity_label, action,
+    actor_type, actor_id, actor_name, before, after, changed_fields
+  ) values (
+    v_event_id, v_organizer_company_id, tg_table_name, coalesce(v_row->>'id', v_row->>'staff_id'), v_label, v_action,
+    v_actor_type, v_actor_id, v_actor_name,
+    case when tg_op = 'INSERT' then null else v_before end,
+    case when tg_op = 'DELETE' then null else v_after end,
+    v_changed
+  );
+
+  return null;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'events', 'organizer_companies', 'users', 'participant_companies', 'departments',
+    'staff', 'staff_event_assignments', 'report_button_configs', 'event_modules',
+    'notification_targets', 'telao_notification_recipients', 'tasks',
+    'vehicle_stock', 'collaborators'
+  ] loop
+    execute format('drop trigger if exists %I on public.%I', t || '_audit', t);
+    execute format(
+      'create trigger %I after insert or update or delete on public.%I for each row execute function app_audit_row()',
+      t || '_audit', t
+    );
+  end loop;
+end $$;
+
+-- Readable by whoever manages the event or organizer company it belongs to.
+alter table audit_log enable row level security;
+
+drop policy if exists audit_log_select on audit_log;
+create policy audit_log_select on audit_log for select using (
+  (select app_is_master())
+  or event_id = any((select app_managed_event_ids()))
+  or (event_id is null and organizer_company_id = any((select app_managed_organizer_company_ids())))
+);
@@ -0,0 +1,300 @@
+-- Booth sessions bound to their booth, verified by the booth pages and
+-- revocable by admins.
+--
+-- Check-ins already return a signed JWT scoped to the staff member's event or
+-- the collaborator's company. This adds:
+--
+--   * the booth (participant company) the session checked in at, stored on the
+--     session and carried in the token next to the event;
+--   * a 12 hour ceiling on booth sessions, whatever the client asks for;
+--   * app_booth_session(), which StaffRoute/CollaboratorRoute call to get the
+--     staff member or collaborator, event and booth from the server instead of
+--     trusting what sessionStorage says;
+--   * a trigger that rejects booth writes made in someone else's name or for
+--     another booth or event (reports, activities, movements, calls, telão);
+--   * app_revoke_booth_access(), for admins to end a staff member's or
+--     collaborator's sessions and optionally issue a new code (lost badge).
+--
+-- Booth sessions opened before this migration have no booth and are sent back
+-- to the check-in page.
+
+alter table auth_sessions add column if not exists company_id uuid references participant_companies(id) on delete cascade;
+
+-- --- Tokens ---
+
+drop function if exists app_open_session(uuid, uuid, uuid, uuid, int);
+
+create or replace function app_open_session(
+  p_user_id uuid,
+  p_staff_id uuid,
+  p_collaborator_id uuid,
+  p_event_id uuid,
+  p_ttl_hours int,
+  p_company_id uuid default null
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_session auth_sessions;
+  v_header text;
+  v_payload text;
+begin
+  insert into auth_sessions (user_id, staff_id, collaborator_id, event_id, company_id, expires_at)
+  values (p_user_id, p_staff_id, p_collaborator_id, p_event_id, p_company_id, now() + make_interval(hours => greatest(1, p_ttl_hours)))
+  returning * into v_session;
+
+  v_header := app_base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'));
+  v_payload := app_base64url(convert_to(jsonb_strip_nulls(jsonb_build_object(
+    'sid', v_session.id,
+    'sub', coalesce(p_user_id, p_staff_id, p_collaborator_id),
+    'event_id', p_event_id,
+    'company_id', p_company_id,
+    'role', 'authenticated',
+    'aud', 'authenticated',
+    'iat', floor(extract(epoch from v_session.created_at))::bigint,
+    'exp', floor(extract(epoch from v_session.expires_at))::bigint
+  ))::text, 'utf8'));
+
+  return jsonb_build_object(
+    'token', v_header || '.' || v_payload || '.' || app_sign_session(v_header || '.' || v_payload),
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
+
+-- --- Check-in ---
+-- Same as before, plus the booth on the session and the TTL ceiling.
+
+create or replace function app_staff_checkin(p_booth_code text, p_personal_code text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_company participant_companies;
+  v_event events;
+  v_staff staff;
+  v_department_id uuid;
+begin
+  select * into v_company
+  from participant_companies
+  where booth_code = upper(p_booth_code) and deleted_at is null
+  limit 1;
+  if v_company.id is null then
+    raise exception 'invalid_booth_code' using errcode = 'P0002';
+  end if;
+
+  select * into v_event from events where id = v_company.event_id;
+  if v_event.id is null or not v_event.is_active or v_event.deleted_at is not null then
+    raise exception 'event_inactive' using errcode = '55000';
+  end if;
+
+  -- Personal codes are only unique per organizer company.
+  select * into v_staff
+  from staff
+  where personal_code = upper(p_personal_code) and deleted_at is null
+  order by (organizer_company_id = v_event.organizer_company_id) desc
+  limit 1;
+  if v_staff.id is null then
+    raise exception 'invalid_personal_code' using errcode = 'P0002';
+  end if;
+
+  select department_id into v_department_id
+  from staff_event_assignments
+  where staff_id = v_staff.id and event_id = v_event.id;
+  if not found then
+    raise exception 'staff_not_assigned' using errcode = '42501';
+  end if;
+
+  if v_staff.organizer_company_id is distinct from v_event.organizer_company_id then
+    raise exception 'organization_mismatch' using errcode = '42501';
+  end if;
+
+  return app_open_session(null, v_staff.id, null, v_event.id, least(p_ttl_hours, 12), v_company.id) || jsonb_build_object(
+    'staff', to_jsonb(v_staff) || jsonb_build_object('department_id', v_department_id),
+    'company', to_jsonb(v_company),
+    'event', to_jsonb(v_event)
+  );
+end;
+$$;
+
+create or replace function app_collaborator_checkin(p_booth_code text, p_collaborator_code text, p_ttl_hours int default 12)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_company participant_companies;
+  v_event events;
+  v_collaborator collaborators;
+begin
+  select * into v_company
+  from participant_companies
+  where booth_code = upper(p_booth_code) and deleted_at is null
+  limit 1;
+  if v_company.id is null then
+    raise exception 'invalid_booth_code' using errcode = 'P0002';
+  end if;
+
+  select * into v_event from events where id = v_company.event_id;
+  if v_event.id is null or not v_event.is_active or v_event.deleted_at is not null then
+    raise exception 'event_inactive' using errcode = '55000';
+  end if;
+
+  select * into v_collaborator
+  from collaborators
+  where collaborator_code = upper(p_collaborator_code) and company_id = v_company.id;
+  if v_collaborator.id is null then
+    raise exception 'invalid_collaborator_code' using errcode = 'P0002';
+  end if;
+
+  return app_open_session(null, null, v_collaborator.id, v_event.id, least(p_ttl_hours, 12), v_company.id) || jsonb_build_object(
+    'collaborator', to_jsonb(v_collaborator),
+    'company', to_jsonb(v_company),
+    'event', to_jsonb(v_event)
+  );
+end;
+$$;
+
+-- The request's booth session as the server sees it, or null when there is
+-- none (no token, expired, revoked, or a user session).
+create or replace function app_booth_session()
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_session auth_sessions;
+begin
+  select * into v_session from app_current_session();
+  if v_session.id is null or v_session.user_id is not null or v_session.company_id is null then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'expires_at', v_session.expires_at,
+    'staff', (
+      select to_jsonb(s) || jsonb_build_object('department_id', a.department_id)
+      from staff s
+      left join staff_event_assignments a on a.staff_id = s.id and a.event_id = v_session.event_id
+      where s.id = v_session.staff_id
+    ),
+    'collaborator', (select to_jsonb(c) from collaborators c where c.id = v_session.collaborator_id),
+    'company', (select to_jsonb(pc) from participant_companies pc where pc.id = v_session.company_id),
+    'event', (select to_jsonb(e) from events e where e.id = v_session.event_id)
+  );
+end;
+$$;
+
+-- --- Booth Writes ---
+-- Rows written from a booth session must name that session's event, staff
+-- member and booth. Admin sessions are not affected. Only inserts are checked:
+-- staff also update calls and requests raised at other booths of the event.
+
+create or replace function app_enforce_booth_identity()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_session auth_sessions;
+  v_row jsonb := to_jsonb(new);
+  v_company participant_companies;
+begin
+  select * into v_session from app_current_session();
+  if v_session.id is null or v_session.user_id is not null then
+    return new;
+  end if;
+
+  select * into v_company from participant_companies where id = v_session.company_id;
+
+  if v_company.id is null
+     or (v_row ? 'event_id' and (v_row->>'event_id')::uuid is distinct from v_session.event_id)
+     or (v_row ? 'staff_id' and (v_row->>'staff_id')::uuid is distinct from v_session.staff_id)
+     or (v_row ? 'company_id' and (v_row->>'company_id')::uuid is distinct from v_company.id)
+     or (v_row ? 'participant_company_id' and (v_row->>'participant_company_id')::uuid is distinct from v_company.id)
+     or (v_row ? 'booth_code' and v_row->>'booth_code' is distinct from v_company.booth_code)
+     or (v_row ? 'staff_name' and v_row->>'staff_name' is distinct from (select name from staff where id = v_session.staff_id))
+  then
+    raise exception 'booth_session_mismatch' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['reports', 'staff_activities', 'stock_movements', 'company_calls', 'telao_requests'] loop
+    execute format('drop trigger if exists %I on public.%I', t || '_enforce_booth_identity', t);
+    execute format(
+      'create trigger %I before insert on public.%I for each row execute function app_enforce_booth_identity()',
+      t || '_enforce_booth_identity', t
+    );
+  end loop;
+end $$;
+
+-- --- Revocation ---
+
+-- Ends every open booth session of one staff member or collaborator. With
+-- p_rotate_code their personal/collaborator code is replaced as well, so a lost
+-- badge cannot be used to check in again. Returns the number of sessions ended
+-- and the new code, if any.
+create or replace function app_revoke_booth_access(
+  p_staff_id uuid default null,
+  p_collaborator_id uuid default null,
+  p_rotate_code boolean default false
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_revoked int;
+  v_code text;
+begin
+  if num_nonnulls(p_staff_id, p_collaborator_id) <> 1 then
+    raise exception 'invalid_arguments' using errcode = '22023';
+  end if;
+
+  if p_staff_id is not null and not exists (
+    select 1 from staff s
+    where s.id = p_staff_id and s.organizer_company_id = any(app_managed_organizer_company_ids())
+  ) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  if p_collaborator_id is not null and not exists (
+    select 1 from collaborators c
+    where c.id = p_collaborator_id and c.company_id = any(app_managed_company_ids())
+  ) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  update auth_sessions
+     set revoked_at = now()
+   where revoked_at is null
+     and (staff_id = p_staff_id or collaborator_id = p_collaborator_id);
+  get diagnostics v_revoked = row_count;
+
+  if p_rotate_code then
+    -- Codes are unique within the organizer company (staff) or the company
+    -- (collaborators); retry on the rare clash.
+    loop
+      v_code := upper(substr(encode(gen_random_bytes(6), 'hex'), 1, 8));
+      if p_staff_id is not null then
+        exit when not exists (
+          select 1 from staff s
+          where s.personal_code = v_code
+            and s.organizer_company_id = (select organizer_company_id from staff where id = p_staff_id)
+        );
+      else
+        exit when not exists (
+          select 1 from collaborators c
+          where c.collaborator_code = v_code
+            and c.company_id = (select company_id from collaborators where id = p_collaborator_id)
+        );
+      end if;
+    end loop;
+
+    if p_staff_id is not null then
+      update staff set personal_code = v_code where id = p_staff_id;
+    else
+      update collaborators set collaborator_code = v_code where id = p_collaborator_id;
+    end if;
+  end if;
+
+  return jsonb_build_object('revoked', v_revoked, 'code', v_code);
+end;
+$$;
+
+grant execute on function app_staff_checkin(text, text, int) to anon, authenticated;
+grant execute on function app_collaborator_checkin(text, text, int) to anon, authenticated;
+grant execute on function app_booth_session() to anon, authenticated;
+grant execute on function app_revoke_booth_access(uuid, uuid, boolean) to authenticated;
@@ -0,0 +1,51 @@
+-- Visit plans (services/visitPlans.ts): the ordered list of booths a staff
+-- member or a whole department should visit on one day of an event. A plan for
+-- the staff member replaces their department's plan for that day.
+--
+-- Completion is not stored; it is worked out from the reports sent at each
+-- booth, so offline submissions count once they sync.
+
+create table if not exists visit_plans (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  day date not null,
+  staff_id uuid references staff(id) on delete cascade,
+  department_id uuid references departments(id) on delete cascade,
+  company_ids uuid[] not null default '{}', -- participant_companies, in visiting order
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (num_nonnulls(staff_id, department_id) = 1)
+);
+
+create unique index if not exists visit_plans_staff_day_key
+  on visit_plans (event_id, day, staff_id) where staff_id is not null;
+create unique index if not exists visit_plans_department_day_key
+  on visit_plans (event_id, day, department_id) where department_id is not null;
+
+-- Booths read their plan; admins of the event write them.
+alter table visit_plans enable row level security;
+
+drop policy if exists visit_plans_select on visit_plans;
+drop policy if exists visit_plans_write on visit_plans;
+create policy visit_plans_select on visit_plans for select
+  using (event_id = any((select app_accessible_event_ids())));
+create policy visit_plans_write on visit_plans for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+
+drop trigger if exists visit_plans_audit on visit_plans;
+create trigger visit_plans_audit after insert or update or delete on public.visit_plans
+  for each row execute function app_audit_row();
+
+-- Staff phones pick up route changes made during the day.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'visit_plans'
+  ) then
+    alter publication supabase_realtime add table public.visit_plans;
+  end if;
+end $$;
+
+alter table visit_plans replica identity full;
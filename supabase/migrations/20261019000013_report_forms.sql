@@ -0,0 +1,12 @@
+-- Multi-question report forms (services/reportForms.ts).
+--
+-- report_button_configs.form holds the button's questions and how answers
+-- route between them. question/type/options keep mirroring the first
+-- question for older readers; buttons without a form are read from those
+-- columns and follow_up, as before.
+--
+-- reports.answers keeps each answer next to the question it belongs to;
+-- response stays as the text rendering shown in dashboards and exports.
+
+alter table report_button_configs add column if not exists form jsonb;
+alter table reports add column if not exists answers jsonb;
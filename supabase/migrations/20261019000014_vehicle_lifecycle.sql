@@ -0,0 +1,163 @@
+-- Vehicle lifecycle (services/vehicleLifecycle.ts).
+--
+-- A vehicle moves Disponível -> Reservado / Em negociação -> Vendido ->
+-- Faturado -> Entregue. Cancelling a deal puts it back to Disponível and is
+-- kept in the history as 'Cancelado'. A reservation holds the car until
+-- reserved_until; after that it counts as Disponível again without anyone
+-- having to release it.
+--
+-- Status only changes through app_transition_vehicle, which checks the move,
+-- records who made it in vehicle_status_history and keeps the sale columns
+-- (sold_by_collaborator_id, sold_at) in step.
+
+alter table vehicle_stock add column if not exists reserved_until timestamptz;
+alter table vehicle_stock add column if not exists sold_at timestamptz;
+
+update vehicle_stock set sold_at = coalesce(updated_at, created_at)
+ where status = 'Vendido' and sold_at is null;
+
+alter table vehicle_stock drop constraint if exists vehicle_stock_status_check;
+alter table vehicle_stock add constraint vehicle_stock_status_check
+  check (status in ('Disponível', 'Reservado', 'Em negociação', 'Vendido', 'Faturado', 'Entregue'));
+
+create table if not exists vehicle_status_history (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references vehicle_stock(id) on delete cascade,
+  company_id uuid not null references participant_companies(id) on delete cascade,
+  from_status text not null,
+  to_status text not null, -- A vehicle status, or 'Cancelado'
+  collaborator_id uuid references collaborators(id) on delete set null,
+  staff_id uuid references staff(id) on delete set null,
+  user_id uuid references users(id) on delete set null,
+  reserved_until timestamptz,
+  note text,
+  created_at timestamptz not null default now(),
+  check (num_nonnulls(collaborator_id, staff_id, user_id) >= 1)
+);
+
+create index if not exists vehicle_status_history_vehicle_id_idx on vehicle_status_history (vehicle_id, created_at);
+create index if not exists vehicle_status_history_company_id_idx on vehicle_status_history (company_id);
+
+-- Written only by app_transition_vehicle.
+alter table vehicle_status_history enable row level security;
+
+drop policy if exists vehicle_status_history_select on vehicle_status_history;
+create policy vehicle_status_history_select on vehicle_status_history for select
+  using (company_id = any((select app_accessible_company_ids())));
+
+create or replace function app_guard_vehicle_status()
+returns trigger language plpgsql as $$
+begin
+  if new.status is distinct from old.status
+     and coalesce(current_setting('app.vehicle_transition', true), '') <> 'on' then
+    raise exception 'invalid_transition' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists vehicle_stock_guard_status on vehicle_stock;
+create trigger vehicle_stock_guard_status before update on vehicle_stock
+  for each row execute function app_guard_vehicle_status();
+
+-- p_collaborator_id names the seller when staff record a sale for a
+-- collaborator; a collaborator's own session is used otherwise.
+create or replace function app_transition_vehicle(
+  p_vehicle_id uuid,
+  p_status text,
+  p_collaborator_id uuid default null,
+  p_reserved_until timestamptz default null,
+  p_note text default null
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_vehicle vehicle_stock;
+  v_from text;
+  v_to text;
+  v_session auth_sessions;
+  v_collaborator_id uuid;
+begin
+  select * into v_vehicle from vehicle_stock where id = p_vehicle_id and deleted_at is null for update;
+  if not found then
+    raise exception 'vehicle_not_found' using errcode = 'P0002';
+  end if;
+  if not (v_vehicle.company_id = any(app_accessible_company_ids())) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  v_from := case
+    when v_vehicle.status = 'Reservado' and v_vehicle.reserved_until <= now() then 'Disponível'
+    else v_vehicle.status
+  end;
+
+  if not (p_status = any(case v_from
+    when 'Disponível' then array['Reservado', 'Em negociação', 'Vendido']
+    when 'Reservado' then array['Em negociação', 'Vendido', 'Cancelado']
+    when 'Em negociação' then array['Reservado', 'Vendido', 'Cancelado']
+    when 'Vendido' then array['Faturado', 'Cancelado']
+    when 'Faturado' then array['Entregue', 'Cancelado']
+    else array[]::text[]
+  end)) then
+    raise exception 'invalid_transition' using errcode = '22023';
+  end if;
+
+  if p_status = 'Reservado' and (p_reserved_until is null or p_reserved_until <= now()) then
+    raise exception 'invalid_reservation' using errcode = '22023';
+  end if;
+
+  select * into v_session from app_current_session();
+  v_collaborator_id := coalesce(p_collaborator_id, v_session.collaborator_id);
+  if v_collaborator_id is not null and not exists (
+    select 1 from collaborators c where c.id = v_collaborator_id and c.company_id = v_vehicle.company_id
+  ) then
+    raise exception 'collaborator_mismatch' using errcode = '22023';
+  end if;
+  if num_nonnulls(v_collaborator_id, v_session.staff_id, v_session.user_id) = 0 then
+    raise exception 'responsible_required' using errcode = '22023';
+  end if;
+
+  v_to := case when p_status = 'Cancelado' then 'Disponível' else p_status end;
+
+  perform set_config('app.vehicle_transition', 'on', true);
+  update vehicle_stock set
+    status = v_to,
+    reserved_until = case when v_to = 'Reservado' then p_reserved_until end,
+    sold_by_collaborator_id = case
+      when v_to = 'Disponível' then null
+      when p_status = 'Vendido' then v_collaborator_id
+      else sold_by_collaborator_id
+    end,
+    sold_at = case
+      when v_to = 'Disponível' then null
+      when p_status = 'Vendido' then now()
+      else sold_at
+    end,
+    updated_at = now()
+  where id = p_vehicle_id
+  returning * into v_vehicle;
+  perform set_config('app.vehicle_transition', 'off', true);
+
+  insert into vehicle_status_history (
+    vehicle_id, company_id, from_status, to_status,
+    collaborator_id, staff_id, user_id, reserved_until, note
+  ) values (
+    p_vehicle_id, v_vehicle.company_id, v_from, p_status,
+    v_collaborator_id, v_session.staff_id, v_session.user_id, p_reserved_until, nullif(trim(p_note), '')
+  );
+
+  return to_jsonb(v_vehicle);
+end;
+$$;
+
+-- The stock report and the booth phones follow deals as they move.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'vehicle_status_history'
+  ) then
+    alter publication supabase_realtime add table public.vehicle_status_history;
+  end if;
+end $$;
+
+alter table vehicle_status_history replica identity full;
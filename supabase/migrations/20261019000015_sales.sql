@@ -0,0 +1,149 @@
+-- Sales (services/sales.ts): the deal behind a vehicle marked as Vendido, with
+-- price, discount, payment method, trade-in and the buyer's contact.
+--
+-- app_record_sale moves the vehicle to Vendido through app_transition_vehicle
+-- and stores the sale in the same transaction. Cancelling the deal on the
+-- vehicle marks its sale as cancelled, so it leaves the revenue totals.
+--
+-- Buyer data is personal data: name, phone and CPF are only stored when the
+-- buyer agreed to it, and buyer_consent_at records when.
+
+create table if not exists sales (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  company_id uuid not null references participant_companies(id) on delete cascade,
+  vehicle_id uuid not null references vehicle_stock(id) on delete cascade,
+  collaborator_id uuid references collaborators(id) on delete set null,
+  staff_id uuid references staff(id) on delete set null,
+  user_id uuid references users(id) on delete set null,
+  -- Null only for sales made before prices were recorded
+  sale_price numeric(12, 2) check (sale_price >= 0),
+  discount numeric(12, 2) not null default 0 check (discount >= 0),
+  payment_method text check (payment_method in ('a_vista', 'financiado', 'consorcio')),
+  trade_in_vehicle text,
+  trade_in_value numeric(12, 2) check (trade_in_value >= 0),
+  buyer_name text,
+  buyer_phone text,
+  buyer_cpf text check (buyer_cpf ~ '^[0-9]{11}$'),
+  buyer_consent_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (sale_price is null or discount <= sale_price),
+  check (buyer_consent_at is not null or num_nonnulls(buyer_name, buyer_phone, buyer_cpf) = 0)
+);
+
+-- A vehicle has at most one sale that is still standing
+create unique index if not exists sales_vehicle_active_key on sales (vehicle_id) where cancelled_at is null;
+create index if not exists sales_event_id_idx on sales (event_id, created_at);
+create index if not exists sales_company_id_idx on sales (company_id);
+
+-- Sales already made keep counting, without price
+insert into sales (event_id, company_id, vehicle_id, collaborator_id, created_at, updated_at)
+select pc.event_id, v.company_id, v.id, v.sold_by_collaborator_id, coalesce(v.sold_at, v.updated_at, v.created_at), now()
+  from vehicle_stock v
+  join participant_companies pc on pc.id = v.company_id
+ where v.status in ('Vendido', 'Faturado', 'Entregue')
+   and v.sold_by_collaborator_id is not null
+   and not exists (select 1 from sales s where s.vehicle_id = v.id and s.cancelled_at is null);
+
+-- Written only by app_record_sale and the cancellation trigger.
+alter table sales enable row level security;
+
+drop policy if exists sales_select on sales;
+create policy sales_select on sales for select
+  using (company_id = any((select app_accessible_company_ids())));
+
+drop trigger if exists sales_audit on sales;
+create trigger sales_audit after insert or update or delete on public.sales
+  for each row execute function app_audit_row();
+
+create or replace function app_record_sale(
+  p_vehicle_id uuid,
+  p_collaborator_id uuid,
+  p_sale_price numeric,
+  p_discount numeric default 0,
+  p_payment_method text default null,
+  p_trade_in_vehicle text default null,
+  p_trade_in_value numeric default null,
+  p_buyer_name text default null,
+  p_buyer_phone text default null,
+  p_buyer_cpf text default null,
+  p_buyer_consent boolean default false
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_vehicle jsonb;
+  v_session auth_sessions;
+  v_sale sales;
+begin
+  if p_sale_price is null or p_sale_price <= 0 then
+    raise exception 'invalid_price' using errcode = '22023';
+  end if;
+  if coalesce(p_discount, 0) < 0 or coalesce(p_discount, 0) > p_sale_price then
+    raise exception 'invalid_discount' using errcode = '22023';
+  end if;
+  if p_payment_method is null or p_payment_method not in ('a_vista', 'financiado', 'consorcio') then
+    raise exception 'invalid_payment_method' using errcode = '22023';
+  end if;
+  if not coalesce(p_buyer_consent, false)
+     and num_nonnulls(nullif(trim(p_buyer_name), ''), nullif(trim(p_buyer_phone), ''), nullif(trim(p_buyer_cpf), '')) > 0 then
+    raise exception 'consent_required' using errcode = '22023';
+  end if;
+
+  v_vehicle := app_transition_vehicle(p_vehicle_id, 'Vendido', p_collaborator_id);
+
+  select * into v_session from app_current_session();
+  insert into sales (
+    event_id, company_id, vehicle_id, collaborator_id, staff_id, user_id,
+    sale_price, discount, payment_method, trade_in_vehicle, trade_in_value,
+    buyer_name, buyer_phone, buyer_cpf, buyer_consent_at
+  )
+  select
+    pc.event_id, pc.id, p_vehicle_id, (v_vehicle->>'sold_by_collaborator_id')::uuid, v_session.staff_id, v_session.user_id,
+    p_sale_price, coalesce(p_discount, 0), p_payment_method, nullif(trim(p_trade_in_vehicle), ''), p_trade_in_value,
+    nullif(trim(p_buyer_name), ''), nullif(trim(p_buyer_phone), ''), nullif(regexp_replace(coalesce(p_buyer_cpf, ''), '[^0-9]', '', 'g'), ''),
+    case when p_buyer_consent then now() end
+  from participant_companies pc
+  where pc.id = (v_vehicle->>'company_id')::uuid
+  returning * into v_sale;
+
+  return to_jsonb(v_sale);
+end;
+$$;
+
+-- A cancelled deal takes its sale out of the totals.
+create or replace function app_cancel_vehicle_sale()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if new.to_status = 'Cancelado' then
+    update sales set cancelled_at = new.created_at, updated_at = now()
+     where vehicle_id = new.vehicle_id and cancelled_at is null;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists vehicle_status_history_cancel_sale on vehicle_status_history;
+create trigger vehicle_status_history_cancel_sale after insert on vehicle_status_history
+  for each row execute function app_cancel_vehicle_sale();
+
+-- The spreadsheet webhook is replaced by the sales export in the ranking.
+delete from notification_targets where channel = 'sale_sheet';
+alter table notification_targets drop constraint if exists notification_targets_channel_check;
+alter table notification_targets add constraint notification_targets_channel_check check (channel in (
+  'company_call', 'telao', 'sales_checkin', 'staff_alert',
+  'group_alert', 'staff_call', 'booth_completed', 'company_registered'
+));
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'sales'
+  ) then
+    alter publication supabase_realtime add table public.sales;
+  end if;
+end $$;
+
+alter table sales replica identity full;
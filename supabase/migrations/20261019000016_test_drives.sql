@@ -0,0 +1,67 @@
+-- Test drives (services/testDrives.ts): a time slot for one vehicle and one
+-- prospect, who gives name, phone and driver's license (CNH) number.
+--
+-- A test drive is scheduled (agendado), checked out when the prospect leaves
+-- with the car (em_andamento) and checked back in (concluido); it can also be
+-- cancelled or marked as a no-show. Afterwards the dealer records whether it
+-- turned into a sale, which drives the conversion rates in the stock report.
+--
+-- Two active test drives of the same vehicle cannot overlap.
+
+create extension if not exists btree_gist;
+
+create table if not exists test_drives (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  company_id uuid not null references participant_companies(id) on delete cascade,
+  vehicle_id uuid not null references vehicle_stock(id) on delete cascade,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  prospect_name text not null,
+  prospect_phone text not null,
+  prospect_license text not null check (prospect_license ~ '^[0-9]{11}$'),
+  prospect_consent_at timestamptz not null,
+  status text not null default 'agendado'
+    check (status in ('agendado', 'em_andamento', 'concluido', 'cancelado', 'nao_compareceu')),
+  checked_out_at timestamptz,
+  checked_in_at timestamptz,
+  outcome text not null default 'pendente' check (outcome in ('pendente', 'convertido', 'nao_convertido')),
+  -- Who scheduled it
+  staff_id uuid references staff(id) on delete set null,
+  collaborator_id uuid references collaborators(id) on delete set null,
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_at > starts_at),
+  constraint test_drives_no_overlap exclude using gist (
+    vehicle_id with =,
+    tstzrange(starts_at, ends_at) with &&
+  ) where (status in ('agendado', 'em_andamento'))
+);
+
+create index if not exists test_drives_company_starts_idx on test_drives (company_id, starts_at);
+create index if not exists test_drives_event_id_idx on test_drives (event_id);
+
+-- Booth staff and the company's collaborators schedule and follow up.
+alter table test_drives enable row level security;
+
+drop policy if exists test_drives_all on test_drives;
+create policy test_drives_all on test_drives for all
+  using (company_id = any((select app_accessible_company_ids())))
+  with check (company_id = any((select app_accessible_company_ids())));
+
+drop trigger if exists test_drives_audit on test_drives;
+create trigger test_drives_audit after insert or update or delete on public.test_drives
+  for each row execute function app_audit_row();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'test_drives'
+  ) then
+    alter publication supabase_realtime add table public.test_drives;
+  end if;
+end $$;
+
+alter table test_drives replica identity full;
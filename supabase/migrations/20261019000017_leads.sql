@@ -0,0 +1,53 @@
+-- Leads (services/leads.ts): visitors a company's collaborators meet at the
+-- booth, with contact details, the vehicle they asked about and how warm the
+-- contact is (quente, morno, frio).
+--
+-- A lead is personal data: it is only stored with the visitor's consent,
+-- recorded in consent_at. When the visitor later buys, the sale is linked to
+-- the lead, which gives the lead-to-sale conversion in the ranking.
+
+create table if not exists leads (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  company_id uuid not null references participant_companies(id) on delete cascade,
+  collaborator_id uuid references collaborators(id) on delete set null,
+  name text not null check (length(trim(name)) > 0),
+  phone text,
+  email text,
+  vehicle_id uuid references vehicle_stock(id) on delete set null,
+  temperature text not null default 'morno' check (temperature in ('quente', 'morno', 'frio')),
+  consent_at timestamptz not null,
+  note text,
+  sale_id uuid references sales(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (num_nonnulls(nullif(trim(phone), ''), nullif(trim(email), '')) > 0)
+);
+
+-- A sale closes at most one lead
+create unique index if not exists leads_sale_id_key on leads (sale_id) where sale_id is not null;
+create index if not exists leads_company_created_idx on leads (company_id, created_at);
+create index if not exists leads_event_id_idx on leads (event_id);
+
+alter table leads enable row level security;
+
+drop policy if exists leads_all on leads;
+create policy leads_all on leads for all
+  using (company_id = any((select app_accessible_company_ids())))
+  with check (company_id = any((select app_accessible_company_ids())));
+
+drop trigger if exists leads_audit on leads;
+create trigger leads_audit after insert or update or delete on public.leads
+  for each row execute function app_audit_row();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'leads'
+  ) then
+    alter publication supabase_realtime add table public.leads;
+  end if;
+end $$;
+
+alter table leads replica identity full;
@@ -0,0 +1,15 @@
+-- Visitor badge scanning (services/badges.ts): collaborators read the QR code
+-- on a visitor's badge to fill in a lead. How badges are encoded is set per
+-- event in the lead_capture module options.
+--
+-- badge_key identifies the visitor behind a scanned badge (the badge id, or
+-- the e-mail or phone when the badge has none), so scanning the same visitor
+-- twice at one company does not create a second lead.
+
+alter table event_modules drop constraint if exists event_modules_module_check;
+alter table event_modules add constraint event_modules_module_check
+  check (module in ('sales_checkin', 'notify_call', 'stock_control', 'lead_capture'));
+
+alter table leads add column if not exists badge_key text;
+
+create unique index if not exists leads_company_badge_key on leads (company_id, badge_key) where badge_key is not null;
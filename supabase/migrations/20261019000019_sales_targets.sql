@@ -0,0 +1,35 @@
+-- Sales targets (services/salesTargets.ts): units a participant company, or
+-- one of its collaborators, agreed to sell on each day of the event. Progress
+-- is not stored; it is read from the sales that are still standing.
+
+create table if not exists sales_targets (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  company_id uuid not null references participant_companies(id) on delete cascade,
+  collaborator_id uuid references collaborators(id) on delete cascade, -- Null for the company target
+  day date not null,
+  target_units integer not null check (target_units > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists sales_targets_company_day_key
+  on sales_targets (company_id, day) where collaborator_id is null;
+create unique index if not exists sales_targets_collaborator_day_key
+  on sales_targets (collaborator_id, day) where collaborator_id is not null;
+create index if not exists sales_targets_event_id_idx on sales_targets (event_id);
+
+-- Booths see their own targets; admins of the event set them.
+alter table sales_targets enable row level security;
+
+drop policy if exists sales_targets_select on sales_targets;
+drop policy if exists sales_targets_write on sales_targets;
+create policy sales_targets_select on sales_targets for select
+  using (company_id = any((select app_accessible_company_ids())));
+create policy sales_targets_write on sales_targets for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+
+drop trigger if exists sales_targets_audit on sales_targets;
+create trigger sales_targets_audit after insert or update or delete on public.sales_targets
+  for each row execute function app_audit_row();
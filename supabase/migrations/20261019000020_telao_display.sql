@@ -0,0 +1,142 @@
+-- Telão display (pages/TelaoDisplayPage.tsx): the big screen of the event,
+-- opened without logging in at /telao/:eventId with the event's display token.
+--
+--   * telao_requests.display_status is the display queue. Operators approve,
+--     skip or replay requests from TelaoRequestsDashboard; the screen
+--     celebrates approved requests in approval order and marks them shown.
+--     It is separate from status, which staff still resolve at the booth.
+--   * telao_displays holds one token per event. Admins create and rotate it;
+--     rotating cuts off screens opened with the old link.
+--   * app_telao_feed() and app_telao_mark_shown() are all the screen can do
+--     with the token: read the queue and the sales podium, and mark a
+--     celebration as shown.
+
+-- Requests raised before the display existed were put on screen by hand
+alter table telao_requests add column if not exists display_status text not null default 'exibido'
+  check (display_status in ('aguardando', 'aprovado', 'exibido', 'pulado'));
+alter table telao_requests alter column display_status set default 'aguardando';
+alter table telao_requests add column if not exists display_approved_at timestamptz;
+alter table telao_requests add column if not exists displayed_at timestamptz;
+
+create index if not exists telao_requests_display_queue_idx
+  on telao_requests (event_id, display_approved_at) where display_status = 'aprovado';
+
+create table if not exists telao_displays (
+  event_id uuid primary key references events(id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table telao_displays enable row level security;
+
+drop policy if exists telao_displays_all on telao_displays;
+create policy telao_displays_all on telao_displays for all
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+
+drop trigger if exists telao_displays_audit on telao_displays;
+create trigger telao_displays_audit after insert or update or delete on public.telao_displays
+  for each row execute function app_audit_row();
+
+-- --- Token ---
+
+create or replace function app_rotate_telao_display_token(p_event_id uuid)
+returns text language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_token text := encode(gen_random_bytes(24), 'hex');
+begin
+  if not (p_event_id = any(app_managed_event_ids())) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  insert into telao_displays (event_id, token)
+  values (p_event_id, v_token)
+  on conflict (event_id) do update set token = excluded.token, updated_at = now();
+
+  return v_token;
+end;
+$$;
+
+create or replace function app_check_telao_display_token(p_event_id uuid, p_token text)
+returns void language plpgsql stable security definer set search_path = public as $$
+begin
+  if p_token is null or not exists (
+    select 1 from telao_displays d
+    join events e on e.id = d.event_id
+    where d.event_id = p_event_id and d.token = p_token and e.deleted_at is null
+  ) then
+    raise exception 'invalid_display_token' using errcode = '42501';
+  end if;
+end;
+$$;
+
+-- --- Screen ---
+
+-- The event, the approved celebrations in order and the top three companies
+-- and sellers by sales still standing.
+create or replace function app_telao_feed(p_event_id uuid, p_token text)
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+begin
+  perform app_check_telao_display_token(p_event_id, p_token);
+
+  return jsonb_build_object(
+    'event', (select jsonb_build_object('name', e.name, 'logo_url', e.logo_url) from events e where e.id = p_event_id),
+    'queue', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'approved_at', r.display_approved_at,
+        'company', jsonb_build_object('name', pc.name, 'logo_url', pc.logo_url),
+        'collaborator', case when c.id is null then null else jsonb_build_object('name', c.name, 'photo_url', c.photo_url) end,
+        'vehicle', case when v.id is null then null else jsonb_build_object('marca', v.marca, 'model', v.model, 'photo_url', v.photo_url) end
+      ) order by r.display_approved_at)
+      from telao_requests r
+      join participant_companies pc on pc.id = r.participant_company_id
+      left join collaborators c on c.id = r.collaborator_id
+      left join vehicle_stock v on v.id = r.vehicle_id
+      where r.event_id = p_event_id and r.display_status = 'aprovado'
+    ), '[]'::jsonb),
+    'companies', coalesce((
+      select jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'image_url', t.logo_url, 'sales_count', t.sales_count) order by t.sales_count desc, t.name)
+      from (
+        select pc.id, pc.name, pc.logo_url, count(*) as sales_count
+        from sales s
+        join participant_companies pc on pc.id = s.company_id
+        where s.event_id = p_event_id and s.cancelled_at is null and pc.deleted_at is null
+        group by pc.id
+        order by count(*) desc, pc.name
+        limit 3
+      ) t
+    ), '[]'::jsonb),
+    'sellers', coalesce((
+      select jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'image_url', t.photo_url, 'company_name', t.company_name, 'sales_count', t.sales_count) order by t.sales_count desc, t.name)
+      from (
+        select c.id, c.name, c.photo_url, pc.name as company_name, count(*) as sales_count
+        from sales s
+        join collaborators c on c.id = s.collaborator_id
+        join participant_companies pc on pc.id = s.company_id
+        where s.event_id = p_event_id and s.cancelled_at is null and pc.deleted_at is null
+        group by c.id, pc.name
+        order by count(*) desc, c.name
+        limit 3
+      ) t
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+create or replace function app_telao_mark_shown(p_event_id uuid, p_token text, p_request_id uuid)
+returns void language plpgsql volatile security definer set search_path = public as $$
+begin
+  perform app_check_telao_display_token(p_event_id, p_token);
+
+  update telao_requests
+     set display_status = 'exibido', displayed_at = now()
+   where id = p_request_id and event_id = p_event_id and display_status = 'aprovado';
+end;
+$$;
+
+revoke execute on function app_check_telao_display_token(uuid, text) from public;
+grant execute on function app_rotate_telao_display_token(uuid) to authenticated;
+grant execute on function app_telao_feed(uuid, text) to anon, authenticated;
+grant execute on function app_telao_mark_shown(uuid, text, uuid) to anon, authenticated;
@@ -0,0 +1,51 @@
+-- Session lifetime ceiling.
+--
+-- app_login and the check-ins take the session length from the caller and only
+-- had a lower bound, so a client could open a session lasting years. The
+-- ceiling now lives in app_open_session, which every session goes through:
+-- no session outlives 12 hours, whatever is asked for.
+
+create or replace function app_open_session(
+  p_user_id uuid,
+  p_staff_id uuid,
+  p_collaborator_id uuid,
+  p_event_id uuid,
+  p_ttl_hours int,
+  p_company_id uuid default null
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_session auth_sessions;
+  v_header text;
+  v_payload text;
+begin
+  insert into auth_sessions (user_id, staff_id, collaborator_id, event_id, company_id, expires_at)
+  values (
+    p_user_id, p_staff_id, p_collaborator_id, p_event_id, p_company_id,
+    now() + make_interval(hours => least(greatest(1, coalesce(p_ttl_hours, 12)), 12))
+  )
+  returning * into v_session;
+
+  v_header := app_base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'));
+  v_payload := app_base64url(convert_to(jsonb_strip_nulls(jsonb_build_object(
+    'sid', v_session.id,
+    'sub', coalesce(p_user_id, p_staff_id, p_collaborator_id),
+    'event_id', p_event_id,
+    'company_id', p_company_id,
+    'role', 'authenticated',
+    'aud', 'authenticated',
+    'iat', floor(extract(epoch from v_session.created_at))::bigint,
+    'exp', floor(extract(epoch from v_session.expires_at))::bigint
+  ))::text, 'utf8'));
+
+  return jsonb_build_object(
+    'token', v_header || '.' || v_payload || '.' || app_sign_session(v_header || '.' || v_payload),
+    'expires_at', v_session.expires_at
+  );
+end;
+$$;
+
+-- Sessions opened before this migration keep at most 12 hours from now
+update auth_sessions
+   set expires_at = now() + interval '12 hours'
+ where revoked_at is null and expires_at > now() + interval '12 hours';
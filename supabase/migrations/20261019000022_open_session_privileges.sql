@@ -0,0 +1,6 @@
+-- app_open_session gained p_company_id in the booth sessions migration, which
+-- makes it a new function: the revoke on the old signature did not carry over,
+-- so clients could call it and open a session for anyone. Only the login and
+-- check-in functions may open sessions.
+
+revoke all on function app_open_session(uuid, uuid, uuid, uuid, int, uuid) from public, anon, authenticated;
@@ -0,0 +1,10 @@
+-- Offline queue replays (services/offlineQueue.ts): a report or stock movement
+-- may reach the server while its response is lost, so the booth queues it and
+-- sends it again. Each queued operation carries an id generated on the device;
+-- the second insert with the same client_id is ignored instead of stored twice.
+
+alter table reports add column if not exists client_id uuid;
+alter table stock_movements add column if not exists client_id uuid;
+
+create unique index if not exists reports_client_id_key on reports (client_id);
+create unique index if not exists stock_movements_client_id_key on stock_movements (client_id);
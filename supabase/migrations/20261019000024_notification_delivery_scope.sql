@@ -0,0 +1,98 @@
+-- Notifications (services/notifications.ts) no longer carry their own
+-- destination. Any session of an event could write an outbox row with an
+-- arbitrary URL and headers, which the workers of other clients then POSTed,
+-- and every booth could read the event's webhook URLs, their headers and who
+-- receives telão notifications.
+--
+--   * Clients queue notifications with app_enqueue_notification(), which
+--     writes one outbox row per active target of the channel (target_id) or,
+--     when the event has none, per built-in default (default_target_index).
+--     The row keeps the payload; the request is built from the target when it
+--     is delivered.
+--   * Telão notifications get their recipients here, from
+--     telao_notification_recipients, instead of from the booth.
+--   * Only the people managing an event read and deliver its outbox, and only
+--     they read its targets and telão recipients.
+
+alter table notification_outbox add column if not exists target_id uuid references notification_targets(id) on delete set null;
+alter table notification_outbox add column if not exists default_target_index int;
+alter table notification_outbox add column if not exists payload jsonb;
+-- Kept for the rows written before; new rows have no URL of their own
+alter table notification_outbox alter column url drop not null;
+
+drop policy if exists notification_outbox_all on notification_outbox;
+drop policy if exists notification_outbox_select on notification_outbox;
+drop policy if exists notification_outbox_update on notification_outbox;
+create policy notification_outbox_select on notification_outbox for select
+  using (event_id = any((select app_managed_event_ids())));
+create policy notification_outbox_update on notification_outbox for update
+  using (event_id = any((select app_managed_event_ids())))
+  with check (event_id = any((select app_managed_event_ids())));
+
+-- The *_write policies still let managers read them
+drop policy if exists notification_targets_select on notification_targets;
+drop policy if exists telao_notification_recipients_select on telao_notification_recipients;
+
+-- p_default_targets are the names of the channel's built-in targets, used
+-- only when the event has no target of its own for the channel. Returns the
+-- rows written; none when the idempotency key was already queued.
+create or replace function app_enqueue_notification(
+  p_event_id uuid,
+  p_channel text,
+  p_idempotency_key text,
+  p_payload jsonb,
+  p_default_targets text[]
+)
+returns setof notification_outbox language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_payload jsonb := coalesce(p_payload, '{}'::jsonb);
+  v_phones jsonb;
+  v_staff jsonb;
+begin
+  if not (p_event_id = any(app_accessible_event_ids())) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  if p_channel = 'telao' then
+    select jsonb_agg(s.phone order by s.name),
+           jsonb_agg(jsonb_build_object('name', s.name, 'phone', s.phone) order by s.name)
+      into v_phones, v_staff
+      from telao_notification_recipients r
+      join staff s on s.id = r.staff_id
+     where r.event_id = p_event_id
+       and coalesce(s.name, '') <> '' and coalesce(s.phone, '') <> '';
+
+    -- Nobody to tell
+    if v_phones is null then
+      return;
+    end if;
+    v_payload := v_payload || jsonb_build_object('targetPhones', v_phones, 'selectedStaff', v_staff);
+  end if;
+
+  if exists (select 1 from notification_targets t where t.event_id = p_event_id and t.channel = p_channel) then
+    return query
+      with queued as (
+        insert into notification_outbox (idempotency_key, event_id, channel, target_name, target_id, payload)
+        select p_idempotency_key || ':' || t.id, p_event_id, p_channel, t.name, t.id, v_payload
+          from notification_targets t
+         where t.event_id = p_event_id and t.channel = p_channel and t.is_active
+        on conflict (idempotency_key) do nothing
+        returning *
+      )
+      select * from queued;
+  else
+    return query
+      with queued as (
+        insert into notification_outbox (idempotency_key, event_id, channel, target_name, default_target_index, payload)
+        select p_idempotency_key || ':default-' || (d.ord - 1), p_event_id, p_channel, d.name, (d.ord - 1)::int, v_payload
+          from unnest(p_default_targets) with ordinality as d(name, ord)
+        on conflict (idempotency_key) do nothing
+        returning *
+      )
+      select * from queued;
+  end if;
+end;
+$$;
+
+revoke all on function app_enqueue_notification(uuid, text, text, jsonb, text[]) from public;
+grant execute on function app_enqueue_notification(uuid, text, text, jsonb, text[]) to anon, authenticated;
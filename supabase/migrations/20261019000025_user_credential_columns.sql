@@ -0,0 +1,23 @@
+-- users_select lets organizers read the accounts of their events, and the
+-- table-wide grant handed them every column, password_hash and the legacy
+-- plaintext password included. Clients now get column privileges on
+-- everything else; app_login, app_set_password and the other security
+-- definer functions still read the credentials. Revoking the two columns
+-- alone would change nothing while the table-wide grant stands.
+--
+-- Columns added to users later need their own grant.
+
+revoke select on users from anon, authenticated;
+
+do $$
+declare
+  v_columns text;
+begin
+  select string_agg(quote_ident(column_name), ', ' order by ordinal_position)
+    into v_columns
+    from information_schema.columns
+   where table_schema = 'public' and table_name = 'users'
+     and column_name not in ('password', 'password_hash');
+
+  execute format('grant select (%s) on public.users to anon, authenticated', v_columns);
+end $$;
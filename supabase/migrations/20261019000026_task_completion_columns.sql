@@ -0,0 +1,23 @@
+-- tasks_complete lets the assignee update their own task, and with it every
+-- column: details, due date, company, even the event. Like the users table
+-- (app_protect_user_columns), a trigger narrows what that policy allows: an
+-- assignee who does not manage the event may only complete a pending task.
+
+create or replace function app_protect_task_completion()
+returns trigger language plpgsql as $$
+begin
+  if current_user in ('anon', 'authenticated') and not (old.event_id = any(app_managed_event_ids())) and (
+    old.status <> 'Pendente'
+    or new.status <> 'Concluída'
+    or to_jsonb(new) - 'status' - 'completed_at' - 'updated_at'
+       is distinct from to_jsonb(old) - 'status' - 'completed_at' - 'updated_at'
+  ) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_protect_completion on tasks;
+create trigger tasks_protect_completion before update on tasks
+  for each row execute function app_protect_task_completion();
@@ -0,0 +1,121 @@
+-- The audit log copied whole rows, so a sale's buyer name, phone and CPF
+-- ended up in audit_log, readable by everyone who reads the event's log and
+-- kept after the sale itself is gone. app_audit_redacted_columns() names the
+-- personal columns of each table; app_audit_row() drops them like it drops
+-- credentials and records only that they changed (changed_fields).
+
+create or replace function app_audit_redacted_columns(p_table text)
+returns text[] language sql immutable as $$
+  select case p_table
+    when 'sales' then array['buyer_name', 'buyer_phone', 'buyer_cpf']
+    else '{}'::text[]
+  end;
+$$;
+
+create or replace function app_audit_row()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_old_full jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new_full jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  -- Credentials and personal data never reach the log; changing them only
+  -- shows up by name.
+  v_redacted text[] := array['password', 'password_hash'] || app_audit_redacted_columns(tg_table_name);
+  v_old jsonb := v_old_full - v_redacted;
+  v_new jsonb := v_new_full - v_redacted;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_changed text[] := '{}';
+  v_before jsonb := v_old;
+  v_after jsonb := v_new;
+  v_action text;
+  v_event_id uuid;
+  v_organizer_company_id uuid;
+  v_label text;
+  v_session auth_sessions;
+  v_actor_type text := 'system';
+  v_actor_id uuid;
+  v_actor_name text;
+begin
+  if tg_op = 'UPDATE' then
+    select coalesce(array_agg(k.key order by k.key), '{}') into v_changed
+    from jsonb_each(v_new_full) k
+    where k.value is distinct from v_old_full->k.key
+      and k.key <> 'updated_at';
+
+    if cardinality(v_changed) = 0 then
+      return null;
+    end if;
+
+    select jsonb_object_agg(k, v_old->k), jsonb_object_agg(k, v_new->k)
+    into v_before, v_after
+    from unnest(v_changed) k
+    where v_new ? k;
+
+    v_action := case
+      when v_old->>'deleted_at' is null and v_new->>'deleted_at' is not null then 'trash'
+      when v_old->>'deleted_at' is not null and v_new->>'deleted_at' is null then 'restore'
+      else 'update'
+    end;
+  else
+    v_action := case tg_op when 'INSERT' then 'create' else 'delete' end;
+  end if;
+
+  case tg_table_name
+    when 'events' then
+      v_event_id := (v_row->>'id')::uuid;
+      v_organizer_company_id := (v_row->>'organizer_company_id')::uuid;
+    when 'organizer_companies' then
+      v_organizer_company_id := (v_row->>'id')::uuid;
+    when 'staff' then
+      v_organizer_company_id := (v_row->>'organizer_company_id')::uuid;
+    when 'vehicle_stock', 'collaborators' then
+      select pc.event_id into v_event_id from participant_companies pc where pc.id = (v_row->>'company_id')::uuid;
+    else
+      v_event_id := (v_row->>'event_id')::uuid;
+  end case;
+
+  if v_organizer_company_id is null and v_event_id is not null then
+    select e.organizer_company_id into v_organizer_company_id from events e where e.id = v_event_id;
+  end if;
+
+  v_label := coalesce(
+    v_row->>'name',
+    v_row->>'label',
+    nullif(concat_ws(' ', v_row->>'marca', v_row->>'model', v_row->>'placa'), ''),
+    (select s.name from staff s where s.id = (v_row->>'staff_id')::uuid)
+  );
+
+  select * into v_session from app_current_session();
+  if v_session.user_id is not null then
+    v_actor_type := 'user';
+    v_actor_id := v_session.user_id;
+    select u.name into v_actor_name from users u where u.id = v_session.user_id;
+  elsif v_session.staff_id is not null then
+    v_actor_type := 'staff';
+    v_actor_id := v_session.staff_id;
+    select s.name into v_actor_name from staff s where s.id = v_session.staff_id;
+  elsif v_session.collaborator_id is not null then
+    v_actor_type := 'collaborator';
+    v_actor_id := v_session.collaborator_id;
+    select c.name into v_actor_name from collaborators c where c.id = v_session.collaborator_id;
+  end if;
+
+  insert into audit_log (
+    event_id, organizer_company_id, entity, entity_id, entity_label, action,
+    actor_type, actor_id, actor_name, before, after, changed_fields
+  ) values (
+    v_event_id, v_organizer_company_id, tg_table_name, coalesce(v_row->>'id', v_row->>'staff_id'), v_label, v_action,
+    v_actor_type, v_actor_id, v_actor_name,
+    case when tg_op = 'INSERT' then null else v_before end,
+    case when tg_op = 'DELETE' then null else v_after end,
+    v_changed
+  );
+
+  return null;
+end;
+$$;
+
+-- Entries already written
+update audit_log
+   set before = before - app_audit_redacted_columns(entity),
+       after = after - app_audit_redacted_columns(entity)
+ where entity = 'sales';
@@ -0,0 +1,17 @@
+-- A lead's phone and email were copied into audit_log with the rest of the
+-- row. They join the personal columns the audit trigger leaves out.
+
+create or replace function app_audit_redacted_columns(p_table text)
+returns text[] language sql immutable as $$
+  select case p_table
+    when 'sales' then array['buyer_name', 'buyer_phone', 'buyer_cpf']
+    when 'leads' then array['phone', 'email']
+    else '{}'::text[]
+  end;
+$$;
+
+-- Entries already written
+update audit_log
+   set before = before - app_audit_redacted_columns(entity),
+       after = after - app_audit_redacted_columns(entity)
+ where entity = 'leads';
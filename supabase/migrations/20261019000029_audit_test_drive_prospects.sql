@@ -0,0 +1,18 @@
+-- Test drive prospects give their name, phone and driver's license, which
+-- the audit trigger copied into audit_log like a sale's buyer details.
+
+create or replace function app_audit_redacted_columns(p_table text)
+returns text[] language sql immutable as $$
+  select case p_table
+    when 'sales' then array['buyer_name', 'buyer_phone', 'buyer_cpf']
+    when 'leads' then array['phone', 'email']
+    when 'test_drives' then array['prospect_name', 'prospect_phone', 'prospect_license']
+    else '{}'::text[]
+  end;
+$$;
+
+-- Entries already written
+update audit_log
+   set before = before - app_audit_redacted_columns(entity),
+       after = after - app_audit_redacted_columns(entity)
+ where entity = 'test_drives';
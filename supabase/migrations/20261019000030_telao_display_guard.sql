@@ -0,0 +1,37 @@
+-- The telão display queue (telao_requests.display_status) is the operators'
+-- to run, but telao_requests_insert let any company session add a request
+-- already approved, and telao_requests_update let the staff resolving a
+-- request at the booth approve or replay it. Clients now always insert into
+-- 'aguardando', and only the people managing the event move a request
+-- through the queue. app_telao_mark_shown runs as its owner and still marks
+-- celebrations as shown.
+
+create or replace function app_protect_telao_display()
+returns trigger language plpgsql as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.display_status := 'aguardando';
+    new.display_approved_at := null;
+    new.displayed_at := null;
+  elsif not (old.event_id = any(app_managed_event_ids())) and (
+    new.display_status is distinct from old.display_status
+    or new.display_approved_at is distinct from old.display_approved_at
+    or new.displayed_at is distinct from old.displayed_at
+  ) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists telao_requests_protect_display on telao_requests;
+create trigger telao_requests_protect_display before insert or update on telao_requests
+  for each row execute function app_protect_telao_display();
+
+-- Supabase grants execute to the client roles directly, so the revoke from
+-- public in the display migration left the token check callable.
+revoke all on function app_check_telao_display_token(uuid, text) from public, anon, authenticated;
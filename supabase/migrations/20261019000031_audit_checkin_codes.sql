@@ -0,0 +1,22 @@
+-- Personal and collaborator codes are check-in credentials: with the event's
+-- booth code they open a booth session. The audit trigger copied them into
+-- audit_log on every change, rotations included, so they are left out like
+-- the passwords.
+
+create or replace function app_audit_redacted_columns(p_table text)
+returns text[] language sql immutable as $$
+  select case p_table
+    when 'staff' then array['personal_code']
+    when 'collaborators' then array['collaborator_code']
+    when 'sales' then array['buyer_name', 'buyer_phone', 'buyer_cpf']
+    when 'leads' then array['phone', 'email']
+    when 'test_drives' then array['prospect_name', 'prospect_phone', 'prospect_license']
+    else '{}'::text[]
+  end;
+$$;
+
+-- Entries already written
+update audit_log
+   set before = before - app_audit_redacted_columns(entity),
+       after = after - app_audit_redacted_columns(entity)
+ where entity in ('staff', 'collaborators');
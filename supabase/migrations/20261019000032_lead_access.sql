@@ -0,0 +1,44 @@
+-- Leads are the contact details of the visitors a company met at its booth.
+--
+--   * leads_all let every session of the event through (staff booths read all
+--     companies), so the phones and e-mails of one company's visitors were open
+--     to the others' booths. Leads now belong to the company's collaborators
+--     and to the people managing the event.
+--   * A lead may only be linked to a sale of its own company; any sale id was
+--     accepted, which let a lead count as another company's conversion.
+--   * The visitor's name was still copied into audit_log, and named the entry
+--     too. The entry label is built from the redacted row, so a lead's entries
+--     now go without one.
+
+drop policy if exists leads_all on leads;
+create policy leads_all on leads for all
+  using (
+    company_id = any((select app_managed_company_ids()))
+    or ((select app_current_collaborator_id()) is not null and company_id = any((select app_accessible_company_ids())))
+  )
+  with check (
+    (
+      company_id = any((select app_managed_company_ids()))
+      or ((select app_current_collaborator_id()) is not null and company_id = any((select app_accessible_company_ids())))
+    )
+    and (sale_id is null or exists (select 1 from sales s where s.id = sale_id and s.company_id = leads.company_id))
+  );
+
+create or replace function app_audit_redacted_columns(p_table text)
+returns text[] language sql immutable as $$
+  select case p_table
+    when 'staff' then array['personal_code']
+    when 'collaborators' then array['collaborator_code']
+    when 'sales' then array['buyer_name', 'buyer_phone', 'buyer_cpf']
+    when 'leads' then array['name', 'phone', 'email']
+    when 'test_drives' then array['prospect_name', 'prospect_phone', 'prospect_license']
+    else '{}'::text[]
+  end;
+$$;
+
+-- Entries already written
+update audit_log
+   set before = before - app_audit_redacted_columns(entity),
+       after = after - app_audit_redacted_columns(entity),
+       entity_label = null
+ where entity = 'leads';
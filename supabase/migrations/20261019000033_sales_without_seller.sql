@@ -0,0 +1,13 @@
+-- Units sold are counted from sales everywhere now (the ranking, the goals
+-- and the telão), like the revenue. The backfill in 20261019000015 skipped the
+-- vehicles already sold without a seller, which would drop them from the
+-- counts; they get a sale of their own, with no collaborator and no price.
+-- They count for the company but for no seller.
+
+insert into sales (event_id, company_id, vehicle_id, collaborator_id, created_at, updated_at)
+select pc.event_id, v.company_id, v.id, null, coalesce(v.sold_at, v.updated_at, v.created_at), now()
+  from vehicle_stock v
+  join participant_companies pc on pc.id = v.company_id
+ where v.status in ('Vendido', 'Faturado', 'Entregue')
+   and v.sold_by_collaborator_id is null
+   and not exists (select 1 from sales s where s.vehicle_id = v.id and s.cancelled_at is null);
@@ -0,0 +1,62 @@
+-- Completing a task (services/api.ts, completeTask) took three requests: the
+-- task, the staff activity and the company report. When the report failed
+-- after the task was already Concluída, the offline queue found the task done
+-- on replay and skipped it, and the report was lost. app_complete_task writes
+-- all three in one transaction; replaying it once the task is done changes
+-- nothing.
+
+create or replace function app_complete_task(
+  p_task_id uuid,
+  p_booth_code text,
+  p_staff_name text,
+  p_report_label text,
+  p_response text,
+  p_completed_at timestamptz default now()
+)
+returns boolean language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_task tasks;
+  v_company participant_companies;
+begin
+  select * into v_task
+    from tasks
+   where id = p_task_id and event_id = any(app_operated_event_ids())
+   for update;
+
+  if v_task.id is null then
+    raise exception 'task_not_found' using errcode = 'P0002';
+  end if;
+  -- Already applied, e.g. by an earlier attempt or from another device
+  if v_task.status = 'Concluída' then
+    return false;
+  end if;
+  if v_task.status = 'Cancelada' then
+    raise exception 'task_cancelled' using errcode = '55000';
+  end if;
+  if v_task.staff_id is distinct from app_current_staff_id() then
+    raise exception 'task_reassigned' using errcode = '55000';
+  end if;
+
+  update tasks
+     set status = 'Concluída', completed_at = coalesce(p_completed_at, now()), updated_at = now()
+   where id = v_task.id;
+
+  select * into v_company from participant_companies where id = v_task.company_id;
+
+  -- Counts towards the rankings
+  insert into staff_activities (staff_id, event_id, description, timestamp)
+  values (
+    v_task.staff_id, v_task.event_id,
+    format('Tarefa concluída: Realizar ''%s'' na empresa ''%s'' [%s]', v_task.action_label, coalesce(v_company.name, ''), coalesce(v_company.booth_code, p_booth_code)),
+    coalesce(p_completed_at, now())
+  );
+
+  insert into reports (event_id, booth_code, staff_name, report_label, response, timestamp)
+  values (v_task.event_id, p_booth_code, p_staff_name, p_report_label, p_response, coalesce(p_completed_at, now()));
+
+  return true;
+end;
+$$;
+
+revoke all on function app_complete_task(uuid, text, text, text, text, timestamptz) from public;
+grant execute on function app_complete_task(uuid, text, text, text, text, timestamptz) to anon, authenticated;
@@ -0,0 +1,51 @@
+-- A personal code or a collaborator code is all it takes, with a booth code,
+-- to open a booth session (app_staff_checkin, app_collaborator_checkin). Yet
+-- staff_select lets every booth session of an event read its staff, and
+-- collaborators_select lets staff sessions read every company's collaborators,
+-- codes included: anyone checked in could check in as somebody else, even
+-- after app_revoke_booth_access rotated a lost badge's code.
+--
+-- As for users (20261019000025), clients get column privileges on everything
+-- but the codes. The people managing a staff member or a company read them
+-- with app_checkin_codes.
+--
+-- Columns added to staff or collaborators later need their own grant.
+
+revoke select on staff from anon, authenticated;
+revoke select on collaborators from anon, authenticated;
+
+do $$
+declare
+  v_table text;
+  v_columns text;
+begin
+  foreach v_table in array array['staff', 'collaborators'] loop
+    select string_agg(quote_ident(column_name), ', ' order by ordinal_position)
+      into v_columns
+      from information_schema.columns
+     where table_schema = 'public' and table_name = v_table
+       and column_name not in ('personal_code', 'collaborator_code');
+
+    execute format('grant select (%s) on public.%I to anon, authenticated', v_columns, v_table);
+  end loop;
+end $$;
+
+-- p_table is 'staff' or 'collaborators'. Rows the session does not manage are
+-- left out.
+create or replace function app_checkin_codes(p_table text, p_ids uuid[])
+returns table (id uuid, code text) language sql stable security definer set search_path = public as $$
+  select s.id, s.personal_code
+    from staff s
+   where p_table = 'staff'
+     and s.id = any(p_ids)
+     and s.organizer_company_id = any(app_managed_organizer_company_ids())
+  union all
+  select c.id, c.collaborator_code
+    from collaborators c
+   where p_table = 'collaborators'
+     and c.id = any(p_ids)
+     and c.company_id = any(app_managed_company_ids());
+$$;
+
+revoke all on function app_checkin_codes(text, uuid[]) from public;
+grant execute on function app_checkin_codes(text, uuid[]) to anon, authenticated;
@@ -0,0 +1,322 @@
+-- Notifications are delivered by the database instead of by the browsers.
+-- Since 20261019000024 only the people managing an event could claim its
+-- outbox, so what a booth raised was only sent while an organizer had the app
+-- open. Now:
+--
+--   * Each outbox entry is sent with pg_net as soon as it is written (or put
+--     back in the queue), once the transaction commits.
+--   * pg_cron runs app_deliver_notifications every 30 seconds: it records the
+--     answers pg_net got and retries what is due, with the backoff the client
+--     worker used (10 s doubling up to 15 min, 8 attempts).
+--   * The channels' built-in targets live in notification_default_targets,
+--     mirrored from NOTIFICATION_CHANNELS in services/notifications.ts, so
+--     clients no longer name them when queueing.
+--   * Clients only learn how far their entries got, through
+--     app_notification_status; URLs and headers never leave the database.
+
+create extension if not exists pg_net;
+create extension if not exists pg_cron;
+
+alter table notification_outbox add column if not exists request_id bigint;
+
+-- --- Built-in targets ---
+
+create table if not exists notification_default_targets (
+  channel text not null,
+  position int not null,
+  name text not null,
+  url text not null,
+  headers jsonb not null default '{}'::jsonb,
+  payload_template text,
+  primary key (channel, position)
+);
+
+-- Read only by the delivery functions
+alter table notification_default_targets enable row level security;
+
+insert into notification_default_targets (channel, position, name, url, payload_template) values
+  ('company_call', 0, 'Triad3 - Chamados', 'https://webhook.triad3.io/webhook/chamados-cie2-0', null),
+  ('telao', 0, 'Triad3 - Solicitar telão', 'https://webhook.triad3.io/webhook/solicitar-telao-cie',
+    '{"companyName":"{{companyName}}","collaboratorName":"{{collaboratorName}}","vehicleMarca":"{{vehicleMarca}}","vehicleModel":"{{vehicleModel}}","targetPhones":"{{targetPhones}}","timestamp":"{{timestamp}}"}'),
+  ('telao', 1, 'Prospect AI Chat', 'https://webhook.prospectai.chat/webhook/0ec71931-e44c-45e2-b4e3-434a9767a11d',
+    '{"collaboratorName":"{{collaboratorName}}","companyName":"{{companyName}}","selectedStaff":"{{selectedStaff}}"}'),
+  ('sales_checkin', 0, 'Triad3 - Check-in de vendas', 'https://webhook.triad3.io/webhook/chek-in-vendas-cie', null),
+  ('staff_alert', 0, 'Triad3 - Alerta equipe', 'https://webhook.triad3.io/webhook/emitiralerta-staffs', null),
+  ('group_alert', 0, 'Triad3 - Alerta grupo', 'https://webhook.triad3.io/webhook/aca7d18d-8c37-49ae-92a4-03285bc6729a', null),
+  ('staff_call', 0, 'Triad3 - Notificar chamado', 'https://webhook.triad3.io/webhook/notificar-chamado-cie', null),
+  ('booth_completed', 0, 'Triad3 - Notificar empresa', 'https://webhook.triad3.io/webhook/notificar-empesa-cie', null),
+  ('company_registered', 0, 'Triad3 - Nova empresa', 'https://webhook.triad3.io/webhook/c12c6861-f16a-466d-a450-8b2aae9110f9', null)
+on conflict (channel, position) do update
+  set name = excluded.name, url = excluded.url, headers = excluded.headers, payload_template = excluded.payload_template;
+
+-- --- Payload templates ---
+-- Same rules as renderPayload in services/notifications.ts: a string that is
+-- exactly "{{path}}" becomes the raw value, placeholders inside longer strings
+-- become its text.
+
+create or replace function app_render_notification_node(p_node jsonb, p_payload jsonb)
+returns jsonb language plpgsql immutable as $$
+declare
+  v_text text;
+  v_match text[];
+  v_value jsonb;
+begin
+  case jsonb_typeof(p_node)
+    when 'string' then
+      v_text := p_node #>> '{}';
+      v_match := regexp_match(v_text, '^\{\{\s*([\w.]+)\s*\}\}$');
+      if v_match is not null then
+        return coalesce(p_payload #> string_to_array(v_match[1], '.'), 'null'::jsonb);
+      end if;
+      for v_match in select m from regexp_matches(v_text, '(\{\{\s*([\w.]+)\s*\}\})', 'g') m loop
+        v_value := p_payload #> string_to_array(v_match[2], '.');
+        v_text := replace(v_text, v_match[1], case
+          when v_value is null or jsonb_typeof(v_value) = 'null' then ''
+          when jsonb_typeof(v_value) in ('object', 'array') then v_value::text
+          else v_value #>> '{}'
+        end);
+      end loop;
+      return to_jsonb(v_text);
+    when 'array' then
+      return (
+        select coalesce(jsonb_agg(app_render_notification_node(e.value, p_payload) order by e.ord), '[]'::jsonb)
+          from jsonb_array_elements(p_node) with ordinality as e(value, ord)
+      );
+    when 'object' then
+      return (
+        select coalesce(jsonb_object_agg(e.key, app_render_notification_node(e.value, p_payload)), '{}'::jsonb)
+          from jsonb_each(p_node) e
+      );
+    else
+      return p_node;
+  end case;
+end;
+$$;
+
+create or replace function app_render_notification_payload(p_template text, p_payload jsonb)
+returns jsonb language sql immutable as $$
+  select case
+    when p_template is null or trim(p_template) = '' then p_payload
+    else app_render_notification_node(p_template::jsonb, p_payload)
+  end;
+$$;
+
+-- --- Delivery ---
+
+-- Hands one entry to pg_net. The request leaves once the transaction commits;
+-- app_settle_notifications records the answer.
+create or replace function app_send_notification(p_entry notification_outbox)
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_url text;
+  v_headers jsonb;
+  v_template text;
+  v_body jsonb;
+  v_request_id bigint;
+begin
+  if p_entry.target_id is not null then
+    select t.url, t.headers, t.payload_template into v_url, v_headers, v_template
+      from notification_targets t
+     where t.id = p_entry.target_id and t.is_active;
+  elsif p_entry.default_target_index is not null then
+    select d.url, d.headers, d.payload_template into v_url, v_headers, v_template
+      from notification_default_targets d
+     where d.channel = p_entry.channel and d.position = p_entry.default_target_index;
+  end if;
+
+  -- Removed or turned off, or written before targets were resolved at delivery
+  if v_url is null then
+    update notification_outbox
+       set status = 'failed', attempts = attempts + 1, last_error = 'Destino de notificação removido ou desativado.', locked_at = null
+     where id = p_entry.id;
+    return;
+  end if;
+
+  begin
+    v_body := app_render_notification_payload(v_template, p_entry.payload);
+  exception when others then
+    -- A broken payload template fails the same way every time
+    update notification_outbox
+       set status = 'failed', attempts = attempts + 1, last_error = sqlerrm, locked_at = null
+     where id = p_entry.id;
+    return;
+  end;
+
+  v_request_id := net.http_post(
+    url := v_url,
+    body := coalesce(v_body, '{}'::jsonb),
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Idempotency-Key', p_entry.idempotency_key) || coalesce(v_headers, '{}'::jsonb),
+    timeout_milliseconds := 10000
+  );
+
+  update notification_outbox
+     set status = 'sending', request_id = v_request_id, locked_at = now()
+   where id = p_entry.id;
+end;
+$$;
+
+-- Records what pg_net got back for the entries being sent; null p_ids settles
+-- them all. Entries without an answer after two minutes count as failed
+-- attempts (pg_net only keeps answers for a while).
+create or replace function app_settle_notifications(p_ids uuid[] default null)
+returns void language plpgsql volatile security definer set search_path = public as $$
+begin
+  update notification_outbox o
+     set status = case
+           when r.status_code between 200 and 299 then 'delivered'
+           when o.attempts + 1 >= 8 then 'failed'
+           else 'pending'
+         end,
+         attempts = o.attempts + 1,
+         delivered_at = case when r.status_code between 200 and 299 then now() end,
+         last_error = case
+           when r.status_code between 200 and 299 then null
+           else coalesce(nullif(r.error_msg, ''), 'HTTP ' || r.status_code)
+         end,
+         next_attempt_at = now() + least(interval '10 seconds' * power(2, o.attempts), interval '15 minutes'),
+         locked_at = null,
+         request_id = null
+    from net._http_response r
+   where r.id = o.request_id
+     and o.status = 'sending'
+     and (p_ids is null or o.id = any(p_ids));
+
+  update notification_outbox o
+     set status = case when o.attempts + 1 >= 8 then 'failed' else 'pending' end,
+         attempts = o.attempts + 1,
+         last_error = 'O destino não respondeu.',
+         next_attempt_at = now() + least(interval '10 seconds' * power(2, o.attempts), interval '15 minutes'),
+         locked_at = null,
+         request_id = null
+   where o.status = 'sending'
+     and (o.locked_at is null or o.locked_at < now() - interval '2 minutes')
+     and (p_ids is null or o.id = any(p_ids));
+end;
+$$;
+
+create or replace function app_deliver_notifications()
+returns void language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_entry notification_outbox;
+begin
+  perform app_settle_notifications();
+
+  for v_entry in
+    select * from notification_outbox
+     where status = 'pending' and next_attempt_at <= now()
+     order by next_attempt_at
+     limit 50
+     for update skip locked
+  loop
+    perform app_send_notification(v_entry);
+  end loop;
+end;
+$$;
+
+-- First attempt right away: new entries, and failed ones a manager put back
+-- in the queue (resendOutboxEntry)
+create or replace function app_send_queued_notification()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if new.status = 'pending' and new.next_attempt_at <= now() then
+    perform app_send_notification(new);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists notification_outbox_send on notification_outbox;
+create trigger notification_outbox_send after insert or update of status on notification_outbox
+  for each row execute function app_send_queued_notification();
+
+select cron.schedule('deliver-notifications', '30 seconds', 'select public.app_deliver_notifications()');
+
+revoke all on function app_render_notification_node(jsonb, jsonb) from public, anon, authenticated;
+revoke all on function app_render_notification_payload(text, jsonb) from public, anon, authenticated;
+revoke all on function app_send_notification(notification_outbox) from public, anon, authenticated;
+revoke all on function app_settle_notifications(uuid[]) from public, anon, authenticated;
+revoke all on function app_deliver_notifications() from public, anon, authenticated;
+revoke all on function app_send_queued_notification() from public, anon, authenticated;
+
+-- --- Client RPCs ---
+
+-- The built-in targets come from notification_default_targets now
+drop function if exists app_enqueue_notification(uuid, text, text, jsonb, text[]);
+
+-- Returns the rows written; none when the idempotency key was already queued.
+create or replace function app_enqueue_notification(
+  p_event_id uuid,
+  p_channel text,
+  p_idempotency_key text,
+  p_payload jsonb
+)
+returns setof notification_outbox language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_payload jsonb := coalesce(p_payload, '{}'::jsonb);
+  v_phones jsonb;
+  v_staff jsonb;
+begin
+  if not (p_event_id = any(app_accessible_event_ids())) then
+    raise exception 'forbidden' using errcode = '42501';
+  end if;
+
+  if p_channel = 'telao' then
+    select jsonb_agg(s.phone order by s.name),
+           jsonb_agg(jsonb_build_object('name', s.name, 'phone', s.phone) order by s.name)
+      into v_phones, v_staff
+      from telao_notification_recipients r
+      join staff s on s.id = r.staff_id
+     where r.event_id = p_event_id
+       and coalesce(s.name, '') <> '' and coalesce(s.phone, '') <> '';
+
+    -- Nobody to tell
+    if v_phones is null then
+      return;
+    end if;
+    v_payload := v_payload || jsonb_build_object('targetPhones', v_phones, 'selectedStaff', v_staff);
+  end if;
+
+  if exists (select 1 from notification_targets t where t.event_id = p_event_id and t.channel = p_channel) then
+    return query
+      with queued as (
+        insert into notification_outbox (idempotency_key, event_id, channel, target_name, target_id, payload)
+        select p_idempotency_key || ':' || t.id, p_event_id, p_channel, t.name, t.id, v_payload
+          from notification_targets t
+         where t.event_id = p_event_id and t.channel = p_channel and t.is_active
+        on conflict (idempotency_key) do nothing
+        returning *
+      )
+      select * from queued;
+  else
+    return query
+      with queued as (
+        insert into notification_outbox (idempotency_key, event_id, channel, target_name, default_target_index, payload)
+        select p_idempotency_key || ':default-' || d.position, p_event_id, p_channel, d.name, d.position, v_payload
+          from notification_default_targets d
+         where d.channel = p_channel
+        on conflict (idempotency_key) do nothing
+        returning *
+      )
+      select * from queued;
+  end if;
+end;
+$$;
+
+revoke all on function app_enqueue_notification(uuid, text, text, jsonb) from public;
+grant execute on function app_enqueue_notification(uuid, text, text, jsonb) to anon, authenticated;
+
+-- How far entries the session may see got: only their status.
+create or replace function app_notification_status(p_ids uuid[])
+returns table (id uuid, status text) language plpgsql volatile security definer set search_path = public as $$
+begin
+  perform app_settle_notifications(p_ids);
+
+  return query
+    select o.id, o.status
+      from notification_outbox o
+     where o.id = any(p_ids) and o.event_id = any(app_accessible_event_ids());
+end;
+$$;
+
+revoke all on function app_notification_status(uuid[]) from public;
+grant execute on function app_notification_status(uuid[]) to anon, authenticated;
@@ -15,6 +15,22 @@ export interface User {
   photoUrl?: string;
 }
 
+export interface AuthSession {
+  token: string; // Signed by the server; opaque to the client
+  expiresAt: string;
+  user: User;
+}
+
+// A staff or collaborator check-in as verified by the server. Exactly one of
+// `staff` and `collaborator` is set.
+export interface BoothSession {
+  expiresAt: string;
+  staff?: Staff;
+  collaborator?: Collaborator;
+  company: ParticipantCompany;
+  event: Event;
+}
+
 export interface OrganizerCompany {
   id: string;
   name: string;
@@ -31,6 +47,7 @@ export interface Event {
   logoUrl: string;
   organizerCompanyId: string;
   isActive: boolean;
+  deletedAt?: string | null;
 }
 
 export interface Department {
@@ -42,12 +59,13 @@ export interface Department {
 export interface Staff {
   id: string;
   name: string;
-  personalCode: string;
+  personalCode?: string; // Only for the people managing the staff member (app_checkin_codes)
   organizerCompanyId: string;
   phone?: string;
   photoUrl?: string;
   departmentId?: string;
   role?: string;
+  deletedAt?: string | null;
 }
 
 export interface ParticipantCompany {
@@ -61,6 +79,7 @@ export interface ParticipantCompany {
   buttonIds: string[];
   logoUrl?: string;
   canOpenCall?: boolean;
+  deletedAt?: string | null;
 }
 
 export interface Collaborator {
@@ -69,12 +88,24 @@ export interface Collaborator {
   email?: string;
   phone?: string;
   role?: string;
-  collaboratorCode: string;
+  collaboratorCode?: string; // Only for the people managing the company (app_checkin_codes)
   companyId: string;
   createdAt: string;
   photoUrl?: string;
 }
 
+// Lifecycle of a vehicle at the fair (services/vehicleLifecycle.ts).
+// CANCELADO is only a history entry: cancelling returns the car to DISPONIVEL.
+export enum VehicleStatus {
+  DISPONIVEL = 'Disponível',
+  RESERVADO = 'Reservado',
+  EM_NEGOCIACAO = 'Em negociação',
+  VENDIDO = 'Vendido',
+  FATURADO = 'Faturado',
+  ENTREGUE = 'Entregue',
+  CANCELADO = 'Cancelado',
+}
+
 export interface Vehicle {
   id: string;
   companyId: string;
@@ -83,9 +114,69 @@ export interface Vehicle {
   placa?: string;
   photoUrl: string;
   createdAt: string;
-  status: 'Disponível' | 'Vendido';
+  status: Exclude<VehicleStatus, VehicleStatus.CANCELADO>;
+  reservedUntil?: string | null; // RESERVADO holds until then, then counts as DISPONIVEL
   updatedAt?: string;
   soldByCollaboratorId?: string;
+  soldAt?: string | null;
+  deletedAt?: string | null;
+}
+
+export interface VehicleStatusChange {
+  id: string;
+  vehicleId: string;
+  companyId: string;
+  fromStatus: VehicleStatus;
+  toStatus: VehicleStatus;
+  // Who made the change: the collaborator (seller), the staff member or the admin
+  collaboratorId?: string | null;
+  staffId?: string | null;
+  userId?: string | null;
+  reservedUntil?: string | null;
+  note?: string | null;
+  createdAt: string;
+  collaborator?: { name: string } | null;
+  staff?: { name: string } | null;
+  user?: { name: string } | null;
+  vehicle?: { marca: string; model: string; placa?: string; photoUrl?: string } | null;
+  company?: { id: string; name: string } | null;
+}
+
+export enum PaymentMethod {
+  A_VISTA = 'a_vista',
+  FINANCIADO = 'financiado',
+  CONSORCIO = 'consorcio',
+}
+
+// The deal behind a sold vehicle (services/sales.ts)
+export interface Sale {
+  id: string;
+  eventId: string;
+  companyId: string;
+  vehicleId: string;
+  collaboratorId?: string | null;
+  staffId?: string | null;
+  userId?: string | null;
+  salePrice: number | null; // null for sales recorded before prices were kept
+  discount: number;
+  paymentMethod?: PaymentMethod | null;
+  tradeInVehicle?: string | null;
+  tradeInValue?: number | null;
+  // Buyer contact, only stored with consent
+  buyerName?: string | null;
+  buyerPhone?: string | null;
+  buyerCpf?: string | null; // Digits only
+  buyerConsentAt?: string | null;
+  cancelledAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Sale with the vehicle, company and seller joined for display
+export interface FullSale extends Sale {
+  vehicle: { marca: string; model: string; placa?: string; status: VehicleStatus } | null;
+  company: { id: string; name: string; logoUrl?: string } | null;
+  collaborator: { id: string; name: string; photoUrl?: string } | null;
 }
 
 export enum ReportType {
@@ -94,6 +185,11 @@ export enum ReportType {
   YES_NO = 'yes_no',
   CHECKLIST = 'checklist',
   NOTIFY_CALL = 'notify_call',
+  NUMBER = 'number',
+  RATING = 'rating',
+  PHOTO = 'photo',
+  SIGNATURE = 'signature',
+  DATE_TIME = 'date_time',
 }
 
 export interface ReportOption {
@@ -101,6 +197,7 @@ export interface ReportOption {
   label: string;
 }
 
+// Single follow-up of the first button format, superseded by `form`
 export interface FollowUpConfig {
   triggerValue: 'Sim' | 'Não';
   question: string;
@@ -108,13 +205,60 @@ export interface FollowUpConfig {
   options?: ReportOption[];
 }
 
+export type FormQuestionType = Exclude<ReportType, ReportType.NOTIFY_CALL>;
+
+export type RatingScale = 'stars' | 'nps'; // 1 to 5 stars, or 0 to 10
+export type DateTimeMode = 'date' | 'time' | 'datetime';
+
+// Sends one answer of a single-choice question somewhere other than `next`
+export interface FormBranch {
+  optionId: string; // Option id; yes/no questions use the ids in YES_NO_OPTIONS
+  next: string | null; // Question id, or null to end the form
+}
+
+export interface FormQuestion {
+  id: string;
+  question: string;
+  type: FormQuestionType;
+  options?: ReportOption[];
+  required: boolean;
+  next?: string; // Question asked after this one; unset ends the form
+  branches?: FormBranch[];
+  min?: number; // NUMBER bounds, each optional
+  max?: number;
+  scale?: RatingScale; // RATING, stars when unset
+  dateTimeMode?: DateTimeMode; // DATE_TIME, date and time when unset
+  // Booth score (services/boothScores.ts): points per option id of choice and
+  // checklist questions, and whether a RATING counts
+  optionWeights?: Record<string, number>;
+  scored?: boolean;
+}
+
+// The questions of a report button (services/reportForms.ts). The first
+// question starts the form and every path must end: no cycles.
+export interface ReportForm {
+  questions: FormQuestion[];
+}
+
+export interface ReportAnswer {
+  questionId: string;
+  question: string; // Question text when answered
+  type: FormQuestionType;
+  // Text; chosen option labels; a number (NUMBER, RATING); image URLs (PHOTO);
+  // the signature image URL (SIGNATURE); yyyy-mm-dd, HH:mm or both joined by 'T' (DATE_TIME)
+  value: string | string[] | number;
+  optionIds?: string[]; // Choice questions: ids of the chosen options, whose labels are in `value`
+}
+
 export interface ReportButtonConfig {
   id: string;
+  eventId: string;
   label: string;
   question: string;
   type: ReportType;
-  options?: ReportOption[];
-  followUp?: FollowUpConfig;
+  options?: ReportOption[]; // question, type and options mirror the first question of `form`
+  followUp?: FollowUpConfig | null;
+  form?: ReportForm;
   departmentId?: string;
   staffId?: string;
   allowedStaffIds?: string[];
@@ -126,7 +270,8 @@ export interface ReportSubmission {
   boothCode: string;
   staffName: string;
   reportLabel: string;
-  response: string;
+  response: string; // Answers rendered as text; read `answers` for anything per question
+  answers?: ReportAnswer[]; // Questions asked, in order; missing on reports sent before forms
   timestamp: string;
 }
 
@@ -137,16 +282,40 @@ export interface StaffActivity {
     timestamp: string;
 }
 
-export interface AssignedTask {
-  id: string; // activity id
+export enum TaskStatus {
+  PENDENTE = 'Pendente',
+  CONCLUIDA = 'Concluída',
+  CANCELADA = 'Cancelada',
+}
+
+export enum TaskPriority {
+  BAIXA = 'baixa',
+  NORMAL = 'normal',
+  ALTA = 'alta',
+}
+
+export interface Task {
+  id: string;
+  eventId: string;
   staffId: string;
+  companyId?: string | null;
+  buttonId?: string | null; // Report button the task was created from, if any
+  actionLabel: string;
+  details: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  dueAt?: string | null;
+  completedAt?: string | null;
+  cancelledAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Task with the staff and company names joined for display
+export interface AssignedTask extends Task {
   staffName: string;
   companyName: string;
   boothCode?: string;
-  actionLabel: string;
-  description: string;
-  timestamp: string;
-  status: 'Pendente' | 'Concluída';
 }
 
 export interface CompanySalesData {
@@ -154,7 +323,22 @@ export interface CompanySalesData {
     name: string;
     logoUrl?: string;
     salesCount: number;
-    collaborators: (Collaborator & { salesCount: number; companyName: string })[];
+    revenue: number; // Net of discounts, from the sales that are still standing
+    saleDates: string[]; // When each of those sales was recorded, for goal progress
+    collaborators: (Collaborator & { salesCount: number; revenue: number; saleDates: string[]; companyName: string })[];
+}
+
+// Units a company (or one of its collaborators) should sell on a day (services/salesTargets.ts)
+export interface SalesTarget {
+  id: string;
+  eventId: string;
+  companyId: string;
+  collaboratorId?: string | null; // Null for the company target
+  day: string; // yyyy-mm-dd
+  targetUnits: number;
+  updatedAt?: string;
+  // Joined for collaborator targets
+  collaborator?: { name: string; photoUrl?: string } | null;
 }
 
 export interface StockMovement {
@@ -185,6 +369,82 @@ export interface FullStockMovement {
   } | null;
 }
 
+export enum TestDriveStatus {
+  AGENDADO = 'agendado',
+  EM_ANDAMENTO = 'em_andamento', // Checked out
+  CONCLUIDO = 'concluido', // Checked back in
+  CANCELADO = 'cancelado',
+  NAO_COMPARECEU = 'nao_compareceu',
+}
+
+export enum TestDriveOutcome {
+  PENDENTE = 'pendente',
+  CONVERTIDO = 'convertido',
+  NAO_CONVERTIDO = 'nao_convertido',
+}
+
+// A scheduled test drive (services/testDrives.ts)
+export interface TestDrive {
+  id: string;
+  eventId: string;
+  companyId: string;
+  vehicleId: string;
+  startsAt: string;
+  endsAt: string;
+  prospectName: string;
+  prospectPhone: string;
+  prospectLicense: string; // CNH number, digits only
+  prospectConsentAt: string;
+  status: TestDriveStatus;
+  checkedOutAt?: string | null;
+  checkedInAt?: string | null;
+  outcome: TestDriveOutcome;
+  staffId?: string | null;
+  collaboratorId?: string | null;
+  note?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Test drive with the same joins as FullStockMovement, plus who scheduled it
+export interface FullTestDrive extends TestDrive {
+  vehicle: FullStockMovement['vehicle'];
+  company: FullStockMovement['company'];
+  staff: { name: string } | null;
+  collaborator: { name: string } | null;
+}
+
+export enum LeadTemperature {
+  QUENTE = 'quente',
+  MORNO = 'morno',
+  FRIO = 'frio',
+}
+
+// A booth visitor captured by a collaborator (services/leads.ts)
+export interface Lead {
+  id: string;
+  eventId: string;
+  companyId: string;
+  collaboratorId?: string | null;
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  vehicleId?: string | null; // Vehicle of interest
+  temperature: LeadTemperature;
+  consentAt: string;
+  note?: string | null;
+  badgeKey?: string | null; // Who the scanned badge identifies; one lead per visitor and company
+  saleId?: string | null; // Set once the visitor buys
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FullLead extends Lead {
+  vehicle: { marca: string; model: string; placa?: string } | null;
+  collaborator: { name: string } | null;
+  sale: { cancelledAt?: string | null } | null;
+}
+
 export enum CallStatus {
   PENDENTE = 'Pendente',
   CONCLUIDO = 'Concluído',
@@ -213,6 +473,14 @@ export enum TelaoRequestStatus {
   CONCLUIDO = 'Concluído',
 }
 
+// Where a request stands in the big screen queue (services/telaoDisplay.ts)
+export enum TelaoDisplayStatus {
+  AGUARDANDO = 'aguardando',
+  APROVADO = 'aprovado',
+  EXIBIDO = 'exibido',
+  PULADO = 'pulado',
+}
+
 export interface TelaoRequest {
   id: string;
   createdAt: string;
@@ -224,13 +492,41 @@ export interface TelaoRequest {
   resolvedByStaffId?: string;
   resolverFeedback?: string;
   resolvedAt?: string;
+  displayStatus: TelaoDisplayStatus;
+  displayApprovedAt?: string | null;
+  displayedAt?: string | null;
   // Joined data for display
   company?: { name: string; logoUrl?: string };
-  collaborator?: { name: string };
-  vehicle?: { marca: string; model: string };
+  collaborator?: { name: string; photoUrl?: string };
+  vehicle?: { marca: string; model: string; photoUrl?: string };
   staff?: { name: string };
 }
 
+// A sale celebration waiting on the big screen
+export interface TelaoCelebration {
+  id: string;
+  approvedAt: string;
+  company: { name: string; logoUrl?: string };
+  collaborator: { name: string; photoUrl?: string } | null;
+  vehicle: { marca: string; model: string; photoUrl?: string } | null;
+}
+
+export interface TelaoPodiumEntry {
+  id: string;
+  name: string;
+  imageUrl?: string;
+  companyName?: string; // Sellers only
+  salesCount: number;
+}
+
+// Everything the big screen shows, read with the event's display token
+export interface TelaoFeed {
+  event: { name: string; logoUrl?: string } | null;
+  queue: TelaoCelebration[];
+  companies: TelaoPodiumEntry[];
+  sellers: TelaoPodiumEntry[];
+}
+
 export interface AlertLog {
   id: string;
   createdAt: string;
@@ -246,4 +542,265 @@ export interface AlertLog {
   // Joined data for display
   sender?: { name: string };
   department?: { name: string };
-}
\ No newline at end of file
+}
+export enum NotificationChannel {
+  COMPANY_CALL = 'company_call',
+  TELAO = 'telao',
+  SALES_CHECKIN = 'sales_checkin',
+  STAFF_ALERT = 'staff_alert',
+  GROUP_ALERT = 'group_alert',
+  STAFF_CALL = 'staff_call',
+  BOOTH_COMPLETED = 'booth_completed',
+  COMPANY_REGISTERED = 'company_registered',
+}
+
+export interface NotificationTarget {
+  id: string;
+  eventId: string;
+  channel: NotificationChannel;
+  name: string;
+  url: string;
+  headers: Record<string, string>;
+  payloadTemplate?: string | null; // JSON with {{field}} placeholders; null sends the payload as-is
+  isActive: boolean;
+  createdAt?: string;
+}
+
+// Payload shapes sent through each notification channel
+export interface CompanyCallNotification {
+  eventId: string;
+  companyName: string;
+  collaboratorName: string;
+  departmentName: string;
+  observation: string;
+  timestamp: string;
+}
+
+export interface TelaoNotification {
+  companyName: string;
+  collaboratorName: string;
+  vehicleMarca: string;
+  vehicleModel: string;
+  // Filled in when the notification is queued, from the event's telão recipients
+  targetPhones?: string[];
+  selectedStaff?: { name: string; phone: string }[];
+  timestamp: string;
+}
+
+export interface SalesCheckinNotification {
+  companyName: string;
+  boothCode: string;
+  [key: string]: unknown;
+}
+
+export interface StaffAlertNotification {
+  staffName: string;
+  staffPhone: string;
+  alertMessage: string;
+}
+
+export interface GroupAlertNotification {
+  message: string;
+}
+
+export interface StaffCallNotification {
+  staffName: string;
+  companyName: string;
+  targetStaffName: string;
+  targetStaffPhone: string;
+  reason: string;
+}
+
+export interface BoothCompletedNotification {
+  staffName: string;
+  boothCode: string;
+  companyName: string;
+}
+
+export interface CompanyRegisteredNotification extends ParticipantCompany {
+  eventName: string;
+}
+
+export interface NotificationPayloads {
+  [NotificationChannel.COMPANY_CALL]: CompanyCallNotification;
+  [NotificationChannel.TELAO]: TelaoNotification;
+  [NotificationChannel.SALES_CHECKIN]: SalesCheckinNotification;
+  [NotificationChannel.STAFF_ALERT]: StaffAlertNotification;
+  [NotificationChannel.GROUP_ALERT]: GroupAlertNotification;
+  [NotificationChannel.STAFF_CALL]: StaffCallNotification;
+  [NotificationChannel.BOOTH_COMPLETED]: BoothCompletedNotification;
+  [NotificationChannel.COMPANY_REGISTERED]: CompanyRegisteredNotification;
+}
+
+export enum OutboxStatus {
+  PENDING = 'pending',
+  SENDING = 'sending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+export interface OutboxEntry {
+  id: string;
+  idempotencyKey: string;
+  eventId: string;
+  channel: NotificationChannel;
+  targetName: string;
+  targetId?: string | null; // The event's own target, or else
+  defaultTargetIndex?: number | null; // one of the channel's built-in targets
+  url?: string | null; // Only on entries queued before targets were resolved at delivery
+  payload: unknown;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string | null;
+  lockedAt?: string | null;
+  deliveredAt?: string | null;
+  createdAt: string;
+}
+
+// Booth operations captured by the offline queue (services/offlineQueue.ts)
+export type OfflineOperation =
+  | { kind: 'report'; report: Omit<ReportSubmission, 'id' | 'timestamp'> }
+  | {
+      kind: 'taskCompletion';
+      taskId: string;
+      staffId: string;
+      reportDetails: { eventId: string; boothCode: string; staffName: string; actionLabel: string; actionResponse: string };
+    }
+  | { kind: 'stockMovement'; staffId: string; companyId: string; vehicleId: string; type: 'Venda' | 'Teste Drive'; eventId: string; vehicleLabel?: string };
+
+export interface QueuedOperation {
+  id?: number; // Assigned by IndexedDB; replay follows this order
+  operation: OfflineOperation;
+  capturedAt: string;
+  clientId?: string; // Sent with inserts so a replay the server already applied is ignored
+  status: 'pending' | 'conflict';
+  attempts: number;
+  lastError?: string;
+  conflictReason?: string;
+}
+
+// Tables whose changes are pushed by the realtime layer (services/realtime.ts)
+export type RealtimeTable = 'company_calls' | 'telao_requests' | 'stock_movements' | 'staff_activities' | 'tasks' | 'visit_plans' | 'vehicle_status_history' | 'sales' | 'test_drives' | 'leads';
+
+// `refresh` is sent when changes may have been missed (fallback polling, reconnects)
+export type RealtimeChange =
+  | { type: 'INSERT' | 'UPDATE'; new: Record<string, any> }
+  | { type: 'DELETE'; old: Record<string, any> }
+  | { type: 'refresh' };
+
+// Optional features an event can turn on for selected staff (services/eventModules.ts)
+export enum EventModule {
+  SALES_CHECKIN = 'sales_checkin',
+  NOTIFY_CALL = 'notify_call',
+  STOCK_CONTROL = 'stock_control',
+  LEAD_CAPTURE = 'lead_capture',
+}
+
+// How the fair encodes visitor badges (services/badges.ts)
+export type BadgeFormat = 'vcard' | 'json' | 'delimited';
+export type BadgeField = 'id' | 'name' | 'phone' | 'email';
+
+export interface BadgeParserOptions {
+  badgeFormat: BadgeFormat;
+  badgeDelimiter: string; // delimited
+  badgePositions: Record<BadgeField, number>; // delimited: 1-based column, 0 when absent
+  badgeJsonKeys: Record<BadgeField, string>; // json: key or dot path, empty when absent
+}
+
+export interface EventModuleOptions {
+  [EventModule.SALES_CHECKIN]: { notifyTelao: boolean };
+  [EventModule.NOTIFY_CALL]: Record<string, never>;
+  [EventModule.STOCK_CONTROL]: { allowTestDrive: boolean };
+  [EventModule.LEAD_CAPTURE]: BadgeParserOptions;
+}
+
+export interface EventModuleSettings<M extends EventModule = EventModule> {
+  id?: string; // Missing until the settings are first saved
+  eventId: string;
+  module: M;
+  isEnabled: boolean;
+  staffIds: string[];
+  departmentIds: string[]; // Everyone in these departments may use the module
+  options: EventModuleOptions[M];
+  updatedAt?: string;
+}
+
+// Soft-deleted records listed in the "Lixeira" (trash) view
+export enum TrashItemType {
+  EVENT = 'event',
+  COMPANY = 'company',
+  STAFF = 'staff',
+  VEHICLE = 'vehicle',
+}
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  name: string;
+  details: string; // Context shown under the name, e.g. booth code or owning company
+  deletedAt: string;
+}
+
+// Entries of the audit log written by the database on every mutation
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  TRASH = 'trash',
+  RESTORE = 'restore',
+}
+
+export type AuditActorType = 'user' | 'staff' | 'collaborator' | 'system';
+
+export interface AuditEntry {
+  id: string;
+  eventId?: string;
+  organizerCompanyId?: string;
+  entity: string; // Table name, e.g. 'vehicle_stock'
+  entityId?: string;
+  entityLabel?: string; // Name of the record at the time of the change
+  action: AuditAction;
+  actorType: AuditActorType;
+  actorId?: string;
+  actorName?: string;
+  before: Record<string, unknown> | null; // Full row for create/delete, changed fields only for updates
+  after: Record<string, unknown> | null;
+  changedFields: string[];
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  entity?: string;
+  actor?: string; // Matched against the actor's name
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+}
+
+// Ordered booths a staff member or a whole department should visit on one day
+// of an event (services/visitPlans.ts)
+export interface VisitPlan {
+  id: string;
+  eventId: string;
+  day: string; // yyyy-mm-dd
+  staffId?: string; // Exactly one of staffId and departmentId is set
+  departmentId?: string;
+  companyIds: string[]; // Participant companies, in visiting order
+  updatedAt?: string;
+}
+
+export enum PlannedVisitStatus {
+  PENDENTE = 'Pendente',
+  CONCLUIDA = 'Concluída',
+  PULADA = 'Pulada',
+  ATRASADA = 'Atrasada',
+}
+
+// One booth of a plan as seen by a given staff member, worked out from their reports
+export interface PlannedVisit {
+  company: ParticipantCompany;
+  status: PlannedVisitStatus;
+  buttons: ReportButtonConfig[]; // Actions the staff member has at this booth
+  pendingButtons: ReportButtonConfig[];
+  lastReportAt?: string;
+}